@@ -12,15 +12,27 @@ interface DetectionResult {
   hasPackageJson: boolean;
   hasEnvFiles: boolean;
 }
+/** 엔진 공통 플랜 스키마의 스텝 (install/run 스텝에는 file이 없음) */
 interface MigrationStep {
-  type: "create" | "modify" | "delete" | "copy";
-  description: string;
-  target: string;
-  required: boolean;
+  type:
+    | "create" | "write" | "append" | "delete" | "copy"
+    | "json.merge" | "text.patch" | "lines.ensure" | "install" | "run";
+  description?: string;
+  file?: string;
+  required?: boolean;
+  deps?: string[];
+  cmd?: string;
+  args?: string[];
 }
 interface Plan { steps: MigrationStep[]; confidence: number; warnings: string[]; }
-interface PlanResponse { detection: DetectionResult; plan: Plan; }
+interface PlanResponse { sessionId?: string; detection: DetectionResult; plan: Plan; }
 interface ApplyResponse { resultId: string; success: boolean; logs: string[]; }
+interface FileDiff { file: string; status: "added" | "modified" | "deleted"; diff: string; }
+interface DryRunResult {
+  files: FileDiff[];
+  commands: { cmd: string; args: string[]; cwd: string }[];
+  warnings: string[];
+}
 type Step = "upload" | "plan" | "apply" | "download";
 
 /** ===== Component ===== */
@@ -36,6 +48,8 @@ const App = () => {
   const [logs, setLogs] = useState<string[]>([]);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [startingPreview, setStartingPreview] = useState(false);
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+  const [previewingDiff, setPreviewingDiff] = useState(false);
 
   const showError = (message: string) => {
     setError(message);
@@ -80,6 +94,26 @@ const App = () => {
     }
   };
 
+  /** 적용 전 미리보기: 세션 플랜을 dry-run 해서 파일별 diff를 받음 */
+  const previewChanges = async () => {
+    if (!planData?.sessionId) return;
+    setPreviewingDiff(true);
+    try {
+      const res = await fetch(`/api/apply/${planData.sessionId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun: true }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.ok) throw new Error(data.error || "Failed to preview changes");
+      setDryRun(data.result as DryRunResult);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to preview changes");
+    } finally {
+      setPreviewingDiff(false);
+    }
+  };
+
   const applyMigration = async () => {
     if (!file) return;
     setLoading(true);
@@ -125,6 +159,7 @@ const App = () => {
     setCurrentStep("upload");
     setFile(null);
     setPlanData(null);
+    setDryRun(null);
     setApplyResult(null);
     setLogs([]);
     setError("");
@@ -255,15 +290,20 @@ const App = () => {
                             <td>
                               <span className={`badge ${
                                 s.type === "create" ? "badge--create"
-                                : s.type === "modify" ? "badge--modify"
                                 : s.type === "delete" ? "badge--delete"
-                                : "badge--copy"
+                                : s.type === "copy" || s.type === "install" || s.type === "run" ? "badge--copy"
+                                : "badge--modify"
                               }`}>
                                 {s.type}
                               </span>
                             </td>
-                            <td className="font-mono text-sm">{s.target}</td>
-                            <td className="text-sm">{s.description}</td>
+                            <td className="font-mono text-sm">
+                              {s.file
+                                ?? (s.type === "install" ? (s.deps ?? []).join(", ") || "package.json"
+                                : s.type === "run" ? [s.cmd, ...(s.args ?? [])].join(" ")
+                                : "")}
+                            </td>
+                            <td className="text-sm">{s.description ?? ""}</td>
                             <td className="text-sm">{s.required ? "✓" : "○"}</td>
                           </tr>
                         ))}
@@ -289,6 +329,51 @@ const App = () => {
                     )}
                   </div>
 
+                  {dryRun && (
+                    <div className="mb-6 space-y-3">
+                      <h3 className="text-lg font-medium">Changes Preview</h3>
+                      {dryRun.files.length === 0 && <div className="helper">No file changes.</div>}
+                      {dryRun.files.map((f) => (
+                        <div key={f.file}>
+                          <div className="mb-1 text-sm">
+                            <span className={`badge ${
+                              f.status === "added" ? "badge--create"
+                              : f.status === "deleted" ? "badge--delete"
+                              : "badge--modify"
+                            }`}>
+                              {f.status}
+                            </span>
+                            <span className="font-mono ml-2">{f.file}</span>
+                          </div>
+                          <div className="diff">
+                            {f.diff.split("\n").map((l, i) => (
+                              <div key={i} className={
+                                l.startsWith("@@") ? "diff-hunk"
+                                : l.startsWith("+") && !l.startsWith("+++") ? "diff-add"
+                                : l.startsWith("-") && !l.startsWith("---") ? "diff-del"
+                                : undefined
+                              }>
+                                {l || " "}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                      {dryRun.commands.length > 0 && (
+                        <div className="log">
+                          {dryRun.commands.map((c, i) => (
+                            <div key={i}>$ {[c.cmd, ...c.args].join(" ")}{c.cwd !== "." ? `  (in ${c.cwd})` : ""}</div>
+                          ))}
+                        </div>
+                      )}
+                      {dryRun.warnings.length > 0 && (
+                        <ul className="alert-warning list-disc list-inside">
+                          {dryRun.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
                   <div className="grid md:grid-cols-2 gap-6 items-start">
                     <div className="space-y-2">
                       <label className="flex items-center gap-2">
@@ -303,6 +388,11 @@ const App = () => {
                       </label>
                     </div>
                     <div className="flex gap-3 justify-end">
+                      {planData.sessionId && (
+                        <button onClick={previewChanges} disabled={previewingDiff} className="btn btn-gray">
+                          {previewingDiff ? "Computing Diff..." : "Preview Changes"}
+                        </button>
+                      )}
                       <button onClick={() => setCurrentStep("apply")} className="btn btn-primary">Apply Migration</button>
                       <button onClick={startOver} className="btn btn-gray">Start Over</button>
                     </div>
@@ -0,0 +1,53 @@
+// apps/web/src/lib/result-zip.ts
+import path from "path";
+import fs from "fs-extra";
+import archiver from "archiver";
+
+/**
+ * 결과 ZIP 에서 뺄 경로
+ * - .mofix 는 apply 저널/실행 기록만 제외 (.mofix/replit 등 원본 백업은 사용자에게 돌려줌)
+ */
+export const RESULT_ZIP_IGNORE = [
+  "**/node_modules/**",
+  "**/.git/**",
+  "**/.next/**",
+  "**/dist/**",
+  "**/build/**",
+  "**/*.log",
+  "**/.mofix/journal/**",
+  "**/.mofix/runs/**",
+];
+
+/** srcDir 를 zipPath 로 압축 (숨김 파일 포함). 파일이 다 쓰이면 resolve */
+export async function writeProjectZip(srcDir: string, zipPath: string): Promise<void> {
+  await fs.ensureDir(path.dirname(zipPath));
+  const output = fs.createWriteStream(zipPath);
+  const archive = archiver("zip", { zlib: { level: 9 } });
+  const closed = new Promise<void>((resolve, reject) => {
+    output.on("close", () => resolve());
+    output.on("error", reject);
+  });
+
+  // ✅ 에러 핸들링
+  archive.on("warning", (err) => { if (err.code !== "ENOENT") throw err; });
+  archive.on("error", (err) => { throw err; });
+
+  archive.pipe(output);
+
+  // ✅ server 폴더 보존 보정
+  const serverDir = path.join(srcDir, "server");
+  if (!(await fs.pathExists(serverDir))) {
+    await fs.mkdirp(serverDir);
+    await fs.writeFile(path.join(serverDir, ".keep"), "");
+  }
+
+  // ✅ 숨김 파일 포함 + 불필요 파일 제외
+  archive.glob("**/*", {
+    cwd: srcDir,
+    dot: true, // .env 등 포함
+    ignore: RESULT_ZIP_IGNORE,
+  });
+
+  await archive.finalize();
+  await closed;
+}
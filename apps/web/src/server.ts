@@ -12,7 +12,6 @@ import path from "path";
 import fs from "fs-extra";
 import { promises as fsp } from "fs";
 import { v4 as uuidv4 } from "uuid";
-import archiver from "archiver";
 import unzipper from "unzipper";
 import type { FileFilterCallback } from "multer";
 import { createProxyMiddleware } from "http-proxy-middleware";
@@ -21,10 +20,23 @@ import * as net from "node:net";
 
 import {
   diagnose,
-  applyPatches,
+  dryRun,
   buildAutoFixes,
   fixesFromDiagnoseMessages,
+  VersionResolver,
+  ProjectDetector,
+  PlanGenerator,
+  PlanExecutor,
+  Logger,
+  schedulePlan,
+  knownFramework,
+  parsePlan,
+  stepFile,
+  type MigrationOptions,
+  type Plan,
+  type PlanStep,
 } from "../../../packages/engine/dist/index.js";
+import { writeProjectZip } from "./lib/result-zip";
 
 /* ────────────────────────────────────────────────────────────── */
 /* Types */
@@ -281,79 +293,73 @@ async function spawnDevServerWithRetry(
 }
 
 
-/* --- stubs used by plan/apply flow --- */
-async function detectProject(_projectPath: string) {
-  return {
-    framework: "nextjs",
-    provider: "replit",
-    packageManager: "npm",
-    dependencies: { next: "^13.0.0", react: "^18.0.0" },
-    hasPackageJson: true,
-    hasEnvFiles: false,
-  };
+/* --- 엔진 연동: 감지 → 플랜 → 실행 --- */
+async function detectProject(projectPath: string) {
+  return new ProjectDetector(new Logger()).detect(projectPath);
 }
-async function generatePlan(_det: any, options: any) {
-  return {
-    steps: [
-      { type: "create", description: "Create .gitignore file", target: ".gitignore", required: true },
-      { type: "create", description: "Create VS Code settings", target: ".vscode/settings.json", required: false },
-      { type: "modify", description: "Fix package.json scripts", target: "package.json", required: true },
-    ],
-    confidence: 0.9,
-    warnings: [],
-    options,
+
+/** force=true면 이미 있는 파일도 create 스텝이 덮어씀 */
+async function generatePlan(det: any, options: { force?: boolean; backup?: boolean } = {}) {
+  const plan = await new PlanGenerator(new Logger()).generate(det, {
+    projectPath: det.projectPath,
+    ...options,
+  });
+  if (options.force) {
+    plan.steps = plan.steps.map((s: PlanStep) => (s.type === "create" ? { ...s, overwrite: true } : s));
+  }
+  return plan;
+}
+
+/** PlanExecutor 로그를 수집해 UI 로그로 반환. required 실패 시 저널로 복원된 상태 */
+async function applyMigration(projectPath: string, plan: Plan, _opt: any = {}) {
+  const logs: string[] = ["Starting migration..."];
+  const push = (prefix: string) => (msg: string) => {
+    logs.push(prefix ? `${prefix} ${msg}` : msg);
+  };
+  const logger: Logger = {
+    info: push(""),
+    step: push(""),
+    success: push(""),
+    warning: push("⚠"),
+    error: push("✗"),
+    log: push(""),
+    newLine: () => {},
   };
+  const options: MigrationOptions = { projectPath, logger };
+  try {
+    const r = await new PlanExecutor(logger).execute(plan, options);
+    logs.push("Migration completed!");
+    return { success: true, logs, journalId: r.journalId };
+  } catch (e: any) {
+    logs.push(`Migration failed: ${e?.message || e}`);
+    return { success: false, logs, error: e?.message || String(e) };
+  }
 }
-async function applyMigration(projectPath: string, _plan: any, _opt: any) {
-  const logs = [
-    "Starting migration...",
-    "Creating .gitignore...",
-    "Creating VS Code settings...",
-    "Updating package.json...",
-    "Migration completed!",
-  ];
-  await fs.ensureDir(path.join(projectPath, ".vscode"));
-  await fs.writeFile(path.join(projectPath, ".gitignore"), "node_modules/\n.env.local\n");
-  await fs.writeFile(path.join(projectPath, ".vscode/settings.json"), '{"editor.formatOnSave": true}\n');
-  return { success: true, logs };
+
+/** 진단 Fix + 감지된 프레임워크 기준 자동 Fix + 로그 기반 Fix */
+async function collectFixes(projectRoot: string, detection: { framework?: string }) {
+  const diag = (await diagnose(projectRoot)) as DiagnoseResult;
+  const autoFixes = await buildAutoFixes(projectRoot, knownFramework(detection.framework));
+  const hintFixes = fixesFromDiagnoseMessages(diag as any, { versions: await VersionResolver.load(projectRoot) });
+  return { diag, fixes: [...(diag.fixes ?? []), ...autoFixes, ...hintFixes] as Fix[] };
+}
+
+async function selectFixes(projectRoot: string, ids: string[]) {
+  const { fixes } = await collectFixes(projectRoot, await detectProject(projectRoot));
+  return fixes.filter((f) => ids.includes(f.id));
+}
+
+/** 여러 Fix 의 스텝을 하나의 플랜으로 (의존 순서 + 같은 파일 json.merge 합치기, 겹치는 편집은 경고) */
+function fixSteps(fixes: Fix[]) {
+  const { steps, conflicts } = schedulePlan(fixes.flatMap((f) => f.plan ?? []));
+  return { steps: steps as Patch[], warnings: conflicts.map((c) => `Conflicting edits: ${c.message}`) };
 }
 
 /* ZIP 만들기 공통 */
 async function zipDirectory(srcDir: string) {
   const resultId = uuidv4();
   const resultZipPath = path.join(RESULTS, `${resultId}.zip`);
-  await fs.ensureDir(path.dirname(resultZipPath));
-  const output = fs.createWriteStream(resultZipPath);
-  const archive = archiver("zip", { zlib: { level: 9 } });
-
-  // ✅ 에러 핸들링
-  archive.on("warning", (err) => { if (err.code !== "ENOENT") throw err; });
-  archive.on("error", (err) => { throw err; });
-
-  archive.pipe(output);
-
-  // ✅ server 폴더 보존 보정
-  const serverDir = path.join(srcDir, "server");
-  if (!(await fs.pathExists(serverDir))) {
-    await fs.mkdirp(serverDir);
-    await fs.writeFile(path.join(serverDir, ".keep"), "");
-  }
-
-  // ✅ 숨김 파일 포함 + 불필요 파일 제외
-  archive.glob("**/*", {
-    cwd: srcDir,
-    dot: true, // .env 등 포함
-    ignore: [
-      "**/node_modules/**",
-      "**/.git/**",
-      "**/.next/**",
-      "**/dist/**",
-      "**/build/**",
-      "**/*.log",
-    ],
-  });
-
-  await archive.finalize();
+  await writeProjectZip(srcDir, resultZipPath);
   migrationResults.set(resultId, { zipPath: resultZipPath, timestamp: Date.now() });
   return resultId;
 }
@@ -446,16 +452,14 @@ app.post("/api/diagnose", upload.single("project"), async (req, res) => {
     await fs.remove(req.file.path);
 
     const projectRoot = await resolveProjectRoot(tempDir);
-    const diag = await diagnose(projectRoot);
-    const framework = "nextjs" as const;
-    const autoFixes = await buildAutoFixes(projectRoot, framework);
-    const hintFixes = fixesFromDiagnoseMessages(diag as any);
-    const merged = { ...(diag as any), fixes: [ ...((diag as any).fixes ?? []), ...autoFixes, ...hintFixes ] };
+    const detection = await detectProject(projectRoot);
+    const { diag, fixes } = await collectFixes(projectRoot, detection);
+    const merged = { ...(diag as any), fixes };
 
     const sessionId = uuidv4();
     diagnoseSessions.set(sessionId, { projectRoot, tempDir, timestamp: Date.now() });
 
-    res.json({ ok: true, sessionId, projectRoot, diagnose: merged });
+    res.json({ ok: true, sessionId, projectRoot, detection, diagnose: merged });
   } catch (error) {
     console.error("Diagnose error:", error);
     res.status(500).json({ ok: false, error: "Failed to diagnose project" });
@@ -498,21 +502,50 @@ app.post("/api/apply/:sessionId?", upload.single("project"), async (req, res) =>
         selectedFixIds = rawFix as string[];
       }
 
+      // 옵션: dryRun → 적용/압축 없이 diff만 반환 (세션 유지)
+      const wantDry = String((req.body as any)?.dryRun ?? (req.query as any)?.dryRun ?? "").toLowerCase() === "true";
+      if (wantDry) {
+        let steps: Patch[] = [];
+        let conflicts: string[] = [];
+        try {
+          if (plan) {
+            steps = Array.isArray((plan as any).steps) ? (plan as any).steps : [];
+          } else if (selectedFixIds && selectedFixIds.length) {
+            ({ steps, warnings: conflicts } = fixSteps(await selectFixes(projectRoot, selectedFixIds)));
+          }
+          const result = await dryRun(projectRoot, { ...(plan ?? {}), steps } as any);
+          result.warnings.unshift(...conflicts);
+          return res.status(200).json({ ok: true, dryRun: true, sessionId, result });
+        } catch (e: any) {
+          // 스키마 위반(PlanSchemaError)은 issues와 함께 400
+          if (Array.isArray(e?.issues)) return res.status(400).json({ ok: false, error: e.message, issues: e.issues });
+          throw e;
+        }
+      }
+
       let logs: string[] = [];
       let applied: string[] | undefined;
 
+      let success = true;
       if (plan) {
-        const r = await applyMigration(projectRoot, plan, {});
+        // 클라이언트가 보낸 구버전 스텝(target 등)도 공통 스키마로 바꾼 뒤 적용/보고
+        let parsed: Plan;
+        try {
+          parsed = parsePlan(plan);
+        } catch (e: any) {
+          if (Array.isArray(e?.issues)) return res.status(400).json({ ok: false, error: e.message, issues: e.issues });
+          throw e;
+        }
+        const r = await applyMigration(projectRoot, parsed, {});
         logs = r.logs;
-        const steps = Array.isArray((plan as any).steps) ? (plan as any).steps : [];
-        applied = steps.map((s: any) => s.target ?? s.type ?? "step");
+        success = r.success;
+        applied = parsed.steps.map((s) => stepFile(s) ?? s.type);
       } else if (selectedFixIds && selectedFixIds.length) {
-        const diag = (await diagnose(projectRoot)) as DiagnoseResult;
-        const chosen = (diag.fixes ?? []).filter((f) => selectedFixIds!.includes(f.id));
-        const patches: Patch[] = chosen.flatMap((f) => f.plan ?? []);
-        const applyPatchesTyped = applyPatches as unknown as (root: string, patches: Patch[]) => Promise<void>;
-        await applyPatchesTyped(projectRoot, patches);
-        logs = [`Applied fixes: ${chosen.map(c => c.id).join(", ")}`];
+        const chosen = await selectFixes(projectRoot, selectedFixIds);
+        const { steps: patches, warnings } = fixSteps(chosen);
+        const r = await applyMigration(projectRoot, parsePlan(patches), {});
+        logs = [...warnings, ...r.logs, `Applied fixes: ${chosen.map(c => c.id).join(", ")}`];
+        success = r.success;
         applied = chosen.map(c => c.id);
       } else {
         logs = ["No changes applied. Shipping original extracted project."];
@@ -528,7 +561,7 @@ app.post("/api/apply/:sessionId?", upload.single("project"), async (req, res) =>
 
       const payload = {
         ok: true,
-        success: true,
+        success,
         resultId,
         downloadUrl,
         logs,
@@ -564,14 +597,14 @@ app.post("/api/apply/:sessionId?", upload.single("project"), async (req, res) =>
       const resultId    = await zipDirectory(projectRoot);
       const downloadUrl = `/api/download/${resultId}`;
 
-      const steps   = Array.isArray((plan as any).steps) ? (plan as any).steps : [];
-      const applied = steps.map((s: any) => s.target ?? s.type ?? "step");
+      const steps   = plan.steps;
+      const applied = steps.map((s) => stepFile(s) ?? s.type);
 
       await fs.remove(tempDir).catch(() => {});
 
       const payload = {
         ok: true,
-        success: true,
+        success: r.success,
         resultId,
         downloadUrl,
         logs: r.logs,
@@ -2,7 +2,7 @@ import fs from "fs-extra";
 import path from "path";
 
 export type Detected = {
-  framework: "next" | "vite" | "express" | "unknown";
+  framework: "next" | "remix" | "nuxt" | "sveltekit" | "astro" | "angular" | "vite" | "express" | "unknown";
   devCmd: string;
   port: number;
   healthPath: string;
@@ -17,6 +17,11 @@ export async function detectProject(root: string): Promise<Detected> {
   const deps = { ...(pkgJson.dependencies || {}), ...(pkgJson.devDependencies || {}) };
   const scripts = pkgJson.scripts || {};
   const hasNext = "next" in deps;
+  const hasRemix = "@remix-run/dev" in deps || "@remix-run/react" in deps;
+  const hasNuxt = "nuxt" in deps;
+  const hasSvelteKit = "@sveltejs/kit" in deps;
+  const hasAstro = "astro" in deps;
+  const hasAngular = "@angular/core" in deps;
   const hasVite = "vite" in deps;
   const hasExpress = "express" in deps;
 
@@ -37,6 +42,51 @@ export async function detectProject(root: string): Promise<Detected> {
       healthPath: "/",
       installCmd: "npm install",
     };
+  } else if (hasRemix) {
+    const port = 5173;
+    out = {
+      framework: "remix",
+      devCmd: `remix vite:dev --port ${port}`,
+      port,
+      healthPath: "/",
+      installCmd: "npm install",
+    };
+  } else if (hasNuxt) {
+    const port = 3000;
+    out = {
+      framework: "nuxt",
+      devCmd: `nuxt dev --port ${port}`,
+      port,
+      healthPath: "/",
+      installCmd: "npm install",
+    };
+  } else if (hasSvelteKit) {
+    const port = 5173;
+    out = {
+      framework: "sveltekit",
+      devCmd: `vite dev --port ${port}`,
+      port,
+      healthPath: "/",
+      installCmd: "npm install",
+    };
+  } else if (hasAstro) {
+    const port = 4321;
+    out = {
+      framework: "astro",
+      devCmd: `astro dev --port ${port}`,
+      port,
+      healthPath: "/",
+      installCmd: "npm install",
+    };
+  } else if (hasAngular) {
+    const port = 4200;
+    out = {
+      framework: "angular",
+      devCmd: `ng serve --port ${port}`,
+      port,
+      healthPath: "/",
+      installCmd: "npm install",
+    };
   } else if (hasVite) {
     const port = 5173;
     out = {
@@ -393,11 +393,281 @@ app.listen(port, ()=>console.log("Mix on", port));
   return d;
 }
 
+/** Remix (Vite 플러그인) */
+async function genRemix(o: GenOpts) {
+  const d = path.join(STAGE_DIR, o.tier, o.name);
+  await fs.ensureDir(path.join(d, "app", "routes"));
+
+  await fs.outputFile(
+    path.join(d, "app", "root.tsx"),
+    fileHeader("remix-root") +
+      `import { Links, Meta, Outlet, Scripts } from "@remix-run/react";
+export default function App() {
+  return <html><head><Meta /><Links /></head><body><Outlet /><Scripts /></body></html>;
+}
+`
+  );
+  await fs.outputFile(
+    path.join(d, "app", "routes", "_index.tsx"),
+    fileHeader("remix-index") + `export default function Index() { return <div>Remix OK</div>; }\n`
+  );
+
+  // 일부는 vite.config 를 '누락'시켜 어댑터가 생성하는지 확인
+  if (!o.variant?.missingConfig) {
+    await fs.outputFile(
+      path.join(d, "vite.config.ts"),
+      fileHeader("remix-vite-config") +
+        `import { vitePlugin as remix } from "@remix-run/dev";
+import { defineConfig } from "vite";
+export default defineConfig({ plugins: [remix()] });
+`
+    );
+  }
+
+  await writeJsonPretty(path.join(d, "package.json"), {
+    name: o.name,
+    private: true,
+    type: "module",
+    scripts: { dev: "remix vite:dev", build: "remix vite:build", start: "remix-serve ./build/server/index.js" },
+    dependencies: {
+      "@remix-run/node": "^2.16.0",
+      "@remix-run/react": "^2.16.0",
+      "@remix-run/serve": "^2.16.0",
+      isbot: "^4.1.0",
+      react: "18.2.0",
+      "react-dom": "18.2.0",
+    },
+    devDependencies: { "@remix-run/dev": "^2.16.0", typescript: "^5.4.0", vite: "^5.2.0" },
+  });
+
+  if (o.variant?.lock === "npm") await fs.outputFile(path.join(d, "package-lock.json"), "{}");
+  if (o.variant?.lock === "pnpm") await fs.outputFile(path.join(d, "pnpm-lock.yaml"), "# mock");
+
+  return d;
+}
+
+/** Nuxt 3 */
+async function genNuxt(o: GenOpts) {
+  const d = path.join(STAGE_DIR, o.tier, o.name);
+  await fs.ensureDir(d);
+
+  await fs.outputFile(
+    path.join(d, "app.vue"),
+    `<template>\n  <div>Nuxt OK</div>\n</template>\n`
+  );
+  if (!o.variant?.missingConfig) {
+    await fs.outputFile(
+      path.join(d, "nuxt.config.ts"),
+      fileHeader("nuxt-config") + `export default defineNuxtConfig({ devtools: { enabled: false } });\n`
+    );
+  }
+
+  await writeJsonPretty(path.join(d, "package.json"), {
+    name: o.name,
+    private: true,
+    type: "module",
+    // 일부는 dev 만 남겨 스크립트 보정 확인
+    scripts: o.variant?.partialScripts
+      ? { dev: "nuxt dev" }
+      : { dev: "nuxt dev", build: "nuxt build", preview: "nuxt preview", postinstall: "nuxt prepare" },
+    dependencies: { nuxt: "^3.12.0", vue: "^3.4.0", "vue-router": "^4.3.0" },
+  });
+
+  if (o.variant?.lock === "npm") await fs.outputFile(path.join(d, "package-lock.json"), "{}");
+  if (o.variant?.lock === "yarn") await fs.outputFile(path.join(d, "yarn.lock"), "# mock");
+
+  return d;
+}
+
+/** SvelteKit 2 */
+async function genSvelteKit(o: GenOpts) {
+  const d = path.join(STAGE_DIR, o.tier, o.name);
+  await fs.ensureDir(path.join(d, "src", "routes"));
+
+  await fs.outputFile(
+    path.join(d, "src", "app.html"),
+    `<!doctype html>
+<html lang="en"><head><meta charset="utf-8" />%sveltekit.head%</head>
+<body><div style="display: contents">%sveltekit.body%</div></body></html>
+`
+  );
+  await fs.outputFile(path.join(d, "src", "routes", "+page.svelte"), `<h1>SvelteKit OK</h1>\n`);
+
+  if (!o.variant?.missingConfig) {
+    await fs.outputFile(
+      path.join(d, "svelte.config.js"),
+      fileHeader("svelte-config") +
+        `import adapter from "@sveltejs/adapter-auto";
+export default { kit: { adapter: adapter() } };
+`
+    );
+    await fs.outputFile(
+      path.join(d, "vite.config.ts"),
+      fileHeader("sveltekit-vite-config") +
+        `import { sveltekit } from "@sveltejs/kit/vite";
+import { defineConfig } from "vite";
+export default defineConfig({ plugins: [sveltekit()] });
+`
+    );
+  }
+
+  await writeJsonPretty(path.join(d, "package.json"), {
+    name: o.name,
+    private: true,
+    type: "module",
+    scripts: { dev: "vite dev", build: "vite build", preview: "vite preview" },
+    devDependencies: {
+      "@sveltejs/adapter-auto": "^3.0.0",
+      "@sveltejs/kit": "^2.5.0",
+      "@sveltejs/vite-plugin-svelte": "^3.1.0",
+      svelte: "^4.2.0",
+      vite: "^5.2.0",
+    },
+  });
+
+  if (o.variant?.lock === "npm") await fs.outputFile(path.join(d, "package-lock.json"), "{}");
+  if (o.variant?.lock === "pnpm") await fs.outputFile(path.join(d, "pnpm-lock.yaml"), "# mock");
+
+  return d;
+}
+
+/** Astro */
+async function genAstro(o: GenOpts) {
+  const d = path.join(STAGE_DIR, o.tier, o.name);
+  await fs.ensureDir(path.join(d, "src", "pages"));
+
+  await fs.outputFile(
+    path.join(d, "src", "pages", "index.astro"),
+    `---\nconst title = "Astro OK";\n---\n<html><body><h1>{title}</h1></body></html>\n`
+  );
+  if (!o.variant?.missingConfig) {
+    await fs.outputFile(
+      path.join(d, "astro.config.mjs"),
+      fileHeader("astro-config") +
+        `import { defineConfig } from "astro/config";
+export default defineConfig({});
+`
+    );
+  }
+
+  await writeJsonPretty(path.join(d, "package.json"), {
+    name: o.name,
+    private: true,
+    type: "module",
+    scripts: { dev: "astro dev", build: "astro build", preview: "astro preview" },
+    dependencies: { astro: o.variant?.astroVersion ?? "^4.10.0" },
+  });
+
+  if (o.variant?.lock === "npm") await fs.outputFile(path.join(d, "package-lock.json"), "{}");
+  if (o.variant?.lock === "yarn") await fs.outputFile(path.join(d, "yarn.lock"), "# mock");
+
+  return d;
+}
+
+/** Angular (standalone, application 빌더) */
+async function genAngular(o: GenOpts) {
+  const d = path.join(STAGE_DIR, o.tier, o.name);
+  await fs.ensureDir(path.join(d, "src", "app"));
+
+  await fs.outputFile(
+    path.join(d, "src", "index.html"),
+    `<!doctype html>
+<html lang="en"><head><meta charset="utf-8"><base href="/"></head><body><app-root></app-root></body></html>
+`
+  );
+  await fs.outputFile(
+    path.join(d, "src", "main.ts"),
+    fileHeader("angular-main") +
+      `import { bootstrapApplication } from "@angular/platform-browser";
+import { AppComponent } from "./app/app.component";
+bootstrapApplication(AppComponent).catch((err) => console.error(err));
+`
+  );
+  await fs.outputFile(
+    path.join(d, "src", "app", "app.component.ts"),
+    fileHeader("angular-app") +
+      `import { Component } from "@angular/core";
+@Component({ selector: "app-root", standalone: true, template: "<div>Angular OK</div>" })
+export class AppComponent {}
+`
+  );
+  await fs.outputFile(path.join(d, "src", "styles.css"), "");
+  await writeJsonPretty(path.join(d, "tsconfig.json"), {
+    compilerOptions: { target: "ES2022", module: "ES2022", moduleResolution: "bundler", strict: true, experimentalDecorators: true },
+  });
+  await writeJsonPretty(path.join(d, "tsconfig.app.json"), {
+    extends: "./tsconfig.json",
+    files: ["src/main.ts"],
+  });
+
+  // 일부는 angular.json 을 '누락'시켜 어댑터가 워크스페이스를 생성하는지 확인
+  if (!o.variant?.missingConfig) {
+    await writeJsonPretty(path.join(d, "angular.json"), {
+      version: 1,
+      projects: {
+        [o.name]: {
+          projectType: "application",
+          root: "",
+          sourceRoot: "src",
+          architect: {
+            build: {
+              builder: "@angular-devkit/build-angular:application",
+              options: { outputPath: `dist/${o.name}`, index: "src/index.html", browser: "src/main.ts", tsConfig: "tsconfig.app.json", styles: ["src/styles.css"] },
+            },
+            serve: {
+              builder: "@angular-devkit/build-angular:dev-server",
+              options: { buildTarget: `${o.name}:build` },
+            },
+          },
+        },
+      },
+    });
+  }
+
+  await writeJsonPretty(path.join(d, "package.json"), {
+    name: o.name,
+    private: true,
+    scripts: { ng: "ng", start: "ng serve", build: "ng build" },
+    dependencies: {
+      "@angular/common": "^17.3.0",
+      "@angular/compiler": "^17.3.0",
+      "@angular/core": "^17.3.0",
+      "@angular/platform-browser": "^17.3.0",
+      rxjs: "~7.8.0",
+      tslib: "^2.3.0",
+      "zone.js": "~0.14.3",
+    },
+    devDependencies: {
+      "@angular-devkit/build-angular": "^17.3.0",
+      "@angular/cli": "^17.3.0",
+      "@angular/compiler-cli": "^17.3.0",
+      typescript: "~5.4.0",
+    },
+  });
+
+  if (o.variant?.lock === "npm") await fs.outputFile(path.join(d, "package-lock.json"), "{}");
+
+  return d;
+}
+
 // ------------------------------- 생성 플랜 -------------------------------
 
 type PlanItem = {
   tier: "T1" | "T2" | "T3";
-  template: "next-app" | "next-pages" | "vite-react" | "express-ts" | "cra" | "monorepo" | "large-static" | "esm-cjs";
+  template:
+    | "next-app"
+    | "next-pages"
+    | "vite-react"
+    | "express-ts"
+    | "cra"
+    | "monorepo"
+    | "large-static"
+    | "esm-cjs"
+    | "remix"
+    | "nuxt"
+    | "sveltekit"
+    | "astro"
+    | "angular";
   count: number;
   variant?: (i: number) => Record<string, any>;
   basename: string; // zip 파일명 prefix
@@ -411,6 +681,11 @@ const PLAN: PlanItem[] = [
   { tier: "T1", template: "express-ts", basename: "T1_express-basic", count: 4, variant: i => ({ port: 4000 + i, lock: ["npm","yarn","pnpm"][i%3] }) },
   { tier: "T1", template: "cra", basename: "T1_cra-basic", count: 3, variant: i => ({ lock: ["npm","yarn"][i%2] }) },
   { tier: "T1", template: "monorepo", basename: "T1_monorepo-simple", count: 2, variant: i => ({}) },
+  { tier: "T1", template: "remix", basename: "T1_remix-basic", count: 2, variant: i => ({ lock: ["npm","pnpm"][i%2] }) },
+  { tier: "T1", template: "nuxt", basename: "T1_nuxt-basic", count: 2, variant: i => ({ lock: ["npm","yarn"][i%2] }) },
+  { tier: "T1", template: "sveltekit", basename: "T1_sveltekit-basic", count: 2, variant: i => ({ lock: ["npm","pnpm"][i%2] }) },
+  { tier: "T1", template: "astro", basename: "T1_astro-basic", count: 2, variant: i => ({ lock: ["npm","yarn"][i%2] }) },
+  { tier: "T1", template: "angular", basename: "T1_angular-basic", count: 2, variant: i => ({ lock: "npm" }) },
 
   // T2 (40~50)
   { tier: "T2", template: "next-app", basename: "T2_next-mixed", count: 6, variant: i => ({ images: i%2===0, envPort: 3000+i }) },
@@ -421,6 +696,11 @@ const PLAN: PlanItem[] = [
   { tier: "T2", template: "large-static", basename: "T2_large", count: 4, variant: i => ({ files: 3 + (i%3) }) },
   { tier: "T2", template: "monorepo", basename: "T2_turbo-like", count: 3, variant: i => ({}) },
   { tier: "T2", template: "cra", basename: "T2_cra-alt", count: 3, variant: i => ({}) },
+  { tier: "T2", template: "remix", basename: "T2_remix-no-config", count: 2, variant: i => ({ missingConfig: true }) },
+  { tier: "T2", template: "nuxt", basename: "T2_nuxt-partial", count: 2, variant: i => ({ missingConfig: i%2===0, partialScripts: true }) },
+  { tier: "T2", template: "sveltekit", basename: "T2_sveltekit-no-config", count: 2, variant: i => ({ missingConfig: true }) },
+  { tier: "T2", template: "astro", basename: "T2_astro-v5", count: 2, variant: i => ({ astroVersion: "^5.0.0", missingConfig: i%2===1 }) },
+  { tier: "T2", template: "angular", basename: "T2_angular-no-workspace", count: 2, variant: i => ({ missingConfig: true }) },
 
   // T3 (20~30)
   { tier: "T3", template: "large-static", basename: "T3_static-huge", count: 6, variant: i => ({ files: 6 }) },
@@ -458,6 +738,21 @@ async function generateOne(p: PlanItem, idx: number) {
     case "esm-cjs":
       madeDir = await genEsmiCjsMix({ name, tier: p.tier, variant });
       break;
+    case "remix":
+      madeDir = await genRemix({ name, tier: p.tier, variant });
+      break;
+    case "nuxt":
+      madeDir = await genNuxt({ name, tier: p.tier, variant });
+      break;
+    case "sveltekit":
+      madeDir = await genSvelteKit({ name, tier: p.tier, variant });
+      break;
+    case "astro":
+      madeDir = await genAstro({ name, tier: p.tier, variant });
+      break;
+    case "angular":
+      madeDir = await genAngular({ name, tier: p.tier, variant });
+      break;
     default:
       throw new Error(`Unknown template ${p.template}`);
   }
@@ -463,10 +463,14 @@ for (const zipPath of zipFiles) {
     else if (isNext) baseCmd = "npx -y next dev";
     else if (isVite) baseCmd = "npx -y vite";
 
+    // Nuxt / Astro / Angular 는 PORT 대신 고정 기본 포트를 쓰므로 플래그로 강제
+    const usesPortFlag = det.framework === "nuxt" || det.framework === "astro" || det.framework === "angular";
     const extraArgs = isVite
       ? ["--port", String(port), "--host", "127.0.0.1", "--strictPort"]
       : isNext
       ? ["-p", String(port), "-H", "127.0.0.1"]
+      : usesPortFlag
+      ? ["--port", String(port), "--host", "127.0.0.1"]
       : [];
 
     const finalDev = baseCmd + (extraArgs.length ? " -- " + extraArgs.join(" ") : "");
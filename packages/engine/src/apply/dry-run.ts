@@ -0,0 +1,265 @@
+// packages/engine/src/apply/dry-run.ts
+// -----------------------------------------------------------------------------
+// Dry-run: 플랜의 모든 스텝을 디스크 대신 "메모리 오버레이"에 적용한 뒤
+// 파일별 unified diff와 실행될 커맨드 목록을 돌려줍니다.
+// - 스텝 의미는 apply/step-ops.ts 공통 구현을 그대로 사용 → runner / PlanExecutor 와 같은 결과
+//   (앞 스텝의 결과를 뒤 스텝이 그대로 봅니다)
+// - install 은 package.json 의 dependencies 변화만 반영합니다 (lockfile은 계산하지 않음)
+// - run 은 부작용을 알 수 없으므로 커맨드 목록에만 기록합니다
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import { normalizeSteps, type PlanStep } from "../core/plan-schema.js";
+import { orderSteps } from "../core/plan-graph.js";
+import { unifiedDiff } from "../utils/diff.js";
+import { mergeJsonc } from "../utils/jsonc.js";
+import {
+  configSetContent,
+  createContent,
+  ensureLinesContent,
+  installCommand,
+  jsonMergeContent,
+  textPatchContent,
+} from "./step-ops.js";
+
+export type FileDiff = {
+  /** 프로젝트 상대 경로 (posix 구분자) */
+  file: string;
+  status: "added" | "modified" | "deleted";
+  diff: string;
+};
+
+export type PlannedCommand = {
+  cmd: string;
+  args: string[];
+  /** 프로젝트 상대 실행 위치 ("." = 루트) */
+  cwd: string;
+  /** 이 커맨드를 만든 스텝 인덱스 */
+  step: number;
+};
+
+export type DryRunResult = {
+  files: FileDiff[];
+  commands: PlannedCommand[];
+  /** 실제 적용이었다면 실패했을 스텝 등 */
+  warnings: string[];
+};
+
+const toPosix = (p: string) => p.split(path.sep).join("/");
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 메모리 오버레이 (null = 파일 없음)
+// ─────────────────────────────────────────────────────────────────────────────
+class Overlay {
+  private readonly current = new Map<string, string | null>();
+  private readonly original = new Map<string, string | null>();
+
+  constructor(private readonly root: string) {}
+
+  private key(rel: string): string {
+    return toPosix(path.normalize(rel));
+  }
+
+  async read(rel: string): Promise<string | null> {
+    const k = this.key(rel);
+    if (this.current.has(k)) return this.current.get(k)!;
+    const text = await this.readDisk(k);
+    this.original.set(k, text);
+    this.current.set(k, text);
+    return text;
+  }
+
+  async write(rel: string, content: string | null): Promise<void> {
+    await this.read(rel); // 원본 확보
+    this.current.set(this.key(rel), content);
+  }
+
+  /** 파일이면 [rel], 디렉터리면 하위 파일 전체 (오버레이에서 생긴 파일 포함) */
+  async filesUnder(rel: string): Promise<string[]> {
+    const k = this.key(rel);
+    const out = new Set<string>();
+    const abs = path.join(this.root, k);
+    const stat = await fs.stat(abs).catch(() => null);
+    if (stat?.isDirectory()) {
+      for (const f of await walk(abs)) out.add(toPosix(path.join(k, path.relative(abs, f))));
+    }
+    for (const [f, v] of this.current) {
+      if (f === k || f.startsWith(k + "/")) {
+        if (v === null) out.delete(f);
+        else out.add(f);
+      }
+    }
+    if (out.size === 0 && (await this.read(k)) !== null) out.add(k);
+    return [...out].sort();
+  }
+
+  diffs(): FileDiff[] {
+    const out: FileDiff[] = [];
+    for (const [file, after] of this.current) {
+      const before = this.original.get(file) ?? null;
+      if (before === after) continue;
+      out.push({
+        file,
+        status: before === null ? "added" : after === null ? "deleted" : "modified",
+        diff: unifiedDiff(file, before, after),
+      });
+    }
+    return out.sort((a, b) => a.file.localeCompare(b.file));
+  }
+
+  private async readDisk(rel: string): Promise<string | null> {
+    const abs = path.join(this.root, rel);
+    const stat = await fs.stat(abs).catch(() => null);
+    if (!stat?.isFile()) return null;
+    return fs.readFile(abs, "utf8");
+  }
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const out: string[] = [];
+  for (const ent of await fs.readdir(dir, { withFileTypes: true })) {
+    const abs = path.join(dir, ent.name);
+    if (ent.isDirectory()) out.push(...(await walk(abs)));
+    else if (ent.isFile()) out.push(abs);
+  }
+  return out;
+}
+
+/** "name@^1.2.3" / "@scope/name@1" → [name, range] */
+function splitSpec(spec: string): [string, string] {
+  const at = spec.lastIndexOf("@");
+  return at > 0 ? [spec.slice(0, at), spec.slice(at + 1)] : [spec, "*"];
+}
+
+async function writeIfChanged(fsv: Overlay, rel: string, next: string | null): Promise<void> {
+  if (next !== null) await fsv.write(rel, next);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 스텝 시뮬레이션
+// ─────────────────────────────────────────────────────────────────────────────
+async function simulateStep(
+  root: string,
+  fsv: Overlay,
+  step: PlanStep,
+  index: number,
+  out: DryRunResult
+): Promise<void> {
+  switch (step.type) {
+    case "json.merge":
+      await writeIfChanged(fsv, step.file, jsonMergeContent(await fsv.read(step.file), step));
+      return;
+
+    case "create":
+      await writeIfChanged(fsv, step.file, createContent(await fsv.read(step.file), step));
+      return;
+
+    case "write":
+      await fsv.write(step.file, step.content);
+      return;
+
+    case "append":
+      await fsv.write(step.file, ((await fsv.read(step.file)) ?? "") + step.content);
+      return;
+
+    case "delete":
+      for (const f of await fsv.filesUnder(step.file)) await fsv.write(f, null);
+      return;
+
+    case "copy": {
+      const sources = await fsv.filesUnder(step.source);
+      if (sources.length === 0) throw new Error(`copy source not found: ${step.source}`);
+      const src = toPosix(path.normalize(step.source));
+      for (const f of sources) {
+        const dest = f === src ? step.file : path.join(step.file, path.relative(src, f));
+        await fsv.write(dest, await fsv.read(f));
+      }
+      return;
+    }
+
+    case "lines.ensure":
+      await writeIfChanged(fsv, step.file, ensureLinesContent(await fsv.read(step.file), step.lines));
+      return;
+
+    case "config.set":
+      await writeIfChanged(fsv, step.file, configSetContent(await fsv.read(step.file), step));
+      return;
+
+    case "text.patch":
+      await writeIfChanged(fsv, step.file, textPatchContent(await fsv.read(step.file), step));
+      return;
+
+    case "install": {
+      const { pm, args, cwd: abs, deps } = await installCommand(root, step);
+      const cwd = toPosix(path.relative(root, abs)) || ".";
+      out.commands.push({ cmd: pm, args, cwd, step: index });
+      if (deps.length === 0) return;
+
+      // 패키지 매니저가 package.json 에 남길 변화만 미리 반영
+      const manifest = path.join(cwd, "package.json");
+      const field = step.dev ? "devDependencies" : "dependencies";
+      const added = Object.fromEntries(deps.map(splitSpec));
+      await fsv.write(manifest, mergeJsonc((await fsv.read(manifest)) ?? "", { [field]: added }, manifest));
+      return;
+    }
+
+    case "run": {
+      const cwd = step.cwd ? path.resolve(root, step.cwd) : root;
+      out.commands.push({
+        cmd: step.cmd,
+        args: step.args ?? [],
+        cwd: toPosix(path.relative(root, cwd)) || ".",
+        step: index,
+      });
+      return;
+    }
+
+    default: {
+      const _never: never = step;
+      throw new Error(`Unknown step type: ${(step as any)?.type}`);
+    }
+  }
+}
+
+/**
+ * 플랜을 실제로 적용하지 않고 결과를 계산합니다.
+ * 구/신 포맷 스텝 모두 받으며(normalizeSteps), 디스크는 읽기만 합니다.
+ */
+export async function dryRunPlan(root: string, steps: unknown[]): Promise<DryRunResult> {
+  const out: DryRunResult = { files: [], commands: [], warnings: [] };
+  const fsv = new Overlay(root);
+
+  const normalized = orderSteps(normalizeSteps(steps));
+  for (let i = 0; i < normalized.length; i++) {
+    const step = normalized[i];
+    try {
+      await simulateStep(root, fsv, step, i, out);
+    } catch (e: any) {
+      const msg = `steps[${i}] ${step.type}: ${e?.message || e}`;
+      if (step.required) {
+        // 실제 적용이었다면 여기서 롤백되므로 파일 변경은 보여주지 않습니다.
+        out.warnings.push(`${msg} (required — apply would roll back)`);
+        return { ...out, files: [] };
+      }
+      out.warnings.push(msg);
+    }
+  }
+
+  out.files = fsv.diffs();
+  return out;
+}
+
+/** CLI/로그용 요약 텍스트 */
+export function formatDryRun(result: DryRunResult): string {
+  const parts: string[] = [];
+  for (const f of result.files) parts.push(f.diff.trimEnd());
+  if (result.commands.length > 0) {
+    parts.push("# commands");
+    for (const c of result.commands) {
+      const where = c.cwd === "." ? "" : ` (in ${c.cwd})`;
+      parts.push(`$ ${[c.cmd, ...c.args].join(" ")}${where}`);
+    }
+  }
+  if (parts.length === 0) parts.push("(no changes)");
+  return parts.join("\n") + "\n";
+}
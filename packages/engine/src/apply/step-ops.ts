@@ -0,0 +1,119 @@
+// packages/engine/src/apply/step-ops.ts
+// -----------------------------------------------------------------------------
+// 스텝 의미의 단일 구현: apply/runner.ts, apply/dry-run.ts, core/plan-executor.ts 가 공유합니다.
+// - 파일 스텝은 "현재 내용 → 새 내용" 순수 함수 (null 입력 = 파일 없음, null 반환 = 쓰지 않음)
+// - install 은 실행할 커맨드(버전 고정 포함)를 계산만 하고, 실행은 호출 쪽이 합니다.
+// -----------------------------------------------------------------------------
+import path from "path";
+import { suggestVersion } from "../utils/depsRegistry.js";
+import { VersionResolver } from "../utils/version-resolver.js";
+import { detectPackageManager } from "../utils/lockfiles.js";
+import { patchConfigSource } from "../utils/config-ast.js";
+import { mergeJsonc } from "../utils/jsonc.js";
+import type {
+  ConfigSetStep,
+  CreateStep,
+  InstallStep,
+  JsonMergeStep,
+  PackageManager,
+  TextPatch,
+  TextPatchStep,
+} from "../core/plan-schema.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 파일 스텝
+// ─────────────────────────────────────────────────────────────────────────────
+// 텍스트 치환 도우미
+export function applyTextPatches(input: string, patches: TextPatch[]): string {
+  let out = input;
+  for (const p of patches) {
+    out = p.regex
+      ? out.replace(new RegExp(p.search, "g"), p.replace)
+      : out.split(p.search).join(p.replace);
+  }
+  return out;
+}
+
+/** create: 이미 있으면 overwrite 일 때만 */
+export function createContent(current: string | null, step: CreateStep): string | null {
+  if (current !== null && !step.overwrite) return null;
+  return step.content ?? "";
+}
+
+/** json.merge: 원문 위에서 바뀐 값만 편집 (주석/들여쓰기/키 순서/끝 줄바꿈 유지). 깨진 JSON 은 throw */
+export function jsonMergeContent(current: string | null, step: JsonMergeStep): string | null {
+  const next = mergeJsonc(current ?? "", step.merge, step.file, { arrays: step.arrays });
+  return next === current ? null : next;
+}
+
+/** lines.ensure: 없는 줄만 끝에 추가 */
+export function ensureLinesContent(current: string | null, lines: string[]): string | null {
+  const text = current ?? "";
+  const have = new Set(text.split(/\r?\n/).map((l) => l.trim()));
+  const missing = lines.filter((ln) => !have.has(ln.trim()));
+  if (missing.length === 0) return null;
+  const prefix = text && !text.endsWith("\n") ? "\n" : "";
+  return text + prefix + missing.join("\n") + "\n";
+}
+
+/** config.set: AST 편집. 파일이 없으면 throw */
+export function configSetContent(current: string | null, step: ConfigSetStep): string | null {
+  if (current === null) throw new Error(`config file not found: ${step.file}`);
+  const r = patchConfigSource(current, step.file, step);
+  return r.changed ? r.text : null;
+}
+
+/**
+ * text.patch
+ * - 파일 전체가 before 와 같을 때만 after 로 교체 (부분 일치는 치환하지 않음)
+ * - 아니면 patches 적용
+ * - 파일이 없거나 비어 있으면 createIfMissing 일 때만 빈 내용에서 시작 (after 를 새로 쓰지는 않음)
+ */
+export function textPatchContent(current: string | null, step: TextPatchStep): string | null {
+  const text = current ?? "";
+  if (!text && !step.createIfMissing) return null;
+  if (typeof step.before === "string" && typeof step.after === "string" && text === step.before) {
+    return step.after === current ? null : step.after;
+  }
+  if (!step.patches) return null;
+  const next = applyTextPatches(text, step.patches);
+  return next === current ? null : next;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// install
+// ─────────────────────────────────────────────────────────────────────────────
+export function installArgs(pm: string, deps: string[], dev?: boolean): string[] {
+  if (pm === "pnpm") return ["add", ...deps, ...(dev ? ["-D"] : [])];
+  if (pm === "yarn") return ["add", ...deps, ...(dev ? ["--dev"] : [])];
+  if (pm === "bun") return ["add", ...deps, ...(dev ? ["-d"] : [])];
+  return ["install", ...deps, dev ? "--save-dev" : "--save"];
+}
+
+// 버전이 지정되지 않은 항목에만 버전 추천을 붙인다. (versions 가 있으면 프로젝트 lockfile 등 반영)
+export function pinDeps(deps: string[], versions?: VersionResolver): string[] {
+  return deps.map((d) => (/.@/.test(d) ? d : `${d}@${versions ? versions.range(d) : suggestVersion(d)}`));
+}
+
+/** 전체 install 인자 (yarn은 인자 없이 실행) */
+export function fullInstallArgs(pm: string): string[] {
+  return pm === "yarn" ? [] : ["install"];
+}
+
+export type InstallCommand = {
+  pm: PackageManager;
+  args: string[];
+  /** 절대 경로 실행 위치 */
+  cwd: string;
+  /** 버전이 고정된 설치 대상 (비어 있으면 전체 install) */
+  deps: string[];
+};
+
+/** lockfile 은 워크스페이스 루트 기준, 실행 위치·버전 해석은 cwd(패키지) 기준 */
+export async function installCommand(root: string, step: InstallStep): Promise<InstallCommand> {
+  const pm = step.pm ?? detectPackageManager(root);
+  const cwd = step.cwd ? path.join(root, step.cwd) : root;
+  if (!Array.isArray(step.deps) || step.deps.length === 0) return { pm, args: fullInstallArgs(pm), cwd, deps: [] };
+  const deps = pinDeps(step.deps, await VersionResolver.load(cwd));
+  return { pm, args: installArgs(pm, deps, step.dev), cwd, deps };
+}
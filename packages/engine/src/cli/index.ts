@@ -5,8 +5,13 @@ import fs from "fs-extra";
 import { Logger } from "../core/logger.js";
 import { ProjectDetector } from "../core/project-detector.js";
 import { PlanGenerator } from "../core/plan-generator.js";
-import { PlanExecutor } from "../core/plan-executor.js";
+import { PlanExecutor, type ExecuteResult } from "../core/plan-executor.js";
+import { ApplyRun } from "../core/apply-run.js";
+import { BackupManager } from "../core/backup-manager.js";
 import { resolveRealProjectRoot } from "../utils/root.js";
+import type { MigrationOptions } from "../core/types.js";
+import { parsePlan, PlanSchemaError, type Plan } from "../core/plan-schema.js";
+import { formatDryRun } from "../apply/dry-run.js";
 
 const program = new Command();
 program
@@ -14,7 +19,7 @@ program
   .description("MoFix CLI – diagnose, plan, and apply project fixes")
   .version("0.1.0");
 
-function makeLogger(verbose = false) {
+function makeLogger(verbose = false): Logger {
   const log = (pfx: string) => (msg: string) => {
     if (verbose) console.log(`${pfx} ${msg}`);
   };
@@ -24,6 +29,12 @@ function makeLogger(verbose = false) {
     success: log("✅"),
     warning: (msg: string) => console.warn(`⚠️ ${msg}`),
     error: (msg: string) => console.error(`❌ ${msg}`),
+    log: (msg: string) => {
+      if (verbose) console.log(msg);
+    },
+    newLine: () => {
+      if (verbose) console.log();
+    },
   };
 }
 
@@ -67,7 +78,8 @@ program
   .description("Apply a migration plan to the project")
   .argument("[projectPath]", "Path to project root (default: .)", ".")
   .option("--plan <file>", "Use a plan JSON file generated by 'mofix plan'")
-  .option("--dry", "Dry-run (no file writes / installs)", false)
+  .option("--dry", "Dry-run: print a unified diff and the commands that would run", false)
+  .option("--resume [id]", "Continue a failed/interrupted apply (default: latest unfinished run), skipping completed steps")
   .option("--verbose", "Verbose logs", false)
   .action(async (projectPath, opts) => {
     const logger = makeLogger(!!opts.verbose);
@@ -79,35 +91,84 @@ program
         return;
       }
 
-      let steps: any[] | undefined = undefined;
+      const exec = new PlanExecutor(logger);
+      const options: MigrationOptions = { projectPath: root, dryRun: !!opts.dry, logger };
+      let result: ExecuteResult;
 
-      if (opts.plan) {
-        const src = await fs.readJson(path.resolve(opts.plan));
-        steps = (src.plan?.steps || src.steps) as any[];
-      }
+      if (opts.resume) {
+        // 저장된 스텝으로 이어서 실행 (플랜을 다시 만들지 않음)
+        const runId =
+          typeof opts.resume === "string" ? opts.resume : (await ApplyRun.list(root)).find((r) => r.status !== "completed")?.id;
+        if (!runId) {
+          logger.warning("No unfinished apply run to resume.");
+          process.exitCode = 3;
+          return;
+        }
+        result = await exec.resume(runId, options);
+      } else {
+        let plan: Plan;
+
+        if (opts.plan) {
+          // 'mofix plan' 출력({ plan }) 또는 plan 객체 자체, 구버전 스텝 모두 허용
+          const src = await fs.readJson(path.resolve(opts.plan));
+          plan = parsePlan(src.plan ?? src);
+        } else {
+          // 플랜이 없으면 즉석 생성
+          const detector = new ProjectDetector(new Logger());
+          const detection = await detector.detect(root);
+          const generator = new PlanGenerator(new Logger());
+          plan = await generator.generate(detection, { projectPath: root });
+        }
+
+        if (plan.steps.length === 0) {
+          logger.warning("No steps to apply.");
+          process.exitCode = 3;
+          return;
+        }
 
-      if (!steps) {
-        // 플랜이 없으면 즉석 생성
-        const detector = new ProjectDetector(new Logger());
-        const detection = await detector.detect(root);
-        const generator = new PlanGenerator(new Logger());
-        const plan = await generator.generate(detection, { projectPath: root });
-        steps = plan.steps as any[];
+        result = await exec.execute(plan, options);
       }
 
-      if (!Array.isArray(steps) || steps.length === 0) {
-        logger.warning("No steps to apply.");
-        process.exitCode = 3;
+      if (result.dryRun) {
+        process.stdout.write(formatDryRun(result.dryRun));
         return;
       }
 
-      const exec = new PlanExecutor(logger as any);
-      await exec.execute(
-        { steps, confidence: 1, warnings: [] } as any,
-        { projectPath: root, dryRun: !!opts.dry, logger } as any
-      );
+      logger.success("Apply done.");
+      if (result.journalId) console.log(`Journal: ${result.journalId} (undo with: mofix rollback --run ${result.journalId})`);
+      if (result.runId) console.log(`Run log: .mofix/runs/${result.runId}.json`);
+    } catch (err: any) {
+      if (err instanceof PlanSchemaError) err.issues.forEach((i) => logger.error(i));
+      logger.error(err?.message || String(err));
+      process.exitCode = 1;
+    }
+  });
+
+// mofix rollback
+program
+  .command("rollback")
+  .description("Restore the project from an apply journal (default: latest run)")
+  .argument("[projectPath]", "Path to project root (default: .)", ".")
+  .option("--run <id>", "Journal id printed by 'mofix apply'")
+  .option("--list", "List available journals", false)
+  .option("--verbose", "Verbose logs", false)
+  .action(async (projectPath, opts) => {
+    const logger = makeLogger(!!opts.verbose);
+    try {
+      const root = await resolveRealProjectRoot(path.resolve(projectPath));
+      const backups = new BackupManager(logger);
+
+      if (opts.list) {
+        const journals = await backups.listJournals(root);
+        for (const j of journals) {
+          console.log(`${j.id}  ${j.status.padEnd(11)}  ${j.entries.length} file(s)`);
+        }
+        if (journals.length === 0) logger.warning("No journals found.");
+        return;
+      }
 
-      logger.success(`Apply ${opts.dry ? "(dry-run) " : ""}done.`);
+      const r = await backups.rollback(root, opts.run);
+      console.log(`Rolled back ${r.id}: restored ${r.restored}, removed ${r.removed}`);
     } catch (err: any) {
       logger.error(err?.message || String(err));
       process.exitCode = 1;
@@ -0,0 +1,209 @@
+// packages/engine/src/core/apply-journal.ts
+// -----------------------------------------------------------------------------
+// Apply 저널: 실행기가 파일을 건드리기 "직전"에 원본 바이트/모드를 기록하고,
+// 실패 시(또는 `mofix rollback`으로) 적용 전 상태로 정확히 되돌립니다.
+// - 저장 위치: <project>/.mofix/journal/<id>/journal.json + blobs/
+// - 기록할 때마다 journal.json을 갱신하므로, 프로세스가 중간에 죽어도 되돌릴 수 있습니다.
+// -----------------------------------------------------------------------------
+import path from "path";
+import fs from "fs-extra";
+import type { PlanStep } from "./plan-schema.js";
+
+export type JournalEntry = {
+  /** 프로젝트 상대 경로 */
+  file: string;
+  /** 적용 전에 파일이 있었는지 (false면 롤백 시 삭제) */
+  existed: boolean;
+  mode?: number;
+  /** 원본 바이트 사본 (저널 디렉터리 기준 상대 경로) */
+  blob?: string;
+};
+
+export type JournalStatus = "pending" | "committed" | "rolled-back";
+
+export type JournalData = {
+  id: string;
+  projectPath: string;
+  createdAt: string;
+  status: JournalStatus;
+  entries: JournalEntry[];
+  /** 적용 중 새로 만들어진 디렉터리 (깊은 것부터) — 롤백 시 비어 있으면 제거 */
+  createdDirs: string[];
+};
+
+const JOURNAL_ROOT = path.join(".mofix", "journal");
+
+/** install 스텝이 건드리는 매니페스트/lock 파일 */
+const INSTALL_FILES = ["package.json", "package-lock.json", "npm-shrinkwrap.json", "pnpm-lock.yaml", "yarn.lock", "bun.lockb", "bun.lock"];
+
+/**
+ * 스텝이 수정할 수 있는 파일 목록(프로젝트 상대 경로).
+ * run 스텝은 부작용을 알 수 없어 빈 배열 — 호출 측에서 경고합니다.
+ */
+export function touchedFiles(step: PlanStep): string[] {
+  // writes 를 적은 스텝(주로 run)은 그 파일도 기록
+  const declared = step.writes ?? [];
+  switch (step.type) {
+    case "install":
+      // 워크스페이스 패키지 설치면 그 패키지의 package.json 도 바뀜
+      return [...(step.cwd ? [path.join(step.cwd, "package.json"), ...INSTALL_FILES] : INSTALL_FILES), ...declared];
+    case "run":
+      return declared;
+    default:
+      return [step.file, ...declared];
+  }
+}
+
+function newJournalId(): string {
+  const ts = new Date().toISOString().replace(/[:.]/g, "-");
+  return `${ts}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export class ApplyJournal {
+  private recorded = new Set<string>();
+
+  private constructor(
+    private readonly dir: string,
+    private data: JournalData
+  ) {
+    for (const e of data.entries) this.recorded.add(e.file);
+  }
+
+  get id(): string {
+    return this.data.id;
+  }
+
+  get status(): JournalStatus {
+    return this.data.status;
+  }
+
+  get entries(): readonly JournalEntry[] {
+    return this.data.entries;
+  }
+
+  static rootFor(projectPath: string): string {
+    return path.join(projectPath, JOURNAL_ROOT);
+  }
+
+  static async begin(projectPath: string): Promise<ApplyJournal> {
+    const id = newJournalId();
+    const dir = path.join(ApplyJournal.rootFor(projectPath), id);
+    await fs.ensureDir(path.join(dir, "blobs"));
+    const j = new ApplyJournal(dir, {
+      id,
+      projectPath,
+      createdAt: new Date().toISOString(),
+      status: "pending",
+      entries: [],
+      createdDirs: [],
+    });
+    await j.flush();
+    return j;
+  }
+
+  static async load(projectPath: string, id: string): Promise<ApplyJournal> {
+    const dir = path.join(ApplyJournal.rootFor(projectPath), id);
+    const file = path.join(dir, "journal.json");
+    if (!(await fs.pathExists(file))) throw new Error(`Journal not found: ${id}`);
+    const data = (await fs.readJson(file)) as JournalData;
+    return new ApplyJournal(dir, data);
+  }
+
+  /** 최신순 저널 목록 */
+  static async list(projectPath: string): Promise<JournalData[]> {
+    const root = ApplyJournal.rootFor(projectPath);
+    if (!(await fs.pathExists(root))) return [];
+    const ids: string[] = (await fs.readdir(root)).sort().reverse();
+    const out: JournalData[] = [];
+    for (const id of ids) {
+      const file = path.join(root, id, "journal.json");
+      const data = await fs.readJson(file).catch(() => null);
+      if (data) out.push(data as JournalData);
+    }
+    return out;
+  }
+
+  /** 파일(또는 디렉터리 하위 파일 전체)의 현재 상태를 기록. 같은 경로는 최초 1회만 */
+  async record(relFile: string): Promise<void> {
+    const rel = path.normalize(relFile);
+    if (this.recorded.has(rel) || rel.startsWith(JOURNAL_ROOT)) return;
+
+    const abs = path.join(this.data.projectPath, rel);
+    const stat = await fs.lstat(abs).catch(() => null);
+
+    if (stat?.isDirectory()) {
+      for (const name of await fs.readdir(abs)) await this.record(path.join(rel, name));
+      return;
+    }
+
+    this.recorded.add(rel);
+    if (stat) {
+      const blob = path.join("blobs", String(this.data.entries.length));
+      await fs.copyFile(abs, path.join(this.dir, blob));
+      this.data.entries.push({ file: rel, existed: true, mode: stat.mode & 0o7777, blob });
+    } else {
+      this.data.entries.push({ file: rel, existed: false });
+      await this.recordCreatedDirs(path.dirname(abs));
+    }
+    await this.flush();
+  }
+
+  async recordAll(relFiles: string[]): Promise<void> {
+    for (const f of relFiles) await this.record(f);
+  }
+
+  async commit(): Promise<void> {
+    this.data.status = "committed";
+    await this.flush();
+  }
+
+  /** 기록된 파일을 역순으로 복원하고, 새로 생긴 파일/빈 디렉터리를 제거 */
+  async rollback(): Promise<{ restored: number; removed: number }> {
+    if (this.data.status === "rolled-back") throw new Error(`Journal already rolled back: ${this.id}`);
+
+    let restored = 0;
+    let removed = 0;
+    for (const e of [...this.data.entries].reverse()) {
+      const abs = path.join(this.data.projectPath, e.file);
+      if (e.existed && e.blob) {
+        await fs.remove(abs).catch(() => {}); // 파일→디렉터리로 바뀐 경우 대비
+        await fs.ensureDir(path.dirname(abs));
+        await fs.copyFile(path.join(this.dir, e.blob), abs);
+        if (e.mode !== undefined) await fs.chmod(abs, e.mode);
+        restored++;
+      } else if (await fs.pathExists(abs)) {
+        await fs.remove(abs);
+        removed++;
+      }
+    }
+
+    for (const d of this.data.createdDirs) {
+      const abs = path.join(this.data.projectPath, d);
+      const left = await fs.readdir(abs).catch(() => null);
+      if (left && left.length === 0) await fs.rmdir(abs);
+    }
+
+    this.data.status = "rolled-back";
+    await this.flush();
+    return { restored, removed };
+  }
+
+  private async recordCreatedDirs(absDir: string): Promise<void> {
+    const root = path.resolve(this.data.projectPath);
+    const missing: string[] = [];
+    let cur = path.resolve(absDir);
+    while (cur.startsWith(root) && cur !== root && !(await fs.pathExists(cur))) {
+      missing.push(path.relative(root, cur));
+      cur = path.dirname(cur);
+    }
+    for (const d of missing) {
+      if (!this.data.createdDirs.includes(d)) this.data.createdDirs.push(d);
+    }
+    // 깊은 경로부터 지워야 하므로 길이 역순 정렬
+    this.data.createdDirs.sort((a, b) => b.length - a.length);
+  }
+
+  private async flush(): Promise<void> {
+    await fs.writeJson(path.join(this.dir, "journal.json"), this.data, { spaces: 2 });
+  }
+}
@@ -0,0 +1,228 @@
+// packages/engine/src/core/apply-run.ts
+// -----------------------------------------------------------------------------
+// Apply 실행 기록: 스텝별 상태/입력 해시/출력을 남겨 중단된 apply 를 이어서 실행(`mofix apply --resume <id>`).
+// - 저장 위치: <project>/.mofix/runs/<id>.json (id 는 첫 시도의 apply 저널 id 와 같음)
+// - 스텝이 끝날 때마다 갱신하므로 프로세스가 죽어도 어디까지 됐는지 남습니다.
+// - 시작 시와 스텝 시작/종료마다 프로젝트 지문(플랜이 읽고/쓰는 파일 해시)을 저장 → 멈춘 뒤 바뀌었으면 resume 거부
+// -----------------------------------------------------------------------------
+import path from "path";
+import crypto from "crypto";
+import fs from "fs-extra";
+import type { PlanStep } from "./plan-schema.js";
+import { stepReads, stepWrites } from "./plan-graph.js";
+
+/**
+ * - done: 효과가 남아 있음 → resume 때 건너뜀
+ * - failed / pending / running(중간에 죽음) → resume 때 다시 실행
+ * - rolled-back: 실행됐지만 저널 롤백으로 되돌려짐 → 다시 실행
+ */
+export type StepRunStatus = "pending" | "running" | "done" | "failed" | "rolled-back";
+
+export type StepRun = {
+  index: number;
+  type: PlanStep["type"];
+  id?: string;
+  /** 사람이 읽을 요약 (description / 파일 / 커맨드) */
+  label: string;
+  status: StepRunStatus;
+  /** 스텝 정의 + 실행 직전 읽는 파일 내용의 해시 */
+  inputHash?: string;
+  /** 결과 요약 (run 스텝은 pipe 출력 끝부분) */
+  output?: string;
+  error?: string;
+  attempts: number;
+  startedAt?: string;
+  finishedAt?: string;
+};
+
+export type RunStatus = "running" | "failed" | "completed";
+
+export type RunData = {
+  id: string;
+  projectPath: string;
+  createdAt: string;
+  updatedAt: string;
+  status: RunStatus;
+  /** 시도마다 새로 만든 apply 저널 id (rollback 단위) */
+  journals: string[];
+  /** 정규화·정렬된 스텝 (resume 은 플랜을 다시 만들지 않고 이것을 실행) */
+  plan: PlanStep[];
+  steps: StepRun[];
+  /** 마지막으로 기록한 시점의 파일 해시 (null = 없음). 스텝 도중 죽으면 그 스텝 시작 시점 */
+  fingerprint: Record<string, string | null>;
+};
+
+const RUNS_ROOT = path.join(".mofix", "runs");
+
+/** install 이 바꾸는 매니페스트/lock 은 플랜에 없어도 지문에 포함 */
+const ALWAYS_FINGERPRINT = ["package.json", "package-lock.json", "pnpm-lock.yaml", "yarn.lock", "bun.lockb", "bun.lock"];
+
+function hashFile(abs: string): string | null {
+  try {
+    const stat = fs.statSync(abs);
+    if (!stat.isFile()) return "dir";
+    return crypto.createHash("sha1").update(fs.readFileSync(abs)).digest("hex");
+  } catch {
+    return null;
+  }
+}
+
+function stepLabel(step: PlanStep): string {
+  if (step.description) return step.description;
+  if (step.type === "run") return [step.cmd, ...(step.args ?? [])].join(" ");
+  if (step.type === "install") return `install ${(step.deps ?? []).join(" ")}`.trim();
+  return `${step.type} ${step.file}`;
+}
+
+export class ApplyRun {
+  private constructor(
+    private readonly file: string,
+    private data: RunData
+  ) {}
+
+  get id(): string {
+    return this.data.id;
+  }
+
+  get status(): RunStatus {
+    return this.data.status;
+  }
+
+  get plan(): readonly PlanStep[] {
+    return this.data.plan;
+  }
+
+  get steps(): readonly StepRun[] {
+    return this.data.steps;
+  }
+
+  static rootFor(projectPath: string): string {
+    return path.join(projectPath, RUNS_ROOT);
+  }
+
+  static async begin(projectPath: string, id: string, plan: PlanStep[]): Promise<ApplyRun> {
+    const now = new Date().toISOString();
+    const run = new ApplyRun(path.join(ApplyRun.rootFor(projectPath), `${id}.json`), {
+      id,
+      projectPath,
+      createdAt: now,
+      updatedAt: now,
+      status: "running",
+      journals: [id],
+      plan,
+      steps: plan.map((step, index) => ({
+        index,
+        type: step.type,
+        ...(step.id ? { id: step.id } : {}),
+        label: stepLabel(step),
+        status: "pending",
+        attempts: 0,
+      })),
+      fingerprint: {},
+    });
+    // 첫 스텝 도중 죽어도 resume 이 비교할 기준이 있도록
+    run.data.fingerprint = run.fingerprintNow();
+    await run.flush();
+    return run;
+  }
+
+  static async load(projectPath: string, id: string): Promise<ApplyRun> {
+    const file = path.join(ApplyRun.rootFor(projectPath), `${id}.json`);
+    if (!(await fs.pathExists(file))) throw new Error(`Apply run not found: ${id}`);
+    return new ApplyRun(file, (await fs.readJson(file)) as RunData);
+  }
+
+  /** 최신순 실행 기록 */
+  static async list(projectPath: string): Promise<RunData[]> {
+    const root = ApplyRun.rootFor(projectPath);
+    if (!(await fs.pathExists(root))) return [];
+    const names: string[] = (await fs.readdir(root)).filter((n: string) => n.endsWith(".json")).sort().reverse();
+    const out: RunData[] = [];
+    for (const name of names) {
+      const data = await fs.readJson(path.join(root, name)).catch(() => null);
+      if (data) out.push(data as RunData);
+    }
+    return out;
+  }
+
+  /** 플랜이 읽고/쓰는 파일 + 매니페스트/lock 의 현재 해시 */
+  private fingerprintNow(): Record<string, string | null> {
+    const files = new Set(ALWAYS_FINGERPRINT);
+    for (const step of this.data.plan) for (const f of [...stepReads(step), ...stepWrites(step)]) files.add(f);
+    const out: Record<string, string | null> = {};
+    for (const f of [...files].sort()) out[f] = hashFile(path.join(this.data.projectPath, f));
+    return out;
+  }
+
+  /** 멈춘 뒤 바뀐 파일 (빈 배열 = 그대로). 실행 중 죽은 스텝이 쓰던 파일은 바뀌었어도 제외 */
+  changedSinceStop(): string[] {
+    const now = this.fingerprintNow();
+    const before = this.data.fingerprint;
+    const interrupted = new Set(this.data.steps.filter((s) => s.status === "running").flatMap((s) => stepWrites(this.data.plan[s.index])));
+    return [...new Set([...Object.keys(before), ...Object.keys(now)])]
+      .filter((f) => !interrupted.has(f) && (before[f] ?? null) !== (now[f] ?? null))
+      .sort();
+  }
+
+  /** resume 시작: 새 저널 연결, 다시 실행할 스텝 목록 반환 */
+  async resume(journalId: string): Promise<number[]> {
+    this.data.journals.push(journalId);
+    this.data.status = "running";
+    await this.flush();
+    return this.data.steps.filter((s) => s.status !== "done").map((s) => s.index);
+  }
+
+  async stepStarted(index: number): Promise<void> {
+    const s = this.data.steps[index];
+    const step = this.data.plan[index];
+    const hash = crypto.createHash("sha1").update(JSON.stringify(step));
+    for (const f of stepReads(step)) hash.update(`\0${f}\0${hashFile(path.join(this.data.projectPath, f)) ?? "-"}`);
+    Object.assign(s, { status: "running", inputHash: hash.digest("hex"), attempts: s.attempts + 1, startedAt: new Date().toISOString() });
+    delete s.error;
+    delete s.output;
+    this.data.fingerprint = this.fingerprintNow();
+    await this.flush();
+  }
+
+  async stepFinished(index: number, output: string[]): Promise<void> {
+    const s = this.data.steps[index];
+    Object.assign(s, { status: "done", finishedAt: new Date().toISOString() });
+    if (output.length > 0) s.output = output.join("\n");
+    this.data.fingerprint = this.fingerprintNow();
+    await this.flush();
+  }
+
+  async stepFailed(index: number, error: string, output: string[]): Promise<void> {
+    const s = this.data.steps[index];
+    Object.assign(s, { status: "failed", error, finishedAt: new Date().toISOString() });
+    if (output.length > 0) s.output = output.join("\n");
+    this.data.fingerprint = this.fingerprintNow();
+    await this.flush();
+  }
+
+  /**
+   * 저널 롤백 뒤: 이번 시도(indices)에서 파일 효과가 되돌려진 스텝은 다시 실행 대상으로.
+   * writes 를 선언하지 않은 run 스텝은 부작용이 저널에 없어 되돌려지지 않으므로 done 유지 (resume 때 재실행하지 않음).
+   */
+  async rolledBack(indices: number[]): Promise<void> {
+    for (const i of indices) {
+      const s = this.data.steps[i];
+      const journaled = s.type !== "run" || Boolean(this.data.plan[i].writes?.length);
+      if (s.status === "done" && journaled) s.status = "rolled-back";
+    }
+    await this.flush();
+  }
+
+  /** 실행 종료(성공/실패/롤백) — 최종 지문을 남겨 resume 전 변경 여부를 확인 */
+  async finish(): Promise<void> {
+    this.data.status = this.data.steps.every((s) => s.status === "done") ? "completed" : "failed";
+    this.data.fingerprint = this.fingerprintNow();
+    await this.flush();
+  }
+
+  private async flush(): Promise<void> {
+    this.data.updatedAt = new Date().toISOString();
+    await fs.ensureDir(path.dirname(this.file));
+    await fs.writeJson(this.file, this.data, { spaces: 2 });
+  }
+}
@@ -2,11 +2,14 @@ import path from 'path';
 import fs from 'fs-extra';
 import archiver from 'archiver';
 import { Logger } from './logger.js';
+import { ApplyJournal, type JournalData } from './apply-journal.js';
+
+type BackupLogger = Pick<Logger, 'info' | 'success' | 'warning'>;
 
 export class BackupManager {
   private backupDir: string;
 
-  constructor(private logger: Logger) {
+  constructor(private logger: BackupLogger) {
     this.backupDir = path.join(process.cwd(), '.dev-migrate-backups');
   }
 
@@ -52,25 +55,27 @@ export class BackupManager {
     });
   }
 
-  async rollback(projectPath: string): Promise<void> {
-    // Find the most recent backup
-    const backups = await fs.readdir(this.backupDir);
-    const sortedBackups = backups
-      .filter(file => file.startsWith('backup-') && file.endsWith('.zip'))
-      .sort()
-      .reverse();
-
-    if (sortedBackups.length === 0) {
-      throw new Error('No backups found for rollback');
+  /**
+   * 저널을 재생해 적용 전 상태로 복원합니다.
+   * - journalId 생략 시: 아직 되돌리지 않은 가장 최근 저널
+   */
+  async rollback(projectPath: string, journalId?: string): Promise<{ id: string; restored: number; removed: number }> {
+    let id = journalId;
+    if (!id) {
+      const latest = (await ApplyJournal.list(projectPath)).find((j) => j.status !== 'rolled-back');
+      if (!latest) throw new Error('No apply journal found for rollback');
+      id = latest.id;
     }
 
-    const latestBackup = path.join(this.backupDir, sortedBackups[0]);
-    this.logger.info(`Rolling back from: ${latestBackup}`);
+    const journal = await ApplyJournal.load(projectPath, id);
+    this.logger.info(`Rolling back from journal: ${id} (${journal.entries.length} file(s))`);
+    const r = await journal.rollback();
+    this.logger.success(`Rollback completed: restored ${r.restored}, removed ${r.removed}`);
+    return { id, ...r };
+  }
 
-    // This is a simplified rollback - in a real implementation,
-    // you would extract the backup and restore files
-    this.logger.warning('Rollback functionality is simplified in this version');
-    this.logger.info(`Manual rollback: extract ${latestBackup} to ${projectPath}`);
+  async listJournals(projectPath: string): Promise<JournalData[]> {
+    return ApplyJournal.list(projectPath);
   }
 
   async listBackups(): Promise<string[]> {
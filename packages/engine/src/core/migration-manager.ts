@@ -7,6 +7,7 @@ import { FileManager } from './file-manager.js';
 import { BackupManager } from './backup-manager.js';
 import { PlanGenerator } from './plan-generator.js';
 import { PlanExecutor } from './plan-executor.js';
+import { stepFile } from './plan-schema.js';
 import { resolveRealProjectRoot } from '../utils/root.js'; // ★ 루트 보정 유틸 추가
 
 export class MigrationManager {
@@ -99,11 +100,8 @@ export class MigrationManager {
       });
       logger.success('Migration applied successfully');
     } catch (error) {
-      logger.error('Migration failed. Rolling back...');
-      if (this.options.createBackup) {
-        await this.backupManager.rollback(projectRoot); // ★ 보정 경로
-        logger.info('Rollback completed');
-      }
+      // required 스텝 실패 시 PlanExecutor가 apply 저널로 이미 복원하고 결과를 로그로 남김
+      logger.error('Migration failed.');
       throw error;
     }
 
@@ -118,12 +116,27 @@ export class MigrationManager {
     logger.info('📋 Migration Plan:');
     logger.newLine();
 
-    plan.steps.forEach((step, _index) => {
-      const prefix = step.required ? '✓' : '○';
-      logger.log(`  ${prefix} ${step.description}`);
-      if (step.target) {
-        logger.log(`    → ${step.target}`);
+    // 모노레포: 루트 공통 스텝 → 패키지별 스텝 순으로 묶어서 출력
+    const groups = new Map<string, MigrationPlan['steps']>();
+    for (const step of plan.steps) {
+      const key = step.package ?? '';
+      groups.set(key, [...(groups.get(key) ?? []), step]);
+    }
+    const grouped = groups.size > 1 || plan.packages?.length;
+
+    [...groups.keys()].sort().forEach((key) => {
+      if (grouped) {
+        const pkg = plan.packages?.find((p) => p.dir === key);
+        logger.log(key ? `  [${pkg ? `${pkg.name} · ` : ''}${key}${pkg?.framework ? `, ${pkg.framework}` : ''}]` : '  [root]');
       }
+      groups.get(key)!.forEach((step) => {
+        const prefix = step.required ? '✓' : '○';
+        const file = stepFile(step);
+        logger.log(`  ${prefix} ${step.description ?? step.type}`);
+        if (file) {
+          logger.log(`    → ${file}`);
+        }
+      });
     });
 
     logger.newLine();
@@ -3,161 +3,51 @@ import path from "path";
 import fs from "fs-extra";
 import { spawn } from "child_process";
 import type { MigrationPlan, MigrationOptions } from "./types.js";
+import { normalizeSteps, type PlanStep } from "./plan-schema.js";
+import { ApplyJournal, touchedFiles } from "./apply-journal.js";
+import { ApplyRun } from "./apply-run.js";
+import { orderSteps } from "./plan-graph.js";
+import { dryRunPlan, type DryRunResult } from "../apply/dry-run.js";
+import {
+  configSetContent,
+  createContent,
+  ensureLinesContent,
+  installCommand,
+  jsonMergeContent,
+  textPatchContent,
+} from "../apply/step-ops.js";
 
 type Logger = Required<
   Pick<MigrationOptions["logger"], "info" | "step" | "success" | "warning" | "error">
 >;
 
-type JsonObject = Record<string, any>;
-
-// 엔진이 실행 가능한 스텝들 (신규 + 레거시 호환)
-type PatchStep =
-  | { type: "json.merge"; file: string; merge: Record<string, any> }
-  | {
-      type: "create";
-      file?: string;
-      target?: string;
-      description?: string;
-      required?: boolean;
-      content?: string | Buffer;
-      overwrite?: boolean;
-    }
-  | { type: "write"; file: string; content: string | Buffer }
-  | { type: "append"; file: string; content: string | Buffer }
-  | {
-      type: "text.patch";
-      file: string;
-      before?: string;
-      after?: string;
-      patches?:
-        | { search: string; replace: string }[]
-        | { search: string; replace: string };
-      createIfMissing?: boolean;
-    }
-  | { type: "install"; pm?: "npm" | "pnpm" | "yarn" | "bun"; deps?: string[]; dev?: boolean }
-  | {
-      type: "run";
-      cmd: string;
-      args?: string[];
-      cwd?: string;
-      env?: Record<string, string>;
-      stdio?: "inherit" | "pipe";
-      timeoutMs?: number;
-    }
-  // ── 레거시 호환 ──────────────────────────────
-  | { type: "modify"; target: string; description?: string; required?: boolean; content: string }
-  | { type: "delete"; target: string; description?: string }
-  | { type: "copy"; target: string; description?: string; content?: string }
-  | { type: "install-old"; pkg: string; dev?: boolean; description?: string }
-  | { type: "exec"; cmd: string; args?: string[]; cwd?: string; description?: string };
-
 // ───────────────────────── 유틸 ─────────────────────────
 function isDry(options: MigrationOptions | undefined): boolean {
   return !!options?.dryRun;
 }
-async function safeReadJson(file: string): Promise<JsonObject> {
-  if (!(await fs.pathExists(file))) return {};
-  try {
-    return await fs.readJson(file);
-  } catch {
-    return {};
-  }
-}
-function deepMerge(target: JsonObject, source: JsonObject): JsonObject {
-  for (const [k, v] of Object.entries(source)) {
-    if (v && typeof v === "object" && !Array.isArray(v)) {
-      target[k] = deepMerge(target[k] ?? {}, v as JsonObject);
-    } else {
-      target[k] = v;
-    }
-  }
-  return target;
-}
-async function jsonMerge(baseDir: string, relFile: string, merge: JsonObject, dry: boolean) {
+/** 스텝 의미는 apply/step-ops.ts (runner / dry-run 과 공유): 새 내용을 계산해 바뀐 경우만 씀 */
+async function editFile(baseDir: string, relFile: string, next: (current: string | null) => string | null) {
   const file = path.join(baseDir, relFile);
-  const current = await safeReadJson(file);
-  const next = deepMerge({ ...current }, merge);
-  if (dry) return { file, changed: JSON.stringify(current) !== JSON.stringify(next) };
+  const stat = await fs.stat(file).catch(() => null);
+  const current = stat?.isFile() ? await fs.readFile(file, "utf8") : null;
+  const text = next(current);
+  if (text === null) return { file, changed: false, missing: current === null };
   await fs.ensureDir(path.dirname(file));
-  await fs.writeJson(file, next, { spaces: 2 });
-  return { file, changed: true };
-}
-async function createFile(
-  baseDir: string,
-  targetOrFile: string | undefined,
-  content: string | Buffer | undefined,
-  overwrite: boolean,
-  dry: boolean
-) {
-  const rel = targetOrFile ?? "";
-  const file = path.join(baseDir, rel);
-  const exists = await fs.pathExists(file);
-  if (exists && !overwrite) return { file, skipped: true, reason: "exists" };
-  if (dry) return { file, changed: !exists || overwrite };
-  await fs.ensureDir(path.dirname(file));
-  await fs.writeFile(file, content ?? "");
-  return { file, changed: true };
+  await fs.writeFile(file, text, "utf8");
+  return { file, changed: true, missing: current === null };
 }
-async function writeFile(baseDir: string, relFile: string, content: string | Buffer, dry: boolean) {
+async function writeFile(baseDir: string, relFile: string, content: string | Buffer) {
   const file = path.join(baseDir, relFile);
-  if (dry) return { file, changed: true };
   await fs.ensureDir(path.dirname(file));
   await fs.writeFile(file, content);
   return { file, changed: true };
 }
-async function appendFile(baseDir: string, relFile: string, content: string | Buffer, dry: boolean) {
+async function appendFile(baseDir: string, relFile: string, content: string | Buffer) {
   const file = path.join(baseDir, relFile);
-  if (dry) return { file, changed: true };
   await fs.ensureDir(path.dirname(file));
   await fs.appendFile(file, content);
   return { file, changed: true };
 }
-async function textPatch(
-  baseDir: string,
-  step: Extract<PatchStep, { type: "text.patch" }>,
-  dry: boolean
-) {
-  const file = path.join(baseDir, step.file);
-  const exists = await fs.pathExists(file);
-  if (!exists && !step.createIfMissing) return { file, skipped: true, reason: "missing" };
-
-  if (!exists && step.createIfMissing) {
-    if (dry) return { file, changed: true };
-    await fs.ensureDir(path.dirname(file));
-    await fs.writeFile(file, (step.after ?? "") + "\n");
-    return { file, changed: true };
-  }
-
-  const original = await fs.readFile(file, "utf8");
-  let modified = original;
-
-  if (step.before !== undefined && step.after !== undefined) {
-    modified = modified.replace(step.before, step.after);
-  }
-
-  if (step.patches) {
-    const arr = Array.isArray(step.patches) ? step.patches : [step.patches];
-    for (const p of arr) {
-      const regex = new RegExp(p.search, "g");
-      modified = modified.replace(regex, p.replace);
-    }
-  }
-
-  if (modified === original) return { file, skipped: true, reason: "no-change" };
-  if (dry) return { file, changed: true };
-  await fs.writeFile(file, modified);
-  return { file, changed: true };
-}
-function detectPackageManager(
-  projectPath: string,
-  hinted?: "npm" | "pnpm" | "yarn" | "bun"
-): "npm" | "pnpm" | "yarn" | "bun" {
-  if (hinted) return hinted;
-  if (fs.existsSync(path.join(projectPath, "pnpm-lock.yaml"))) return "pnpm";
-  if (fs.existsSync(path.join(projectPath, "yarn.lock"))) return "yarn";
-  if (fs.existsSync(path.join(projectPath, "bun.lockb"))) return "bun";
-  return "npm";
-}
 function spawnPromise(
   cmd: string,
   args: string[],
@@ -176,60 +66,50 @@ function spawnPromise(
     child.on("close", (code) => resolve({ code }));
   });
 }
-async function installDeps(
-  projectPath: string,
-  deps: string[] | undefined,
-  dev: boolean | undefined,
-  hintedPm: "npm" | "pnpm" | "yarn" | "bun" | undefined,
-  dry: boolean,
-  logger: Logger
-) {
-  if (!deps || deps.length === 0) return { skipped: true, reason: "no-deps" };
-  const pm = detectPackageManager(projectPath, hintedPm);
-  const devFlag = dev ? "dev" : undefined;
-
-  let cmd = pm;
-  let args: string[] = [];
-  if (pm === "npm") {
-    args = ["install", ...deps, dev ? "--save-dev" : "--save"];
-  } else if (pm === "pnpm") {
-    args = ["add", ...deps];
-    if (devFlag) args.push("-D");
-  } else if (pm === "yarn") {
-    args = ["add", ...deps];
-    if (devFlag) args.push("-D");
-  } else if (pm === "bun") {
-    args = ["add", ...deps];
-    if (devFlag) args.push("-d");
-  }
-
-  logger.info?.(`📦 (${pm}) installing ${dev ? "devDependencies" : "dependencies"}: ${deps.join(", ")}`);
-  if (dry) return { pm, args, changed: true };
-
-  const { code } = await spawnPromise(cmd, args, projectPath, {}, "inherit");
+async function installDeps(projectPath: string, step: Extract<PlanStep, { type: "install" }>, logger: Logger) {
+  // apply/runner.ts 와 같은 버전 고정: lockfile/스냅샷 범위 → json.merge 가 쓴 범위를 latest 로 덮지 않음
+  const { pm, args, cwd, deps } = await installCommand(projectPath, step);
+  const where = step.cwd ? ` in ${step.cwd}` : "";
+  if (deps.length > 0) logger.info?.(`📦 (${pm}) installing ${step.dev ? "devDependencies" : "dependencies"}: ${deps.join(", ")}${where}`);
+  else logger.info?.(`📦 (${pm}) install${where}`);
+  const { code } = await spawnPromise(pm, args, cwd, {}, "inherit");
   if (code !== 0) throw new Error(`Install failed: ${pm} ${args.join(" ")}`);
-  return { pm, args, changed: true };
+  return { pm, args, deps, changed: true };
+}
+async function copyFile(baseDir: string, relSource: string, relFile: string) {
+  const from = path.join(baseDir, relSource);
+  const file = path.join(baseDir, relFile);
+  if (!(await fs.pathExists(from))) throw new Error(`copy source not found: ${relSource}`);
+  await fs.ensureDir(path.dirname(file));
+  await fs.copy(from, file);
+  return { file, changed: true };
 }
-async function deleteTarget(baseDir: string, relTarget: string, dry: boolean) {
+async function deleteTarget(baseDir: string, relTarget: string) {
   const file = path.join(baseDir, relTarget);
   const exists = await fs.pathExists(file);
   if (!exists) return { file, skipped: true, reason: "missing" };
-  if (dry) return { file, changed: true };
   await fs.remove(file);
   return { file, changed: true };
 }
+const RUN_OUTPUT_LIMIT = 4000;
+
 async function runCmd(
   baseDir: string,
   cmd: string,
   args: string[] = [],
   env: Record<string, string> = {},
   stdio: "inherit" | "pipe" = "inherit",
-  timeoutMs?: number,
-  dry?: boolean
+  timeoutMs?: number
 ) {
-  if (dry) return { cmd, args, changed: true };
   let timeoutId: NodeJS.Timeout | undefined;
   const child = spawn(cmd, args, { cwd: baseDir, env: { ...process.env, ...env }, stdio, shell: process.platform === "win32" });
+  // pipe 모드면 출력 끝부분만 보관 (apply 실행 기록용)
+  let output = "";
+  const keep = (chunk: Buffer) => {
+    output = (output + chunk.toString()).slice(-RUN_OUTPUT_LIMIT);
+  };
+  child.stdout?.on("data", keep);
+  child.stderr?.on("data", keep);
   const done = new Promise<{ code: number | null }>((resolve, reject) => {
     child.on("error", reject);
     child.on("close", (code) => resolve({ code }));
@@ -243,126 +123,225 @@ async function runCmd(
   }
   const res = await done;
   if (timeoutId) clearTimeout(timeoutId);
-  if (res.code !== 0) throw new Error(`Command failed: ${cmd} ${args.join(" ")}`);
-  return { changed: true };
+  if (res.code !== 0) throw new Error(`Command failed: ${cmd} ${args.join(" ")}${output ? `\n${output.trimEnd()}` : ""}`);
+  return { changed: true, output: output.trimEnd() };
 }
 
 // ───────────────────────── 실행기 본체 ─────────────────────────
+export type ExecuteResult = {
+  /** 이번 실행의 apply 저널 id (dry-run이면 undefined) — `mofix rollback --run <id>` */
+  journalId?: string;
+  /** 스텝별 실행 기록 id (.mofix/runs/<id>.json) — `mofix apply --resume <id>` */
+  runId?: string;
+  /** dry-run일 때만: 파일별 unified diff + 실행될 커맨드 */
+  dryRun?: DryRunResult;
+};
+
 export class PlanExecutor {
   constructor(private readonly logger: Logger) {}
 
-  async execute(plan: MigrationPlan, options: MigrationOptions): Promise<void> {
+  /**
+   * 플랜 실행 (트랜잭션)
+   * - 파일을 건드리기 전에 원본을 저널에 기록
+   * - required 스텝이 실패하면 저널로 적용 전 상태를 복원한 뒤 에러를 다시 던짐
+   * - dryRun이면 디스크를 건드리지 않고 메모리 오버레이에서 diff만 계산
+   */
+  async execute(plan: MigrationPlan, options: MigrationOptions): Promise<ExecuteResult> {
     const projectPath = options.projectPath;
-    const dry = isDry(options);
 
-    for (const step of plan.steps as unknown as PatchStep[]) {
-      try {
-        switch (step.type) {
-          case "json.merge": {
-            this.logger.info?.(`🧩 json.merge → ${step.file}`);
-            const r = await jsonMerge(projectPath, step.file, step.merge, dry);
-            if (r.changed) this.logger.success(`  updated ${step.file}${dry ? " (dry)" : ""}`);
-            else this.logger.info(`  no change`);
-            break;
-          }
-          case "create": {
-            const target = step.target ?? step.file ?? "";
-            this.logger.info?.(`📄 create → ${target}`);
-            const r = await createFile(projectPath, target, step.content, !!step.overwrite, dry);
-            if ((r as any).skipped) this.logger.warning(`  skipped (exists): ${target}`);
-            else this.logger.success(`  created ${target}${dry ? " (dry)" : ""}`);
-            break;
-          }
-          case "write": {
-            this.logger.info?.(`✍️ write → ${step.file}`);
-            await writeFile(projectPath, step.file, step.content, dry);
-            this.logger.success(`  wrote ${step.file}${dry ? " (dry)" : ""}`);
-            break;
-          }
-          case "append": {
-            this.logger.info?.(`➕ append → ${step.file}`);
-            await appendFile(projectPath, step.file, step.content, dry);
-            this.logger.success(`  appended ${step.file}${dry ? " (dry)" : ""}`);
-            break;
-          }
-          case "text.patch": {
-            this.logger.info?.(`📝 text.patch → ${step.file}`);
-            const r = await textPatch(projectPath, step, dry);
-            if ((r as any).skipped) this.logger.info(`  skipped (${(r as any).reason})`);
-            else this.logger.success(`  patched ${step.file}${dry ? " (dry)" : ""}`);
-            break;
-          }
-          case "install": {
-            const deps = step.deps ?? [];
-            if (deps.length === 0) {
-              this.logger.info("  nothing to install");
-              break;
-            }
-            await installDeps(projectPath, deps, step.dev, step.pm, dry, this.logger);
-            this.logger.success(`  installed ${deps.join(", ")}${dry ? " (dry)" : ""}`);
-            break;
-          }
-          case "delete": {
-            this.logger.info?.(`🗑️ delete → ${step.target}`);
-            await deleteTarget(projectPath, step.target, dry);
-            this.logger.success(`  deleted ${step.target}${dry ? " (dry)" : ""}`);
-            break;
-          }
-          case "run": {
-            this.logger.info?.(`🏃 run → ${step.cmd} ${(step.args || []).join(" ")}`);
-            await runCmd(
-              step.cwd ?? projectPath,
-              step.cmd,
-              step.args,
-              step.env ?? {},
-              step.stdio ?? "inherit",
-              step.timeoutMs,
-              dry
-            );
-            this.logger.success(`  run done${dry ? " (dry)" : ""}`);
-            break;
-          }
+    // 구버전/외부 입력 스텝도 공통 스키마로 변환 (알 수 없는 스텝·dependsOn 순환은 여기서 PlanSchemaError)
+    const steps = orderSteps(normalizeSteps(plan.steps));
+
+    if (isDry(options)) {
+      const dryRun = await dryRunPlan(projectPath, steps);
+      for (const w of dryRun.warnings) this.logger.warning(`  ${w}`);
+      this.logger.info(
+        `🔍 dry-run: ${dryRun.files.length} file(s) would change, ${dryRun.commands.length} command(s) would run`
+      );
+      return { dryRun };
+    }
 
-          // ── 레거시 호환 ──────────────────────────────
-          case "modify": {
-            const file = path.join(projectPath, step.target);
-            this.logger.info?.(`🛠️ modify(legacy) → ${step.target}`);
-            if (!dry) {
-              await fs.ensureDir(path.dirname(file));
-              await fs.writeFile(file, step.content);
-            }
-            this.logger.success(`  modified ${step.target}${dry ? " (dry)" : ""}`);
-            break;
-          }
-          case "copy": {
-            const target = path.join(projectPath, step.target);
-            this.logger.info?.(`📦 copy(legacy) → ${step.target}`);
-            if (!dry) {
-              await fs.ensureDir(path.dirname(target));
-              await fs.writeFile(target, step.content ?? "");
-            }
-            this.logger.success(`  copied ${step.target}${dry ? " (dry)" : ""}`);
-            break;
-          }
-          case "install-old": {
-            await installDeps(projectPath, [step.pkg], step.dev, undefined, dry, this.logger);
-            this.logger.success(`  installed ${step.pkg}${dry ? " (dry)" : ""}`);
-            break;
-          }
-          case "exec": {
-            this.logger.info?.(`⚙️ exec(legacy) → ${step.cmd}`);
-            await runCmd(step.cwd ?? projectPath, step.cmd, step.args ?? [], {}, "inherit", undefined, dry);
-            this.logger.success(`  exec done${dry ? " (dry)" : ""}`);
-            break;
-          }
+    const journal = await ApplyJournal.begin(projectPath);
+    const run = await ApplyRun.begin(projectPath, journal.id, steps);
+    this.logger.info(`Apply journal: ${journal.id}`);
+    return this.runSteps(projectPath, steps, steps.map((_, i) => i), journal, run);
+  }
 
-          default:
-            this.logger.warning(`⚠️ unknown step type: ${(step as any).type}`);
-        }
+  /**
+   * 중단/실패한 apply 이어서 실행 (`mofix apply --resume <id>`)
+   * - 저장된 스텝을 그대로 사용, 완료(done)된 스텝은 건너뛰고 실패/미실행/롤백된 스텝만 실행
+   * - 멈춘 뒤 플랜이 건드리는 파일이 바뀌었으면 거부
+   */
+  async resume(runId: string, options: MigrationOptions): Promise<ExecuteResult> {
+    const projectPath = options.projectPath;
+    const run = await ApplyRun.load(projectPath, runId);
+    if (run.status === "completed") throw new Error(`Apply run already completed: ${runId}`);
+
+    const changed = run.changedSinceStop();
+    if (changed.length > 0) {
+      throw new Error(
+        `Project changed since run ${runId} stopped (${changed.join(", ")}) — re-plan or 'mofix rollback --run ${runId}'`
+      );
+    }
+
+    const steps = [...run.plan];
+    const remaining = run.steps.filter((s) => s.status !== "done").map((s) => s.index);
+    if (isDry(options)) {
+      const dryRun = await dryRunPlan(projectPath, remaining.map((i) => steps[i]));
+      this.logger.info(`🔍 dry-run (resume ${runId}): ${remaining.length} step(s) would run`);
+      return { dryRun, runId };
+    }
+
+    const journal = await ApplyJournal.begin(projectPath);
+    const indices = await run.resume(journal.id);
+    this.logger.info(`Resuming run ${runId}: ${steps.length - indices.length} done step(s) skipped, ${indices.length} to run (journal ${journal.id})`);
+    return this.runSteps(projectPath, steps, indices, journal, run);
+  }
+
+  private async runSteps(
+    projectPath: string,
+    steps: PlanStep[],
+    indices: number[],
+    journal: ApplyJournal,
+    run: ApplyRun
+  ): Promise<ExecuteResult> {
+    for (const i of indices) {
+      const step = steps[i];
+      const output: string[] = [];
+      const note = (level: "success" | "info" | "warning", msg: string) => {
+        this.logger[level](msg);
+        output.push(msg.trim());
+      };
+      await run.stepStarted(i);
+      try {
+        await this.journalStep(journal, step);
+        await this.runStep(projectPath, step, note);
+        await run.stepFinished(i, output);
       } catch (e: any) {
-        this.logger.error?.(`❌ step failed (${(step as any).type}): ${e?.message || e}`);
-        if ((step as any).required) throw e;
+        this.logger.error?.(`❌ step failed (${step.type}): ${e?.message || e}`);
+        await run.stepFailed(i, e?.message || String(e), output);
+        if (step.required) {
+          await this.rollback(journal);
+          await run.rolledBack(indices);
+          await run.finish();
+          this.logger.warning(`  fix the cause, then: mofix apply --resume ${run.id}`);
+          throw e;
+        }
+      }
+    }
+
+    await journal.commit();
+    await run.finish();
+    if (run.status === "failed") this.logger.warning(`Some steps failed — retry them with: mofix apply --resume ${run.id}`);
+    return { journalId: journal.id, runId: run.id };
+  }
+
+  private async runStep(
+    projectPath: string,
+    step: PlanStep,
+    note: (level: "success" | "info" | "warning", msg: string) => void
+  ): Promise<void> {
+    switch (step.type) {
+      case "json.merge": {
+        this.logger.info?.(`🧩 json.merge → ${step.file}`);
+        const r = await editFile(projectPath, step.file, (c) => jsonMergeContent(c, step));
+        if (r.changed) note("success", `  updated ${step.file}`);
+        else note("info", `  no change`);
+        break;
+      }
+      case "create": {
+        this.logger.info?.(`📄 create → ${step.file}`);
+        const r = await editFile(projectPath, step.file, (c) => createContent(c, step));
+        if (!r.changed) note("warning", `  skipped (exists): ${step.file}`);
+        else note("success", `  created ${step.file}`);
+        break;
+      }
+      case "write": {
+        this.logger.info?.(`✍️ write → ${step.file}`);
+        await writeFile(projectPath, step.file, step.content);
+        note("success", `  wrote ${step.file}`);
+        break;
+      }
+      case "append": {
+        this.logger.info?.(`➕ append → ${step.file}`);
+        await appendFile(projectPath, step.file, step.content);
+        note("success", `  appended ${step.file}`);
+        break;
+      }
+      case "lines.ensure": {
+        this.logger.info?.(`📑 lines.ensure → ${step.file}`);
+        const r = await editFile(projectPath, step.file, (c) => ensureLinesContent(c, step.lines));
+        if (!r.changed) note("info", `  no change`);
+        else note("success", `  updated ${step.file}`);
+        break;
+      }
+      case "config.set": {
+        this.logger.info?.(`⚙️ config.set → ${step.file} (${step.path.join(".")})`);
+        const r = await editFile(projectPath, step.file, (c) => configSetContent(c, step));
+        if (!r.changed) note("info", `  no change`);
+        else note("success", `  updated ${step.file}`);
+        break;
+      }
+      case "text.patch": {
+        this.logger.info?.(`📝 text.patch → ${step.file}`);
+        const r = await editFile(projectPath, step.file, (c) => textPatchContent(c, step));
+        if (!r.changed) note("info", `  skipped (${r.missing ? "missing" : "no-change"})`);
+        else note("success", `  patched ${step.file}`);
+        break;
+      }
+      case "install": {
+        const r = await installDeps(projectPath, step, this.logger);
+        note("success", r.deps.length > 0 ? `  installed ${r.deps.join(", ")}` : `  installed`);
+        break;
       }
+      case "delete": {
+        this.logger.info?.(`🗑️ delete → ${step.file}`);
+        await deleteTarget(projectPath, step.file);
+        note("success", `  deleted ${step.file}`);
+        break;
+      }
+      case "copy": {
+        this.logger.info?.(`📦 copy → ${step.source} → ${step.file}`);
+        await copyFile(projectPath, step.source, step.file);
+        note("success", `  copied ${step.file}`);
+        break;
+      }
+      case "run": {
+        this.logger.info?.(`🏃 run → ${step.cmd} ${(step.args || []).join(" ")}`);
+        const r = await runCmd(
+          step.cwd ? path.resolve(projectPath, step.cwd) : projectPath,
+          step.cmd,
+          step.args,
+          step.env ?? {},
+          step.stdio ?? "inherit",
+          step.timeoutMs
+        );
+        if (r.output) note("info", r.output);
+        note("success", `  run done`);
+        break;
+      }
+
+      default:
+        note("warning", `⚠️ unknown step type: ${(step as any).type}`);
+    }
+  }
+
+  private async journalStep(journal: ApplyJournal, step: PlanStep) {
+    // run 스텝은 writes 로 선언한 파일만 기록 (선언이 없으면 부작용을 알 수 없음)
+    if (step.type === "run" && !step.writes?.length) {
+      this.logger.warning(`  run step side effects are not journaled: ${step.cmd}`);
+      return;
+    }
+    await journal.recordAll(touchedFiles(step));
+  }
+
+  private async rollback(journal: ApplyJournal) {
+    this.logger.warning(`↩️ required step failed — rolling back (journal ${journal.id})`);
+    try {
+      const r = await journal.rollback();
+      this.logger.success(`  rollback done: restored ${r.restored}, removed ${r.removed}`);
+    } catch (e: any) {
+      this.logger.error(`  rollback failed: ${e?.message || e} — run 'mofix rollback --run ${journal.id}'`);
     }
   }
 }
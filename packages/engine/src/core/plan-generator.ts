@@ -1,6 +1,7 @@
 // packages/engine/src/core/plan-generator.ts
 
-import { FrameworkRegistry } from "../frameworks/framework-registry.js";
+import path from "path";
+import { FrameworkRegistry, knownFramework } from "../frameworks/framework-registry.js";
 import { ProviderRegistry } from "../providers/provider-registry.js";
 import { TargetRegistry } from "../targets/target-registry.js";
 
@@ -9,23 +10,26 @@ import { ProjectDetector } from "./project-detector.js";
 import { Logger } from "./logger.js";
 import { buildAutoFixes, fixesFromDiagnoseMessages, type Fix } from "../fixes/rules.js";
 import { diagnose } from "../diagnose/index.js";
+import { TemplateManager } from "./template-manager.js";
+import { makePlan, normalizeSteps, scopeSteps, type Plan, type PlanStep } from "./plan-schema.js";
+import { schedulePlan } from "./plan-graph.js";
+import { hasDesiredScripts, planUpdatePackageJsonScripts } from "../utils/packageJson.js";
+import { isServerFramework, planServerScripts } from "../utils/server-entry.js";
+import { planEnvExample } from "../utils/env-inventory.js";
+import { VersionResolver } from "../utils/version-resolver.js";
 
 /** ---------------- Types ---------------- **/
-export type PlanStepType = "create" | "modify";
-
-export type PlanStep = {
-  type: PlanStepType;
-  description: string;
-  target: string;         // 파일 경로 혹은 리소스 식별자
-  required: boolean;
-  // 실행기에 추가 정보를 넘기기 위한 임의 페이로드
-  payload?: Record<string, any>;
-};
+// 스텝/플랜 형식은 공통 스키마(plan-schema.ts)를 그대로 사용
+export type { PlanStep, PlanStepType } from "./plan-schema.js";
 
 export interface DetectionResult {
   framework?: string;     // e.g. "nextjs" | "vite" | ...
   provider?: string;
   hasPackageJson?: boolean;
+  /** 모노레포: 패키지별 감지 결과 (dir은 루트 기준 상대 경로) */
+  workspaces?: {
+    packages: Array<{ name: string; dir: string; framework?: string; hasPackageJson: boolean }>;
+  };
 }
 
 export interface GenerateOptions {
@@ -34,11 +38,7 @@ export interface GenerateOptions {
   [key: string]: any;     // 기타 옵션
 }
 
-export interface PlanResult {
-  steps: PlanStep[];
-  confidence: number;
-  warnings: string[];
-}
+export type PlanResult = Plan;
 /** -------------------------------------- **/
 
 /**
@@ -63,19 +63,36 @@ export class PlanGenerator {
     const steps: PlanStep[] = [];
     const warnings: string[] = [];
     let confidence = 1.0;
+    const packages = detection.workspaces?.packages ?? [];
 
-    /** 1) 공통 파일 생성 스텝 */
+    /** 1) 공통 파일 생성 스텝 (모노레포에서도 루트 공유) + 소스 기반 .env.example (모노레포는 패키지별) */
     steps.push(...(await this.generateCommonFiles()));
+    if (packages.length === 0) steps.push(...(await planEnvExample(options.projectPath, detection.framework)));
 
-    /** 2) 프레임워크별 설정 스텝 (어댑터에 위임) */
-    if (detection.framework) {
-      const frameworkAdapter: {
-        generateConfig?: (projectPath: string, opts?: GenerateOptions) => Promise<PlanStep[]> | PlanStep[];
-      } = this.frameworkRegistry.get(detection.framework) as any;
-
-      if (frameworkAdapter?.generateConfig) {
-        const frameworkSteps = await frameworkAdapter.generateConfig(options.projectPath, options);
-        steps.push(...frameworkSteps);
+    /** 2) 프레임워크별 설정 스텝 (어댑터에 위임) — 모노레포는 패키지마다 */
+    if (packages.length > 0) {
+      for (const pkg of packages) {
+        const pkgPath = path.join(options.projectPath, pkg.dir);
+        const pkgSteps: PlanStep[] = [];
+        const label = `${pkg.name} (${pkg.dir})`;
+        if (pkg.framework) {
+          const notes: string[] = [];
+          const r = await this.frameworkSteps(pkg.framework, { ...options, projectPath: pkgPath }, notes);
+          warnings.push(...notes.map((n) => `${n} in ${label}`));
+          if (r) pkgSteps.push(...r);
+          else warnings.push(`No adapter found for framework: ${pkg.framework} in ${label}`);
+        } else {
+          warnings.push(`Framework not detected in ${label}`);
+        }
+        pkgSteps.push(...(await this.scriptSteps(pkg.framework, pkg.hasPackageJson, pkgPath, pkgSteps, warnings, label)));
+        pkgSteps.push(...(await planEnvExample(pkgPath, pkg.framework)));
+        steps.push(...scopeSteps(pkgSteps, pkg.dir));
+      }
+      if (packages.every((p) => !p.framework)) confidence -= 0.3;
+    } else if (detection.framework) {
+      const r = await this.frameworkSteps(detection.framework, options, warnings);
+      if (r) {
+        steps.push(...r);
       } else {
         warnings.push(`No adapter found for framework: ${detection.framework}`);
         confidence -= 0.2;
@@ -89,11 +106,13 @@ export class PlanGenerator {
     if (detection.provider) {
       const providerAdapter: {
         transform?: (projectPath: string, opts?: GenerateOptions) => Promise<PlanStep[]> | PlanStep[];
-      } = this.providerRegistry.get(detection.provider) as any;
+      } = this.providerRegistry.has(detection.provider)
+        ? (this.providerRegistry.get(detection.provider) as any)
+        : undefined;
 
       if (providerAdapter?.transform) {
         const providerSteps = await providerAdapter.transform(options.projectPath, options);
-        steps.push(...providerSteps);
+        steps.push(...normalizeSteps(providerSteps));
       } else {
         warnings.push(`Provider "${detection.provider}" has no 'transform' adapter`);
         confidence -= 0.1;
@@ -108,7 +127,9 @@ export class PlanGenerator {
           projectPath: string,
           opts?: GenerateOptions
         ) => Promise<PlanStep[]> | PlanStep[];
-      } = this.targetRegistry.get(options.deploymentTarget) as any;
+      } = this.targetRegistry.has(options.deploymentTarget)
+        ? (this.targetRegistry.get(options.deploymentTarget) as any)
+        : undefined;
 
       if (targetAdapter?.generateConfig) {
         const targetSteps = await targetAdapter.generateConfig(
@@ -116,87 +137,92 @@ export class PlanGenerator {
           options.projectPath,
           options
         );
-        steps.push(...targetSteps);
+        steps.push(...normalizeSteps(targetSteps));
       } else {
         warnings.push(`No adapter found for target: ${options.deploymentTarget}`);
         confidence -= 0.2;
       }
     }
 
-    /** 5) package.json 스크립트 보정 스텝 (MVP 핵심) */
-    if (detection.hasPackageJson) {
-      // Next.js / Vite 에 대해서만 보정 (필요시 케이스 확장)
-      const fw = (detection.framework || "").toLowerCase();
-      if (fw === "nextjs" || fw === "vite") {
-        steps.push({
-          type: "modify",
-          description: `Normalize package.json scripts for ${fw}`,
-          target: "package.json",
-          required: true,
-          payload: {
-            action: "normalizePackageScripts",
-            framework: fw, // "nextjs" | "vite"
-          },
-        });
+    /** 5) package.json 스크립트 보정 스텝 (MVP 핵심) — 모노레포는 2)에서 패키지별로 처리 */
+    if (packages.length === 0) {
+      if (detection.hasPackageJson) {
+        steps.push(
+          ...(await this.scriptSteps(detection.framework, true, options.projectPath, steps, warnings))
+        );
       } else {
-        // 프레임워크 미확인/기타일 때는 권장 수준으로만 안내
-        steps.push({
-          type: "modify",
-          description: "Normalize package.json scripts (generic)",
-          target: "package.json",
-          required: false,
-          payload: {
-            action: "normalizePackageScripts",
-            framework: "generic",
-          },
-        });
+        warnings.push("No package.json found — script normalization skipped");
+        confidence -= 0.15;
       }
-    } else {
-      warnings.push("No package.json found — script normalization skipped");
-      confidence -= 0.15;
     }
 
-    return {
-      steps,
+    /** 6) 의존 순서 정렬 + 같은 파일 json.merge 합치기, 겹치는 편집은 경고로 */
+    const scheduled = schedulePlan(steps);
+    for (const c of scheduled.conflicts) warnings.push(`Conflicting edits: ${c.message}`);
+    if (scheduled.conflicts.length > 0) confidence -= 0.1;
+
+    return makePlan(scheduled.steps, {
       confidence: Math.max(0.1, confidence),
       warnings,
-    };
+      packages: packages.map((p) => ({ name: p.name, dir: p.dir, framework: p.framework })),
+    });
   }
 
-  /** 공통 파일 템플릿 생성 계획 */
+  /** 프레임워크 어댑터 스텝 (어댑터가 없으면 null). 어댑터가 남긴 수동 작업 안내는 warnings 로 */
+  private async frameworkSteps(framework: string, options: GenerateOptions, warnings: string[]): Promise<PlanStep[] | null> {
+    const frameworkAdapter: {
+      generateConfig?: (projectPath: string, opts?: GenerateOptions) => Promise<PlanStep[]> | PlanStep[];
+    } = this.frameworkRegistry.get(framework) as any;
+
+    if (!frameworkAdapter?.generateConfig) return null;
+    return normalizeSteps(await frameworkAdapter.generateConfig(options.projectPath, { ...options, warnings }));
+  }
+
+  /**
+   * package.json scripts 보정 — DESIRED_SCRIPTS 가 있는 프레임워크와 Node 서버(엔트리 기반), 없는 스크립트만 json.merge.
+   * 같은 범위의 스텝에 이미 scripts 병합(또는 package.json write)이 있으면 생략합니다.
+   */
+  private async scriptSteps(
+    framework: string | undefined,
+    hasPackageJson: boolean,
+    projectPath: string,
+    existing: PlanStep[],
+    warnings: string[],
+    label?: string
+  ): Promise<PlanStep[]> {
+    if (!hasPackageJson) return [];
+    const fw = (framework || "").toLowerCase();
+    // 어댑터가 이미 scripts 를 병합했거나 package.json 을 통째로 다시 쓰는 경우 (CRA → Vite)
+    const already = existing.some(
+      (s) =>
+        (s.type === "json.merge" && s.file === "package.json" && s.merge.scripts) ||
+        (s.type === "write" && s.file === "package.json")
+    );
+    if (already) return [];
+    if (!hasDesiredScripts(fw) && !isServerFramework(fw)) {
+      // 프레임워크 미확인/기타일 때는 권장 수준으로만 안내
+      warnings.push(`package.json scripts not normalized for framework: ${fw || "unknown"}${label ? ` in ${label}` : ""}`);
+      return [];
+    }
+    return isServerFramework(fw) ? planServerScripts(projectPath, fw) : planUpdatePackageJsonScripts(projectPath, fw);
+  }
+
+  /** 공통 파일 템플릿 생성 계획 (내용은 TemplateManager, 이미 있으면 create가 skip) */
   private async generateCommonFiles(): Promise<PlanStep[]> {
-    return [
-      {
-        type: "create",
-        description: "Create .gitignore file",
-        target: ".gitignore",
-        required: true,
-      },
-      {
-        type: "create",
-        description: "Create VS Code settings",
-        target: ".vscode/settings.json",
-        required: false,
-      },
-      {
-        type: "create",
-        description: "Create VS Code extensions recommendations",
-        target: ".vscode/extensions.json",
-        required: false,
-      },
-      {
-        type: "create",
-        description: "Create Prettier configuration",
-        target: ".prettierrc",
-        required: false,
-      },
-      {
-        type: "create",
-        description: "Create environment variables guide",
-        target: ".env.example",
-        required: false,
-      },
+    const templates = new TemplateManager();
+    const files: Array<{ file: string; description: string; required: boolean }> = [
+      { file: ".gitignore", description: "Create .gitignore file", required: true },
+      { file: ".vscode/settings.json", description: "Create VS Code settings", required: false },
+      { file: ".vscode/extensions.json", description: "Create VS Code extensions recommendations", required: false },
+      { file: ".prettierrc", description: "Create Prettier configuration", required: false },
     ];
+
+    const steps: PlanStep[] = [];
+    for (const f of files) {
+      const content = await templates.getTemplate(f.file);
+      steps.push({ type: "create", ...f, content: content ?? "" });
+    }
+    return steps;
   }
 }
 
@@ -213,7 +239,7 @@ export async function generatePlan(projectRoot: string): Promise<{
   const detection = await detector.detect(projectRoot);
 
   // 1) framework 감지 (unknown 처리)
-  const framework = (detection.framework ?? "unknown") as "nextjs" | "vite" | "express" | "unknown";
+  const framework = knownFramework(detection.framework);
 
   // 2) diagnose 실행 (에러/로그 수집)
   const diagResult = await diagnose(projectRoot);
@@ -222,7 +248,7 @@ export async function generatePlan(projectRoot: string): Promise<{
   const autoFixes = await buildAutoFixes(projectRoot, framework);
 
   // 4) 로그 기반 Fix 빌드
-  const diagFixes = fixesFromDiagnoseMessages(diagResult);
+  const diagFixes = fixesFromDiagnoseMessages(diagResult, { versions: await VersionResolver.load(projectRoot) });
 
   // 5) 최종 Fix 합치기
   const fixes = [...autoFixes, ...diagFixes];
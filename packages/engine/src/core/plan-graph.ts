@@ -0,0 +1,278 @@
+// packages/engine/src/core/plan-graph.ts
+// -----------------------------------------------------------------------------
+// 스텝 의존 그래프: 각 스텝이 읽고/쓰는 파일과 명시적 dependsOn 으로 실행 순서를 정합니다.
+// - 같은 파일을 건드리는 스텝끼리는 원래 순서 유지, dependsOn 이 있으면 그쪽이 우선
+// - 파일을 알 수 없는 run 스텝(reads/writes 미지정)은 앞뒤 모든 스텝과 순서를 지키는 장벽
+// - 순환(dependsOn 사이클)·모르는 id·중복 id 는 PlanSchemaError
+// - schedulePlan(): 정렬 + 같은 파일 json.merge 합치기 + 충돌(같은 키에 다른 값) 보고
+// -----------------------------------------------------------------------------
+import path from "path";
+import { normalizeSteps, PlanSchemaError, type ArrayMergeStrategy, type JsonMergeStep, type PlanStep } from "./plan-schema.js";
+import { touchedFiles } from "./apply-journal.js";
+
+export type StepConflict = {
+  file: string;
+  /** json.merge / config.set 의 키 경로 (파일 전체 덮어쓰기면 없음) */
+  path?: string[];
+  /** 충돌한 스텝 (정렬된 플랜 기준 인덱스) */
+  steps: number[];
+  message: string;
+};
+
+export type ScheduledPlan = {
+  steps: PlanStep[];
+  conflicts: StepConflict[];
+};
+
+const norm = (file: string) => path.posix.normalize(file.split(path.sep).join("/")).replace(/^\.\//, "");
+
+/** 스텝이 읽는 파일. reads 를 지정하지 않으면 종류로 추론 */
+export function stepReads(step: PlanStep): string[] {
+  if (step.reads) return step.reads.map(norm);
+  switch (step.type) {
+    case "copy":
+      return [norm(step.source)];
+    case "install":
+      return [norm(path.posix.join(step.cwd ?? ".", "package.json"))];
+    case "run":
+      return [];
+    default:
+      return [norm(step.file)];
+  }
+}
+
+/** 스텝이 쓰는 파일. writes 를 지정하지 않으면 종류로 추론 (run 은 알 수 없음 → []) */
+export function stepWrites(step: PlanStep): string[] {
+  return [...new Set(touchedFiles(step).map(norm))];
+}
+
+/** 파일 정보가 없는 run 은 무엇이든 읽고 쓸 수 있다고 봄 */
+const isBarrier = (step: PlanStep) => step.type === "run" && !step.reads && !step.writes;
+
+function overlaps(a: PlanStep, b: PlanStep): boolean {
+  if (isBarrier(a) || isBarrier(b)) return true;
+  const wa = new Set(stepWrites(a));
+  const wb = new Set(stepWrites(b));
+  const touches = (w: Set<string>, files: string[]) => files.some((f) => w.has(f));
+  return touches(wa, stepWrites(b)) || touches(wa, stepReads(b)) || touches(wb, stepReads(a));
+}
+
+const label = (steps: PlanStep[], i: number) => steps[i].id ?? `#${i}`;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 그래프 / 정렬
+// ─────────────────────────────────────────────────────────────────────────────
+/** 중복 id, 모르는 dependsOn, 순환을 문제 목록으로 (빈 배열 = 유효) */
+export function stepGraphIssues(steps: PlanStep[]): string[] {
+  const issues: string[] = [];
+  const byId = new Map<string, number>();
+  steps.forEach((s, i) => {
+    if (!s.id) return;
+    if (byId.has(s.id)) issues.push(`steps[${i}] duplicate id: ${s.id}`);
+    else byId.set(s.id, i);
+  });
+  steps.forEach((s, i) => {
+    for (const dep of s.dependsOn ?? []) {
+      if (!byId.has(dep)) issues.push(`steps[${i}] dependsOn unknown id: ${dep}`);
+    }
+  });
+  const cycle = findCycle(steps, explicitEdges(steps));
+  if (cycle) issues.push(`dependency cycle: ${cycle.map((i) => label(steps, i)).join(" → ")}`);
+  return issues;
+}
+
+/** dependsOn → 간선 목록 (from 이 먼저) */
+function explicitEdges(steps: PlanStep[]): Set<number>[] {
+  const byId = new Map(steps.map((s, i) => [s.id, i] as const).filter(([id]) => id));
+  const out = steps.map(() => new Set<number>());
+  steps.forEach((s, i) => {
+    for (const dep of s.dependsOn ?? []) {
+      const from = byId.get(dep);
+      if (from !== undefined) out[from].add(i);
+    }
+  });
+  return out;
+}
+
+function findCycle(steps: PlanStep[], out: Set<number>[]): number[] | null {
+  const state = steps.map(() => 0); // 0 미방문, 1 방문 중, 2 완료
+  const stack: number[] = [];
+  const visit = (i: number): number[] | null => {
+    state[i] = 1;
+    stack.push(i);
+    for (const j of out[i]) {
+      if (state[j] === 1) return [...stack.slice(stack.indexOf(j)), j];
+      if (state[j] === 0) {
+        const found = visit(j);
+        if (found) return found;
+      }
+    }
+    stack.pop();
+    state[i] = 2;
+    return null;
+  };
+  for (let i = 0; i < steps.length; i++) {
+    if (state[i] === 0) {
+      const found = visit(i);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function reaches(out: Set<number>[], from: number, to: number): boolean {
+  const seen = new Set([from]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const i = queue.shift()!;
+    if (i === to) return true;
+    for (const j of out[i]) if (!seen.has(j)) seen.add(j), queue.push(j);
+  }
+  return false;
+}
+
+/**
+ * 실행 순서로 정렬된 복사본. 제약이 없는 스텝은 원래 순서를 유지합니다.
+ * 같은 파일을 건드리는 앞뒤 스텝은 원래 순서대로 묶되, dependsOn 과 어긋나면 dependsOn 을 따릅니다.
+ */
+export function orderSteps<T extends PlanStep>(steps: T[]): T[] {
+  const issues = stepGraphIssues(steps);
+  if (issues.length > 0) throw new PlanSchemaError(issues);
+  if (!steps.some((s) => s.dependsOn?.length)) return [...steps];
+
+  const out = explicitEdges(steps);
+  for (let j = 0; j < steps.length; j++) {
+    for (let i = 0; i < j; i++) {
+      if (overlaps(steps[i], steps[j]) && !reaches(out, j, i)) out[i].add(j);
+    }
+  }
+
+  const indegree = steps.map(() => 0);
+  out.forEach((targets) => targets.forEach((j) => indegree[j]++));
+  const ready = steps.map((_, i) => i).filter((i) => indegree[i] === 0);
+  const order: T[] = [];
+  while (ready.length > 0) {
+    ready.sort((a, b) => a - b);
+    const i = ready.shift()!;
+    order.push(steps[i]);
+    for (const j of out[i]) if (--indegree[j] === 0) ready.push(j);
+  }
+  return order;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 충돌 / 합치기
+// ─────────────────────────────────────────────────────────────────────────────
+const isPlainObject = (v: unknown): v is Record<string, any> => Boolean(v) && typeof v === "object" && !Array.isArray(v);
+
+function strategyAt(step: JsonMergeStep, keys: string[]): ArrayMergeStrategy {
+  const arrays = step.arrays;
+  if (!arrays) return "replace";
+  if (typeof arrays === "string") return arrays;
+  return arrays[keys.join(".")] ?? arrays["*"] ?? "replace";
+}
+
+/** merge 객체의 말단 값들 (배열은 말단) */
+function leaves(obj: Record<string, any>, keys: string[] = []): [string[], unknown][] {
+  return Object.entries(obj).flatMap(([k, v]) => (isPlainObject(v) && Object.keys(v).length > 0 ? leaves(v, [...keys, k]) : [[[...keys, k], v] as [string[], unknown]]));
+}
+
+/** 두 json.merge 의 같은 키 경로 중 결과가 달라지는 것 (append/unique 배열은 둘 다 반영되므로 제외) */
+function mergeClashes(a: JsonMergeStep, b: JsonMergeStep): string[][] {
+  const mine = new Map(leaves(a.merge).map(([k, v]) => [k.join("\u0000"), v]));
+  const clashes: string[][] = [];
+  for (const [keys, v] of leaves(b.merge)) {
+    const key = keys.join("\u0000");
+    // 한쪽이 객체를 통째로 원시값으로 바꾸는 경우(접두 경로)도 충돌
+    const prefix = [...mine.keys()].find((k) => k !== key && (k.startsWith(key + "\u0000") || key.startsWith(k + "\u0000")));
+    const emptyObject = (x: unknown) => isPlainObject(x) && Object.keys(x).length === 0;
+    if (prefix !== undefined) {
+      if (!emptyObject(v) && !emptyObject(mine.get(prefix))) clashes.push(keys);
+    }
+    else if (mine.has(key) && JSON.stringify(mine.get(key)) !== JSON.stringify(v) && !(Array.isArray(v) && strategyAt(b, keys) !== "replace")) clashes.push(keys);
+  }
+  return clashes;
+}
+
+/** 같은 파일에 대한 편집 중 서로 덮어쓰는 것들 */
+export function detectStepConflicts(steps: PlanStep[]): StepConflict[] {
+  const conflicts: StepConflict[] = [];
+  const add = (i: number, j: number, file: string, message: string, keys?: string[]) =>
+    conflicts.push({ file, ...(keys ? { path: keys } : {}), steps: [i, j], message: `${file}${keys ? ` ${keys.join(".")}` : ""}: ${message}` });
+
+  for (let j = 0; j < steps.length; j++) {
+    for (let i = 0; i < j; i++) {
+      const a = steps[i];
+      const b = steps[j];
+      const [la, lb] = [label(steps, i), label(steps, j)];
+      if (a.type === "json.merge" && b.type === "json.merge" && norm(a.file) === norm(b.file)) {
+        for (const keys of mergeClashes(a, b)) add(i, j, norm(a.file), `${la} and ${lb} set different values (${lb} wins)`, keys);
+      } else if (a.type === "config.set" && b.type === "config.set" && norm(a.file) === norm(b.file) && a.path.join(".") === b.path.join(".")) {
+        if (JSON.stringify(a.value) !== JSON.stringify(b.value)) add(i, j, norm(a.file), `${la} and ${lb} set different values`, a.path);
+      } else if ((b.type === "write" || b.type === "create") && stepWrites(a).includes(norm(b.file))) {
+        const same = (a.type === "write" || a.type === "create") && a.content === b.content;
+        if (same) continue;
+        if (b.type === "write" || b.overwrite) add(i, j, norm(b.file), `${lb} overwrites the edit from ${la}`);
+        else if (a.type === "create" || a.type === "write") add(i, j, norm(b.file), `${lb} is skipped because ${la} already created the file`);
+      }
+    }
+  }
+  return conflicts;
+}
+
+function deepMerge(base: Record<string, any>, patch: Record<string, any>): Record<string, any> {
+  const out: Record<string, any> = { ...base };
+  for (const [k, v] of Object.entries(patch)) out[k] = isPlainObject(v) && isPlainObject(out[k]) ? deepMerge(out[k], v) : v;
+  return out;
+}
+
+/**
+ * 같은 파일 json.merge 가 (사이에 그 파일을 건드리는 스텝 없이) 이어지면 하나로 합침.
+ * 결과가 달라질 수 있는 경우(충돌, 배열 방식 차이, 다른 스텝이 참조하는 id)는 그대로 둠.
+ */
+function combineJsonMerges(steps: PlanStep[]): PlanStep[] {
+  const referenced = new Set(steps.flatMap((s) => s.dependsOn ?? []));
+  const mergeable = (step: PlanStep) => !(step.id && referenced.has(step.id));
+  const out: PlanStep[] = [];
+  for (const step of steps) {
+    // 이 파일을 마지막으로 건드린 스텝이 합칠 수 있는 json.merge 일 때만
+    let k = out.length - 1;
+    while (k >= 0 && !overlaps(out[k], step)) k--;
+    const prev = k >= 0 ? out[k] : undefined;
+    if (
+      step.type === "json.merge" &&
+      prev?.type === "json.merge" &&
+      norm(prev.file) === norm(step.file) &&
+      prev.package === step.package &&
+      JSON.stringify(prev.arrays) === JSON.stringify(step.arrays) &&
+      mergeable(prev) &&
+      mergeable(step) &&
+      !leaves(step.merge).some(([keys, v]) => Array.isArray(v) && strategyAt(step, keys) !== "replace") &&
+      mergeClashes(prev, step).length === 0
+    ) {
+      const dependsOn = [...new Set([...(prev.dependsOn ?? []), ...(step.dependsOn ?? [])])];
+      const description = [prev.description, step.description].filter(Boolean).join(" + ");
+      out[k] = {
+        ...prev,
+        merge: deepMerge(prev.merge, step.merge),
+        ...(description ? { description } : {}),
+        ...(prev.required || step.required ? { required: true } : {}),
+        ...(dependsOn.length > 0 ? { dependsOn } : {}),
+      };
+      continue;
+    }
+    out.push(step);
+  }
+  return out;
+}
+
+/**
+ * 여러 출처(공통/프레임워크/프로바이더/타깃/스크립트, 여러 Fix)를 이어 붙인 스텝을 실행 가능한 플랜으로.
+ * 구 포맷 스텝도 받음. 스키마 위반·순환이면 PlanSchemaError. 충돌은 고치지 않고 conflicts 로 알려 줌(뒤 스텝이 이김).
+ */
+export function schedulePlan(steps: unknown[]): ScheduledPlan {
+  const ordered = orderSteps(normalizeSteps(steps));
+  // 충돌하는 json.merge 는 합치지 않으므로 합친 뒤에 검사해도 빠지는 충돌 없음
+  const combined = combineJsonMerges(ordered);
+  return { steps: combined, conflicts: detectStepConflicts(combined) };
+}
@@ -0,0 +1,435 @@
+// packages/engine/src/core/plan-schema.ts
+// -----------------------------------------------------------------------------
+// MoFix 공통 플랜 스키마 (버전 관리)
+// - generator / diagnose / fixes / 두 실행기(apply/runner, PlanExecutor) / CLI / HTTP 라우트가
+//   모두 이 파일의 PlanStep / Plan 을 사용합니다.
+// - 구버전 스텝(mergeJson, target, install-old, exec, modify ...)은 upgradeStep()으로 변환합니다.
+// -----------------------------------------------------------------------------
+
+export const PLAN_SCHEMA_VERSION = 1 as const;
+
+export type PackageManager = "npm" | "pnpm" | "yarn" | "bun";
+
+/** 모든 스텝이 공유하는 메타 필드 */
+type StepMeta = {
+  description?: string;
+  /** true면 실패 시 실행기가 중단(throw)합니다. 기본 false */
+  required?: boolean;
+  /** 모노레포: 이 스텝이 속한 워크스페이스 패키지 디렉터리 (없으면 루트 공통 스텝) */
+  package?: string;
+  /** 플랜 안에서 유일한 스텝 식별자 (dependsOn 에서 참조) */
+  id?: string;
+  /** 먼저 실행되어야 하는 스텝 id 들 */
+  dependsOn?: string[];
+  /** 읽는/쓰는 파일 (프로젝트 상대). 생략하면 스텝 종류에서 추론 — core/plan-graph.ts */
+  reads?: string[];
+  writes?: string[];
+};
+
+export type TextPatch = {
+  search: string;
+  replace: string;
+  /** true면 search를 정규식(전역)으로 해석. 기본은 리터럴 치환 */
+  regex?: boolean;
+};
+
+export type CreateStep = StepMeta & {
+  type: "create";
+  file: string;
+  content?: string;
+  overwrite?: boolean;
+};
+export type WriteStep = StepMeta & { type: "write"; file: string; content: string };
+export type AppendStep = StepMeta & { type: "append"; file: string; content: string };
+export type DeleteStep = StepMeta & { type: "delete"; file: string };
+export type CopyStep = StepMeta & { type: "copy"; source: string; file: string };
+/**
+ * json.merge 배열 병합 방식
+ * - replace: 통째 교체 (기본)
+ * - append: 기존 뒤에 모두 추가
+ * - unique: 기존에 없는 항목만 추가
+ */
+export type ArrayMergeStrategy = "replace" | "append" | "unique";
+
+export type JsonMergeStep = StepMeta & {
+  type: "json.merge";
+  file: string;
+  merge: Record<string, any>;
+  /** 전체 기본값 또는 점 경로별 지정 (예: { "compilerOptions.types": "unique", "*": "append" }) */
+  arrays?: ArrayMergeStrategy | Record<string, ArrayMergeStrategy>;
+};
+export type TextPatchStep = StepMeta & {
+  type: "text.patch";
+  file: string;
+  before?: string;
+  after?: string;
+  patches?: TextPatch[];
+  createIfMissing?: boolean;
+};
+/** 파일에 주어진 줄들이 없으면 끝에 추가 (.gitignore 보강 등) */
+export type LinesEnsureStep = StepMeta & { type: "lines.ensure"; file: string; lines: string[] };
+/** 설정 값: JSON 값 또는 소스 그대로 넣을 식 ({ $expr: "react()" }) */
+export type ConfigValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ConfigValue[]
+  | { $expr: string }
+  | { [key: string]: ConfigValue };
+export type ConfigSetMode = "set" | "ifMissing" | "append";
+/** 값이 참조하는 식별자용 import (ESM 이면 import, CJS 면 require) */
+export type ConfigImport = { from: string; default?: string; named?: string[] };
+/** JS/TS 설정 파일(vite/next/postcss/tailwind.config.*)의 중첩 속성 설정 — AST 기반, 멱등 */
+export type ConfigSetStep = StepMeta & {
+  type: "config.set";
+  file: string;
+  path: string[];
+  value: ConfigValue;
+  /** set(기본) / ifMissing: 이미 있으면 그대로 / append: 배열(plugins 등)에 없을 때만 추가 */
+  mode?: ConfigSetMode;
+  imports?: ConfigImport[];
+};
+export type InstallStep = StepMeta & {
+  type: "install";
+  pm?: PackageManager;
+  /** 비어 있으면 전체 install */
+  deps?: string[];
+  dev?: boolean;
+  /** 프로젝트 상대 실행 위치 (워크스페이스 패키지에 설치할 때) */
+  cwd?: string;
+};
+export type RunStep = StepMeta & {
+  type: "run";
+  cmd: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  stdio?: "inherit" | "pipe";
+  timeoutMs?: number;
+};
+
+export type PlanStep =
+  | CreateStep
+  | WriteStep
+  | AppendStep
+  | DeleteStep
+  | CopyStep
+  | JsonMergeStep
+  | TextPatchStep
+  | LinesEnsureStep
+  | ConfigSetStep
+  | InstallStep
+  | RunStep;
+
+export type PlanStepType = PlanStep["type"];
+
+/** 모노레포 플랜에서 스텝을 묶는 워크스페이스 패키지 */
+export type PlanPackage = {
+  name: string;
+  /** 루트 기준 상대 경로 (posix) — 스텝의 package 값과 같음 */
+  dir: string;
+  framework?: string;
+};
+
+export type Plan = {
+  schemaVersion: typeof PLAN_SCHEMA_VERSION;
+  steps: PlanStep[];
+  confidence: number; // 0.0 ~ 1.0
+  warnings: string[];
+  /** 모노레포일 때만: 패키지 목록 (스텝은 package 필드로 연결) */
+  packages?: PlanPackage[];
+};
+
+export const PLAN_STEP_TYPES: readonly PlanStepType[] = [
+  "create",
+  "write",
+  "append",
+  "delete",
+  "copy",
+  "json.merge",
+  "text.patch",
+  "lines.ensure",
+  "config.set",
+  "install",
+  "run",
+];
+
+/** 스키마 검증 실패. issues에 스텝 단위 사유가 들어갑니다. */
+export class PlanSchemaError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid plan: ${issues.join("; ")}`);
+    this.name = "PlanSchemaError";
+  }
+}
+
+export function makePlan(
+  steps: PlanStep[],
+  extra: { confidence?: number; warnings?: string[]; packages?: PlanPackage[] } = {}
+): Plan {
+  return {
+    schemaVersion: PLAN_SCHEMA_VERSION,
+    steps,
+    confidence: extra.confidence ?? 1,
+    warnings: extra.warnings ?? [],
+    ...(extra.packages && extra.packages.length > 0 ? { packages: extra.packages } : {}),
+  };
+}
+
+/** 스텝이 건드리는 프로젝트 상대 파일 경로 (run/install은 undefined) */
+export function stepFile(step: PlanStep): string | undefined {
+  return "file" in step ? step.file : undefined;
+}
+
+/**
+ * 패키지 디렉터리 기준으로 만든 스텝을 워크스페이스 루트 기준으로 옮깁니다.
+ * file/source/cwd 앞에 dir 을 붙이고 package 필드를 채웁니다.
+ */
+export function scopeSteps(steps: PlanStep[], dir: string): PlanStep[] {
+  const join = (rel: string | undefined) => (rel ? `${dir}/${rel.replace(/^\.\//, "")}` : dir);
+  // id 는 패키지마다 겹칠 수 있으므로 "dir:id" 로 (같은 묶음 안의 dependsOn 도 함께)
+  const ids = new Set(steps.map((s) => s.id).filter(Boolean));
+  const graph = (step: PlanStep) => ({
+    ...(step.id ? { id: `${dir}:${step.id}` } : {}),
+    ...(step.dependsOn ? { dependsOn: step.dependsOn.map((d) => (ids.has(d) ? `${dir}:${d}` : d)) } : {}),
+    ...(step.reads ? { reads: step.reads.map(join) } : {}),
+    ...(step.writes ? { writes: step.writes.map(join) } : {}),
+  });
+  return steps.map((step): PlanStep => {
+    switch (step.type) {
+      case "install":
+      case "run":
+        return { ...step, ...graph(step), cwd: join(step.cwd), package: dir };
+      case "copy":
+        return { ...step, ...graph(step), source: join(step.source), file: join(step.file), package: dir };
+      default:
+        return { ...step, ...graph(step), file: join(step.file), package: dir };
+    }
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 구버전 스텝 → 현재 스키마 변환
+// ─────────────────────────────────────────────────────────────────────────────
+function pickMeta(raw: any): StepMeta {
+  const meta: StepMeta = {};
+  if (typeof raw.description === "string") meta.description = raw.description;
+  if (typeof raw.required === "boolean") meta.required = raw.required;
+  if (typeof raw.package === "string") meta.package = raw.package;
+  if (typeof raw.id === "string") meta.id = raw.id;
+  if (isStrArr(raw.dependsOn)) meta.dependsOn = raw.dependsOn;
+  if (isStrArr(raw.reads)) meta.reads = raw.reads;
+  if (isStrArr(raw.writes)) meta.writes = raw.writes;
+  return meta;
+}
+
+function toTextPatches(raw: any): TextPatch[] | undefined {
+  if (raw == null) return undefined;
+  const arr = Array.isArray(raw) ? raw : [raw];
+  return arr.map((p: any) => ({
+    search: p?.search instanceof RegExp ? p.search.source : p?.search,
+    replace: p?.replace,
+    ...(p?.regex || p?.search instanceof RegExp ? { regex: true } : {}),
+  }));
+}
+
+/**
+ * 레거시 스텝을 현재 스키마로 변환합니다. 알 수 없는 타입은 그대로 두고
+ * validateStep()에서 오류로 잡히게 합니다(조용히 버리지 않음).
+ */
+export function upgradeStep(raw: any): any {
+  if (!raw || typeof raw !== "object") return raw;
+  const meta = pickMeta(raw);
+  const file = raw.file ?? raw.target;
+
+  switch (raw.type) {
+    // core/types.ts (구) PatchStep
+    case "create-file":
+      return { ...meta, type: "create", file, content: raw.content };
+    case "ensure-in-gitignore":
+      return { ...meta, type: "lines.ensure", file: ".gitignore", lines: raw.lines };
+    case "modify-package-json":
+      return { ...meta, type: "json.merge", file: "package.json", merge: { scripts: raw.scripts ?? {} } };
+    case "install-deps":
+      return { ...meta, type: "install", deps: raw.deps, dev: raw.dev };
+
+    // diagnose/types.ts (구) Patch
+    case "mergeJson":
+      return { ...meta, type: "json.merge", file, merge: raw.merge };
+    case "replaceInFile":
+      return {
+        ...meta,
+        type: "text.patch",
+        file,
+        patches: toTextPatches({ search: raw.match, replace: raw.replace }),
+      };
+
+    // MigrationStep / apply runner 레거시
+    case "modify":
+      return { ...meta, type: "write", file, content: raw.content };
+    case "copy":
+      if (typeof raw.source === "string") return { ...meta, type: "copy", source: raw.source, file };
+      return { ...meta, type: "write", file, content: raw.content ?? "" };
+    case "install-old":
+      return { ...meta, type: "install", deps: [raw.pkg], dev: raw.dev };
+    case "exec":
+      return { ...meta, type: "run", cmd: raw.cmd, args: raw.args, cwd: raw.cwd };
+
+    case "write":
+      if (raw.ifNotExists) return { ...meta, type: "create", file, content: raw.content };
+      return { ...meta, type: "write", file, content: raw.content };
+    case "create":
+    case "append":
+    case "delete": {
+      const { target: _t, ...rest } = raw;
+      return { ...rest, file };
+    }
+    case "text.patch":
+      return { ...raw, patches: toTextPatches(raw.patches) };
+    case "install":
+      if (typeof raw.pkg === "string" && !raw.deps) {
+        const { pkg, ...rest } = raw;
+        return { ...rest, deps: [pkg] };
+      }
+      return raw;
+    default:
+      return raw;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 런타임 검증
+// ─────────────────────────────────────────────────────────────────────────────
+const isStr = (v: unknown): v is string => typeof v === "string";
+const isStrArr = (v: unknown): v is string[] => Array.isArray(v) && v.every(isStr);
+const isObj = (v: unknown): v is Record<string, any> =>
+  Boolean(v) && typeof v === "object" && !Array.isArray(v);
+
+/** 스텝 하나를 검증해 문제 목록을 돌려줍니다 (빈 배열 = 유효) */
+export function validateStep(step: any): string[] {
+  if (!isObj(step)) return ["step must be an object"];
+  const t = step.type;
+  if (!PLAN_STEP_TYPES.includes(t)) return [`unknown step type: ${String(t)}`];
+
+  const issues: string[] = [];
+  const need = (cond: boolean, msg: string) => {
+    if (!cond) issues.push(`${t}: ${msg}`);
+  };
+
+  if (t !== "install" && t !== "run") need(isStr(step.file) && step.file.length > 0, "file (string) required");
+  if (step.description !== undefined) need(isStr(step.description), "description must be a string");
+  if (step.required !== undefined) need(typeof step.required === "boolean", "required must be a boolean");
+  if (step.package !== undefined) need(isStr(step.package), "package must be a string");
+  if (step.id !== undefined) need(isStr(step.id) && step.id.length > 0, "id must be a non-empty string");
+  for (const key of ["dependsOn", "reads", "writes"]) {
+    if (step[key] !== undefined) need(isStrArr(step[key]), `${key} must be a string array`);
+  }
+
+  switch (t as PlanStepType) {
+    case "create":
+      need(step.content === undefined || isStr(step.content), "content must be a string");
+      break;
+    case "write":
+    case "append":
+      need(isStr(step.content), "content (string) required");
+      break;
+    case "copy":
+      need(isStr(step.source), "source (string) required");
+      break;
+    case "json.merge": {
+      need(isObj(step.merge), "merge (object) required");
+      const strategies = ["replace", "append", "unique"];
+      const arrays = step.arrays;
+      need(
+        arrays === undefined ||
+          (isStr(arrays) && strategies.includes(arrays)) ||
+          (isObj(arrays) && Object.values(arrays).every((v) => isStr(v) && strategies.includes(v))),
+        "arrays must be replace | append | unique (or a map of them)"
+      );
+      break;
+    }
+    case "text.patch":
+      need(
+        (isStr(step.before) && isStr(step.after)) || Array.isArray(step.patches),
+        "before/after or patches[] required"
+      );
+      if (Array.isArray(step.patches)) {
+        need(
+          step.patches.every((p: any) => isObj(p) && isStr(p.search) && isStr(p.replace)),
+          "patches[] entries need search/replace strings"
+        );
+      }
+      break;
+    case "lines.ensure":
+      need(isStrArr(step.lines), "lines (string[]) required");
+      break;
+    case "config.set":
+      need(isStrArr(step.path) && step.path.length > 0, "path (non-empty string[]) required");
+      need(step.value !== undefined, "value required");
+      need(
+        step.mode === undefined || ["set", "ifMissing", "append"].includes(step.mode),
+        "mode must be set|ifMissing|append"
+      );
+      need(
+        step.imports === undefined ||
+          (Array.isArray(step.imports) && step.imports.every((i: any) => isObj(i) && isStr(i.from))),
+        "imports[] entries need a from string"
+      );
+      break;
+    case "install":
+      need(step.deps === undefined || isStrArr(step.deps), "deps must be string[]");
+      need(
+        step.pm === undefined || ["npm", "pnpm", "yarn", "bun"].includes(step.pm),
+        "pm must be npm|pnpm|yarn|bun"
+      );
+      need(step.cwd === undefined || isStr(step.cwd), "cwd must be a string");
+      break;
+    case "run":
+      need(isStr(step.cmd) && step.cmd.length > 0, "cmd (string) required");
+      need(step.args === undefined || isStrArr(step.args), "args must be string[]");
+      break;
+    default:
+      break;
+  }
+  return issues;
+}
+
+/** 레거시 변환 + 검증. 하나라도 실패하면 PlanSchemaError */
+export function normalizeSteps(rawSteps: unknown): PlanStep[] {
+  if (!Array.isArray(rawSteps)) throw new PlanSchemaError(["steps must be an array"]);
+  const issues: string[] = [];
+  const steps = rawSteps.map((raw, i) => {
+    const step = upgradeStep(raw);
+    for (const msg of validateStep(step)) issues.push(`steps[${i}] ${msg}`);
+    return step as PlanStep;
+  });
+  if (issues.length > 0) throw new PlanSchemaError(issues);
+  return steps;
+}
+
+/**
+ * 외부 입력(JSON 파일, HTTP body, 구버전 plan 객체)을 현재 스키마의 Plan 으로 변환.
+ * - schemaVersion 이 없으면 레거시로 보고 업그레이드
+ * - 현재보다 높은 버전은 거부
+ */
+export function parsePlan(input: unknown): Plan {
+  const src: any = Array.isArray(input) ? { steps: input } : input;
+  if (!isObj(src)) throw new PlanSchemaError(["plan must be an object"]);
+
+  const version = src.schemaVersion ?? 0;
+  if (typeof version !== "number" || version > PLAN_SCHEMA_VERSION) {
+    throw new PlanSchemaError([`unsupported schemaVersion: ${String(src.schemaVersion)}`]);
+  }
+
+  return makePlan(normalizeSteps(src.steps), {
+    confidence: typeof src.confidence === "number" ? src.confidence : 1,
+    warnings: isStrArr(src.warnings) ? src.warnings : [],
+    packages: Array.isArray(src.packages)
+      ? src.packages.filter((p: any) => isObj(p) && isStr(p.name) && isStr(p.dir))
+      : undefined,
+  });
+}
+
+export function isPlanLike(p: unknown): p is { steps: unknown[] } {
+  return isObj(p) && Array.isArray((p as any).steps);
+}
@@ -1,9 +1,13 @@
 // packages/engine/src/core/project-detector.ts
 import path from "path";
 import fs from "fs-extra";
-import type { DetectionResult } from "./types.js";
+import type { DetectionResult, WorkspaceDetection } from "./types.js";
 import { Logger } from "./logger.js";
 import { resolveRealProjectRoot } from "../utils/root.js"; // ★ 루트 보정 유틸
+import { detectWorkspaces } from "../utils/workspaces.js";
+import { inspectLockfiles } from "../utils/lockfiles.js";
+import { inspectNodeVersion } from "../utils/node-version.js";
+import { FRAMEWORK_SIGNATURES } from "../frameworks/framework-registry.js";
 
 export class ProjectDetector {
   constructor(private logger: Logger) {}
@@ -27,16 +31,28 @@ export class ProjectDetector {
       };
     }
 
-    // ★ 타입 불일치 방지: 기본값을 'npm'으로 두고 lock 파일로 덮어쓴다.
-    //   (types.ts에서 bun을 지원하지 않으면 bun 분기는 생략/삭제해도 됨)
-    let packageManager: "npm" | "yarn" | "pnpm" | "bun" = "npm";
-    if (await fs.pathExists(path.join(projectRoot, "pnpm-lock.yaml"))) packageManager = "pnpm";
-    else if (await fs.pathExists(path.join(projectRoot, "yarn.lock"))) packageManager = "yarn";
-    else if (await fs.pathExists(path.join(projectRoot, "bun.lockb"))) packageManager = "bun";
+    // packageManager(Corepack) → lockfile → .yarnrc.yml → npm. 충돌은 diagnose 의 lockfile-conflict 로 보고
+    const lockfiles = await inspectLockfiles(projectRoot);
+    const packageManager = lockfiles.packageManager;
+    if (lockfiles.conflicts.length > 0) {
+      this.logger.warning(`⚠ ${lockfiles.conflicts.join("; ")} → using ${packageManager}`);
+    }
+
+    // Node 버전 선언 충돌은 diagnose 의 node-version-mismatch 로 보고
+    const node = await inspectNodeVersion(projectRoot);
+    if (node.conflicts.length > 0) {
+      this.logger.warning(`⚠ ${node.conflicts.join("; ")} → using Node ${node.major}`);
+    }
 
     const framework = await this.detectFramework(projectRoot, dependencies); // string | undefined
     const provider  = await this.detectProvider(projectRoot);                // string | undefined
     const hasEnvFiles = await this.detectEnvFiles(projectRoot);
+    const workspaces = await this.detectWorkspacePackages(projectRoot);
+    if (workspaces) {
+      this.logger.info(
+        `➡ Workspace (${workspaces.tools.join(", ") || "multi-package"}): ${workspaces.packages.length} package(s)`
+      );
+    }
 
     return {
       framework,        // optional
@@ -45,43 +61,43 @@ export class ProjectDetector {
       dependencies,
       hasPackageJson,
       hasEnvFiles,
+      nodeVersion: node.major,
       // ↓ 일부 프로젝트에선 DetectionResult에 projectPath가 필요함
       //   (필요 없으면 제거해도 무방)
       projectPath: projectRoot as any,
+      ...(workspaces ? { workspaces } : {}),
     } as DetectionResult;
   }
 
+  /** 워크스페이스 패키지마다 package.json 의존성으로 프레임워크 감지 (모노레포가 아니면 undefined) */
+  async detectWorkspacePackages(projectRoot: string): Promise<WorkspaceDetection | undefined> {
+    const layout = await detectWorkspaces(projectRoot);
+    if (!layout) return undefined;
+
+    const packages: WorkspaceDetection["packages"] = [];
+    for (const p of layout.packages) {
+      const dir = path.join(projectRoot, p.dir);
+      const pkgPath = path.join(dir, "package.json");
+      const hasPackageJson = await fs.pathExists(pkgPath);
+      const pkg = hasPackageJson ? await fs.readJson(pkgPath).catch(() => ({} as any)) : {};
+      const dependencies = { ...(pkg?.dependencies || {}), ...(pkg?.devDependencies || {}) };
+      const framework = await this.detectFramework(dir, dependencies);
+      packages.push({ name: p.name, dir: p.dir, framework, dependencies, hasPackageJson });
+    }
+    return { tools: layout.tools, packages };
+  }
+
   private async detectFramework(
     projectRoot: string,
     dependencies: Record<string, string>
   ): Promise<string | undefined> {
-    // Next.js
-    if (
-      dependencies.next ||
-      (await fs.pathExists(path.join(projectRoot, "next.config.js"))) ||
-      (await fs.pathExists(path.join(projectRoot, "next.config.ts")))
-    ) {
-      return "nextjs";
-    }
-
-    // Vite
-    if (
-      dependencies.vite ||
-      (await fs.pathExists(path.join(projectRoot, "vite.config.js"))) ||
-      (await fs.pathExists(path.join(projectRoot, "vite.config.ts")))
-    ) {
-      return "vite";
+    // 의존성 또는 대표 설정 파일 (메타 프레임워크가 vite 보다 먼저)
+    for (const sig of FRAMEWORK_SIGNATURES) {
+      if (sig.deps.some((d) => dependencies[d])) return sig.name;
+      for (const f of sig.files ?? []) {
+        if (await fs.pathExists(path.join(projectRoot, f))) return sig.name;
+      }
     }
-
-    // Express
-    if (dependencies.express) return "express";
-    // CRA
-    if (dependencies["react-scripts"]) return "cra";
-    // Nest
-    if (dependencies["@nestjs/core"]) return "nestjs";
-    // Astro
-    if (dependencies.astro) return "astro";
-
     return undefined;
   }
 
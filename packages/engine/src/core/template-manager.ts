@@ -124,8 +124,9 @@ Thumbs.db
 tmp/
 temp/
 
-# Dev Migration Hub backups
+# Dev Migration Hub backups / apply journals
 .dev-migrate-backups/
+.mofix/journal/
 `;
   }
 
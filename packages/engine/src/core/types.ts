@@ -1,5 +1,7 @@
 // packages/engine/src/core/types.ts
 import { Logger } from "./logger.js";
+import type { Plan as SchemaPlan, PlanStep as SchemaPlanStep } from "./plan-schema.js";
+import type { WorkspaceTool } from "../utils/workspaces.js";
 
 /**
  * 마이그레이션 실행 옵션
@@ -11,6 +13,8 @@ export interface MigrationOptions {
   force?: boolean;
   deploymentTarget?: string;
   logger: Logger;
+  /** 어댑터가 스텝으로 만들지 못한 수동 작업 안내 → PlanGenerator 가 plan.warnings 로 모음 */
+  warnings?: string[];
 }
 
 /**
@@ -20,32 +24,36 @@ export interface MigrationOptions {
 export interface DetectionResult {
   framework?: string;
   provider?: string;
-  packageManager?: "npm" | "yarn" | "pnpm";
+  packageManager?: "npm" | "yarn" | "pnpm" | "bun";
   dependencies?: Record<string, string>;
   hasPackageJson?: boolean;
   hasEnvFiles?: boolean;
+  /** 권장 Node 메이저 (.nvmrc / engines.node / volta / replit.nix 등 + 의존성 요구) */
+  nodeVersion?: string;
+  /** 모노레포일 때만: 워크스페이스 도구와 패키지별 감지 결과 */
+  workspaces?: WorkspaceDetection;
 }
 
-/**
- * 하나의 스텝(플랜 단위 동작)
- */
-export interface MigrationStep {
-  type: "create" | "modify" | "delete" | "copy";
-  description: string;
-  source?: string;
-  target: string;
-  content?: string;
-  required: boolean; // ← PlanGenerator와 MigrationManager가 둘 다 boolean을 기대
+/** 워크스페이스 패키지 하나의 감지 결과 (dir은 루트 기준 상대 경로) */
+export interface WorkspacePackageDetection {
+  name: string;
+  dir: string;
+  framework?: string;
+  dependencies: Record<string, string>;
+  hasPackageJson: boolean;
+}
+
+export interface WorkspaceDetection {
+  tools: WorkspaceTool[];
+  packages: WorkspacePackageDetection[];
 }
 
 /**
- * 전체 플랜
+ * 하나의 스텝(플랜 단위 동작) / 전체 플랜
+ * - 실제 정의는 plan-schema.ts (버전 관리되는 공통 스키마)
  */
-export interface MigrationPlan {
-  steps: MigrationStep[];
-  confidence: number; // 0.0 ~ 1.0
-  warnings: string[];
-}
+export type MigrationStep = SchemaPlanStep;
+export type MigrationPlan = SchemaPlan;
 
 /**
  * 프레임워크 어댑터
@@ -87,7 +95,9 @@ export interface TargetAdapter {
 
 /* ─────────────────────────────────────────────────────────
    PlanGenerator 쪽에서 쓰던 타입 이름과 호환을 위한 별칭
-   (기존 코드에 PlanResult/PlanStep이 남아 있어도 동작하도록)
+   (기존 코드에 PlanResult/PlanStep/PatchStep이 남아 있어도 동작하도록)
    ───────────────────────────────────────────────────────── */
-export type PlanStep = MigrationStep;
-export type PlanResult = MigrationPlan;
+export type PlanStep = SchemaPlanStep;
+export type PlanResult = SchemaPlan;
+export type PatchStep = SchemaPlanStep;
+export type Plan = SchemaPlan;
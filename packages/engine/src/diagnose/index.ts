@@ -1,9 +1,13 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { DiagnoseResult, Patch } from './types.js';
+import { applyPatches as runPatches } from '../apply/runner.js';
 import { detectMissingScripts, buildFixForMissingScripts } from './rules/missingScripts.js';
 import { detectEnvGuide, buildFixForEnvGuide } from './rules/envGuide.js';
 import { detectNextConfig, buildFixForNextConfig } from './rules/nextConfig.js';
+import { detectLockfileConflicts, buildFixForLockfiles } from './rules/lockfiles.js';
+import { detectNodeVersionMismatch, buildFixForNodeVersion } from './rules/nodeVersion.js';
+import { detectDependencyIssues, buildFixForDependencies } from './rules/dependencies.js';
 
 export async function diagnose(projectRoot:string): Promise<DiagnoseResult> {
   const evidences = [];
@@ -15,8 +19,11 @@ export async function diagnose(projectRoot:string): Promise<DiagnoseResult> {
 
   // run detectors
   const e1 = await detectMissingScripts(projectRoot); if (e1) evidences.push(e1);
-  const e2 = await detectEnvGuide(projectRoot);       if (e2) evidences.push(e2);
+  evidences.push(...await detectEnvGuide(projectRoot, envFramework(pkg)));
   const e3 = await detectNextConfig(projectRoot, pkg);if (e3) evidences.push(e3);
+  const e4 = await detectLockfileConflicts(projectRoot); if (e4) evidences.push(e4);
+  const e5 = await detectNodeVersionMismatch(projectRoot); if (e5) evidences.push(e5);
+  evidences.push(...await detectDependencyIssues(projectRoot));
 
   // build fixes
   for (const e of evidences) {
@@ -25,8 +32,13 @@ export async function diagnose(projectRoot:string): Promise<DiagnoseResult> {
       const fw = (e.data?.frameworkHint ?? 'unknown') as any;
       fixes.push(buildFixForMissingScripts(projectRoot, fw));
     }
-    if (e.id === 'env-sample-missing') fixes.push(buildFixForEnvGuide());
+    if (e.id === 'env-example-missing' || e.id === 'env-example-incomplete') {
+      fixes.push(await buildFixForEnvGuide(projectRoot, e));
+    }
     if (e.id === 'next-config-missing') fixes.push(buildFixForNextConfig());
+    if (e.id === 'lockfile-conflict') fixes.push(await buildFixForLockfiles(projectRoot));
+    if (e.id === 'node-version-mismatch') fixes.push(await buildFixForNodeVersion(projectRoot));
+    if (e.id.startsWith('deps-') || e.id === 'node-builtin-prefix') fixes.push(await buildFixForDependencies(projectRoot, e));
   }
 
   return {
@@ -36,33 +48,16 @@ export async function diagnose(projectRoot:string): Promise<DiagnoseResult> {
   };
 }
 
-/* 실제 패치 적용기 */
-export async function applyPatches(projectRoot:string, patches:Patch[]): Promise<void> {
-  for (const p of patches) {
-    const file = path.join(projectRoot, p.file);
-    if (p.type === 'write') {
-      if (p.ifNotExists && await fs.pathExists(file)) continue;
-      await fs.outputFile(file, p.content);
-    }
-    if (p.type === 'mergeJson') {
-      const current = await fs.pathExists(file) ? await fs.readJson(file) : {};
-      const merged = deepMerge(current, p.merge);
-      await fs.outputJson(file, merged, { spaces: 2 });
-    }
-    if (p.type === 'replaceInFile') {
-      const old = await fs.pathExists(file) ? await fs.readFile(file,'utf8') : '';
-      const next = old.replace(p.match as any, p.replace);
-      await fs.outputFile(file, next);
-    }
-    if (p.type === 'delete') {
-      await fs.remove(file);
-    }
-  }
+/* env 접두어 규칙(NEXT_PUBLIC_ / VITE_ / REACT_APP_)용 프레임워크 */
+function envFramework(pkg:any): string | undefined {
+  const deps = { ...pkg?.dependencies, ...pkg?.devDependencies };
+  if (deps.next) return 'nextjs';
+  if (deps.vite) return 'vite';
+  if (deps['react-scripts']) return 'cra';
+  return undefined;
 }
 
-function deepMerge(a:any, b:any) {
-  if (Array.isArray(a) || Array.isArray(b) || typeof a!=='object' || typeof b!=='object') return b;
-  const out = { ...a };
-  for (const k of Object.keys(b)) out[k] = deepMerge(a[k], b[k]);
-  return out;
+/* 실제 패치 적용기 — 공통 실행기(apply/runner)에 위임 (구 포맷 mergeJson 등도 자동 변환) */
+export async function applyPatches(projectRoot:string, patches:Patch[]): Promise<void> {
+  await runPatches(projectRoot, patches);
 }
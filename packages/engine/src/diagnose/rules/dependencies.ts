@@ -0,0 +1,152 @@
+// packages/engine/src/diagnose/rules/dependencies.ts
+import fs from 'fs-extra';
+import path from 'path';
+import type { Evidence, Fix, Patch } from '../types.js';
+import { analyzeDependencies, type PackageUsage } from '../../utils/import-graph.js';
+import { inspectLockfiles } from '../../utils/lockfiles.js';
+import { VersionResolver } from '../../utils/version-resolver.js';
+
+/**
+ * import 그래프 기반 의존성 진단 (크래시 로그 없이 정적으로)
+ * - deps-missing     : import 하지만 package.json 에 없는 패키지
+ * - deps-unused      : import / 스크립트 / 설정 어디에서도 안 쓰는 dependencies
+ * - deps-dev-only    : 테스트·설정·타입에서만 쓰는 dependencies (devDependencies 로)
+ * - node-builtin-prefix: 엣지 런타임 파일이 node: 없이 내장 모듈을 import
+ */
+export async function detectDependencyIssues(projectRoot:string): Promise<Evidence[]> {
+  if (!(await fs.pathExists(path.join(projectRoot, 'package.json')))) return [];
+  const report = await analyzeDependencies(projectRoot);
+  const out: Evidence[] = [];
+  const list = (u:PackageUsage[]) => u.map(p => p.name).join(', ');
+
+  if (report.missing.length > 0) {
+    out.push({
+      id: 'deps-missing',
+      severity: 'high',
+      summary: `package.json 에 없는 패키지 ${report.missing.length}개를 import 합니다: ${list(report.missing)}`,
+      details: report.missing.map(p => `${p.name}${p.devOnly ? ' (dev)' : ''} ← ${p.files.join(', ')}`).join('\n'),
+      files: [...new Set(report.missing.flatMap(p => p.files))],
+      autoFixable: true,
+      data: { packages: report.missing },
+    });
+  }
+
+  if (report.unused.length > 0) {
+    out.push({
+      id: 'deps-unused',
+      severity: 'low',
+      summary: `사용하지 않는 dependencies ${report.unused.length}개: ${report.unused.join(', ')}`,
+      details: 'import, package.json 스크립트, 설정 파일 어디에서도 참조되지 않습니다.',
+      files: ['package.json'],
+      autoFixable: true,
+      data: { packages: report.unused },
+    });
+  }
+
+  if (report.devOnly.length > 0) {
+    out.push({
+      id: 'deps-dev-only',
+      severity: 'low',
+      summary: `테스트/설정/타입에서만 쓰는 dependencies ${report.devOnly.length}개: ${list(report.devOnly)}`,
+      details: report.devOnly.map(p => `${p.name} ← ${p.files.join(', ')}`).join('\n'),
+      files: ['package.json'],
+      autoFixable: true,
+      data: { packages: report.devOnly },
+    });
+  }
+
+  if (report.edgeBuiltins.length > 0) {
+    out.push({
+      id: 'node-builtin-prefix',
+      severity: 'med',
+      summary: `엣지 런타임 파일 ${report.edgeBuiltins.length}개가 node: 접두어 없이 내장 모듈을 import 합니다.`,
+      details: report.edgeBuiltins.map(b => `${b.file}: ${b.modules.join(', ')}`).join('\n'),
+      files: report.edgeBuiltins.map(b => b.file),
+      autoFixable: true,
+      data: { builtins: report.edgeBuiltins },
+    });
+  }
+  return out;
+}
+
+const escapeRe = (s:string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export async function buildFixForDependencies(projectRoot:string, evidence:Evidence): Promise<Fix> {
+  const plan: Patch[] = [];
+
+  switch (evidence.id) {
+    case 'deps-missing': {
+      const versions = await VersionResolver.load(projectRoot);
+      const packages = evidence.data?.packages as PackageUsage[];
+      for (const dev of [false, true]) {
+        const group = packages.filter(p => p.devOnly === dev);
+        if (group.length === 0) continue;
+        const ranges = Object.fromEntries(group.map(p => [p.name, versions.range(p.name)]));
+        plan.push({
+          type:'json.merge', file:'package.json', merge:{ [dev ? 'devDependencies' : 'dependencies']: ranges },
+          description:`Declare ${group.map(p => p.name).join(', ')}`,
+        });
+        plan.push({ type:'install', deps:group.map(p => `${p.name}@${ranges[p.name]}`), dev });
+      }
+      return {
+        id: evidence.id,
+        title: `빠진 의존성 추가 (${packages.map(p => p.name).join(', ')})`,
+        plan,
+        confidence: 0.8,
+      };
+    }
+
+    case 'deps-unused': {
+      const packages = evidence.data?.packages as string[];
+      const { packageManager: pm } = await inspectLockfiles(projectRoot);
+      plan.push({
+        type:'run', cmd:pm, args:[pm === 'npm' ? 'uninstall' : 'remove', ...packages],
+        description:`Remove unused ${packages.join(', ')}`,
+      });
+      return {
+        id: evidence.id,
+        title: `사용하지 않는 의존성 제거 (${packages.join(', ')})`,
+        plan,
+        confidence: 0.5,
+        requiresConfirm: true,
+      };
+    }
+
+    case 'deps-dev-only': {
+      const pkg = await fs.readJson(path.join(projectRoot, 'package.json')).catch(() => ({} as any));
+      const packages = evidence.data?.packages as PackageUsage[];
+      // 현재 범위 그대로 -D 로 다시 추가 → 패키지 매니저가 dependencies 에서 devDependencies 로 옮김
+      plan.push({
+        type:'install', deps:packages.map(p => `${p.name}@${pkg?.dependencies?.[p.name] ?? 'latest'}`), dev:true,
+        description:`Move ${packages.map(p => p.name).join(', ')} to devDependencies`,
+      });
+      return {
+        id: evidence.id,
+        title: `개발용 의존성을 devDependencies 로 이동 (${packages.map(p => p.name).join(', ')})`,
+        plan,
+        confidence: 0.6,
+      };
+    }
+
+    default: {
+      const builtins = evidence.data?.builtins as Array<{ file:string; modules:string[] }>;
+      for (const b of builtins) {
+        plan.push({
+          type:'text.patch', file:b.file,
+          patches: b.modules.map(m => ({
+            search:`(\\bfrom\\s*|\\brequire\\s*\\(\\s*|\\bimport\\s*\\(?\\s*)(["'])${escapeRe(m)}\\2`,
+            replace:`$1$2node:${m}$2`,
+            regex:true,
+          })),
+          description:`Use node: specifiers in ${b.file}`,
+        });
+      }
+      return {
+        id: evidence.id,
+        title: '엣지 런타임 내장 모듈에 node: 접두어 추가',
+        plan,
+        confidence: 0.9,
+      };
+    }
+  }
+}
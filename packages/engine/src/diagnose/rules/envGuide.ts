@@ -1,29 +1,62 @@
 // packages/engine/src/diagnose/rules/envGuide.ts
-import fs from 'fs-extra';
-import path from 'path';
 import type { Evidence, Fix } from '../types.js';
+import { ENV_EXAMPLE_FILES, planEnvExample, scanEnvInventory } from '../../utils/env-inventory.js';
 
-export async function detectEnvGuide(projectRoot:string): Promise<Evidence|null> {
-  const hasSample = await fs.pathExists(path.join(projectRoot,'.env.sample'));
-  if (hasSample) return null;
-  return {
-    id: 'env-sample-missing',
-    severity: 'low',
-    summary: '.env.sample 이 없어 환경변수 이관이 어렵습니다.',
-    files: [],
-    autoFixable: true
-  };
+/**
+ * 환경변수 인벤토리 기반 진단
+ * - env-vars-undefined   : 소스에서 참조하지만 어떤 .env* 에도 없는 변수
+ * - env-example-missing  : 변수가 있는데 .env.example(.sample/.template)이 없음
+ * - env-example-incomplete: 예시 파일에 빠진 변수가 있음
+ */
+export async function detectEnvGuide(projectRoot:string, framework?:string): Promise<Evidence[]> {
+  const inv = await scanEnvInventory(projectRoot, framework);
+  if (inv.vars.length === 0) return [];
+  const out: Evidence[] = [];
+
+  if (inv.undefinedRefs.length > 0) {
+    const refs = inv.vars.filter(v => inv.undefinedRefs.includes(v.name));
+    out.push({
+      id: 'env-vars-undefined',
+      severity: 'med',
+      summary: `소스에서 참조하지만 정의되지 않은 환경변수 ${inv.undefinedRefs.length}개: ${inv.undefinedRefs.join(', ')}`,
+      details: refs.map(v => `${v.name} (${v.exposure}) ← ${v.referencedIn.join(', ')}`).join('\n'),
+      files: [...new Set(refs.flatMap(v => v.referencedIn))],
+      autoFixable: false,
+      data: { vars: refs },
+    });
+  }
+
+  const example = ENV_EXAMPLE_FILES.find(f => inv.envFiles.includes(f));
+  if (!example) {
+    out.push({
+      id: 'env-example-missing',
+      severity: 'low',
+      summary: `.env.example 이 없어 환경변수 ${inv.vars.length}개를 이관하기 어렵습니다.`,
+      files: [],
+      autoFixable: true,
+      data: { framework },
+    });
+  } else {
+    const missing = inv.vars.filter(v => !v.definedIn.includes(example)).map(v => v.name);
+    if (missing.length > 0) {
+      out.push({
+        id: 'env-example-incomplete',
+        severity: 'low',
+        summary: `${example} 에 없는 환경변수 ${missing.length}개: ${missing.join(', ')}`,
+        files: [example],
+        autoFixable: true,
+        data: { framework, missing },
+      });
+    }
+  }
+  return out;
 }
 
-export function buildFixForEnvGuide(): Fix {
+export async function buildFixForEnvGuide(projectRoot:string, evidence:Evidence): Promise<Fix> {
   return {
-    id:'env-sample-missing',
-    title: '.env.sample 생성',
-    plan: [{
-      type:'write',
-      file: '.env.sample',
-      content: `# Add your envs here\n# NEXT_PUBLIC_API_URL=\n`
-    }],
-    confidence: 0.8
+    id: evidence.id,
+    title: evidence.id === 'env-example-missing' ? '.env.example 생성 (소스 참조 기반)' : '.env.example 에 빠진 변수 추가',
+    plan: await planEnvExample(projectRoot, evidence.data?.framework),
+    confidence: 0.9
   };
 }
@@ -0,0 +1,112 @@
+// packages/engine/src/diagnose/rules/lockfiles.ts
+import fs from 'fs-extra';
+import path from 'path';
+import type { Evidence, Fix, Patch } from '../types.js';
+import type { PackageManager } from '../../core/plan-schema.js';
+import {
+  inspectLockfiles, rewriteScripts, LOCKFILES, PACKAGE_MANAGERS, YARN_PNP_FILES, type LockfileReport,
+} from '../../utils/lockfiles.js';
+
+export async function detectLockfileConflicts(projectRoot:string): Promise<Evidence|null> {
+  const report = await inspectLockfiles(projectRoot);
+  if (report.conflicts.length === 0) return null;
+
+  return {
+    id: 'lockfile-conflict',
+    severity: 'med',
+    summary: `패키지 매니저가 섞여 있습니다 (${report.conflicts.join('; ')}).`,
+    details: `${report.packageManager} 로 통일하는 것을 권장합니다 (근거: ${report.source}).`,
+    files: [...report.lockfiles.map(l => l.file), 'package.json'],
+    autoFixable: true,
+    data: {
+      packageManager: report.packageManager,
+      source: report.source,
+      lockfiles: report.lockfiles,
+      corepack: report.corepack?.raw,
+    }
+  };
+}
+
+/**
+ * 다른 매니저 lockfile 이 남아 있을 때 target lockfile 을 만드는 커맨드 (버전 최대한 보존)
+ * installs: lockfile 뿐 아니라 node_modules 까지 설치하는지
+ */
+function convertCommand(target:PackageManager, report:LockfileReport): { cmd:string; args:string[]; installs:boolean } {
+  const has = (pm:PackageManager) => report.lockfiles.some(l => l.pm === pm);
+  switch (target) {
+    case 'pnpm':
+      // pnpm import: package-lock.json / npm-shrinkwrap.json / yarn.lock → pnpm-lock.yaml
+      return has('npm') || has('yarn')
+        ? { cmd:'pnpm', args:['import'], installs:false }
+        : { cmd:'pnpm', args:['install', '--lockfile-only'], installs:false };
+    case 'yarn':
+      if (report.yarnBerry) return { cmd:'yarn', args:['install', '--mode=update-lockfile'], installs:false };
+      return has('npm') ? { cmd:'yarn', args:['import'], installs:false } : { cmd:'yarn', args:['install'], installs:true };
+    case 'bun':
+      // bun install 은 bun.lock 이 없으면 package-lock / yarn.lock / pnpm-lock 을 자동 이전
+      return { cmd:'bun', args:['install'], installs:true };
+    default:
+      // npm 7+ 는 yarn.lock 을 해석 힌트로 읽음
+      return { cmd:'npm', args:['install', '--package-lock-only'], installs:false };
+  }
+}
+
+/**
+ * target 매니저 하나로 통일하는 Fix.
+ * 1) target lockfile 이 없으면 기존 lockfile 에서 변환 (실패 시 중단 → 저널 롤백)
+ * 2) 다른 매니저 lockfile(+ Yarn PnP 파일) 삭제
+ * 3) 스크립트의 npm run / yarn / pnpm 호출을 target 으로 치환
+ * 4) Corepack "packageManager" 가 다른 매니저를 가리키면 corepack use 로 갱신
+ */
+export async function buildFixForLockfiles(projectRoot:string, target?:PackageManager): Promise<Fix> {
+  const report = await inspectLockfiles(projectRoot);
+  const to = target ?? report.packageManager;
+  const plan: Patch[] = [];
+
+  if (!report.lockfiles.some(l => l.pm === to) && report.lockfiles.length > 0) {
+    const { cmd, args, installs } = convertCommand(to, report);
+    // 만드는 lockfile 을 writes 로 알려야 저널이 기록 → 뒤 스텝 실패 시 롤백으로 제거
+    // (node_modules 는 새로 생길 때만 — 이미 있으면 통째로 저널에 복사하게 되므로 제외)
+    const writes = [LOCKFILES[to][0]];
+    if (installs && !(await fs.pathExists(path.join(projectRoot, 'node_modules')))) writes.push('node_modules');
+    plan.push({
+      type:'run', cmd, args, required:true,
+      reads:['package.json', ...report.lockfiles.map(l => l.file)], writes,
+      description:`Generate ${LOCKFILES[to][0]} from ${report.lockfiles.map(l => l.file).join(', ')}`,
+    });
+  }
+
+  for (const l of report.lockfiles) {
+    if (l.pm !== to) plan.push({ type:'delete', file:l.file, description:`Remove ${l.pm} lockfile` });
+  }
+  if (to !== 'yarn') {
+    for (const f of YARN_PNP_FILES) {
+      if (await fs.pathExists(path.join(projectRoot, f))) plan.push({ type:'delete', file:f, description:'Remove Yarn PnP loader' });
+    }
+  }
+
+  const pkg = await fs.readJson(path.join(projectRoot, 'package.json')).catch(() => ({} as any));
+  const scripts = rewriteScripts(pkg?.scripts ?? {}, to, { yarnBerry: to === 'yarn' && report.yarnBerry });
+  if (Object.keys(scripts).length > 0) {
+    plan.push({
+      type:'json.merge', file:'package.json', merge:{ scripts },
+      description:`Use ${to} in scripts (${Object.keys(scripts).join(', ')})`,
+    });
+  }
+
+  if (report.corepack && report.corepack.name !== to) {
+    plan.push({
+      type:'run', cmd:'corepack', args:['use', `${to}@latest`],
+      description:`Update package.json "packageManager" (${report.corepack.raw} → ${to})`,
+    });
+  }
+
+  const others = PACKAGE_MANAGERS.filter(p => p !== to && report.lockfiles.some(l => l.pm === p));
+  return {
+    id: 'lockfile-conflict',
+    title: `패키지 매니저를 ${to} 로 통일${others.length ? ` (${others.join(', ')} lockfile 제거)` : ''}`,
+    plan,
+    confidence: report.source === 'packageManager' ? 0.85 : 0.7,
+    requiresConfirm: true,
+  };
+}
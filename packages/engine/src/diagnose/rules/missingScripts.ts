@@ -2,6 +2,9 @@
 import fs from 'fs-extra';
 import path from 'path';
 import type { Evidence, Fix } from '../types.js';
+import { frameworkFromDependencies } from '../../frameworks/framework-registry.js';
+import { desiredScripts, hasDesiredScripts } from '../../utils/packageJson.js';
+import { entryFromPackageJson, isServerFramework, serverScripts } from '../../utils/server-entry.js';
 
 export async function detectMissingScripts(projectRoot:string): Promise<Evidence|null> {
   const pkgPath = path.join(projectRoot, 'package.json');
@@ -21,25 +24,55 @@ export async function detectMissingScripts(projectRoot:string): Promise<Evidence
   };
 }
 
-function guessFramework(pkg:any): 'next'|'vite'|'express'|'unknown' {
-  const deps = { ...pkg.dependencies, ...pkg.devDependencies };
-  if (deps?.next) return 'next';
-  if (deps?.vite) return 'vite';
-  if (deps?.express) return 'express';
+type FrameworkHint = 'next'|'vite'|'express'|'nestjs'|'fastify'|'koa'|'hono'|'remix'|'nuxt'|'sveltekit'|'astro'|'angular'|'unknown';
+
+function guessFramework(pkg:any): FrameworkHint {
+  const fw = frameworkFromDependencies({ ...pkg.dependencies, ...pkg.devDependencies });
+  if (fw === 'nextjs') return 'next';
+  if (fw === 'vite' || isServerFramework(fw) || (fw && hasDesiredScripts(fw))) return fw as FrameworkHint;
   return 'unknown';
 }
 
-export function buildFixForMissingScripts(projectRoot:string, framework:'next'|'vite'|'express'|'unknown'): Fix {
+export function buildFixForMissingScripts(projectRoot:string, framework:FrameworkHint): Fix {
+  // 메타 프레임워크: DESIRED_SCRIPTS 중 없는 것만
+  if (framework !== 'vite' && hasDesiredScripts(framework)) {
+    const pkg = fs.readJsonSync(path.join(projectRoot, 'package.json'), { throws: false }) ?? {};
+    const scripts = Object.fromEntries(
+      Object.entries(desiredScripts(framework, pkg)).filter(([k]) => !pkg.scripts?.[k])
+    );
+    return {
+      id: 'missing-scripts',
+      title: `package.json 스크립트 보정 (${framework})`,
+      plan: [{ type:'json.merge', file:'package.json', merge:{ scripts } }],
+      confidence: 0.9
+    };
+  }
+
+  // Node 서버: package.json 의 start/dev/main 에서 엔트리를 알면 그 기준 (없으면 아래 기본값)
+  if (isServerFramework(framework)) {
+    const pkg = fs.readJsonSync(path.join(projectRoot, 'package.json'), { throws: false }) ?? {};
+    const desired = serverScripts(framework, entryFromPackageJson(pkg));
+    const scripts = Object.fromEntries(Object.entries(desired).filter(([k]) => !pkg.scripts?.[k]));
+    if (Object.keys(scripts).length) {
+      return {
+        id: 'missing-scripts',
+        title: `package.json 스크립트 보정 (${framework})`,
+        plan: [{ type:'json.merge', file:'package.json', merge:{ scripts } }],
+        confidence: 0.85
+      };
+    }
+  }
+
   const merge =
     framework === 'next' ? { scripts:{ dev:'next dev', build:'next build', start:'next start' } } :
     framework === 'vite' ? { scripts:{ dev:'vite', build:'vite build', start:'vite preview' } } :
-    framework === 'express' ? { scripts:{ dev:'nodemon src/index.ts', build:'tsc', start:'node dist/index.js' } } :
+    isServerFramework(framework) ? { scripts:{ dev:'nodemon src/index.ts', build:'tsc', start:'node dist/index.js' } } :
     { scripts:{ dev:'node .', build:'echo "add build"', start:'node .' } };
 
   return {
     id: 'missing-scripts',
     title: 'package.json 스크립트 보정',
-    plan: [{ type:'mergeJson', file:'package.json', merge }],
+    plan: [{ type:'json.merge', file:'package.json', merge }],
     confidence: 0.9
   };
 }
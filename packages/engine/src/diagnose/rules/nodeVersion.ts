@@ -0,0 +1,102 @@
+// packages/engine/src/diagnose/rules/nodeVersion.ts
+import type { Evidence, Fix, Patch } from '../types.js';
+import {
+  inspectNodeVersion, minNodeVersion, nodeMajor, nodeReleaseFor, satisfiesNode, type NodeVersionReport,
+} from '../../utils/node-version.js';
+
+export async function detectNodeVersionMismatch(projectRoot:string): Promise<Evidence|null> {
+  const report = await inspectNodeVersion(projectRoot);
+  if (report.conflicts.length === 0) return null;
+
+  return {
+    id: 'node-version-mismatch',
+    severity: report.unmet ? 'high' : 'med',
+    summary: `Node 버전 선언이 일치하지 않습니다 (${report.conflicts.join('; ')}).`,
+    details: `Node ${report.major} 로 통일하는 것을 권장합니다 (근거: ${report.source}).`,
+    files: [...new Set(report.hints.map(h => h.file))],
+    autoFixable: true,
+    data: {
+      major: report.major,
+      source: report.source,
+      required: report.required,
+      hints: report.hints,
+    }
+  };
+}
+
+/** engines.node: 의존성 최소 요구가 같은 메이저면 ^<min>, 아니면 <major>.x */
+function enginesFor(report:NodeVersionReport): string {
+  const { major, required } = report;
+  return required && nodeMajor(required.min) === major && required.min !== `${major}.0.0`
+    ? `^${required.min}`
+    : `${major}.x`;
+}
+
+/**
+ * .nvmrc 를 기준(source of truth)으로 쓰고 나머지 선언을 같은 메이저로 맞추는 Fix.
+ * 타깃(Dockerfile / netlify / vercel)은 utils/node-version 을 통해 같은 값을 읽습니다.
+ */
+export async function buildFixForNodeVersion(projectRoot:string): Promise<Fix> {
+  const report = await inspectNodeVersion(projectRoot);
+  const { major } = report;
+  const full = nodeReleaseFor(major);
+  const plan: Patch[] = [];
+  const hint = (source:string) => report.hints.find(h => h.source === source);
+
+  if (hint('nvmrc')?.version !== major) {
+    plan.push({ type:'write', file:'.nvmrc', content:`${major}\n`, description:`Pin Node ${major} (.nvmrc)` });
+  }
+  const nodeVersionFile = hint('node-version');
+  if (nodeVersionFile && nodeVersionFile.version !== major) {
+    plan.push({ type:'write', file:'.node-version', content:`${major}\n`, description:`Pin Node ${major} (.node-version)` });
+  }
+
+  const engines = hint('engines');
+  const low = engines && minNodeVersion(engines.range!);
+  const enginesOk = !!engines && satisfiesNode(full, engines.range!) &&
+    (!report.required || (!!low && satisfiesNode(low, `>=${report.required.min}`)));
+  if (!enginesOk) {
+    plan.push({
+      type:'json.merge', file:'package.json', merge:{ engines:{ node: enginesFor(report) } },
+      description:`Set engines.node to ${enginesFor(report)}`,
+    });
+  }
+
+  // 전체 버전이 필요한 도구들 (volta / asdf) 은 스냅샷의 최신 릴리스로
+  const volta = hint('volta');
+  if (volta && nodeMajor(volta.version) !== major) {
+    plan.push({ type:'json.merge', file:'package.json', merge:{ volta:{ node: full } }, description:`Pin volta.node ${full}` });
+  }
+  const tool = hint('tool-versions');
+  if (tool && nodeMajor(tool.version) !== major) {
+    plan.push({
+      type:'text.patch', file:'.tool-versions',
+      patches:[{ search:'(^|\\n)([ \\t]*(?:nodejs|node)[ \\t]+)\\S+', replace:`$1$2${full}`, regex:true }],
+      description:`Pin nodejs ${full} (.tool-versions)`,
+    });
+  }
+
+  const nix = hint('replit.nix');
+  if (nix && nix.version !== major) {
+    plan.push({
+      type:'text.patch', file:'replit.nix',
+      patches:[{ search:'\\bnodejs([-_])\\d+', replace:`nodejs$1${major}`, regex:true }],
+      description:`Use nodejs ${major} in replit.nix`,
+    });
+  }
+  const replit = hint('replit');
+  if (replit && replit.version !== major) {
+    plan.push({
+      type:'text.patch', file:'.replit',
+      patches:[{ search:'(["\'])nodejs-\\d+', replace:`$1nodejs-${major}`, regex:true }],
+      description:`Use nodejs-${major} module in .replit`,
+    });
+  }
+
+  return {
+    id: 'node-version-mismatch',
+    title: `Node 버전을 ${major} 로 통일 (.nvmrc 기준${report.required ? `, ${report.required.package} 는 >=${report.required.min} 필요` : ''})`,
+    plan,
+    confidence: report.unmet ? 0.85 : 0.75,
+  };
+}
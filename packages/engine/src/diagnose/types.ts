@@ -1,3 +1,5 @@
+import type { PlanStep } from '../core/plan-schema.js';
+
 export type Evidence = {
     id: string;                // 'missing-scripts', 'next-config-missing' 등
     severity: 'low'|'med'|'high';
@@ -17,11 +19,8 @@ export type Evidence = {
     requiresConfirm?: boolean;         // 위험하면 true
   };
   
-  export type Patch =
-    | { type:'write'; file:string; content:string; ifNotExists?:boolean }
-    | { type:'mergeJson'; file:string; merge:any }
-    | { type:'replaceInFile'; file:string; match:RegExp|string; replace:string }
-    | { type:'delete'; file:string };
+  // 패치 형식은 엔진 공통 플랜 스키마(core/plan-schema.ts)와 동일
+  export type Patch = PlanStep;
   
   export type DiagnoseResult = {
     evidences: Evidence[];
@@ -0,0 +1,446 @@
+// packages/engine/src/fixes/log-signatures.ts
+// -----------------------------------------------------------------------------
+// 빌드/런타임 로그 시그니처 카탈로그: signature → evidence → fix
+// - 각 시그니처는 로그 텍스트에서 일치 항목(hit)을 뽑고, hit 마다 Evidence 를 만들며,
+//   자동 수정이 가능하면 Fix(fixes/rules.ts 와 같은 형식)를 돌려줍니다.
+// - LogSignatureRegistry 에 register() 로 프로젝트 전용 시그니처를 추가할 수 있습니다.
+// -----------------------------------------------------------------------------
+import { builtinModules } from "module";
+import { VersionResolver, describeProvenance } from "../utils/version-resolver.js";
+import type { Evidence } from "../diagnose/types.js";
+import type { Fix, PatchStep } from "./rules.js";
+
+/** 시그니처 한 번 일치 = 로그 속 사건 하나 */
+export type SignatureHit = {
+  /** 같은 시그니처 안에서 중복 제거용 키 (예: 모듈 이름) */
+  key: string;
+  summary: string;
+  details?: string;
+  files: string[];
+  data: Record<string, any>;
+};
+
+export interface LogSignature {
+  /** Evidence.id 로도 쓰임 (예: "err-require-esm") */
+  id: string;
+  severity: Evidence["severity"];
+  /** 전역(g) 정규식. 일치마다 parse() 호출 */
+  patterns: RegExp[];
+  parse: (m: RegExpExecArray, text: string) => SignatureHit | null;
+  /** 자동 수정이 없으면 생략 (Evidence.autoFixable=false) */
+  fix?: (hit: SignatureHit, ctx: LogFixContext) => Fix | null;
+}
+
+export type LogFixContext = {
+  /** 추가할 의존성 버전 해석 (기본: 스냅샷 + npm 캐시만 보는 VersionResolver.offline()) */
+  versions: VersionResolver;
+};
+
+export type LogMatchOptions = {
+  registry?: LogSignatureRegistry;
+  /** 프로젝트 lockfile 을 반영하려면 VersionResolver.load(root) 결과를 넘깁니다 */
+  versions?: VersionResolver;
+};
+
+export type LogMatchResult = {
+  evidences: Evidence[];
+  fixes: Fix[];
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 유틸
+// ─────────────────────────────────────────────────────────────────────────────
+const BUILTINS = new Set(builtinModules);
+
+/** import 지정자 → 설치할 패키지 이름. 상대/절대/별칭/내장 모듈이면 null */
+export function packageFromSpecifier(spec: string): string | null {
+  if (!spec || spec.startsWith(".") || spec.startsWith("/") || /^[A-Za-z]:[\\/]/.test(spec)) return null;
+  if (spec.startsWith("node:") || spec.startsWith("@/") || spec.startsWith("~") || spec.startsWith("#")) return null;
+  if (/^[a-z]+:/i.test(spec)) return null; // virtual:, data:, https: …
+  const parts = spec.split("/");
+  const name = spec.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+  if (spec.startsWith("@") && parts.length < 2) return null;
+  if (BUILTINS.has(name)) return null;
+  return /^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/i.test(name) ? name : null;
+}
+
+/** 경로 속 마지막 node_modules/<pkg> */
+export function packageFromPath(p: string): string | null {
+  const all = [...p.replace(/\\/g, "/").matchAll(/node_modules\/((?:@[^/\s]+\/)?[^/\s'"]+)/g)];
+  return all.length ? all[all.length - 1][1] : null;
+}
+
+/** @types 패키지 이름 (@scope/name → @types/scope__name) */
+export function typesPackageFor(name: string): string {
+  return `@types/${name.startsWith("@") ? name.slice(1).replace("/", "__") : name}`;
+}
+
+/** 일치 위치 근처(같은 줄 앞, 또는 바로 윗줄)의 소스 파일 경로 */
+function fileNear(text: string, index: number): string[] {
+  const lineStart = text.lastIndexOf("\n", index - 1) + 1;
+  const prevStart = text.lastIndexOf("\n", lineStart - 2) + 1;
+  const rx = /^\s*((?:\.{0,2}\/)?[\w@$.\-/\\]+\.(?:[cm]?[jt]sx?|vue|svelte|astro))(?:[(:]\d|\s|$)/;
+  const here = text.slice(lineStart, index).match(rx)?.[1];
+  const prev = lineStart > 0 ? text.slice(prevStart, lineStart - 1).match(rx)?.[1] : undefined;
+  const file = here ?? prev;
+  return file ? [file.replace(/\\/g, "/").replace(/^\.\//, "")] : [];
+}
+
+function addDependencyFix(
+  name: string,
+  reason: string,
+  ctx: LogFixContext,
+  dev = isLikelyDevDependency(name)
+): Fix {
+  const resolved = ctx.versions.resolve(name);
+  const version = resolved.range;
+  const plan: PatchStep[] = [
+    {
+      type: "json.merge",
+      file: "package.json",
+      merge: dev ? { devDependencies: { [name]: version } } : { dependencies: { [name]: version } },
+    },
+    { type: "install", deps: [name], dev },
+  ];
+  return {
+    id: `deps-missing-${name}`,
+    title: `Add missing ${dev ? "devDependency" : "dependency"}: ${name}@${version} (${reason}; ${describeProvenance(resolved)})`,
+    plan,
+  };
+}
+
+// devDependencies로 분류할 가능성이 높은 패키지 힌트
+export function isLikelyDevDependency(name: string): boolean {
+  if (name.startsWith("@types/")) return true;
+  if (/^eslint(-|$)/.test(name)) return true;
+  if (/(-|^)plugin(-|$)/.test(name) && /vite|eslint|rollup|webpack/.test(name)) return true;
+  return false;
+}
+
+/** 미해결 import 공통 처리: 패키지면 설치 Fix, 로컬 경로/별칭이면 증거만 */
+function unresolvedImport(spec: string, files: string[], where: string): SignatureHit {
+  const pkg = packageFromSpecifier(spec);
+  return {
+    key: spec,
+    summary: pkg ? `${where}: package "${pkg}" is not installed` : `${where}: cannot resolve "${spec}"`,
+    details: pkg
+      ? `Add ${pkg} to package.json and install it.`
+      : "Local path or alias — check the file exists and the alias is configured (tsconfig paths / bundler alias).",
+    files,
+    data: { specifier: spec, package: pkg },
+  };
+}
+
+const fixMissingPackage = (reason: string) => (hit: SignatureHit, ctx: LogFixContext) =>
+  hit.data.package ? addDependencyFix(hit.data.package, reason, ctx) : null;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 기본 시그니처
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** ESM 전용으로 바뀐 패키지 → 마지막 CommonJS 메이저 */
+export const LAST_CJS_VERSIONS: Record<string, string> = {
+  "node-fetch": "^2.7.0",
+  chalk: "^4.1.2",
+  "strip-ansi": "^6.0.1",
+  "string-width": "^4.2.3",
+  "wrap-ansi": "^7.0.0",
+  nanoid: "^3.3.7",
+  got: "^11.8.6",
+  execa: "^5.1.1",
+  ora: "^5.4.1",
+  "p-limit": "^3.1.0",
+  "p-queue": "^6.6.2",
+  "find-up": "^5.0.0",
+  globby: "^11.1.0",
+  "log-symbols": "^4.1.0",
+  boxen: "^5.1.2",
+  inquirer: "^8.2.6",
+  "pretty-bytes": "^5.6.0",
+  "query-string": "^7.1.3",
+};
+
+/** 네이티브 빌드 없이 쓸 수 있는 대체 패키지 (안내용) */
+const PURE_JS_ALTERNATIVES: Record<string, string> = {
+  bcrypt: "bcryptjs",
+  "node-sass": "sass",
+  sqlite3: "better-sqlite3 (prebuilt binaries) or sql.js",
+  canvas: "@napi-rs/canvas (prebuilt binaries)",
+};
+
+export const moduleNotFound: LogSignature = {
+  id: "module-not-found",
+  severity: "high",
+  patterns: [
+    /Cannot find (?:module|package) ['"]([^'"\n]+)['"](?! or its corresponding)/g,
+    /MODULE_NOT_FOUND[:\s]+['"]([^'"\n]+)['"]/g,
+  ],
+  parse: (m, text) => unresolvedImport(m[1], fileNear(text, m.index), "Node"),
+  fix: fixMissingPackage("MODULE_NOT_FOUND"),
+};
+
+export const errRequireEsm: LogSignature = {
+  id: "err-require-esm",
+  severity: "high",
+  patterns: [
+    /require\(\) of ES Module (\S+?) from (\S+?) not supported/g,
+    /Must use import to load ES Module: (\S+)/g,
+  ],
+  parse: (m) => {
+    const pkg = packageFromPath(m[1]);
+    const from = m[2] ? (packageFromPath(m[2]) ? [] : [m[2]]) : [];
+    const pin = pkg ? LAST_CJS_VERSIONS[pkg] : undefined;
+    return {
+      key: pkg ?? m[1],
+      summary: `ERR_REQUIRE_ESM: ${pkg ?? m[1]} is ESM-only and cannot be require()d`,
+      details: pin
+        ? `Pin ${pkg}@${pin} (last CommonJS release), or switch the caller to import().`
+        : "Load it with dynamic import(), or convert the project to ESM (\"type\": \"module\").",
+      files: from,
+      data: { package: pkg, module: m[1], from: m[2], pin },
+    };
+  },
+  fix: (hit) => {
+    const { package: pkg, pin } = hit.data;
+    if (!pkg || !pin) return null;
+    return {
+      id: `esm-only-${pkg}`,
+      title: `Pin ${pkg}@${pin} (last CommonJS version) to fix ERR_REQUIRE_ESM`,
+      plan: [
+        { type: "json.merge", file: "package.json", merge: { dependencies: { [pkg]: pin } } },
+        { type: "install", deps: [`${pkg}@${pin}`] },
+      ],
+    };
+  },
+};
+
+export const errPackagePathNotExported: LogSignature = {
+  id: "err-package-path-not-exported",
+  severity: "high",
+  patterns: [
+    /Package subpath '([^'\n]+)' is not defined by "exports" in (\S+?)package\.json/g,
+    /No "exports" main (?:defined|resolved) in (\S+?)package\.json/g,
+  ],
+  parse: (m) => {
+    const subpath = m[2] !== undefined ? m[1] : ".";
+    const pkg = packageFromPath(m[2] ?? m[1]);
+    const spec = subpath === "." ? pkg : `${pkg}/${subpath.replace(/^\.\//, "")}`;
+    return {
+      key: `${pkg}:${subpath}`,
+      summary: `ERR_PACKAGE_PATH_NOT_EXPORTED: "${spec}" is not exported by ${pkg}`,
+      details:
+        subpath === "."
+          ? `${pkg} has no CommonJS entry — load it with import() or upgrade the caller.`
+          : `Import from a path listed in ${pkg}'s "exports" (usually the package root), or align the ${pkg} version with the code that deep-imports it.`,
+      files: [],
+      data: { package: pkg, subpath },
+    };
+  },
+};
+
+export const eaddrinuse: LogSignature = {
+  id: "eaddrinuse",
+  severity: "med",
+  patterns: [/EADDRINUSE[^\n]*?:(\d{2,5})\b/g],
+  parse: (m) => ({
+    key: m[1],
+    summary: `Port ${m[1]} is already in use (EADDRINUSE)`,
+    details: `Stop the other process on port ${m[1]}, or make the server listen on process.env.PORT so the host can assign one.`,
+    files: [],
+    data: { port: Number(m[1]) },
+  }),
+};
+
+export const ts2307: LogSignature = {
+  id: "ts2307",
+  severity: "high",
+  patterns: [/error TS2307: Cannot find module ['"]([^'"\n]+)['"]/g],
+  parse: (m, text) => unresolvedImport(m[1], fileNear(text, m.index), "TS2307"),
+  fix: fixMissingPackage("TS2307"),
+};
+
+export const ts7016: LogSignature = {
+  id: "ts7016",
+  severity: "low",
+  patterns: [/error TS7016: Could not find a declaration file for module ['"]([^'"\n]+)['"]/g],
+  parse: (m, text) => {
+    const pkg = packageFromSpecifier(m[1]);
+    return {
+      key: pkg ?? m[1],
+      summary: `TS7016: no type declarations for "${m[1]}"`,
+      details: pkg ? `Install ${typesPackageFor(pkg)} (or add a declare module "${pkg}" shim).` : undefined,
+      files: fileNear(text, m.index),
+      data: { specifier: m[1], package: pkg, types: pkg ? typesPackageFor(pkg) : undefined },
+    };
+  },
+  fix: (hit, ctx) => {
+    const types = hit.data.types as string | undefined;
+    if (!types) return null;
+    const fix = addDependencyFix(types, "TS7016", ctx, true);
+    return { ...fix, id: `types-missing-${hit.data.package}` };
+  },
+};
+
+export const viteUnresolvedImport: LogSignature = {
+  id: "vite-unresolved-import",
+  severity: "high",
+  patterns: [/[Ff]ailed to resolve import ["']([^"'\n]+)["'] from ["']([^"'\n]+)["']/g],
+  parse: (m) => unresolvedImport(m[1], [m[2].replace(/\\/g, "/").replace(/^\.\//, "")], "Vite"),
+  fix: fixMissingPackage("Vite import"),
+};
+
+export const nextModuleNotFound: LogSignature = {
+  id: "next-module-not-found",
+  severity: "high",
+  patterns: [/Module not found: (?:Error: )?Can't resolve ['"]([^'"\n]+)['"]/g],
+  parse: (m, text) => unresolvedImport(m[1], fileNear(text, m.index), "Module not found"),
+  fix: fixMissingPackage("Module not found"),
+};
+
+export const opensslLegacy: LogSignature = {
+  id: "err-ossl-evp-unsupported",
+  severity: "high",
+  patterns: [/ERR_OSSL_EVP_UNSUPPORTED/g],
+  parse: () => ({
+    key: "openssl",
+    summary: "ERR_OSSL_EVP_UNSUPPORTED: webpack 4 era tooling on Node 17+ (OpenSSL 3)",
+    details:
+      "Upgrade to webpack 5 / react-scripts 5, or run with NODE_OPTIONS=--openssl-legacy-provider as a stopgap.",
+    files: [],
+    data: {},
+  }),
+  fix: () => ({
+    id: "openssl-legacy-provider",
+    title: "Run npm scripts with --openssl-legacy-provider (.npmrc node-options)",
+    plan: [
+      {
+        type: "lines.ensure",
+        file: ".npmrc",
+        lines: ["node-options=--openssl-legacy-provider"],
+        description: "npm/pnpm pass node-options to every script as NODE_OPTIONS",
+      },
+    ],
+  }),
+};
+
+export const nodeGyp: LogSignature = {
+  id: "node-gyp-failed",
+  severity: "high",
+  patterns: [/gyp ERR! (?:stack|find|configure|build|cwd|not ok)[^\n]*/g],
+  parse: (_m, text) => {
+    const pkg =
+      packageFromPath(text.match(/gyp ERR! cwd (\S+)/)?.[1] ?? "") ??
+      packageFromPath(text.match(/npm (?:ERR!|error) path (\S+)/)?.[1] ?? "");
+    const missing: string[] = [];
+    if (/find Python|Can't find Python|Python is not set|python\S*: not found/i.test(text)) missing.push("python3");
+    if (/not found: make|make: (?:command )?not found/.test(text)) missing.push("make");
+    if (/(?:g\+\+|c\+\+|cc|gcc): (?:command )?not found|not found: (?:g\+\+|c\+\+)/.test(text)) missing.push("g++");
+    const alt = pkg ? PURE_JS_ALTERNATIVES[pkg] : undefined;
+    const hints = [
+      missing.length ? `Install the native toolchain (${missing.join(", ")}), e.g. apt-get install -y python3 make g++.` : undefined,
+      alt ? `Or replace ${pkg} with ${alt}.` : undefined,
+      "Make sure the Node version has prebuilt binaries for the package (see .nvmrc / engines.node).",
+    ].filter(Boolean);
+    return {
+      key: pkg ?? "node-gyp",
+      summary: `node-gyp native build failed${pkg ? ` for ${pkg}` : ""}`,
+      details: hints.join(" "),
+      files: [],
+      data: { package: pkg, missing, alternative: alt },
+    };
+  },
+};
+
+/** 등록 순서 = 보고 순서 */
+export const DEFAULT_LOG_SIGNATURES: LogSignature[] = [
+  moduleNotFound,
+  errRequireEsm,
+  errPackagePathNotExported,
+  eaddrinuse,
+  ts2307,
+  ts7016,
+  viteUnresolvedImport,
+  nextModuleNotFound,
+  opensslLegacy,
+  nodeGyp,
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 레지스트리 / 매칭
+// ─────────────────────────────────────────────────────────────────────────────
+export class LogSignatureRegistry {
+  private map = new Map<string, LogSignature>();
+
+  /** 기본 시그니처를 등록합니다. 빈 레지스트리가 필요하면 clear() */
+  constructor() {
+    DEFAULT_LOG_SIGNATURES.forEach((s) => this.register(s));
+  }
+
+  register(signature: LogSignature) {
+    if (!signature?.id) throw new Error("Log signature must have an id");
+    if (signature.patterns.some((p) => !p.global)) {
+      throw new Error(`Log signature patterns must be global (/g): ${signature.id}`);
+    }
+    this.map.set(signature.id, signature);
+  }
+
+  get(id: string): LogSignature {
+    const s = this.map.get(id);
+    if (!s) throw new Error(`Log signature not found: ${id}`);
+    return s;
+  }
+
+  has(id: string) {
+    return this.map.has(id);
+  }
+
+  list(): LogSignature[] {
+    return [...this.map.values()];
+  }
+
+  clear() {
+    this.map.clear();
+  }
+}
+
+/** 로그 텍스트 → Evidence[] + Fix[] (같은 Fix id 는 한 번만) */
+export function matchLogSignatures(text: string, options: LogMatchOptions = {}): LogMatchResult {
+  const registry = options.registry ?? new LogSignatureRegistry();
+  const ctx: LogFixContext = { versions: options.versions ?? VersionResolver.offline() };
+  const evidences: Evidence[] = [];
+  const fixes = new Map<string, Fix>();
+
+  for (const sig of registry.list()) {
+    const seen = new Map<string, Evidence>();
+    for (const pattern of sig.patterns) {
+      const rx = new RegExp(pattern.source, pattern.flags);
+      let m: RegExpExecArray | null;
+      while ((m = rx.exec(text)) !== null) {
+        if (m[0] === "") rx.lastIndex++;
+        const hit = sig.parse(m, text);
+        if (!hit) continue;
+
+        const prev = seen.get(hit.key);
+        if (prev) {
+          for (const f of hit.files) if (!prev.files.includes(f)) prev.files.push(f);
+          continue;
+        }
+
+        const fix = sig.fix?.(hit, ctx) ?? null;
+        if (fix && !fixes.has(fix.id)) fixes.set(fix.id, fix);
+        const evidence: Evidence = {
+          id: sig.id,
+          severity: sig.severity,
+          summary: hit.summary,
+          details: hit.details,
+          files: [...hit.files],
+          autoFixable: Boolean(fix),
+          data: { ...hit.data, ...(fix ? { fixId: fix.id } : {}) },
+        };
+        seen.set(hit.key, evidence);
+        evidences.push(evidence);
+      }
+    }
+  }
+  return { evidences, fixes: [...fixes.values()] };
+}
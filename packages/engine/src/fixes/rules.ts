@@ -1,51 +1,19 @@
 // packages/engine/src/fixes/rules.ts
 import fs from "fs-extra";
 import path from "path";
-import suggestVersion from "../utils/depsRegistry.js";
-import { readTsConfig } from "../utils/tsconfig.js";
+import { loadTsConfig, readTsConfig } from "../utils/tsconfig.js";
+import type { PlanStep } from "../core/plan-schema.js";
+import type { Detection } from "../index.js";
+import { replitTransform } from "../providers/replit-provider.js";
+import { findConfigFile } from "../utils/config-ast.js";
+import { planEsmSource } from "../utils/module-format.js";
+import { inspectAliases, planAliasSync, renderViteAliasObject, type AliasEntry } from "../utils/path-aliases.js";
+import { matchLogSignatures, type LogMatchOptions } from "./log-signatures.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Patch 타입
+// Patch 타입: 공통 플랜 스키마(core/plan-schema.ts)
 // ─────────────────────────────────────────────────────────────────────────────
-export type PatchStep =
-  | { type: "json.merge"; file: string; merge: Record<string, any> }
-  | {
-      type: "create";
-      file?: string;
-      target?: string;
-      description?: string;
-      required?: boolean;
-      content?: string;
-      overwrite?: boolean;
-    }
-  | { type: "write"; file: string; content: string | Buffer }
-  | { type: "append"; file: string; content: string | Buffer }
-  | {
-      type: "text.patch";
-      file: string;
-      before?: string;
-      after?: string;
-      patches?:
-        | { search: string; replace: string }[]
-        | { search: string; replace: string };
-      createIfMissing?: boolean;
-    }
-  | { type: "install"; pm?: "npm" | "pnpm" | "yarn" | "bun"; deps?: string[]; dev?: boolean }
-  | {
-      type: "run";
-      cmd: string;
-      args?: string[];
-      cwd?: string;
-      env?: Record<string, string>;
-      stdio?: "inherit" | "pipe";
-      timeoutMs?: number;
-    }
-  // 구버전 호환
-  | { type: "modify"; target: string; description?: string; required?: boolean; content: string }
-  | { type: "delete"; target: string; description?: string }
-  | { type: "copy"; target: string; description?: string; content?: string }
-  | { type: "install-old"; pkg: string; dev?: boolean; description?: string }
-  | { type: "exec"; cmd: string; args?: string[]; cwd?: string; description?: string };
+export type PatchStep = PlanStep;
 
 export type Fix = {
   id: string;
@@ -53,18 +21,37 @@ export type Fix = {
   plan: PatchStep[];
 };
 
+type Framework = Detection["framework"];
+
+/** 번들러가 모듈 해석을 맡고 ESM 이 기본인 프레임워크 (Next / Vite 계열) */
+const ESM_BUNDLED: ReadonlySet<Framework> = new Set(["nextjs", "vite", "remix", "nuxt", "sveltekit", "astro"]);
+/** 자체 빌드 도구가 tsconfig/모듈 형식을 관리 → ESM/CJS 정합화 대상 아님 */
+const TOOLCHAIN_MANAGED: ReadonlySet<Framework> = new Set(["angular", "cra"]);
+
+/** tailwind content — 프레임워크별 소스 위치 (그 외: Vite 기본 index.html + src) */
+const TAILWIND_CONTENT: Partial<Record<Framework, string[]>> = {
+  nextjs: ["./pages/**/*.{js,ts,jsx,tsx,mdx}", "./components/**/*.{js,ts,jsx,tsx,mdx}", "./app/**/*.{js,ts,jsx,tsx,mdx}"],
+  remix: ["./app/**/*.{js,jsx,ts,tsx}"],
+  nuxt: ["./components/**/*.{vue,js,ts}", "./layouts/**/*.vue", "./pages/**/*.vue", "./app.vue", "./plugins/**/*.{js,ts}"],
+  sveltekit: ["./src/**/*.{html,js,svelte,ts}"],
+  astro: ["./src/**/*.{astro,html,js,jsx,md,mdx,svelte,ts,tsx,vue}"],
+  angular: ["./src/**/*.{html,ts}"],
+  cra: ["./src/**/*.{js,jsx,ts,tsx}"],
+};
+const DEFAULT_TAILWIND_CONTENT = ["./index.html", "./src/**/*.{js,ts,jsx,tsx}"];
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 템플릿 (Vite config / index.html)
 // ─────────────────────────────────────────────────────────────────────────────
-const VITE_CONFIG_TS_TEMPLATE = `import { defineConfig } from "vite";
+/** alias 는 실제로 쓰는/설정된 것만 (없으면 resolve 생략) */
+const viteConfigTsTemplate = (aliases: AliasEntry[]) => `import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
   build: { outDir: "dist" },
-  resolve: { alias: { "@": "/src" } },
-  server: { host: true, port: 3000 }
+${aliases.length > 0 ? `  resolve: { alias: ${renderViteAliasObject(aliases)} },\n` : ""}  server: { host: true, port: 3000 }
 });
 `;
 
@@ -87,23 +74,26 @@ const INDEX_HTML_TEMPLATE = `<!doctype html>
 // ─────────────────────────────────────────────────────────────────────────────
 export async function buildAutoFixes(
   projectRoot: string,
-  framework: "nextjs" | "vite" | "express" | "unknown"
+  framework: Framework
 ): Promise<Fix[]> {
   const fixes: Fix[] = [];
+  // 4) 에서 "type": "module" 로 바뀌면 새 설정 파일도 ESM 으로 (CJS 로 만들면 바로 깨짐)
+  const esm = await targetsEsm(projectRoot, framework);
+  const exportDefault = esm ? "export default" : "module.exports =";
 
-  // 1) postcss.config.js
-  if (!(await fs.pathExists(path.join(projectRoot, "postcss.config.js")))) {
+  // 1) postcss.config.js (.cjs/.mjs/.ts 도 있으면 건너뜀)
+  if (!(await findConfigFile(projectRoot, "postcss"))) {
     fixes.push({
       id: "fix-postcss-config-missing",
       title: "Create postcss.config.js",
       plan: [
         {
           type: "create",
-          target: "postcss.config.js",
+          file: "postcss.config.js",
           description: "Create default PostCSS config with tailwindcss & autoprefixer",
           required: true,
           content:
-            `module.exports = {\n` +
+            `${exportDefault} {\n` +
             `  plugins: {\n` +
             `    tailwindcss: {},\n` +
             `    autoprefixer: {},\n` +
@@ -115,11 +105,8 @@ export async function buildAutoFixes(
   }
 
   // 2) tailwind.config.js
-  if (!(await fs.pathExists(path.join(projectRoot, "tailwind.config.js")))) {
-    const isNext = framework === "nextjs";
-    const contentGlobs = isNext
-      ? `["./pages/**/*.{js,ts,jsx,tsx,mdx}","./components/**/*.{js,ts,jsx,tsx,mdx}","./app/**/*.{js,ts,jsx,tsx,mdx}"]`
-      : `["./index.html","./src/**/*.{js,ts,jsx,tsx}"]`;
+  if (!(await findConfigFile(projectRoot, "tailwind"))) {
+    const contentGlobs = JSON.stringify(TAILWIND_CONTENT[framework] ?? DEFAULT_TAILWIND_CONTENT);
 
     fixes.push({
       id: "fix-tailwind-config-missing",
@@ -127,11 +114,11 @@ export async function buildAutoFixes(
       plan: [
         {
           type: "create",
-          target: "tailwind.config.js",
+          file: "tailwind.config.js",
           description: "Create default Tailwind config",
           content:
             `/** @type {import('tailwindcss').Config} */\n` +
-            `module.exports = {\n` +
+            `${exportDefault} {\n` +
             `  content: ${contentGlobs},\n` +
             `  theme: { extend: {} },\n` +
             `  plugins: [],\n` +
@@ -142,17 +129,17 @@ export async function buildAutoFixes(
   }
 
   // 3) next.config.js
-  if (framework === "nextjs" && !(await fs.pathExists(path.join(projectRoot, "next.config.js")))) {
+  if (framework === "nextjs" && !(await findConfigFile(projectRoot, "next"))) {
     fixes.push({
       id: "fix-next-config-missing",
       title: "Create next.config.js",
       plan: [
         {
           type: "create",
-          target: "next.config.js",
+          file: "next.config.js",
           description: "Create minimal Next config",
           required: true,
-          content: `module.exports = { reactStrictMode: true };\n`,
+          content: `${exportDefault} { reactStrictMode: true };\n`,
         },
       ],
     });
@@ -176,30 +163,44 @@ export async function buildAutoFixes(
   const postinstallFix = await buildPostinstallGuardFix(projectRoot);
   if (postinstallFix) fixes.push(postinstallFix);
 
-  // 8) ★ Replit 파일 무해화 (.replit, replit.nix 제거 또는 격리)
-  const replitFix = await buildReplitNeutralizeFix(projectRoot);
+  // 8) ★ Replit 설정 이전 (.replit, replit.nix 해석 후 .mofix/replit/ 로 보관)
+  const replitFix = await buildReplitMigrateFix(projectRoot);
   if (replitFix) fixes.push(replitFix);
 
   return fixes;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// ESM/CJS 정합화: package.json "type" ↔ tsconfig module 설정 일치
+// ESM/CJS 정합화: package.json "type" ↔ tsconfig module 설정 + 소스(require/module.exports) 일치
 // ─────────────────────────────────────────────────────────────────────────────
+/** Next/Vite 계열은 항상, Express 등은 TS 프로젝트일 때만 ESM 으로 맞춤 (Angular/CRA 는 빌드 도구에 맡김) */
+async function usesTypeScript(projectRoot: string, pkg: any): Promise<boolean> {
+  return Boolean(pkg?.devDependencies?.typescript || pkg?.dependencies?.typescript) || Boolean(await readTsConfig(projectRoot));
+}
+
+async function targetsEsm(projectRoot: string, framework: Framework): Promise<boolean> {
+  const pkg = await fs.readJSON(path.join(projectRoot, "package.json")).catch(() => null);
+  if (!pkg) return false;
+  if (TOOLCHAIN_MANAGED.has(framework)) return pkg.type === "module";
+  return pkg.type === "module" || ESM_BUNDLED.has(framework) || (await usesTypeScript(projectRoot, pkg));
+}
+
 async function buildEsmCjsFix(
   projectRoot: string,
-  framework: "nextjs" | "vite" | "express" | "unknown"
+  framework: Framework
 ): Promise<Fix | null> {
   const pkgPath = path.join(projectRoot, "package.json");
   if (!(await fs.pathExists(pkgPath))) return null;
+  if (TOOLCHAIN_MANAGED.has(framework)) return null;
 
   const pkg = await fs.readJSON(pkgPath).catch(() => ({}));
-  const ts = await readTsConfig(projectRoot);
-  const usesTS =
-    Boolean(pkg?.devDependencies?.typescript || pkg?.dependencies?.typescript) || Boolean(ts);
+  // extends(@tsconfig/node18 등)까지 반영한 실효 옵션 기준으로 판단 — 주석 있는 tsconfig 도 읽힘
+  const ts = await loadTsConfig(projectRoot);
+  const usesTS = await usesTypeScript(projectRoot, pkg);
 
-  // Next/Vite면 보정, Express는 TS 프로젝트일 때만
-  if (framework !== "nextjs" && framework !== "vite" && !usesTS) return null;
+  // Next/Vite 계열이면 보정, Node 서버(Express 등)는 TS 프로젝트일 때만
+  const bundled = ESM_BUNDLED.has(framework);
+  if (!bundled && !usesTS) return null;
 
   const isESM = pkg.type === "module";
   const steps: PatchStep[] = [];
@@ -208,7 +209,9 @@ async function buildEsmCjsFix(
     steps.push({ type: "json.merge", file: "package.json", merge: { type: "module" } });
   }
 
-  if (!ts) {
+  // 있는데 못 읽는 파일(문법 오류)은 덮어쓰지 않음
+  const tsMissing = !(await fs.pathExists(path.join(projectRoot, "tsconfig.json")));
+  if (!ts && tsMissing) {
     steps.push({
       type: "json.merge",
       file: "tsconfig.json",
@@ -224,9 +227,9 @@ async function buildEsmCjsFix(
         include: ["src", "app", "pages", "components"],
       },
     });
-  } else {
+  } else if (ts) {
     const need: any = { compilerOptions: {} };
-    const co = ts.compilerOptions ?? {};
+    const co = ts.compilerOptions;
     if (co.module !== "NodeNext") need.compilerOptions.module = "NodeNext";
     if (co.moduleResolution !== "NodeNext") need.compilerOptions.moduleResolution = "NodeNext";
     if (co.esModuleInterop !== true) need.compilerOptions.esModuleInterop = true;
@@ -235,10 +238,13 @@ async function buildEsmCjsFix(
     }
   }
 
+  // 소스: 루트 CJS 설정 파일은 ESM/.cjs 로, 번들러를 거치지 않는 소스는 require → import + 확장자
+  steps.push(...(await planEsmSource(projectRoot, { sources: !bundled })));
+
   if (steps.length === 0) return null;
   return {
     id: "esm-cjs-consistency",
-    title: "ESM/CJS 설정 정합화 (package.json & tsconfig.json)",
+    title: "ESM/CJS 설정 정합화 (package.json & tsconfig.json & 소스)",
     plan: steps,
   };
 }
@@ -247,36 +253,28 @@ async function buildEsmCjsFix(
 // Vite outDir / index.html 보정
 // ─────────────────────────────────────────────────────────────────────────────
 async function buildViteOutputFix(projectRoot: string): Promise<Fix | null> {
-  const viteConfigTs = path.join(projectRoot, "vite.config.ts");
-  const viteConfigJs = path.join(projectRoot, "vite.config.js");
-  const hasTs = await fs.pathExists(viteConfigTs);
-  const hasJs = await fs.pathExists(viteConfigJs);
+  const config = await findConfigFile(projectRoot, "vite");
 
   const steps: PatchStep[] = [];
 
   // 1) vite.config 생성
-  if (!hasTs && !hasJs) {
+  if (!config) {
     steps.push({
       type: "create",
-      target: "vite.config.ts",
+      file: "vite.config.ts",
       description: "Create Vite config with outDir and alias",
-      content: VITE_CONFIG_TS_TEMPLATE,
+      content: viteConfigTsTemplate((await inspectAliases(projectRoot)).aliases),
       required: true,
     });
   } else {
-    // 존재하면 간단 치환으로 outDir/alias 보정 (MVP 수준)
-    const target = hasTs ? "vite.config.ts" : "vite.config.js";
+    // 존재하면 AST 편집으로 빠진 값만 채움 (이미 설정된 outDir 는 유지, alias 는 ts-alias-fix 가 동기화)
     steps.push({
-      type: "text.patch",
-      file: target,
-      createIfMissing: false,
-      patches: [{ search: "build: {", replace: 'build: { outDir: "dist", ' }],
-    });
-    steps.push({
-      type: "text.patch",
-      file: target,
-      createIfMissing: false,
-      patches: [{ search: "resolve: {", replace: 'resolve: { alias: { "@": "/src" }, ' }],
+      type: "config.set",
+      file: config,
+      path: ["build", "outDir"],
+      value: "dist",
+      mode: "ifMissing",
+      description: `Ensure build.outDir in ${config}`,
     });
   }
 
@@ -284,7 +282,7 @@ async function buildViteOutputFix(projectRoot: string): Promise<Fix | null> {
   if (!(await fs.pathExists(path.join(projectRoot, "index.html")))) {
     steps.push({
       type: "create",
-      target: "index.html",
+      file: "index.html",
       description: "Create base index.html for Vite",
       content: INDEX_HTML_TEMPLATE,
     });
@@ -299,37 +297,18 @@ async function buildViteOutputFix(projectRoot: string): Promise<Fix | null> {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// TS paths/alias 동기화
+// TS paths/alias 동기화: tsconfig(extends 포함)/jsconfig ↔ Vite alias ↔ 소스가 쓰는 별칭
 // ─────────────────────────────────────────────────────────────────────────────
 async function buildTsAliasFix(projectRoot: string): Promise<Fix | null> {
-  const tsPath = path.join(projectRoot, "tsconfig.json");
-  const hasTs = await fs.pathExists(tsPath);
-  const steps: PatchStep[] = [];
-
-  if (!hasTs) {
-    steps.push({
-      type: "json.merge",
-      file: "tsconfig.json",
-      merge: {
-        compilerOptions: {
-          baseUrl: ".",
-          paths: { "@/*": ["./src/*"] },
-        },
-        include: ["src", "app", "pages", "components"],
-      },
-    });
-  } else {
-    steps.push({
-      type: "json.merge",
-      file: "tsconfig.json",
-      merge: { compilerOptions: { baseUrl: ".", paths: { "@/*": ["./src/*"] } } },
-    });
-  }
+  const report = await inspectAliases(projectRoot);
+  const steps = await planAliasSync(projectRoot, report);
 
   if (steps.length === 0) return null;
   return {
     id: "ts-alias-fix",
-    title: "tsconfig paths/alias 동기화",
+    title:
+      `tsconfig paths/alias 동기화 (${report.aliases.map((a) => `${a.key} → ${a.target}`).join(", ")})` +
+      (report.conflicts.length > 0 ? ` — 충돌은 그대로 둠: ${report.conflicts.join("; ")}` : ""),
     plan: steps,
   };
 }
@@ -387,100 +366,34 @@ async function buildPostinstallGuardFix(projectRoot: string): Promise<Fix | null
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Replit 파일 무해화 (.replit / replit.nix 제거)
+// Replit 설정 이전 (.replit / replit.nix → scripts/.env.example/.nvmrc, 원본은 .mofix/replit/ 보관)
 // ─────────────────────────────────────────────────────────────────────────────
-async function buildReplitNeutralizeFix(projectRoot: string): Promise<Fix | null> {
-  const replitFile = path.join(projectRoot, ".replit");
-  const nixFile    = path.join(projectRoot, "replit.nix");
-
-  const hasReplit = await fs.pathExists(replitFile);
-  const hasNix    = await fs.pathExists(nixFile);
-
-  if (!hasReplit && !hasNix) return null;
-
-  const steps: PatchStep[] = [];
-
-  // 간단·안전하게는 제거가 가장 충돌이 적음 (Replit 밖 환경에서만 적용됨)
-  if (hasReplit) {
-    steps.push({
-      type: "delete",
-      target: ".replit",
-      description: "Remove Replit config to avoid local/CI toolchain conflicts",
-    });
-  }
-  if (hasNix) {
-    steps.push({
-      type: "delete",
-      target: "replit.nix",
-      description: "Remove Replit nix config to avoid local/CI conflicts",
-    });
-  }
-
-  // 선택적으로 안내 파일을 남겨두면 UX가 좋아짐
-  steps.push({
-    type: "create",
-    target: ".mofix/README-REPLIT.txt",
-    content:
-      "Replit-specific files (.replit / replit.nix) were removed by MoFix to prevent conflicts in local/CI builds.\n" +
-      "If you really need them, restore from VCS history or add them back only in Replit environment.",
-  });
+async function buildReplitMigrateFix(projectRoot: string): Promise<Fix | null> {
+  const steps = await replitTransform(projectRoot);
+  if (steps.length === 0) return null;
 
   return {
-    id: "replit-neutralize",
-    title: "Replit 전용 파일 무해화 (.replit / replit.nix 정리)",
+    id: "replit-migrate",
+    title: "Replit 설정 이전 (.replit / replit.nix → package.json scripts, .env.example, .nvmrc)",
     plan: steps,
   };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Diagnose 로그 기반 Fix: MODULE_NOT_FOUND → deps 추가 & 설치
+// Diagnose 로그 기반 Fix: 로그 시그니처 카탈로그(fixes/log-signatures.ts)에 위임
 // ─────────────────────────────────────────────────────────────────────────────
-export function fixesFromDiagnoseMessages(diag: any): Fix[] {
-  const out: Fix[] = [];
-  let text = "";
-
-  if (diag?.logs && Array.isArray(diag.logs)) text = diag.logs.join("\n");
-  else text = JSON.stringify(diag ?? {});
-
-  const mods = new Set<string>();
-  const rx = /MODULE_NOT_FOUND[^'"]*['"]([^'"]+)['"]/gi;
-  let m: RegExpExecArray | null;
-  while ((m = rx.exec(text)) !== null) {
-    const name = m[1];
-    if (!/^node:/.test(name) && !name.startsWith("./") && !name.startsWith("../")) {
-      mods.add(name);
-    }
-  }
-
-  if (mods.size === 0) return out;
-
-  for (const mod of mods) {
-    const dev = isDefinitelyTypesPackage(mod);
-    const version = suggestVersion(mod);
-
-    const merge = dev
-      ? { devDependencies: { [mod]: version } }
-      : { dependencies: { [mod]: version } };
-
-    const plan: PatchStep[] = [
-      { type: "json.merge", file: "package.json", merge },
-      { type: "install", deps: [mod], dev },
-    ];
-
-    out.push({
-      id: `deps-missing-${mod}`,
-      title: `Add missing ${dev ? "devDependency" : "dependency"}: ${mod}@${version}`,
-      plan,
-    });
-  }
-
-  return out;
+/** diag.logs(string[]) / 메시지 배열 / 임의 객체 → 검사할 로그 텍스트 (문자열 값만 모아 줄 단위로) */
+export function diagnoseLogText(diag: any): string {
+  if (diag?.logs && Array.isArray(diag.logs)) return diag.logs.join("\n");
+  const out: string[] = [];
+  const walk = (v: any, depth: number) => {
+    if (typeof v === "string") out.push(v);
+    else if (v && typeof v === "object" && depth < 8) Object.values(v).forEach((x) => walk(x, depth + 1));
+  };
+  walk(diag, 0);
+  return out.join("\n");
 }
 
-// devDependencies로 분류할 가능성이 높은 패키지 힌트
-function isDefinitelyTypesPackage(name: string): boolean {
-  if (name.startsWith("@types/")) return true;
-  if (/^eslint(-|$)/.test(name)) return true;
-  if (/(-|^)plugin(-|$)/.test(name) && /vite|eslint|rollup|webpack/.test(name)) return true;
-  return false;
+export function fixesFromDiagnoseMessages(diag: any, options?: LogMatchOptions): Fix[] {
+  return matchLogSignatures(diagnoseLogText(diag), options).fixes;
 }
@@ -0,0 +1,116 @@
+import path from "path";
+import fs from "fs-extra";
+import type { MigrationStep, MigrationOptions } from "../core/types.js";
+import { planEnsureGitignoreLines } from "../utils/planHelpers.js";
+import { angularMajor, angularProjectName, angularUsesSsr, desiredScripts } from "../utils/packageJson.js";
+
+export const AngularAdapter = {
+  name: "angular",
+
+  async detect(projectPath: string): Promise<boolean> {
+    const pkgPath = path.join(projectPath, "package.json");
+    if (!(await fs.pathExists(pkgPath))) return false;
+    const pkg = await fs.readJson(pkgPath);
+    return Boolean(pkg.dependencies?.["@angular/core"] || pkg.devDependencies?.["@angular/core"]);
+  },
+
+  async generateConfig(projectPath: string, _opts: MigrationOptions): Promise<MigrationStep[]> {
+    const steps: MigrationStep[] = [];
+    const pkg = await fs.readJson(path.join(projectPath, "package.json")).catch(() => ({} as any));
+
+    // ng serve / ng build 는 angular.json 없이는 동작하지 않음
+    if (!(await fs.pathExists(path.join(projectPath, "angular.json")))) {
+      steps.push({
+        type: "create",
+        description: "Create Angular workspace configuration",
+        file: "angular.json",
+        content: getAngularJsonTemplate(pkg),
+        required: true,
+      });
+    }
+
+    // 정적 빌드의 start(serve -s dist/...)가 쓸 서버 — start 를 새로 넣을 때만
+    const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+    if (!pkg.scripts?.start && !angularUsesSsr(pkg) && !deps.serve) {
+      steps.push({ type: "install", deps: ["serve"], description: "Install serve for the production start script" });
+    }
+
+    steps.push(...(await planEnsureGitignoreLines(projectPath, ["/dist", "/.angular/cache"])));
+    return steps;
+  },
+
+  fixPackageJsonScripts(pkg: any) {
+    pkg.scripts ??= {};
+    for (const [k, v] of Object.entries(desiredScripts("angular", pkg))) pkg.scripts[k] ??= v;
+    return pkg;
+  },
+};
+
+/** 최소 워크스페이스: 17+ 는 application 빌더(esbuild), 이전은 browser 빌더(webpack) */
+function getAngularJsonTemplate(pkg: any): string {
+  const name = angularProjectName(pkg);
+  const modern = angularMajor(pkg) >= 17;
+  const build = modern
+    ? {
+        builder: "@angular-devkit/build-angular:application",
+        options: {
+          outputPath: `dist/${name}`,
+          index: "src/index.html",
+          browser: "src/main.ts",
+          tsConfig: "tsconfig.app.json",
+          assets: ["src/favicon.ico", "src/assets"],
+          styles: ["src/styles.css"],
+        },
+      }
+    : {
+        builder: "@angular-devkit/build-angular:browser",
+        options: {
+          outputPath: `dist/${name}`,
+          index: "src/index.html",
+          main: "src/main.ts",
+          polyfills: ["zone.js"],
+          tsConfig: "tsconfig.app.json",
+          assets: ["src/favicon.ico", "src/assets"],
+          styles: ["src/styles.css"],
+        },
+      };
+  const target = modern ? "buildTarget" : "browserTarget";
+
+  return (
+    JSON.stringify(
+      {
+        $schema: "./node_modules/@angular/cli/lib/config/schema.json",
+        version: 1,
+        newProjectRoot: "projects",
+        projects: {
+          [name]: {
+            projectType: "application",
+            root: "",
+            sourceRoot: "src",
+            prefix: "app",
+            architect: {
+              build: {
+                ...build,
+                configurations: {
+                  production: { outputHashing: "all" },
+                  development: { optimization: false, extractLicenses: false, sourceMap: true },
+                },
+                defaultConfiguration: "production",
+              },
+              serve: {
+                builder: "@angular-devkit/build-angular:dev-server",
+                configurations: {
+                  production: { [target]: `${name}:build:production` },
+                  development: { [target]: `${name}:build:development` },
+                },
+                defaultConfiguration: "development",
+              },
+            },
+          },
+        },
+      },
+      null,
+      2
+    ) + "\n"
+  );
+}
@@ -0,0 +1,67 @@
+import path from "path";
+import fs from "fs-extra";
+import type { MigrationStep, MigrationOptions } from "../core/types.js";
+import { findConfigFile } from "../utils/config-ast.js";
+import { planEnsureGitignoreLines } from "../utils/planHelpers.js";
+import { desiredScripts } from "../utils/packageJson.js";
+
+export const AstroAdapter = {
+  name: "astro",
+
+  async detect(projectPath: string): Promise<boolean> {
+    const pkgPath = path.join(projectPath, "package.json");
+    if (!(await fs.pathExists(pkgPath))) return false;
+    const pkg = await fs.readJson(pkgPath);
+    return Boolean(pkg.dependencies?.astro || pkg.devDependencies?.astro);
+  },
+
+  async generateConfig(projectPath: string, _opts: MigrationOptions): Promise<MigrationStep[]> {
+    const steps: MigrationStep[] = [];
+
+    if (!(await findConfigFile(projectPath, "astro"))) {
+      steps.push({
+        type: "create",
+        description: "Create Astro configuration",
+        file: "astro.config.mjs",
+        content: getAstroConfigTemplate(),
+        required: true,
+      });
+    }
+
+    // astro check / 에디터용 타입 (.astro/types.d.ts 는 astro sync 가 생성)
+    if (!(await fs.pathExists(path.join(projectPath, "tsconfig.json")))) {
+      steps.push({
+        type: "create",
+        description: "Create tsconfig.json extending the Astro preset",
+        file: "tsconfig.json",
+        content:
+          JSON.stringify(
+            { extends: "astro/tsconfigs/base", include: [".astro/types.d.ts", "**/*"], exclude: ["dist"] },
+            null,
+            2
+          ) + "\n",
+        required: false,
+      });
+    }
+
+    steps.push(...(await planEnsureGitignoreLines(projectPath, ["dist/", ".astro/"])));
+    return steps;
+  },
+
+  fixPackageJsonScripts(pkg: any) {
+    pkg.scripts ??= {};
+    for (const [k, v] of Object.entries(desiredScripts("astro", pkg))) pkg.scripts[k] ??= v;
+    return pkg;
+  },
+};
+
+function getAstroConfigTemplate(): string {
+  return `// @ts-check
+import { defineConfig } from "astro/config";
+
+// https://astro.build/config
+export default defineConfig({
+  server: { host: true, port: 4321 }
+});
+`;
+}
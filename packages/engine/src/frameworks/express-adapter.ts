@@ -1,6 +1,7 @@
 import path from 'path';
 import fs from 'fs-extra';
 import type { FrameworkAdapter, MigrationOptions, MigrationStep } from '../core/types.js';
+import { entryFromPackageJson, locateServerEntry, planServerSetup, serverScripts } from '../utils/server-entry.js';
 
 export class ExpressAdapter implements FrameworkAdapter {
   name = 'express';
@@ -16,41 +17,42 @@ export class ExpressAdapter implements FrameworkAdapter {
 
   async generateConfig(projectPath: string, options: MigrationOptions): Promise<MigrationStep[]> {
     const steps: MigrationStep[] = [];
+    const entry = await locateServerEntry(projectPath, 'express');
 
-    // Check if nodemon config exists for development
+    // nodemon 은 JS 엔트리에서만 (TS 는 tsx watch)
     const nodemonConfigExists = await fs.pathExists(path.join(projectPath, 'nodemon.json'));
-    if (!nodemonConfigExists) {
+    if (!nodemonConfigExists && entry && !entry.typescript) {
       steps.push({
         type: 'create',
         description: 'Create Nodemon configuration for development',
-        target: 'nodemon.json',
-        content: this.getNodemonConfigTemplate(),
+        file: 'nodemon.json',
+        content: this.getNodemonConfigTemplate(entry.source),
         required: false
       });
     }
 
+    steps.push(...(await planServerSetup(projectPath, 'express')));
     return steps;
   }
 
   fixPackageJsonScripts(packageJson: any): any {
     packageJson.scripts = packageJson.scripts || {};
-    
-    if (!packageJson.scripts.dev) {
-      packageJson.scripts.dev = 'nodemon server.js';
-    }
-    if (!packageJson.scripts.start) {
-      packageJson.scripts.start = 'node server.js';
+
+    for (const [k, v] of Object.entries(serverScripts('express', entryFromPackageJson(packageJson)))) {
+      if (!packageJson.scripts[k]) packageJson.scripts[k] = v;
     }
 
     return packageJson;
   }
 
-  private getNodemonConfigTemplate(): string {
+  private getNodemonConfigTemplate(entry: string): string {
+    // 루트 엔트리면 nodemon 기본값(현재 디렉터리 전체)을 감시
+    const dir = path.posix.dirname(entry);
     return JSON.stringify({
-      "watch": ["src", "server.js", "index.js"],
-      "ext": "js,json,ts",
+      ...(dir === '.' ? {} : { "watch": [dir] }),
+      "ext": "js,mjs,cjs,json",
       "ignore": ["node_modules/**", "dist/**"],
-      "exec": "node server.js"
+      "exec": `node ${entry}`
     }, null, 2);
   }
-}
\ No newline at end of file
+}
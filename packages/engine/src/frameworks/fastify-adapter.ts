@@ -0,0 +1,25 @@
+import path from "path";
+import fs from "fs-extra";
+import type { MigrationStep, MigrationOptions } from "../core/types.js";
+import { entryFromPackageJson, planServerSetup, serverScripts } from "../utils/server-entry.js";
+
+export const FastifyAdapter = {
+  name: "fastify",
+
+  async detect(projectPath: string): Promise<boolean> {
+    const pkgPath = path.join(projectPath, "package.json");
+    if (!(await fs.pathExists(pkgPath))) return false;
+    const pkg = await fs.readJson(pkgPath);
+    return Boolean(pkg.dependencies?.fastify || pkg.devDependencies?.fastify);
+  },
+
+  async generateConfig(projectPath: string, _opts: MigrationOptions): Promise<MigrationStep[]> {
+    return planServerSetup(projectPath, "fastify");
+  },
+
+  fixPackageJsonScripts(pkg: any) {
+    pkg.scripts ??= {};
+    for (const [k, v] of Object.entries(serverScripts("fastify", entryFromPackageJson(pkg)))) pkg.scripts[k] ??= v;
+    return pkg;
+  },
+};
@@ -1,9 +1,50 @@
 // packages/engine/src/frameworks/framework-registry.ts
 import type { FrameworkAdapter } from "../core/types.js";
+import type { Detection } from "../index.js";
 import { NextJSAdapter } from "./nextjs-adapter.js";
 import { ViteAdapter } from "./vite-adapter.js";
 import { ExpressAdapter } from "./express-adapter.js";
 import { CRAAdapter } from "./cra-adapter.js";
+import { RemixAdapter } from "./remix-adapter.js";
+import { NuxtAdapter } from "./nuxt-adapter.js";
+import { SvelteKitAdapter } from "./sveltekit-adapter.js";
+import { AstroAdapter } from "./astro-adapter.js";
+import { AngularAdapter } from "./angular-adapter.js";
+import { NestJSAdapter } from "./nestjs-adapter.js";
+import { FastifyAdapter } from "./fastify-adapter.js";
+import { KoaAdapter } from "./koa-adapter.js";
+import { HonoAdapter } from "./hono-adapter.js";
+
+/**
+ * 프레임워크 판별 규칙 (위에서부터 첫 매치).
+ * Remix / SvelteKit / Astro 는 vite 를 의존성으로 함께 두므로 vite 보다 먼저 확인합니다.
+ * NestJS 는 플랫폼 어댑터로 express/fastify 를 끌어오므로 두 서버보다 먼저 확인합니다.
+ */
+export const FRAMEWORK_SIGNATURES: Array<{ name: Exclude<Detection["framework"], "unknown">; deps: string[]; files?: string[] }> = [
+  { name: "nextjs", deps: ["next"], files: ["next.config.js", "next.config.ts"] },
+  { name: "remix", deps: ["@remix-run/dev", "@remix-run/react"], files: ["remix.config.js"] },
+  { name: "nuxt", deps: ["nuxt"], files: ["nuxt.config.ts", "nuxt.config.js"] },
+  { name: "sveltekit", deps: ["@sveltejs/kit"], files: ["svelte.config.js"] },
+  { name: "astro", deps: ["astro"], files: ["astro.config.mjs", "astro.config.ts"] },
+  { name: "angular", deps: ["@angular/core"], files: ["angular.json"] },
+  { name: "vite", deps: ["vite"], files: ["vite.config.js", "vite.config.ts"] },
+  { name: "nestjs", deps: ["@nestjs/core"], files: ["nest-cli.json"] },
+  { name: "fastify", deps: ["fastify"] },
+  { name: "koa", deps: ["koa"] },
+  { name: "hono", deps: ["hono"] },
+  { name: "express", deps: ["express"] },
+  { name: "cra", deps: ["react-scripts"] },
+];
+
+/** 의존성만으로 프레임워크 이름 (설정 파일까지 보는 판별은 ProjectDetector) */
+export function frameworkFromDependencies(deps: Record<string, unknown>): Detection["framework"] | undefined {
+  return FRAMEWORK_SIGNATURES.find((s) => s.deps.some((d) => deps[d]))?.name;
+}
+
+/** 감지 결과의 프레임워크 문자열(ProjectDetector 등) → Detection["framework"]. 모르는 이름은 unknown */
+export function knownFramework(name: string | undefined): Detection["framework"] {
+  return FRAMEWORK_SIGNATURES.find((s) => s.name === name)?.name ?? "unknown";
+}
 
 type MaybeAdapter =
   | FrameworkAdapter
@@ -19,7 +60,10 @@ export class FrameworkRegistry {
 
   constructor() {
     // 클래스/객체 혼용 등록 지원
-    [NextJSAdapter, ViteAdapter, ExpressAdapter, CRAAdapter]
+    [
+      NextJSAdapter, ViteAdapter, ExpressAdapter, CRAAdapter, RemixAdapter, NuxtAdapter, SvelteKitAdapter, AstroAdapter,
+      AngularAdapter, NestJSAdapter, FastifyAdapter, KoaAdapter, HonoAdapter,
+    ]
       .filter(Boolean)
       .map(toAdapter)
       .forEach((adapter) => this.register(adapter));
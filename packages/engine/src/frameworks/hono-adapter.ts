@@ -0,0 +1,25 @@
+import path from "path";
+import fs from "fs-extra";
+import type { MigrationStep, MigrationOptions } from "../core/types.js";
+import { entryFromPackageJson, planServerSetup, serverScripts } from "../utils/server-entry.js";
+
+export const HonoAdapter = {
+  name: "hono",
+
+  async detect(projectPath: string): Promise<boolean> {
+    const pkgPath = path.join(projectPath, "package.json");
+    if (!(await fs.pathExists(pkgPath))) return false;
+    const pkg = await fs.readJson(pkgPath);
+    return Boolean(pkg.dependencies?.hono || pkg.devDependencies?.hono);
+  },
+
+  async generateConfig(projectPath: string, _opts: MigrationOptions): Promise<MigrationStep[]> {
+    return planServerSetup(projectPath, "hono");
+  },
+
+  fixPackageJsonScripts(pkg: any) {
+    pkg.scripts ??= {};
+    for (const [k, v] of Object.entries(serverScripts("hono", entryFromPackageJson(pkg)))) pkg.scripts[k] ??= v;
+    return pkg;
+  },
+};
@@ -0,0 +1,49 @@
+import path from "path";
+import fs from "fs-extra";
+import type { MigrationStep, MigrationOptions } from "../core/types.js";
+import { entryFromPackageJson, planServerSetup, serverScripts } from "../utils/server-entry.js";
+
+export const NestJSAdapter = {
+  name: "nestjs",
+
+  async detect(projectPath: string): Promise<boolean> {
+    const pkgPath = path.join(projectPath, "package.json");
+    if (!(await fs.pathExists(pkgPath))) return false;
+    const pkg = await fs.readJson(pkgPath);
+    return Boolean(pkg.dependencies?.["@nestjs/core"] || pkg.devDependencies?.["@nestjs/core"]);
+  },
+
+  async generateConfig(projectPath: string, _opts: MigrationOptions): Promise<MigrationStep[]> {
+    const steps: MigrationStep[] = [];
+
+    // nest build / nest start 의 sourceRoot · 엔트리 (기본 src/main.ts → dist/main.js)
+    if (!(await fs.pathExists(path.join(projectPath, "nest-cli.json")))) {
+      steps.push({
+        type: "create",
+        description: "Create Nest CLI configuration",
+        file: "nest-cli.json",
+        content:
+          JSON.stringify(
+            {
+              $schema: "https://json.schemastore.org/nest-cli",
+              collection: "@nestjs/schematics",
+              sourceRoot: "src",
+              compilerOptions: { deleteOutDir: true },
+            },
+            null,
+            2
+          ) + "\n",
+        required: false,
+      });
+    }
+
+    steps.push(...(await planServerSetup(projectPath, "nestjs")));
+    return steps;
+  },
+
+  fixPackageJsonScripts(pkg: any) {
+    pkg.scripts ??= {};
+    for (const [k, v] of Object.entries(serverScripts("nestjs", entryFromPackageJson(pkg)))) pkg.scripts[k] ??= v;
+    return pkg;
+  },
+};
@@ -1,6 +1,7 @@
 import path from "path";
 import fs from "fs-extra";
 import type { MigrationStep, MigrationOptions } from "../core/types.js";
+import { inspectAliases, renderTsPaths, type AliasEntry } from "../utils/path-aliases.js";
 
 export const NextJSAdapter = {
   name: "nextjs",
@@ -23,7 +24,7 @@ export const NextJSAdapter = {
       steps.push({
         type: "create",
         description: "Create Next.js configuration",
-        target: "next.config.js",
+        file: "next.config.js",
         content: getNextConfigTemplateESM(),
         required: true,
       });
@@ -34,7 +35,7 @@ export const NextJSAdapter = {
       steps.push({
         type: "create",
         description: "Create PostCSS config",
-        target: "postcss.config.js",
+        file: "postcss.config.js",
         content: getPostcssConfig(),
         required: false,
       });
@@ -45,25 +46,12 @@ export const NextJSAdapter = {
       steps.push({
         type: "create",
         description: "Create Tailwind config",
-        target: "tailwind.config.js",
+        file: "tailwind.config.js",
         content: getTailwindConfigForNext(),
         required: false,
       });
     }
 
-    // .env.example
-    if (!(await fs.pathExists(path.join(projectPath, ".env.example")))) {
-      steps.push({
-        type: "create",
-        description: "Create environment variables example",
-        target: ".env.example",
-        content: `# Example
-# NEXT_PUBLIC_API_URL=
-`,
-        required: false,
-      });
-    }
-
     // tsconfig.json (TS를 쓰는데 없으면)
     const hasTsConfig = await fs.pathExists(path.join(projectPath, "tsconfig.json"));
     if (!hasTsConfig) {
@@ -73,8 +61,8 @@ export const NextJSAdapter = {
         steps.push({
           type: "create",
           description: "Create TypeScript configuration for Next.js",
-          target: "tsconfig.json",
-          content: getNextTsConfigTemplate(),
+          file: "tsconfig.json",
+          content: getNextTsConfigTemplate((await inspectAliases(projectPath)).aliases),
           required: false,
         });
       }
@@ -124,7 +112,8 @@ export default {
 `;
 }
 
-function getNextTsConfigTemplate(): string {
+/** paths 는 실제로 쓰는/설정된 별칭만 (pages 라우터에 src/ 가 없으면 생략) */
+function getNextTsConfigTemplate(aliases: AliasEntry[]): string {
   return JSON.stringify(
     {
       compilerOptions: {
@@ -143,7 +132,7 @@ function getNextTsConfigTemplate(): string {
         jsx: "preserve",
         incremental: true,
         plugins: [{ name: "next" }],
-        paths: { "@/*": ["./src/*"] }
+        ...(aliases.length > 0 ? { paths: renderTsPaths(aliases) } : {})
       },
       include: ["next-env.d.ts", "**/*.ts", "**/*.tsx", ".next/types/**/*.ts"],
       exclude: ["node_modules"]
@@ -0,0 +1,60 @@
+import path from "path";
+import fs from "fs-extra";
+import type { MigrationStep, MigrationOptions } from "../core/types.js";
+import { findConfigFile } from "../utils/config-ast.js";
+import { planEnsureGitignoreLines } from "../utils/planHelpers.js";
+import { desiredScripts } from "../utils/packageJson.js";
+
+export const NuxtAdapter = {
+  name: "nuxt",
+
+  async detect(projectPath: string): Promise<boolean> {
+    const pkgPath = path.join(projectPath, "package.json");
+    if (!(await fs.pathExists(pkgPath))) return false;
+    const pkg = await fs.readJson(pkgPath);
+    return Boolean(pkg.dependencies?.nuxt || pkg.devDependencies?.nuxt);
+  },
+
+  async generateConfig(projectPath: string, _opts: MigrationOptions): Promise<MigrationStep[]> {
+    const steps: MigrationStep[] = [];
+
+    if (!(await findConfigFile(projectPath, "nuxt"))) {
+      steps.push({
+        type: "create",
+        description: "Create Nuxt configuration",
+        file: "nuxt.config.ts",
+        content: getNuxtConfigTemplate(),
+        required: true,
+      });
+    }
+
+    // Nuxt 3 는 .nuxt/tsconfig.json 을 생성 (nuxt prepare) → 루트는 extends 만
+    if (!(await fs.pathExists(path.join(projectPath, "tsconfig.json")))) {
+      steps.push({
+        type: "create",
+        description: "Create tsconfig.json extending the generated Nuxt config",
+        file: "tsconfig.json",
+        content: JSON.stringify({ extends: "./.nuxt/tsconfig.json" }, null, 2) + "\n",
+        required: false,
+      });
+    }
+
+    steps.push(...(await planEnsureGitignoreLines(projectPath, [".nuxt", ".output", ".data"])));
+    return steps;
+  },
+
+  fixPackageJsonScripts(pkg: any) {
+    pkg.scripts ??= {};
+    for (const [k, v] of Object.entries(desiredScripts("nuxt", pkg))) pkg.scripts[k] ??= v;
+    return pkg;
+  },
+};
+
+function getNuxtConfigTemplate(): string {
+  return `// https://nuxt.com/docs/api/configuration/nuxt-config
+export default defineNuxtConfig({
+  devtools: { enabled: true },
+  devServer: { host: "0.0.0.0", port: 3000 }
+});
+`;
+}
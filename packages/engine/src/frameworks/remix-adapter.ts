@@ -0,0 +1,78 @@
+import path from "path";
+import fs from "fs-extra";
+import type { MigrationStep, MigrationOptions } from "../core/types.js";
+import { findConfigFile } from "../utils/config-ast.js";
+import { planEnsureGitignoreLines } from "../utils/planHelpers.js";
+import { desiredScripts } from "../utils/packageJson.js";
+
+export const RemixAdapter = {
+  name: "remix",
+
+  async detect(projectPath: string): Promise<boolean> {
+    const pkgPath = path.join(projectPath, "package.json");
+    if (!(await fs.pathExists(pkgPath))) return false;
+    const pkg = await fs.readJson(pkgPath);
+    const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+    return Boolean(deps["@remix-run/dev"] || deps["@remix-run/react"]);
+  },
+
+  async generateConfig(projectPath: string, _opts: MigrationOptions): Promise<MigrationStep[]> {
+    const steps: MigrationStep[] = [];
+    const pkg = await fs.readJson(path.join(projectPath, "package.json")).catch(() => ({} as any));
+
+    // Remix 2 는 Vite 플러그인, 그 이전(구 컴파일러)은 remix.config.js
+    if (usesVite(pkg)) {
+      if (!(await findConfigFile(projectPath, "vite"))) {
+        steps.push({
+          type: "create",
+          description: "Create Vite configuration with the Remix plugin",
+          file: "vite.config.ts",
+          content: getRemixViteConfigTemplate(),
+          required: true,
+        });
+      }
+    } else if (!(await findConfigFile(projectPath, "remix"))) {
+      steps.push({
+        type: "create",
+        description: "Create Remix configuration",
+        file: "remix.config.js",
+        content: getRemixConfigTemplate(pkg?.type === "module"),
+        required: true,
+      });
+    }
+
+    steps.push(...(await planEnsureGitignoreLines(projectPath, ["/build", "/.cache", "/public/build"])));
+    return steps;
+  },
+
+  fixPackageJsonScripts(pkg: any) {
+    pkg.scripts ??= {};
+    for (const [k, v] of Object.entries(desiredScripts("remix", pkg))) pkg.scripts[k] ??= v;
+    return pkg;
+  },
+};
+
+function usesVite(pkg: any): boolean {
+  return Boolean(pkg?.dependencies?.vite || pkg?.devDependencies?.vite);
+}
+
+function getRemixViteConfigTemplate(): string {
+  return `import { vitePlugin as remix } from "@remix-run/dev";
+import { defineConfig } from "vite";
+
+export default defineConfig({
+  plugins: [remix()],
+  server: { host: true, port: 5173 }
+});
+`;
+}
+
+function getRemixConfigTemplate(esm: boolean): string {
+  const body = `{
+  ignoredRouteFiles: ["**/.*"],
+  serverModuleFormat: "${esm ? "esm" : "cjs"}"
+}`;
+  return esm
+    ? `/** @type {import('@remix-run/dev').AppConfig} */\nexport default ${body};\n`
+    : `/** @type {import('@remix-run/dev').AppConfig} */\nmodule.exports = ${body};\n`;
+}
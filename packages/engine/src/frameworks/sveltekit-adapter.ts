@@ -0,0 +1,76 @@
+import path from "path";
+import fs from "fs-extra";
+import type { MigrationStep, MigrationOptions } from "../core/types.js";
+import { findConfigFile } from "../utils/config-ast.js";
+import { planEnsureGitignoreLines } from "../utils/planHelpers.js";
+import { desiredScripts } from "../utils/packageJson.js";
+
+export const SvelteKitAdapter = {
+  name: "sveltekit",
+
+  async detect(projectPath: string): Promise<boolean> {
+    const pkgPath = path.join(projectPath, "package.json");
+    if (!(await fs.pathExists(pkgPath))) return false;
+    const pkg = await fs.readJson(pkgPath);
+    return Boolean(pkg.dependencies?.["@sveltejs/kit"] || pkg.devDependencies?.["@sveltejs/kit"]);
+  },
+
+  async generateConfig(projectPath: string, _opts: MigrationOptions): Promise<MigrationStep[]> {
+    const steps: MigrationStep[] = [];
+
+    if (!(await findConfigFile(projectPath, "svelte"))) {
+      steps.push({
+        type: "create",
+        description: "Create SvelteKit configuration",
+        file: "svelte.config.js",
+        content: getSvelteConfigTemplate(),
+        required: true,
+      });
+    }
+
+    // SvelteKit 은 Vite 플러그인으로 동작 → vite.config 가 없으면 dev/build 불가
+    if (!(await findConfigFile(projectPath, "vite"))) {
+      steps.push({
+        type: "create",
+        description: "Create Vite configuration with the SvelteKit plugin",
+        file: "vite.config.ts",
+        content: getSvelteKitViteConfigTemplate(),
+        required: true,
+      });
+    }
+
+    steps.push(...(await planEnsureGitignoreLines(projectPath, [".svelte-kit", "/build"])));
+    return steps;
+  },
+
+  fixPackageJsonScripts(pkg: any) {
+    pkg.scripts ??= {};
+    for (const [k, v] of Object.entries(desiredScripts("sveltekit", pkg))) pkg.scripts[k] ??= v;
+    return pkg;
+  },
+};
+
+function getSvelteConfigTemplate(): string {
+  return `import adapter from "@sveltejs/adapter-auto";
+import { vitePreprocess } from "@sveltejs/vite-plugin-svelte";
+
+/** @type {import('@sveltejs/kit').Config} */
+const config = {
+  preprocess: vitePreprocess(),
+  kit: { adapter: adapter() }
+};
+
+export default config;
+`;
+}
+
+function getSvelteKitViteConfigTemplate(): string {
+  return `import { sveltekit } from "@sveltejs/kit/vite";
+import { defineConfig } from "vite";
+
+export default defineConfig({
+  plugins: [sveltekit()],
+  server: { host: true, port: 5173 }
+});
+`;
+}
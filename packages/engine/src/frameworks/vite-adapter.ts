@@ -1,6 +1,7 @@
 import path from "path";
 import fs from "fs-extra";
 import type { MigrationStep, MigrationOptions } from "../core/types.js";
+import { inspectAliases, renderViteAliasObject, type AliasEntry } from "../utils/path-aliases.js";
 
 export const ViteAdapter = {
   name: "vite",
@@ -23,8 +24,8 @@ export const ViteAdapter = {
       steps.push({
         type: "create",
         description: "Create Vite configuration",
-        target: "vite.config.ts",
-        content: getViteConfigTemplate(),
+        file: "vite.config.ts",
+        content: getViteConfigTemplate((await inspectAliases(projectPath)).aliases),
         required: true,
       });
     }
@@ -34,7 +35,7 @@ export const ViteAdapter = {
       steps.push({
         type: "create",
         description: "Create PostCSS config",
-        target: "postcss.config.js",
+        file: "postcss.config.js",
         content: getPostcssConfig(),
         required: false,
       });
@@ -45,25 +46,12 @@ export const ViteAdapter = {
       steps.push({
         type: "create",
         description: "Create Tailwind config",
-        target: "tailwind.config.js",
+        file: "tailwind.config.js",
         content: getTailwindConfigForVite(),
         required: false,
       });
     }
 
-    // .env.example
-    if (!(await fs.pathExists(path.join(projectPath, ".env.example")))) {
-      steps.push({
-        type: "create",
-        description: "Create environment variables example",
-        target: ".env.example",
-        content: `# Example
-# VITE_API_URL=
-`,
-        required: false,
-      });
-    }
-
     return steps;
   },
 
@@ -76,7 +64,8 @@ export const ViteAdapter = {
   },
 };
 
-function getViteConfigTemplate(): string {
+function getViteConfigTemplate(aliases: AliasEntry[]): string {
+  const resolve = aliases.length > 0 ? `,\n  resolve: { alias: ${renderViteAliasObject(aliases)} }` : "";
   return `import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
@@ -84,8 +73,7 @@ import react from "@vitejs/plugin-react";
 export default defineConfig({
   plugins: [react()],
   server: { host: true, port: 3000 },
-  build: { outDir: "dist" },
-  resolve: { alias: { "@": "/src" } }
+  build: { outDir: "dist" }${resolve}
 });
 `;
 }
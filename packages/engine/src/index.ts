@@ -7,34 +7,58 @@ import verifyRoutes from "./routes/verify.js";
 import makePlanRoutes from "./routes/plan.js";
 import makeApplyRoutes from "./routes/apply.js";
 
-import { planUpdatePackageJsonScripts } from "./utils/packageJson.js";
+import { hasDesiredScripts, planUpdatePackageJsonScripts } from "./utils/packageJson.js";
+import { planEnvExample } from "./utils/env-inventory.js";
+import { isServerFramework, planServerScripts } from "./utils/server-entry.js";
 import { buildAutoFixes, fixesFromDiagnoseMessages } from "./fixes/rules.js";
 import { resolveRealProjectRoot } from "./utils/root.js";
+import { detectPackageManager } from "./utils/lockfiles.js";
+import { inspectNodeVersion } from "./utils/node-version.js";
+import { runPatchStep } from "./apply/runner.js";
+import { dryRunPlan, type DryRunResult } from "./apply/dry-run.js";
+import { ApplyJournal, touchedFiles } from "./core/apply-journal.js";
+import { makePlan, normalizeSteps, parsePlan, scopeSteps, stepFile, type Plan, type PlanStep } from "./core/plan-schema.js";
+import { orderSteps, schedulePlan } from "./core/plan-graph.js";
+import { ProjectDetector } from "./core/project-detector.js";
+import { ProviderRegistry } from "./providers/provider-registry.js";
+import { TargetRegistry } from "./targets/target-registry.js";
+import { frameworkFromDependencies } from "./frameworks/framework-registry.js";
+import { Logger } from "./core/logger.js";
+import type { WorkspaceDetection } from "./core/types.js";
 
 /* ========================= Types =======================*/
 export type Detection = {
-  framework: "nextjs" | "vite" | "express" | "unknown";
+  framework:
+    | "nextjs"
+    | "vite"
+    | "remix"
+    | "nuxt"
+    | "sveltekit"
+    | "astro"
+    | "angular"
+    | "express"
+    | "cra"
+    | "nestjs"
+    | "fastify"
+    | "koa"
+    | "hono"
+    | "unknown";
   provider?: "replit" | "stackblitz" | "codesandbox" | "unknown";
   packageManager: "npm" | "yarn" | "pnpm" | "bun";
   hasPackageJson: boolean;
   hasEnvFiles: boolean;
   projectPath: string;
   dependencies: Record<string, string>;
+  /** 권장 Node 메이저 (utils/node-version) */
+  nodeVersion?: string;
+  /** 모노레포면 패키지별 감지 결과 */
+  workspaces?: WorkspaceDetection;
 };
 
-export type PlanStep = {
-  type: "create" | "modify" | "delete" | "copy";
-  target: string;
-  description?: string;
-  required?: boolean;
-  content?: string;
-};
-
-export type Plan = {
-  steps: PlanStep[];
-  confidence: number;
-  warnings: string[];
-};
+// 플랜/스텝은 엔진 공통 스키마(core/plan-schema.ts)
+export type { ArrayMergeStrategy, Plan, PlanStep } from "./core/plan-schema.js";
+export { PLAN_SCHEMA_VERSION, PlanSchemaError, parsePlan, stepFile } from "./core/plan-schema.js";
+export { orderSteps, schedulePlan, detectStepConflicts, type ScheduledPlan, type StepConflict } from "./core/plan-graph.js";
 
 export type PlanOptions = {
   to?: "vscode" | "vercel" | "netlify" | "docker";
@@ -53,43 +77,100 @@ export async function detect(projectPath: string): Promise<Detection> {
 
   const deps = { ...(pkg?.dependencies || {}), ...(pkg?.devDependencies || {}) } as Record<string, string>;
 
-  let framework: Detection["framework"] = "unknown";
-  if (deps["next"]) framework = "nextjs";
-  else if (deps["vite"]) framework = "vite";
-  else if (deps["express"]) framework = "express";
+  const framework = frameworkFromDependencies(deps) ?? "unknown";
 
-  let packageManager: Detection["packageManager"] = "npm";
-  if (await fs.pathExists(path.join(realRoot, "pnpm-lock.yaml"))) packageManager = "pnpm";
-  else if (await fs.pathExists(path.join(realRoot, "yarn.lock"))) packageManager = "yarn";
-  else if (await fs.pathExists(path.join(realRoot, "bun.lockb"))) packageManager = "bun";
+  const packageManager: Detection["packageManager"] = detectPackageManager(realRoot);
+  const nodeVersion = (await inspectNodeVersion(realRoot)).major;
 
   const hasEnvFiles =
     (await fs.pathExists(path.join(realRoot, ".env"))) ||
     (await fs.pathExists(path.join(realRoot, ".env.local")));
 
   let provider: Detection["provider"] = "unknown";
-  if (await fs.pathExists(path.join(realRoot, ".replit"))) provider = "replit";
+  if (
+    (await fs.pathExists(path.join(realRoot, ".replit"))) ||
+    (await fs.pathExists(path.join(realRoot, "replit.nix")))
+  ) {
+    provider = "replit";
+  }
+
+  const workspaces = await new ProjectDetector(new Logger()).detectWorkspacePackages(realRoot);
 
-  return { framework, provider, packageManager, hasPackageJson: hasPkg, hasEnvFiles, projectPath: realRoot, dependencies: deps };
+  return {
+    framework,
+    provider,
+    packageManager,
+    hasPackageJson: hasPkg,
+    hasEnvFiles,
+    projectPath: realRoot,
+    dependencies: deps,
+    nodeVersion,
+    ...(workspaces ? { workspaces } : {}),
+  };
 }
 
 /* ========================= Plan =======================*/
 export async function plan(d: Detection, opts: PlanOptions = {}): Promise<Plan> {
   const steps: PlanStep[] = [
-    { type: "create", target: ".gitignore", description: "Create .gitignore file", required: true },
-    { type: "create", target: ".vscode/settings.json", description: "Create VS Code settings" }
+    { type: "lines.ensure", file: ".gitignore", lines: ["node_modules/", ".env.local"], description: "Ensure .gitignore entries", required: true },
+    {
+      type: "create",
+      file: ".vscode/settings.json",
+      description: "Create VS Code settings",
+      content: JSON.stringify({ "editor.formatOnSave": true }, null, 2) + "\n",
+    },
   ];
 
-  if (d.hasPackageJson && (d.framework === "nextjs" || d.framework === "vite")) {
+  if (d.hasPackageJson && hasDesiredScripts(d.framework)) {
     const pkgSteps = await planUpdatePackageJsonScripts(d.projectPath, d.framework);
     steps.push(...pkgSteps);
+  } else if (d.hasPackageJson && isServerFramework(d.framework)) {
+    steps.push(...(await planServerScripts(d.projectPath, d.framework)));
   }
 
-  if (opts.to === "vercel")      steps.push({ type: "create", target: "vercel.json",  description: "Add vercel config" });
-  else if (opts.to === "netlify")steps.push({ type: "create", target: "netlify.toml", description: "Add netlify config" });
-  else if (opts.to === "docker") steps.push({ type: "create", target: "Dockerfile",   description: "Add Dockerfile" });
+  // 모노레포: 패키지별 scripts 보정 + .env.example (루트 스텝은 위에서 공유)
+  const packages = d.workspaces?.packages ?? [];
+  if (packages.length === 0) steps.push(...(await planEnvExample(d.projectPath, d.framework)));
+  for (const pkg of packages) {
+    const pkgPath = path.join(d.projectPath, pkg.dir);
+    const pkgSteps = await planEnvExample(pkgPath, pkg.framework);
+    if (pkg.hasPackageJson && hasDesiredScripts(pkg.framework)) {
+      pkgSteps.unshift(...(await planUpdatePackageJsonScripts(pkgPath, pkg.framework)));
+    } else if (pkg.hasPackageJson && isServerFramework(pkg.framework)) {
+      pkgSteps.unshift(...(await planServerScripts(pkgPath, pkg.framework)));
+    }
+    steps.push(...scopeSteps(pkgSteps, pkg.dir));
+  }
 
-  return { steps, confidence: 0.9, warnings: [] };
+  // 프로바이더 어댑터 (providers/): Replit 설정 → scripts/.env.example/.nvmrc
+  if (d.provider && d.provider !== "unknown") {
+    const providers = new ProviderRegistry();
+    const provider = providers.has(d.provider) ? providers.get(d.provider) : undefined;
+    if (provider?.transform) steps.push(...normalizeSteps(await provider.transform(d.projectPath)));
+  }
+
+  // 배포 타깃 어댑터 (targets/): 프레임워크별 vercel.json / netlify.toml / Dockerfile
+  const warnings: string[] = [];
+  if (opts.to && opts.to !== "vscode") {
+    const targets = new TargetRegistry();
+    const target = targets.has(opts.to) ? targets.get(opts.to) : undefined;
+    if (target?.generateConfig) {
+      const framework = d.framework === "unknown" ? "generic" : d.framework;
+      steps.push(...normalizeSteps(await target.generateConfig(framework, d.projectPath, { force: opts.force })));
+    } else {
+      warnings.push(`No adapter found for target: ${opts.to}`);
+    }
+  }
+
+  // 의존 순서 정렬 + 같은 파일 json.merge 합치기 (겹치는 편집은 경고)
+  const scheduled = schedulePlan(steps);
+  warnings.push(...scheduled.conflicts.map((c) => `Conflicting edits: ${c.message}`));
+
+  return makePlan(scheduled.steps, {
+    confidence: 0.9,
+    warnings,
+    packages: packages.map((p) => ({ name: p.name, dir: p.dir, framework: p.framework })),
+  });
 }
 
 /* ========================= Apply =======================*/
@@ -97,66 +178,77 @@ export async function applyPlan(projectPath: string, p: Plan, _opts: ApplyOption
   const root = await resolveRealProjectRoot(projectPath);
   const logs: string[] = ["Starting migration..."];
 
-  for (const step of p.steps) {
-    const target = path.join(root, step.target);
-
-    if (step.type === "create") {
-      await fs.ensureDir(path.dirname(target));
-      if (step.target === ".gitignore") {
-        await fs.writeFile(target, "node_modules/\n.env.local\n");
-      } else if (step.target === ".vscode/settings.json") {
-        await fs.writeFile(target, JSON.stringify({ "editor.formatOnSave": true }, null, 2) + "\n");
-      } else if (step.target === "vercel.json") {
-        await fs.writeFile(target, JSON.stringify({ version: 2 }, null, 2) + "\n");
-      } else if (step.target === "netlify.toml") {
-        await fs.writeFile(target, '[build]\n  command = "npm run build"\n  publish = "dist"\n');
-      } else if (step.target === "Dockerfile") {
-        await fs.writeFile(
-          target,
-          `FROM node:18-alpine
-WORKDIR /app
-COPY . .
-RUN npm i
-CMD ["npm","run","dev"]\n`
-        );
-      } else {
-        await fs.ensureFile(target);
-      }
-      logs.push(`Created ${step.target}`);
-    }
+  // 클라이언트가 보낸 구버전 플랜도 여기서 변환/검증 + 의존 순서 정렬 (실패·순환 시 PlanSchemaError)
+  const steps = orderSteps(parsePlan(p).steps);
+  // 파일을 건드리기 전 원본을 기록 → required 실패 시 적용 전 상태로 복원
+  const journal = await ApplyJournal.begin(root);
 
-    if (step.type === "modify") {
-      if (typeof step.content === "string") {
-        await fs.ensureDir(path.dirname(target));
-        await fs.writeFile(target, step.content);
-        logs.push(`Modified ${step.target}`);
-      } else if (step.target === "package.json") {
-        const pkgPath = path.join(root, "package.json");
-        if (await fs.pathExists(pkgPath)) {
-          const pkg = await fs.readJson(pkgPath).catch(() => ({}));
-          (pkg as any).scripts = (pkg as any).scripts || {};
-          (pkg as any).scripts.dev   ||= "next dev || vite || node server.js";
-          (pkg as any).scripts.build ||= "next build || vite build || tsc -p .";
-          (pkg as any).scripts.start ||= "next start || node dist/server.js";
-          await fs.writeJson(pkgPath, pkg, { spaces: 2 });
-          logs.push("Updated package.json scripts (fallback)");
-        }
+  for (const step of steps) {
+    try {
+      await journal.recordAll(touchedFiles(step));
+      await runPatchStep(root, step);
+      logs.push(`${step.type} ${stepFile(step) ?? (step.type === "run" ? step.cmd : "")}`.trim());
+    } catch (e: any) {
+      logs.push(`Failed ${step.type}: ${e?.message || e}`);
+      if (step.required) {
+        const r = await journal.rollback();
+        logs.push(`Rolled back (journal ${journal.id}): restored ${r.restored}, removed ${r.removed}`);
+        return { success: false, logs, error: e?.message || String(e), journalId: journal.id };
       }
     }
   }
 
+  await journal.commit();
   logs.push("Migration completed successfully!");
-  return { success: true, logs };
+  return { success: true, logs, journalId: journal.id };
 }
 
+/* ========================= Dry-run =======================*/
+/** 적용하지 않고 파일별 unified diff + 실행될 커맨드만 계산 */
+export async function dryRun(projectPath: string, p: Plan): Promise<DryRunResult> {
+  const root = await resolveRealProjectRoot(projectPath);
+  return dryRunPlan(root, parsePlan(p).steps);
+}
+
+export type { DryRunResult, FileDiff, PlannedCommand } from "./apply/dry-run.js";
+
 /* ========================= Public API =======================*/
 import { diagnose } from "./diagnose/index.js";
 export { diagnose };
 export { buildAutoFixes, fixesFromDiagnoseMessages } from "./fixes/rules.js";
+export { knownFramework } from "./frameworks/framework-registry.js";
+export {
+  LogSignatureRegistry,
+  matchLogSignatures,
+  type LogSignature,
+  type SignatureHit,
+} from "./fixes/log-signatures.js";
+export {
+  VersionResolver,
+  describeProvenance,
+  type ResolvedVersion,
+  type VersionSource,
+} from "./utils/version-resolver.js";
+export { inspectLockfiles, rewriteScripts, type LockfileReport } from "./utils/lockfiles.js";
+export { buildFixForLockfiles } from "./diagnose/rules/lockfiles.js";
+export { inspectNodeVersion, type NodeVersionReport } from "./utils/node-version.js";
+export { locateServerEntry, findHealthPath, type ServerEntry } from "./utils/server-entry.js";
+export { planCraToVite } from "./utils/cra-to-vite.js";
+export { toEsmSource, planEsmSource } from "./utils/module-format.js";
+export { analyzeDependencies, collectImports, type DependencyReport } from "./utils/import-graph.js";
+export { inspectAliases, planAliasSync, type AliasReport } from "./utils/path-aliases.js";
+export { loadTsConfig, resolveTsConfigExtends, type ResolvedTsConfig } from "./utils/tsconfig.js";
+export { parseJsonc, mergeJsonc, appendJsoncArray, JsoncParseError, type JsoncMergeOptions } from "./utils/jsonc.js";
+// 웹 서버/CLI가 쓰는 엔진 코어 (감지 → 플랜 → 실행)
+export { ProjectDetector } from "./core/project-detector.js";
+export { PlanGenerator } from "./core/plan-generator.js";
+export { PlanExecutor, type ExecuteResult } from "./core/plan-executor.js";
+export type { MigrationOptions } from "./core/types.js";
+export { ApplyRun, type RunData, type StepRun } from "./core/apply-run.js";
+export { Logger } from "./core/logger.js";
 
 export async function applyPatches(projectRoot: string, patches: PlanStep[]) {
-  const planObj: Plan = { steps: patches, confidence: 1, warnings: [] };
-  return applyPlan(projectRoot, planObj, {});
+  return applyPlan(projectRoot, makePlan(patches), {});
 }
 
 export { plan as generatePlan };
@@ -168,7 +260,7 @@ app.use(cors());
 app.use(express.json({ limit: "10mb" }));
 app.use("/api/verify", verifyRoutes);
 app.use("/api/plan",  makePlanRoutes({ detect, plan, logger: console as any }));
-app.use("/api/apply", makeApplyRoutes({ detect, plan, applyFn: applyPlan, logger: console as any }));
+app.use("/api/apply", makeApplyRoutes({ detect, plan, applyFn: applyPlan, dryRunFn: dryRun, logger: console as any }));
 
 // listen은 테스트에서 하지 않음
 export { app };
@@ -177,6 +269,7 @@ export default {
   detect,
   plan,
   apply: applyPlan,
+  dryRun,
   diagnose,
   applyPatches,
   generatePlan: plan,
@@ -1,19 +1,26 @@
 // packages/engine/src/providers/provider-registry.ts
+import { ReplitProvider } from "./replit-provider.js";
 
+/** 소스 플랫폼(Replit 등) 어댑터 */
 export interface Provider {
-  /** 고유 ID (예: "groq-mixtral") */
+  /** 고유 ID = 감지된 provider 이름 (예: "replit") */
   id: string;
 
   /** 실제 실행 함수(필요시 시그니처 수정) */
-  run: (input: unknown) => Promise<unknown> | unknown;
+  run?: (input: unknown) => Promise<unknown> | unknown;
 
-  /** plan-generator.ts 에서 사용 */
+  /** plan-generator.ts 에서 사용: 플랫폼 전용 설정을 일반 프로젝트 설정으로 옮기는 스텝 */
   transform?: (projectPath: string, options?: unknown) => Promise<any[]> | any[];
 }
 
 export class ProviderRegistry {
   private map = new Map<string, Provider>();
 
+  /** 기본 프로바이더(replit)를 등록합니다. 빈 레지스트리가 필요하면 clear() */
+  constructor() {
+    [ReplitProvider].forEach((p) => this.register(p));
+  }
+
   register(provider: Provider) {
     if (!provider?.id) throw new Error("Provider must have an id");
     this.map.set(provider.id, provider);
@@ -0,0 +1,294 @@
+// packages/engine/src/providers/replit-provider.ts
+// -----------------------------------------------------------------------------
+// Replit → 일반 Node 프로젝트 변환
+// - .replit (TOML): run / entrypoint / [deployment] / [[ports]] / [env] / modules
+//   → package.json scripts(dev/start/build, 없는 것만), .env.example(키만), .nvmrc
+// - replit.nix: pkgs.* 의존성 → Node 버전 + 네이티브 패키지(apt/apk) 안내
+// - 원본은 삭제하지 않고 .mofix/replit/ 아래로 보관 (copy → delete)
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import type { PlanStep } from "../core/plan-schema.js";
+import type { Provider } from "./provider-registry.js";
+import { parseToml, type TomlTable, type TomlValue } from "../utils/toml.js";
+
+export const REPLIT_ARCHIVE_DIR = ".mofix/replit";
+
+export type ReplitConfig = {
+  run?: string;
+  entrypoint?: string;
+  deploymentRun?: string;
+  deploymentBuild?: string;
+  /** [[ports]] localPort → externalPort */
+  ports: Array<{ localPort: number; externalPort?: number }>;
+  env: Record<string, string>;
+  /** modules = ["nodejs-20"] 또는 replit.nix 의 nodejs 버전 */
+  nodeVersion?: string;
+  /** .replit 파싱 실패 사유 */
+  error?: string;
+};
+
+export type NativePackage = { nix: string; apt?: string; apk?: string };
+
+/** nix 패키지 → Debian(apt) / Alpine(apk) 패키지 (없으면 같은 이름으로 안내) */
+const NATIVE_PACKAGES: Record<string, { apt: string; apk: string }> = {
+  python3: { apt: "python3", apk: "python3" },
+  python310: { apt: "python3", apk: "python3" },
+  python311: { apt: "python3", apk: "python3" },
+  gcc: { apt: "build-essential", apk: "build-base" },
+  gnumake: { apt: "make", apk: "make" },
+  "pkg-config": { apt: "pkg-config", apk: "pkgconf" },
+  libuuid: { apt: "uuid-dev", apk: "util-linux-dev" },
+  cairo: { apt: "libcairo2-dev", apk: "cairo-dev" },
+  pango: { apt: "libpango1.0-dev", apk: "pango-dev" },
+  libpng: { apt: "libpng-dev", apk: "libpng-dev" },
+  libjpeg: { apt: "libjpeg-dev", apk: "libjpeg-turbo-dev" },
+  giflib: { apt: "libgif-dev", apk: "giflib-dev" },
+  librsvg: { apt: "librsvg2-dev", apk: "librsvg-dev" },
+  vips: { apt: "libvips-dev", apk: "vips-dev" },
+  ffmpeg: { apt: "ffmpeg", apk: "ffmpeg" },
+  imagemagick: { apt: "imagemagick", apk: "imagemagick" },
+  chromium: { apt: "chromium", apk: "chromium" },
+  openssl: { apt: "openssl", apk: "openssl" },
+  git: { apt: "git", apk: "git" },
+  sqlite: { apt: "sqlite3", apk: "sqlite" },
+  postgresql: { apt: "postgresql-client", apk: "postgresql-client" },
+  redis: { apt: "redis-tools", apk: "redis" },
+};
+
+/** Node 툴체인/Replit 에디터용이라 옮길 필요 없는 nix 패키지 */
+const IGNORED_NIX = /^(nodejs|nodePackages|yarn|bun|replitPackages|bashInteractive|man|nix|cowsay)/;
+
+const str = (v: TomlValue | undefined) => (typeof v === "string" ? v : undefined);
+
+/** run = "cmd" | ["sh", "-c", "cmd"] | ["node", "index.js"] → 셸 커맨드 문자열 */
+function toCommand(v: TomlValue | undefined): string | undefined {
+  if (typeof v === "string") return v.trim() || undefined;
+  if (!Array.isArray(v) || v.length === 0 || !v.every((x) => typeof x === "string")) return undefined;
+  const args = v as string[];
+  if (/^(ba|z)?sh$/.test(args[0]) && args[1] === "-c" && args.length === 3) return args[2].trim() || undefined;
+  return args.map((a) => (/[\s"'$]/.test(a) ? JSON.stringify(a) : a)).join(" ");
+}
+
+function nodeVersionFromModules(modules: TomlValue | undefined): string | undefined {
+  if (!Array.isArray(modules)) return undefined;
+  for (const m of modules) {
+    const v = typeof m === "string" ? m.match(/^nodejs-(\d+)/)?.[1] : undefined;
+    if (v) return v;
+  }
+  return undefined;
+}
+
+export function parseReplitConfig(text: string): ReplitConfig {
+  let toml: TomlTable;
+  try {
+    toml = parseToml(text);
+  } catch (e: any) {
+    return { ports: [], env: {}, error: e?.message || String(e) };
+  }
+  const deployment = (toml.deployment ?? {}) as TomlTable;
+  const env: Record<string, string> = {};
+  for (const [k, v] of Object.entries((toml.env ?? {}) as TomlTable)) {
+    if (typeof v === "string" || typeof v === "number" || typeof v === "boolean") env[k] = String(v);
+  }
+  const ports = (Array.isArray(toml.ports) ? toml.ports : [])
+    .filter((p): p is TomlTable => typeof p === "object" && p !== null && !Array.isArray(p))
+    .filter((p) => typeof p.localPort === "number")
+    .map((p) => ({
+      localPort: p.localPort as number,
+      ...(typeof p.externalPort === "number" ? { externalPort: p.externalPort } : {}),
+    }));
+
+  return {
+    run: toCommand(toml.run),
+    entrypoint: str(toml.entrypoint),
+    deploymentRun: toCommand(deployment.run),
+    deploymentBuild: toCommand(deployment.build),
+    ports,
+    env,
+    nodeVersion: nodeVersionFromModules(toml.modules),
+  };
+}
+
+/** replit.nix 의 `pkgs.<name>` 목록 */
+export function parseReplitNix(text: string): { packages: string[]; nodeVersion?: string } {
+  const body = text.replace(/#.*$/gm, "");
+  const packages = [...new Set([...body.matchAll(/\bpkgs\.([A-Za-z0-9_.+-]+)/g)].map((m) => m[1]))];
+  let nodeVersion: string | undefined;
+  for (const p of packages) {
+    nodeVersion ??= p.match(/^nodejs[-_](\d+)/)?.[1];
+  }
+  return { packages, nodeVersion };
+}
+
+export function nativePackages(nixPackages: string[]): NativePackage[] {
+  return nixPackages
+    .filter((p) => !IGNORED_NIX.test(p))
+    .map((p) => {
+      const base = p.replace(/\.(dev|out|lib)$/, "");
+      const known = NATIVE_PACKAGES[base];
+      return known ? { nix: p, ...known } : { nix: p };
+    });
+}
+
+/** `npm run dev` / `yarn dev` / `pnpm start` 처럼 scripts 를 가리키는 커맨드면 스크립트 이름 */
+function referencedScript(cmd: string): string | undefined {
+  const m = cmd.match(/^(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?([\w:-]+)\s*$/);
+  if (!m) return undefined;
+  return m[1] === "install" || m[1] === "i" ? undefined : m[1];
+}
+
+function entryCommand(entry: string): string | undefined {
+  if (/\.(c|m)?js$/.test(entry)) return `node ${entry}`;
+  if (/\.(c|m)?tsx?$/.test(entry)) return `npx tsx ${entry}`;
+  return undefined;
+}
+
+/** 없는 스크립트만: dev ← run, start ← deployment.run / entrypoint, build ← deployment.build */
+export function scriptsFromReplit(cfg: ReplitConfig, existing: Record<string, string>): Record<string, string> {
+  const out: Record<string, string> = {};
+  const add = (name: string, cmd: string | undefined) => {
+    if (!cmd || existing[name] || out[name]) return;
+    const ref = referencedScript(cmd);
+    if (ref === name) return; // 자기 자신 참조 (npm run start → start)
+    if (ref && !existing[ref] && !out[ref]) return; // 없는 스크립트를 가리킴
+    out[name] = cmd;
+  };
+  const fromEntry = cfg.entrypoint ? entryCommand(cfg.entrypoint) : undefined;
+  add("dev", cfg.run ?? fromEntry);
+  add("build", cfg.deploymentBuild);
+  add("start", cfg.deploymentRun ?? fromEntry);
+  return out;
+}
+
+/** 에디터/경로 전용 값은 .env.example 로 옮기지 않음 */
+function portableEnv(env: Record<string, string>): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(env)) {
+    if (k === "PATH" || k.startsWith("REPLIT_") || /\$REPL_|\/home\/runner/.test(v)) continue;
+    out[k] = v;
+  }
+  return out;
+}
+
+function archiveReadme(cfg: ReplitConfig | null, scripts: Record<string, string>, native: NativePackage[]): string {
+  const lines = [
+    "# Replit config (archived by MoFix)",
+    "",
+    "`.replit` / `replit.nix` were moved here so they no longer affect local, CI or container builds.",
+    "Copy them back to the project root if you deploy on Replit again.",
+    "",
+  ];
+  if (cfg?.error) lines.push(`> .replit could not be parsed (${cfg.error}); nothing was translated from it.`, "");
+  const scriptNames = Object.keys(scripts);
+  if (scriptNames.length) {
+    lines.push("## package.json scripts added", "", ...scriptNames.map((n) => `- \`${n}\`: \`${scripts[n]}\``), "");
+  }
+  if (cfg?.ports.length) {
+    lines.push(
+      "## Ports",
+      "",
+      ...cfg.ports.map((p) => `- ${p.localPort}${p.externalPort !== undefined ? ` (exposed as ${p.externalPort})` : ""}`),
+      ""
+    );
+  }
+  if (native.length) {
+    const apt = native.map((p) => p.apt ?? p.nix);
+    const apk = native.map((p) => p.apk ?? p.nix);
+    lines.push(
+      "## Native packages (from replit.nix)",
+      "",
+      ...native.map((p) => `- ${p.nix}${p.apt ? "" : " (no known mapping — check the package name)"}`),
+      "",
+      "Debian/Ubuntu images:",
+      "",
+      "```dockerfile",
+      `RUN apt-get update && apt-get install -y --no-install-recommends ${[...new Set(apt)].join(" ")} && rm -rf /var/lib/apt/lists/*`,
+      "```",
+      "",
+      "Alpine images (MoFix Dockerfile):",
+      "",
+      "```dockerfile",
+      `RUN apk add --no-cache ${[...new Set(apk)].join(" ")}`,
+      "```",
+      ""
+    );
+  }
+  return lines.join("\n");
+}
+
+async function readText(file: string): Promise<string | null> {
+  return fs.readFile(file, "utf8").catch(() => null);
+}
+
+export async function replitTransform(projectPath: string): Promise<PlanStep[]> {
+  const replitText = await readText(path.join(projectPath, ".replit"));
+  const nixText = await readText(path.join(projectPath, "replit.nix"));
+  if (replitText === null && nixText === null) return [];
+
+  const cfg = replitText !== null ? parseReplitConfig(replitText) : null;
+  const nix = nixText !== null ? parseReplitNix(nixText) : null;
+  const steps: PlanStep[] = [];
+
+  // 1) package.json scripts
+  const pkg = await fs.readJson(path.join(projectPath, "package.json")).catch(() => null);
+  const scripts = cfg && pkg ? scriptsFromReplit(cfg, pkg.scripts ?? {}) : {};
+  if (Object.keys(scripts).length) {
+    steps.push({
+      type: "json.merge",
+      file: "package.json",
+      merge: { scripts },
+      description: `Add scripts from .replit (${Object.keys(scripts).join(", ")})`,
+    });
+  }
+
+  // 2) .env.example ← [env] 키 + [[ports]]
+  if (cfg) {
+    // [env] 값은 실제 설정(비밀 포함)일 수 있으므로 키만 옮김 — 포트만 [[ports]] 에서 기본값으로
+    const lines = Object.keys(portableEnv(cfg.env)).map((k) => `${k}=`);
+    if (!("PORT" in cfg.env) && cfg.ports.length) lines.push(`PORT=${cfg.ports[0].localPort}`);
+    if (lines.length) {
+      steps.push({
+        type: "lines.ensure",
+        file: ".env.example",
+        lines,
+        description: "Carry .replit [env] / ports over to .env.example",
+      });
+    }
+  }
+
+  // 3) .nvmrc
+  const nodeVersion = cfg?.nodeVersion ?? nix?.nodeVersion;
+  if (nodeVersion) {
+    steps.push({
+      type: "create",
+      file: ".nvmrc",
+      content: `${nodeVersion}\n`,
+      description: `Pin Node ${nodeVersion} (from Replit config)`,
+    });
+  }
+
+  // 4) 원본 보관 (.mofix/replit/) + 안내
+  const native = nix ? nativePackages(nix.packages) : [];
+  for (const f of [".replit", "replit.nix"]) {
+    if ((f === ".replit" ? replitText : nixText) === null) continue;
+    steps.push(
+      { type: "copy", source: f, file: `${REPLIT_ARCHIVE_DIR}/${f}`, description: `Archive ${f}`, required: true },
+      { type: "delete", file: f, description: `Remove ${f} from the project root` }
+    );
+  }
+  steps.push({
+    type: "create",
+    file: `${REPLIT_ARCHIVE_DIR}/README.md`,
+    content: archiveReadme(cfg, scripts, native),
+    overwrite: true,
+    description: native.length ? "Document archived Replit config and native packages" : "Document archived Replit config",
+  });
+
+  return steps;
+}
+
+export const ReplitProvider: Provider = {
+  id: "replit",
+  transform: (projectPath: string) => replitTransform(projectPath),
+};
@@ -3,12 +3,16 @@ import { Router } from "express";
 import path from "path";
 import fs from "fs-extra";
 import { resolveRealProjectRoot } from "../utils/root.js";
-import type { Detection, Plan } from "../index.js";
+import type { Detection } from "../index.js";
+import { isPlanLike, parsePlan, PlanSchemaError, type Plan } from "../core/plan-schema.js";
+import { dryRunPlan, type DryRunResult } from "../apply/dry-run.js";
 
 type MakeApplyRoutesDeps = {
   detect: (projectPath: string) => Promise<Detection>;
   plan: (detection: Detection, options?: any) => Promise<Plan>;
   applyFn: (projectPath: string, plan: Plan, options?: any) => Promise<any>;
+  /** 선택: dry-run 계산기 (기본: 메모리 오버레이 dryRunPlan) */
+  dryRunFn?: (projectPath: string, plan: Plan) => Promise<DryRunResult>;
   logger?: {
     info?: (s: string) => void;
     step?: (s: string) => void;
@@ -29,18 +33,15 @@ type ApplyRequestBody = {
   options?: Record<string, any>;
 };
 
-function isValidPlan(p: any): p is Plan {
-  return Boolean(p && typeof p === "object" && Array.isArray(p.steps));
-}
-
 /**
  * POST /api/apply
  * - plan 미제공 시: detect → plan → applyFn
- * - dryRun:true 시: 적용하지 않고 plan만 반환
+ * - dryRun:true 시: 적용하지 않고 result에 { files: 파일별 unified diff, commands, warnings } 반환
  * - 응답은 항상 { ok, projectPath, dryRun, detection, plan, result? } 형태
  */
 export default function makeApplyRoutes(deps: MakeApplyRoutesDeps) {
   const { detect, plan, applyFn, logger, allowedRootDir } = deps;
+  const dryRunFn = deps.dryRunFn ?? ((root: string, p: Plan) => dryRunPlan(root, p.steps));
   const log = logger ?? {};
   const router = Router();
 
@@ -86,12 +87,16 @@ export default function makeApplyRoutes(deps: MakeApplyRoutesDeps) {
 
       // 4) 플랜 준비 (클라 제공 우선)
       let planToApply: Plan;
-      if (isValidPlan(incomingPlan)) {
-        planToApply = {
-          steps: incomingPlan.steps,
-          confidence: incomingPlan.confidence ?? 1,
-          warnings: incomingPlan.warnings ?? [],
-        } as Plan;
+      if (isPlanLike(incomingPlan)) {
+        // 구버전 스텝(target/mergeJson 등)은 업그레이드, 스키마 위반은 400
+        try {
+          planToApply = parsePlan(incomingPlan);
+        } catch (e: any) {
+          if (e instanceof PlanSchemaError) {
+            return res.status(400).json({ ok: false, error: e.message, issues: e.issues });
+          }
+          throw e;
+        }
       } else {
         log.step?.("Generating plan...");
         try {
@@ -102,22 +107,29 @@ export default function makeApplyRoutes(deps: MakeApplyRoutesDeps) {
         }
       }
 
-      if (!isValidPlan(planToApply) || planToApply.steps.length === 0) {
+      if (!isPlanLike(planToApply) || planToApply.steps.length === 0) {
         return res.status(400).json({ ok: false, error: "No steps to apply" });
       }
 
       const wantDryRun = Boolean(dryRun || (options as any)?.dryRun);
 
-      // 5) 드라이런: plan만 반환
+      // 5) 드라이런: 디스크를 건드리지 않고 diff/커맨드 목록 반환
       if (wantDryRun) {
-        return res.json({
-          ok: true,
-          projectPath: root,
-          dryRun: true,
-          detection,
-          plan: planToApply,
-          result: null,
-        });
+        log.step?.("Computing dry-run diff...");
+        try {
+          const result = await dryRunFn(root, planToApply);
+          return res.json({
+            ok: true,
+            projectPath: root,
+            dryRun: true,
+            detection,
+            plan: planToApply,
+            result,
+          });
+        } catch (e: any) {
+          log.error?.(`dry-run failed: ${e?.message || e}`);
+          return res.status(500).json({ ok: false, error: `dry-run failed: ${e?.message || e}` });
+        }
       }
 
       // 6) 실제 적용
@@ -6,10 +6,18 @@ const router = Router();
 /** POST /api/verify/run */
 router.post("/run", async (req, res) => {
   try {
-    const { projectPath, healthUrl } = req.body || {};
+    const { projectPath, healthUrl, port, timeoutInstallMs, timeoutBuildMs, timeoutRunMs } = req.body || {};
     if (!projectPath) return res.status(400).json({ error: "projectPath required" });
 
-    const out = await verifyProject({ projectDir: projectPath, healthUrl });
+    const num = (v: unknown) => (Number.isFinite(Number(v)) && Number(v) > 0 ? Number(v) : undefined);
+    const out = await verifyProject({
+      projectDir: projectPath,
+      healthUrl,
+      port: num(port),
+      timeoutInstallMs: num(timeoutInstallMs),
+      timeoutBuildMs: num(timeoutBuildMs),
+      timeoutRunMs: num(timeoutRunMs),
+    });
     const ok = out.install.ok && out.build.ok && (out.run ? out.run.ok : true);
     res.json({ ok, detail: out, logs: out.logs });
   } catch (e: any) {
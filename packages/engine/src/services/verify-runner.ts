@@ -1,7 +1,18 @@
 // packages/engine/src/services/verify-runner.ts
-import * as fs from "fs-extra";
-import { runCmd, pickScript } from "../utils/proc.js";   // ✅ 경로 수정
-import { waitForHealth } from "../utils/health.js";      // ✅ 경로 수정
+// -----------------------------------------------------------------------------
+// 실행 검증: install → build → run(+헬스체크)을 실제로 수행합니다.
+// - 패키지 매니저는 lockfile로 감지, build/run 스크립트는 pickScript로 선택
+// - run 단계는 빈 포트로 dev/start 스크립트를 띄우고 헬스 URL을 폴링한 뒤 프로세스 트리를 종료
+//   (Node 서버는 / 대신 /health 등 찾은 헬스 경로를 폴링)
+// - 단계별 로그/시간을 돌려주며, 앞 단계가 실패하면 뒤 단계는 skipped
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import { runCmd, pickScript, startProcess, getFreePort } from "../utils/proc.js";
+import { waitForHealth } from "../utils/health.js";
+import { detectPackageManager } from "../apply/runner.js";
+import { frameworkFromDependencies } from "../frameworks/framework-registry.js";
+import { findHealthPath, isServerFramework } from "../utils/server-entry.js";
 
 export type VerifyInput = {
   projectDir: string;   // 마이그레이션된 실제 디렉토리
@@ -12,13 +23,189 @@ export type VerifyInput = {
   timeoutRunMs?: number;
 };
 
-// TODO: verifyProject 함수 구현부 넣기
-export async function verifyProject(input: VerifyInput) {
-  // 샘플 구조
+export type PhaseResult = {
+  ok: boolean;
+  durationMs: number;
+  /** 실행한 커맨드 (skipped면 없음) */
+  command?: string;
+  /** 앞 단계 실패 / 스크립트 없음 등으로 실행하지 않음 */
+  skipped?: boolean;
+  reason?: string;
+  logs: string;
+};
+
+export type VerifyResult = {
+  packageManager: "npm" | "pnpm" | "yarn" | "bun";
+  install: PhaseResult;
+  build: PhaseResult;
+  run?: PhaseResult & { port?: number; healthUrl?: string };
+  /** 단계별 로그를 헤더와 함께 이어 붙인 전체 로그 */
+  logs: string;
+};
+
+const DEFAULT_TIMEOUTS = {
+  install: 10 * 60_000,
+  build: 10 * 60_000,
+  run: 60_000,
+};
+
+const skipped = (reason: string, ok = false): PhaseResult => ({ ok, durationMs: 0, skipped: true, reason, logs: "" });
+
+function installArgsFor(pm: VerifyResult["packageManager"], projectDir: string): string[] {
+  if (pm === "npm") {
+    const hasLock =
+      fs.existsSync(path.join(projectDir, "package-lock.json")) ||
+      fs.existsSync(path.join(projectDir, "npm-shrinkwrap.json"));
+    return hasLock ? ["ci"] : ["install"];
+  }
+  return ["install"];
+}
+
+/** 스크립트 실행 인자. npm만 `--` 뒤로 추가 인자를 넘깁니다. */
+function runScriptArgs(pm: VerifyResult["packageManager"], script: string, extra: string[]): string[] {
+  if (extra.length === 0) return ["run", script];
+  return pm === "npm" ? ["run", script, "--", ...extra] : ["run", script, ...extra];
+}
+
+/** PORT 환경변수를 무시하는 dev 서버에 포트를 강제하는 플래그 */
+function devPortFlags(scriptCmd: string, port: number): string[] {
+  // vite / vite dev (SvelteKit) / remix vite:dev
+  if (/\bvite\b/.test(scriptCmd) && !/\bvite(\s+|:)build\b/.test(scriptCmd)) {
+    return ["--port", String(port), "--strictPort", "--host", "127.0.0.1"];
+  }
+  if (/\bnext\s+(dev|start)\b/.test(scriptCmd)) return ["-p", String(port)];
+  // Nuxt / Astro / Angular 는 PORT 대신 고정 기본 포트(3000/4321/4200)를 씀
+  if (/\b(nuxt|nuxi)\s+dev\b/.test(scriptCmd)) return ["--port", String(port), "--host", "127.0.0.1"];
+  if (/\bastro\s+(dev|preview)\b/.test(scriptCmd)) return ["--port", String(port), "--host", "127.0.0.1"];
+  if (/\bng\s+serve\b/.test(scriptCmd)) return ["--port", String(port), "--host", "127.0.0.1"];
+  return [];
+}
+
+function portFromUrl(url: string | undefined): number | undefined {
+  if (!url) return undefined;
+  try {
+    const p = Number(new URL(url).port);
+    return p > 0 ? p : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function joinLogs(phases: [string, PhaseResult | undefined][]): string {
+  return phases
+    .filter(([, r]) => r && !r.skipped)
+    .map(([name, r]) => `=== ${name}: ${r!.command} (${r!.ok ? "ok" : "failed"}, ${r!.durationMs}ms) ===\n${r!.logs}`)
+    .join("\n");
+}
+
+export async function verifyProject(input: VerifyInput): Promise<VerifyResult> {
+  const projectDir = path.resolve(input.projectDir);
+  const pm = detectPackageManager(projectDir);
+  const pkgPath = path.join(projectDir, "package.json");
+
+  if (!(await fs.pathExists(pkgPath))) {
+    const reason = `package.json not found in ${projectDir}`;
+    return { packageManager: pm, install: skipped(reason), build: skipped(reason), logs: reason };
+  }
+  const pkg = await fs.readJson(pkgPath).catch(() => ({}));
+
+  // ── 1) install ───────────────────────────────────────────
+  const installArgs = installArgsFor(pm, projectDir);
+  const ir = await runCmd(pm, installArgs, projectDir, {
+    timeoutMs: input.timeoutInstallMs ?? DEFAULT_TIMEOUTS.install,
+  });
+  const install: PhaseResult = {
+    ok: ir.ok,
+    durationMs: ir.durationMs,
+    command: [pm, ...installArgs].join(" "),
+    logs: ir.logs,
+  };
+  if (!install.ok) {
+    const build = skipped("install failed");
+    const run = skipped("install failed");
+    return { packageManager: pm, install, build, run, logs: joinLogs([["install", install]]) };
+  }
+
+  // ── 2) build (스크립트가 없으면 통과) ─────────────────────
+  let build: PhaseResult;
+  const buildScript = pickScript(pkg, ["build"]);
+  if (buildScript) {
+    const args = runScriptArgs(pm, buildScript, []);
+    const br = await runCmd(pm, args, projectDir, {
+      timeoutMs: input.timeoutBuildMs ?? DEFAULT_TIMEOUTS.build,
+      env: { NODE_ENV: "production" },
+    });
+    build = { ok: br.ok, durationMs: br.durationMs, command: [pm, ...args].join(" "), logs: br.logs };
+  } else {
+    build = skipped("no build script", true);
+  }
+  if (!build.ok) {
+    const run = skipped("build failed");
+    return {
+      packageManager: pm,
+      install,
+      build,
+      run,
+      logs: joinLogs([["install", install], ["build", build]]),
+    };
+  }
+
+  // ── 3) run + health ──────────────────────────────────────
+  const run = await runAndProbe(pm, pkg, projectDir, input);
+  return {
+    packageManager: pm,
+    install,
+    build,
+    run,
+    logs: joinLogs([["install", install], ["build", build], ["run", run]]),
+  };
+}
+
+/** API 서버는 / 가 404 인 경우가 많아 헬스 라우트를 우선 */
+async function defaultHealthPath(projectDir: string, pkg: any): Promise<string> {
+  const framework = frameworkFromDependencies({ ...pkg.dependencies, ...pkg.devDependencies });
+  return (isServerFramework(framework) && (await findHealthPath(projectDir))) || "/";
+}
+
+async function runAndProbe(
+  pm: VerifyResult["packageManager"],
+  pkg: any,
+  projectDir: string,
+  input: VerifyInput
+): Promise<NonNullable<VerifyResult["run"]>> {
+  const script = pickScript(pkg, ["dev", "start"]);
+  if (!script) return skipped("no dev/start script");
+
+  const port = input.port ?? portFromUrl(input.healthUrl) ?? (await getFreePort());
+  const healthUrl = input.healthUrl ?? `http://127.0.0.1:${port}${await defaultHealthPath(projectDir, pkg)}`;
+  const args = runScriptArgs(pm, script, devPortFlags(pkg.scripts[script], port));
+  const timeoutMs = input.timeoutRunMs ?? DEFAULT_TIMEOUTS.run;
+
+  const t0 = Date.now();
+  const proc = startProcess(pm, args, projectDir, {
+    env: { PORT: String(port), HOST: "127.0.0.1", BROWSER: "none" },
+  });
+
+  // 서버가 먼저 죽으면 타임아웃까지 기다리지 않음
+  const abort = new AbortController();
+  const outcome = await Promise.race([
+    waitForHealth(healthUrl, timeoutMs, 1000, abort.signal).then((h) => (h.ok ? "healthy" : "timeout")),
+    proc.exited.then((code) => `exited (code ${code})`),
+  ]);
+  abort.abort();
+  const durationMs = Date.now() - t0;
+
+  await proc.stop();
+
+  let logs = proc.logs();
+  if (outcome !== "healthy") logs += `\n[health] ${healthUrl} not ready: ${outcome}${outcome === "timeout" ? ` after ${timeoutMs}ms` : ""}\n`;
+
   return {
-    install: { ok: true, durationMs: 1000 },
-    build: { ok: true, durationMs: 2000 },
-    run: { ok: true, durationMs: 3000 },
-    logs: "Sample verification logs...",
+    ok: outcome === "healthy",
+    durationMs,
+    command: [pm, ...args].join(" "),
+    logs,
+    port,
+    healthUrl,
   };
 }
@@ -0,0 +1,127 @@
+// packages/engine/src/targets/deploy-info.ts
+// -----------------------------------------------------------------------------
+// 배포 타깃 어댑터(vercel/netlify/docker)가 공유하는 프로젝트 분석
+// - 빌드/시작 커맨드, 빌드 산출물 디렉터리, SPA 여부, Next output 모드, Node 버전
+// - Node 서버(express/nestjs/fastify/koa/hono): 엔트리 · 컴파일 산출물 · 헬스 경로 (utils/server-entry)
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import { inspectLockfiles } from "../utils/lockfiles.js";
+import type { PackageManager } from "../core/plan-schema.js";
+import { inspectNodeVersion } from "../utils/node-version.js";
+import { findHealthPath, isServerFramework, locateServerEntry } from "../utils/server-entry.js";
+
+export type NextOutputMode = "server" | "standalone" | "export";
+
+export type DeployInfo = {
+  framework: string;
+  pm: PackageManager;
+  /** package.json scripts.build 가 있을 때만 */
+  buildCommand?: string;
+  /** 정적 산출물 디렉터리 (vite dist, cra build, next export out) */
+  outputDir?: string;
+  /** 서버 실행 커맨드 (next start, node server.js 등) */
+  startCommand?: string;
+  /** 서버 엔트리 파일 (Node 서버 — TS 는 컴파일된 dist/main.js 등) */
+  entry?: string;
+  /** 서버 컴파일 산출물 디렉터리 (TS 서버의 tsconfig outDir) */
+  buildDir?: string;
+  /** 헬스 체크 경로 (Node 서버에서 /health 등을 찾으면, 기본 /) */
+  healthPath?: string;
+  /** 클라이언트 라우팅 SPA → 모든 경로를 index.html 로 */
+  spa: boolean;
+  nextOutput?: NextOutputMode;
+  /** Node 메이저 버전 (utils/node-version 의 권장값 — .nvmrc/engines/volta 등, 기본 20) */
+  nodeVersion: string;
+  hasLockfile: boolean;
+  /** Yarn 2+ (Berry) — install 플래그가 classic 과 다름 */
+  yarnBerry: boolean;
+  /** package.json "type" 이 module 인지 */
+  esm: boolean;
+};
+
+const LOCKFILES = ["package-lock.json", "npm-shrinkwrap.json", "yarn.lock", "pnpm-lock.yaml", "bun.lockb", "bun.lock"];
+
+/** "pm run <script>" (yarn/pnpm/bun 은 run 생략 가능하지만 통일) */
+export function runScript(pm: PackageManager, script: string): string {
+  return pm === "npm" ? `npm run ${script}` : `${pm} run ${script}`;
+}
+
+async function readText(file: string): Promise<string | null> {
+  return fs.readFile(file, "utf8").catch(() => null);
+}
+
+async function readConfig(projectPath: string, names: string[]): Promise<string> {
+  for (const n of names) {
+    const text = await readText(path.join(projectPath, n));
+    if (text !== null) return text;
+  }
+  return "";
+}
+
+/** next.config 의 output 값 (없으면 server) */
+async function detectNextOutput(projectPath: string): Promise<NextOutputMode> {
+  const cfg = await readConfig(projectPath, ["next.config.js", "next.config.mjs", "next.config.ts", "next.config.cjs"]);
+  const m = cfg.match(/\boutput\s*:\s*["'`](standalone|export)["'`]/);
+  return (m?.[1] as NextOutputMode | undefined) ?? "server";
+}
+
+/** vite.config 의 build.outDir (없으면 dist) */
+async function detectViteOutDir(projectPath: string): Promise<string> {
+  const cfg = await readConfig(projectPath, ["vite.config.ts", "vite.config.js", "vite.config.mjs", "vite.config.mts"]);
+  return cfg.match(/\boutDir\s*:\s*["'`]([^"'`]+)["'`]/)?.[1]?.replace(/^\.\//, "") ?? "dist";
+}
+
+export async function analyzeDeploy(framework: string, projectPath: string): Promise<DeployInfo> {
+  const pkg = await fs.readJson(path.join(projectPath, "package.json")).catch(() => ({} as any));
+  const scripts = pkg?.scripts ?? {};
+  const lock = await inspectLockfiles(projectPath);
+  const pm = lock.packageManager;
+  const nodeVersion = (await inspectNodeVersion(projectPath)).major;
+  let hasLockfile = false;
+  for (const f of LOCKFILES) hasLockfile ||= await fs.pathExists(path.join(projectPath, f));
+
+  const info: DeployInfo = {
+    framework,
+    pm,
+    buildCommand: scripts.build ? runScript(pm, "build") : undefined,
+    startCommand: scripts.start ? runScript(pm, "start") : undefined,
+    spa: false,
+    nodeVersion,
+    hasLockfile,
+    yarnBerry: lock.yarnBerry,
+    esm: pkg?.type === "module",
+  };
+
+  switch (framework) {
+    case "nextjs": {
+      info.nextOutput = await detectNextOutput(projectPath);
+      info.buildCommand ??= "npx next build";
+      if (info.nextOutput === "export") {
+        info.outputDir = "out";
+        info.startCommand = undefined;
+      } else if (info.nextOutput === "standalone") {
+        info.startCommand = "node server.js"; // .next/standalone 안에서 실행
+      } else {
+        info.startCommand ??= "npx next start";
+      }
+      break;
+    }
+    case "vite":
+      info.outputDir = await detectViteOutDir(projectPath);
+      info.spa = true;
+      break;
+    case "cra":
+      info.outputDir = "build";
+      info.spa = true;
+      break;
+  }
+  if (isServerFramework(framework)) {
+    const entry = await locateServerEntry(projectPath, framework, pkg);
+    info.entry = entry?.runtime;
+    info.buildDir = entry?.typescript ? entry.outDir : undefined;
+    info.healthPath = await findHealthPath(projectPath);
+    info.startCommand ??= info.entry ? `node ${info.entry}` : undefined;
+  }
+  return info;
+}
@@ -0,0 +1,67 @@
+// packages/engine/src/targets/docker-target.ts
+// -----------------------------------------------------------------------------
+// Docker 배포 설정: 멀티 스테이지 Dockerfile(targets/dockerfile.ts) + .dockerignore
+// - 정적 산출물(Vite/CRA/Next export)은 작은 Node 정적 서버 스크립트도 함께 생성
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import type { PlanStep } from "../core/plan-schema.js";
+import type { Target } from "./target-registry.js";
+import { analyzeDeploy } from "./deploy-info.js";
+import {
+  DOCKERIGNORE_LINES,
+  STATIC_SERVER_FILE,
+  STATIC_SERVER_SOURCE,
+  generateDockerfile,
+} from "./dockerfile.js";
+
+export { DOCKER_PORT } from "./dockerfile.js";
+
+const NEXT_CONFIGS = ["next.config.js", "next.config.mjs", "next.config.cjs", "next.config.ts"];
+
+export const DockerTarget: Target = {
+  id: "docker",
+
+  async generateConfig(framework: string, projectPath: string, options?: unknown): Promise<PlanStep[]> {
+    const info = await analyzeDeploy(framework, projectPath);
+    const overwrite = Boolean((options as { force?: boolean } | undefined)?.force);
+
+    let nextConfigFile: string | undefined;
+    for (const f of NEXT_CONFIGS) {
+      if (!nextConfigFile && (await fs.pathExists(path.join(projectPath, f)))) nextConfigFile = f;
+    }
+
+    const steps: PlanStep[] = [
+      {
+        type: "create",
+        file: "Dockerfile",
+        content: generateDockerfile({
+          ...info,
+          hasPublicDir: await fs.pathExists(path.join(projectPath, "public")),
+          nextConfigFile,
+        }),
+        overwrite,
+        description: `Add multi-stage production Dockerfile (${framework}, node ${info.nodeVersion})`,
+        required: true,
+      },
+      {
+        type: "lines.ensure",
+        file: ".dockerignore",
+        lines: DOCKERIGNORE_LINES,
+        description: "Ensure .dockerignore entries",
+      },
+    ];
+
+    if (info.outputDir) {
+      steps.push({
+        type: "create",
+        file: STATIC_SERVER_FILE,
+        content: STATIC_SERVER_SOURCE,
+        overwrite,
+        description: "Add static file server used by the Docker image",
+        required: true,
+      });
+    }
+    return steps;
+  },
+};
@@ -0,0 +1,261 @@
+// packages/engine/src/targets/dockerfile.ts
+// -----------------------------------------------------------------------------
+// 프로덕션용 멀티 스테이지 Dockerfile 생성기
+//   deps      : manifest + lockfile 만 복사해 install (소스 변경 시에도 레이어 캐시 유지)
+//   prod-deps : 런타임에 node_modules 가 필요한 경우에만 devDependencies 제외 install
+//   builder   : 소스 복사 후 build
+//   runner    : 런타임 산출물만 복사, non-root(node) 사용자, HEALTHCHECK
+// 런타임 산출물
+//   - Next standalone: .next/standalone + .next/static + public
+//   - Next (server)  : .next + public + prod node_modules → next start
+//   - Vite/CRA/Next export: 정적 파일 + 의존성 없는 작은 Node 정적 서버(STATIC_SERVER_FILE)
+//   - Express: build 가 있으면 dist, 없으면 소스 + prod node_modules
+// -----------------------------------------------------------------------------
+import type { PackageManager } from "../core/plan-schema.js";
+import type { DeployInfo } from "./deploy-info.js";
+
+export const DOCKER_PORT = 3000;
+
+/** 정적 산출물을 서빙하는 런타임 스크립트 (프로젝트에 함께 생성) */
+export const STATIC_SERVER_FILE = "docker/serve-static.mjs";
+
+export const DOCKERIGNORE_LINES = [
+  "node_modules",
+  "npm-debug.log*",
+  "yarn-error.log*",
+  ".pnpm-store",
+  ".git",
+  ".next",
+  "dist",
+  "build",
+  "out",
+  "coverage",
+  ".env",
+  ".env.*",
+  "!.env.example",
+  ".mofix",
+  ".vscode",
+  ".replit",
+  "replit.nix",
+  "Dockerfile",
+  ".dockerignore",
+];
+
+export type DockerfileInput = DeployInfo & {
+  /** public/ 디렉터리 존재 여부 (없는 경로를 COPY 하면 빌드 실패) */
+  hasPublicDir: boolean;
+  /** 프로젝트에 있는 next.config.* 파일명 (next start 런타임에 필요) */
+  nextConfigFile?: string;
+};
+
+const LOCKFILE_GLOBS: Record<PackageManager, string> = {
+  npm: "package-lock.json* npm-shrinkwrap.json*",
+  yarn: "yarn.lock* .yarnrc.yml*",
+  pnpm: "pnpm-lock.yaml* pnpm-workspace.yaml*",
+  bun: "bun.lock* bun.lockb*",
+};
+
+function pmSetup(pm: PackageManager): string[] {
+  if (pm === "pnpm" || pm === "yarn") return ["RUN corepack enable"];
+  if (pm === "bun") return ["RUN npm install -g bun"];
+  return [];
+}
+
+function installCmd(info: DockerfileInput, prod: boolean): string {
+  const locked = info.hasLockfile;
+  switch (info.pm) {
+    case "pnpm":
+      return `pnpm install${locked ? " --frozen-lockfile" : ""}${prod ? " --prod" : ""}`;
+    case "yarn":
+      // Berry 는 --frozen-lockfile / --production 이 없음 → --immutable, 런타임 의존성은 workspaces focus
+      if (info.yarnBerry) return prod ? "yarn workspaces focus --production" : `yarn install${locked ? " --immutable" : ""}`;
+      return `yarn install${locked ? " --frozen-lockfile" : ""}${prod ? " --production" : ""}`;
+    case "bun":
+      return `bun install${locked ? " --frozen-lockfile" : ""}${prod ? " --production" : ""}`;
+    default:
+      return `${locked ? "npm ci" : "npm install"}${prod ? " --omit=dev" : ""}`;
+  }
+}
+
+type Runtime = {
+  /** prod-deps 스테이지의 node_modules 가 필요한지 */
+  prodDeps: boolean;
+  copy: string[];
+  cmd: string[];
+};
+
+const fromBuilder = (src: string, dest: string) => `COPY --from=builder --chown=node:node /app/${src} ${dest}`;
+
+function runtimeFor(info: DockerfileInput): Runtime {
+  const pub = info.hasPublicDir ? [fromBuilder("public", "./public")] : [];
+
+  if (info.outputDir) {
+    // Vite / CRA / Next export → 정적 서빙
+    return {
+      prodDeps: false,
+      copy: [fromBuilder(info.outputDir, "./static"), fromBuilder(STATIC_SERVER_FILE, "./serve-static.mjs")],
+      cmd: ["node", "serve-static.mjs", "./static", ...(info.spa ? ["--spa"] : [])],
+    };
+  }
+
+  if (info.framework === "nextjs" && info.nextOutput === "standalone") {
+    return {
+      prodDeps: false,
+      copy: [...pub, fromBuilder(".next/standalone", "./"), fromBuilder(".next/static", "./.next/static")],
+      cmd: ["node", "server.js"],
+    };
+  }
+
+  if (info.framework === "nextjs") {
+    return {
+      prodDeps: true,
+      copy: [
+        "COPY --chown=node:node package.json ./",
+        ...(info.nextConfigFile ? [fromBuilder(info.nextConfigFile, "./")] : []),
+        ...pub,
+        fromBuilder(".next", "./.next"),
+      ],
+      cmd: ["node_modules/.bin/next", "start", "-p", String(DOCKER_PORT)],
+    };
+  }
+
+  // Express / NestJS / Fastify / Koa / Hono 등 Node 서버
+  const entry = info.entry;
+  const buildDir = info.buildDir ?? (/^dist\//.test(entry ?? "") ? "dist" : undefined);
+  const built = Boolean(info.buildCommand) && Boolean(buildDir);
+  return {
+    prodDeps: true,
+    copy: built
+      ? ["COPY --chown=node:node package.json ./", fromBuilder(buildDir!, `./${buildDir}`)]
+      : ["COPY --chown=node:node . ."],
+    cmd: entry ? ["node", entry] : info.pm === "npm" ? ["npm", "start"] : [info.pm, "run", "start"],
+  };
+}
+
+export function generateDockerfile(info: DockerfileInput): string {
+  const base = `node:${info.nodeVersion}-alpine`;
+  const manifests = `COPY package.json ${LOCKFILE_GLOBS[info.pm]} ./`;
+  const rt = runtimeFor(info);
+  const out: string[] = [];
+
+  out.push(
+    "# syntax=docker/dockerfile:1",
+    "",
+    "# ── deps: lockfile 기준 install (소스가 바뀌어도 캐시 유지) ──",
+    `FROM ${base} AS deps`,
+    "WORKDIR /app",
+    ...pmSetup(info.pm),
+    manifests,
+    `RUN ${installCmd(info, false)}`,
+    ""
+  );
+
+  if (rt.prodDeps) {
+    out.push(
+      "# ── prod-deps: 런타임 node_modules (devDependencies 제외) ──",
+      `FROM ${base} AS prod-deps`,
+      "WORKDIR /app",
+      ...pmSetup(info.pm),
+      manifests,
+      `RUN ${installCmd(info, true)}`,
+      ""
+    );
+  }
+
+  out.push(
+    "# ── builder ──",
+    `FROM ${base} AS builder`,
+    "WORKDIR /app",
+    ...pmSetup(info.pm),
+    "COPY --from=deps /app/node_modules ./node_modules",
+    "COPY . .",
+    "ENV NODE_ENV=production",
+    ...(info.framework === "nextjs" ? ["ENV NEXT_TELEMETRY_DISABLED=1"] : []),
+    ...(info.buildCommand ? [`RUN ${info.buildCommand}`] : []),
+    "",
+    "# ── runner: 런타임 산출물만, non-root ──",
+    `FROM ${base} AS runner`,
+    "WORKDIR /app",
+    "ENV NODE_ENV=production",
+    `ENV PORT=${DOCKER_PORT}`,
+    "ENV HOSTNAME=0.0.0.0",
+    ...(rt.prodDeps ? ["COPY --from=prod-deps --chown=node:node /app/node_modules ./node_modules"] : []),
+    ...rt.copy,
+    "USER node",
+    `EXPOSE ${DOCKER_PORT}`,
+    `HEALTHCHECK --interval=30s --timeout=5s --start-period=20s --retries=3 \\`,
+    `  CMD wget -q --spider http://127.0.0.1:${DOCKER_PORT}${info.healthPath ?? "/"} || exit 1`,
+    `CMD [${rt.cmd.map((a) => JSON.stringify(a)).join(", ")}]`,
+    ""
+  );
+  return out.join("\n");
+}
+
+/** 의존성 없는 정적 파일 서버: node serve-static.mjs <dir> [--spa] */
+export const STATIC_SERVER_SOURCE = `// 컨테이너에서 빌드된 정적 파일을 서빙합니다 (의존성 없음).
+// usage: node serve-static.mjs <dir> [--spa]
+import { createServer } from "node:http";
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { extname, join, normalize, resolve, sep } from "node:path";
+
+const root = resolve(process.argv[2] ?? "static");
+const spa = process.argv.includes("--spa");
+const port = Number(process.env.PORT ?? 3000);
+const types = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".txt": "text/plain; charset=utf-8",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".wasm": "application/wasm",
+};
+
+/** 잘못된 % 인코딩이면 null (decodeURIComponent 는 throw) */
+function decodePath(urlPath) {
+  try {
+    return decodeURIComponent(urlPath);
+  } catch {
+    return null;
+  }
+}
+
+async function resolveFile(decodedPath) {
+  const rel = normalize(decodedPath).replace(/^([/\\\\]*\\.\\.)+/, "");
+  const candidates = [join(root, rel), join(root, rel, "index.html"), join(root, rel + ".html")];
+  if (spa) candidates.push(join(root, "index.html"));
+  for (const file of candidates) {
+    // root + 구분자로 비교해야 형제 디렉터리(/app/static-x)가 통과하지 않음
+    if (!file.startsWith(root + sep)) continue;
+    const s = await stat(file).catch(() => null);
+    if (s?.isFile()) return file;
+  }
+  return null;
+}
+
+createServer(async (req, res) => {
+  const urlPath = decodePath(new URL(req.url ?? "/", "http://localhost").pathname);
+  if (urlPath === null) {
+    res.writeHead(400, { "content-type": "text/plain" }).end("Bad request");
+    return;
+  }
+  const file = await resolveFile(urlPath);
+  if (!file) {
+    res.writeHead(404, { "content-type": "text/plain" }).end("Not found");
+    return;
+  }
+  const cache = file.includes("/assets/") ? "public, max-age=31536000, immutable" : "no-cache";
+  res.writeHead(200, { "content-type": types[extname(file)] ?? "application/octet-stream", "cache-control": cache });
+  createReadStream(file).pipe(res);
+}).listen(port, "0.0.0.0", () => console.log(\`serving \${root} on :\${port}\`));
+`;
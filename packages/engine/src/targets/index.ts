@@ -1,3 +1,4 @@
 // packages/engine/src/targets/index.ts
 export * from '../providers/provider-registry.js';
-
+export * from './target-registry.js';
+export { analyzeDeploy, type DeployInfo } from './deploy-info.js';
@@ -0,0 +1,130 @@
+// packages/engine/src/targets/netlify-target.ts
+// -----------------------------------------------------------------------------
+// Netlify 배포 설정 (netlify.toml)
+// - Next: @netlify/plugin-nextjs (output: "export" 면 out 정적 배포)
+// - Vite/CRA: publish 디렉터리 + SPA redirect
+// - Node 서버(express/nestjs/fastify/koa/hono): Lambda 핸들러로 감싼 함수 + 모든 경로를 함수로 redirect
+//   (express/koa/fastify 는 serverless-http, nestjs 는 AppModule 부트스트랩 후 serverless-http, hono 는 hono/aws-lambda)
+// - NODE_VERSION 은 [build.environment] 로 지정
+// -----------------------------------------------------------------------------
+import type { PlanStep } from "../core/plan-schema.js";
+import type { Target } from "./target-registry.js";
+import { analyzeDeploy, type DeployInfo } from "./deploy-info.js";
+import { isServerFramework, type ServerFramework } from "../utils/server-entry.js";
+import path from "path";
+
+const FUNCTIONS_DIR = "netlify/functions";
+
+export function netlifyToml(info: DeployInfo): string {
+  const build: string[] = [];
+  if (info.buildCommand) build.push(`  command = "${info.buildCommand}"`);
+
+  const nextPlugin = info.framework === "nextjs" && info.nextOutput !== "export";
+  if (nextPlugin) build.push(`  publish = ".next"`);
+  else if (info.outputDir) build.push(`  publish = "${info.outputDir}"`);
+  else if (isServerFramework(info.framework)) build.push(`  publish = "public"`);
+  if (isServerFramework(info.framework)) build.push(`  functions = "${FUNCTIONS_DIR}"`);
+
+  const out = ["[build]", ...build, "", "[build.environment]", `  NODE_VERSION = "${info.nodeVersion}"`, ""];
+
+  if (nextPlugin) {
+    out.push("[[plugins]]", `  package = "@netlify/plugin-nextjs"`, "");
+  }
+  if (isServerFramework(info.framework)) {
+    out.push("[[redirects]]", `  from = "/*"`, `  to = "/.netlify/functions/server/:splat"`, "  status = 200", "");
+  } else if (info.spa) {
+    out.push("[[redirects]]", `  from = "/*"`, `  to = "/index.html"`, "  status = 200", "");
+  }
+  return out.join("\n");
+}
+
+/** import 문 (ESM / CommonJS). def: 기본 export 를 받을 이름, named: 이름 있는 export */
+function importLine(esm: boolean, from: string, def?: string, named?: string): string {
+  if (esm) return `import ${def ?? `{ ${named} }`} from "${from}";`;
+  return def ? `const ${def} = require("${from}");` : `const { ${named} } = require("${from}");`;
+}
+
+/**
+ * 서버 앱을 Netlify 함수(Lambda 핸들러)로 감싸는 래퍼
+ * - express/koa/fastify/hono: 엔트리가 app 을 export 해야 함
+ * - nestjs: 빌드 산출물의 AppModule 을 부트스트랩 (listen 하지 않음)
+ */
+function serverFunction(framework: ServerFramework, entry: string, esm: boolean): string {
+  const entryRel = entry.replace(/^\.\//, "");
+  const rel = "../../" + entryRel;
+  const exportHandler = (expr: string) => (esm ? `export const handler = ${expr};` : `module.exports.handler = ${expr};`);
+  const appExpr = esm ? "app" : "app.default ?? app";
+
+  if (framework === "nestjs") {
+    const appModule = path.posix.join(path.posix.dirname(entryRel), "app.module.js");
+    return `// Netlify Function: NestJS 앱을 serverless-http 로 감쌉니다.
+// ${appModule} 의 AppModule 을 부트스트랩하므로 빌드 후 배포해야 합니다.
+${importLine(esm, "serverless-http", "serverless")}
+${importLine(esm, "@nestjs/core", undefined, "NestFactory")}
+${importLine(esm, `../../${appModule}`, undefined, "AppModule")}
+
+let server;
+${exportHandler(`async (event, context) => {
+  if (!server) {
+    const app = await NestFactory.create(AppModule);
+    await app.init();
+    server = serverless(app.getHttpAdapter().getInstance());
+  }
+  return server(event, context);
+}`)}
+`;
+  }
+
+  const header = `// ${entry} 는 ${framework === "hono" ? "serve()" : "app.listen()"} 만 하지 말고 app 을 export 해야 합니다.
+`;
+  if (framework === "hono") {
+    return `// Netlify Function: Hono 앱을 hono/aws-lambda 로 감쌉니다.
+${header}${importLine(esm, "hono/aws-lambda", undefined, "handle")}
+${importLine(esm, rel, "app")}
+
+${exportHandler(`handle(${appExpr})`)}
+`;
+  }
+  const name = { express: "Express", koa: "Koa", fastify: "Fastify" }[framework];
+  return `// Netlify Function: ${name} 앱을 serverless-http 로 감쌉니다.
+${header}${importLine(esm, "serverless-http", "serverless")}
+${importLine(esm, rel, "app")}
+
+${exportHandler(`serverless(${appExpr})`)}
+`;
+}
+
+export const NetlifyTarget: Target = {
+  id: "netlify",
+
+  async generateConfig(framework: string, projectPath: string, options?: unknown): Promise<PlanStep[]> {
+    const info = await analyzeDeploy(framework, projectPath);
+    const overwrite = Boolean((options as { force?: boolean } | undefined)?.force);
+    const steps: PlanStep[] = [
+      {
+        type: "create",
+        file: "netlify.toml",
+        content: netlifyToml(info),
+        overwrite,
+        description: `Configure Netlify deployment (${framework})`,
+        required: true,
+      },
+    ];
+
+    if (isServerFramework(info.framework)) {
+      steps.push({
+        type: "create",
+        file: `${FUNCTIONS_DIR}/server.${info.esm ? "mjs" : "js"}`,
+        content: serverFunction(info.framework, info.entry ?? "server.js", info.esm),
+        overwrite,
+        description:
+          info.framework === "nestjs"
+            ? "Wrap NestJS app as a Netlify Function (review: deploy after build)"
+            : `Wrap ${info.framework} app as a Netlify Function (review: entry must export the app)`,
+      });
+      // hono/aws-lambda 는 hono 에 포함
+      if (info.framework !== "hono") steps.push({ type: "install", deps: ["serverless-http"], description: "Install serverless-http" });
+    }
+    return steps;
+  },
+};
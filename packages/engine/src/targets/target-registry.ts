@@ -1,13 +1,17 @@
 // packages/engine/src/targets/target-registry.ts
+import { VercelTarget } from "./vercel-target.js";
+import { NetlifyTarget } from "./netlify-target.js";
+import { DockerTarget } from "./docker-target.js";
 
+/** 배포 타깃 어댑터 */
 export interface Target {
-  /** 고유 ID (예: "openai-gpt-4o", "anthropic-claude") */
+  /** 고유 ID = --to 값 (예: "vercel", "netlify", "docker") */
   id: string;
 
   /** 실행 혹은 전송 로직(필요시 시그니처 수정) */
   execute?: (payload: unknown) => Promise<unknown> | unknown;
 
-  /** plan-generator.ts 에서 사용 */
+  /** plan-generator.ts 에서 사용: framework 는 감지된 프레임워크 이름 (없으면 "generic") */
   generateConfig?: (
     framework: string,
     projectPath: string,
@@ -18,6 +22,11 @@ export interface Target {
 export class TargetRegistry {
   private map = new Map<string, Target>();
 
+  /** 기본 타깃(vercel/netlify/docker)을 등록합니다. 빈 레지스트리가 필요하면 clear() */
+  constructor() {
+    [VercelTarget, NetlifyTarget, DockerTarget].forEach((t) => this.register(t));
+  }
+
   register(target: Target) {
     if (!target?.id) throw new Error("Target must have an id");
     this.map.set(target.id, target);
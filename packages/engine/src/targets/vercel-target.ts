@@ -0,0 +1,69 @@
+// packages/engine/src/targets/vercel-target.ts
+// -----------------------------------------------------------------------------
+// Vercel 배포 설정
+// - Next: framework 프리셋 (output: "export" 면 out 디렉터리)
+// - Vite/CRA: 산출물 디렉터리 + SPA rewrites
+// - Node 서버(express/nestjs/fastify/koa/hono): @vercel/node 빌드로 서버 엔트리를 함수로 배포
+// - Node 버전은 vercel.json 이 아니라 package.json engines.node 로 지정
+// -----------------------------------------------------------------------------
+import type { PlanStep } from "../core/plan-schema.js";
+import type { Target } from "./target-registry.js";
+import { analyzeDeploy, type DeployInfo } from "./deploy-info.js";
+import { isServerFramework } from "../utils/server-entry.js";
+import fs from "fs-extra";
+import path from "path";
+
+const FRAMEWORK_PRESETS: Record<string, string> = {
+  nextjs: "nextjs",
+  vite: "vite",
+  cra: "create-react-app",
+};
+
+export function vercelConfig(info: DeployInfo): Record<string, any> {
+  const config: Record<string, any> = { $schema: "https://openapi.vercel.sh/vercel.json" };
+
+  if (isServerFramework(info.framework)) {
+    const entry = info.entry ?? "server.js";
+    return {
+      ...config,
+      version: 2,
+      builds: [{ src: entry, use: "@vercel/node" }],
+      routes: [{ src: "/(.*)", dest: entry }],
+    };
+  }
+
+  const preset = FRAMEWORK_PRESETS[info.framework];
+  if (preset) config.framework = preset;
+  if (info.framework !== "nextjs" && info.buildCommand) config.buildCommand = info.buildCommand;
+  if (info.outputDir) config.outputDirectory = info.outputDir;
+  if (info.spa) config.rewrites = [{ source: "/(.*)", destination: "/index.html" }];
+  return config;
+}
+
+export const VercelTarget: Target = {
+  id: "vercel",
+
+  async generateConfig(framework: string, projectPath: string): Promise<PlanStep[]> {
+    const info = await analyzeDeploy(framework, projectPath);
+    const steps: PlanStep[] = [
+      {
+        type: "json.merge",
+        file: "vercel.json",
+        merge: vercelConfig(info),
+        description: `Configure Vercel deployment (${framework})`,
+        required: true,
+      },
+    ];
+
+    const pkg = await fs.readJson(path.join(projectPath, "package.json")).catch(() => null);
+    if (pkg && !pkg.engines?.node) {
+      steps.push({
+        type: "json.merge",
+        file: "package.json",
+        merge: { engines: { node: `${info.nodeVersion}.x` } },
+        description: `Pin Node ${info.nodeVersion}.x for Vercel`,
+      });
+    }
+    return steps;
+  },
+};
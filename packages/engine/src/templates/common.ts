@@ -42,5 +42,6 @@ export const gitignoreAdditions = [
   ".next/",
   "dist/",
   "build/",
-  ".DS_Store"
+  ".DS_Store",
+  ".mofix/journal/"
 ];
@@ -0,0 +1,477 @@
+// packages/engine/src/utils/config-ast.ts
+// -----------------------------------------------------------------------------
+// JS/TS 설정 파일(vite/next/postcss/tailwind.config.*) AST 편집
+// - TypeScript 파서로 설정 객체를 찾아 중첩 속성을 읽고/설정합니다.
+//   export default {...} / export default defineConfig({...}) / defineConfig(() => ({...}))
+//   defineConfig(({ mode }) => { return {...} }) / module.exports = {...}
+//   const config = {...}; export default withX(config) / satisfies·as 캐스트
+// - 편집은 해당 노드 범위만 텍스트로 교체 → 나머지 포맷/주석은 그대로
+// - 모든 연산은 멱등: 이미 같은 값/같은 플러그인이 있으면 변경 없음
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import ts from "typescript";
+import type { ConfigImport, ConfigSetMode, ConfigValue } from "../core/plan-schema.js";
+
+export type { ConfigImport, ConfigSetMode, ConfigValue } from "../core/plan-schema.js";
+
+export class ConfigPatchError extends Error {
+  constructor(message: string, public readonly file: string) {
+    super(`${file}: ${message}`);
+  }
+}
+
+export type ConfigKind = "vite" | "next" | "postcss" | "tailwind" | "remix" | "nuxt" | "svelte" | "astro";
+
+/** 탐색 순서 = 도구가 설정 파일을 고르는 우선순위 */
+export const CONFIG_FILES: Record<ConfigKind, string[]> = {
+  vite: ["vite.config.ts", "vite.config.mts", "vite.config.js", "vite.config.mjs", "vite.config.cjs", "vite.config.cts"],
+  next: ["next.config.ts", "next.config.mjs", "next.config.js", "next.config.cjs"],
+  postcss: ["postcss.config.js", "postcss.config.cjs", "postcss.config.mjs", "postcss.config.ts"],
+  tailwind: ["tailwind.config.ts", "tailwind.config.js", "tailwind.config.cjs", "tailwind.config.mjs"],
+  remix: ["remix.config.js", "remix.config.mjs", "remix.config.cjs"],
+  nuxt: ["nuxt.config.ts", "nuxt.config.js", "nuxt.config.mjs"],
+  svelte: ["svelte.config.js", "svelte.config.mjs", "svelte.config.ts"],
+  astro: ["astro.config.mjs", "astro.config.ts", "astro.config.mts", "astro.config.js", "astro.config.cjs"],
+};
+
+export async function findConfigFile(root: string, kind: ConfigKind): Promise<string | undefined> {
+  for (const f of CONFIG_FILES[kind]) {
+    if (await fs.pathExists(path.join(root, f))) return f;
+  }
+  return undefined;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 파싱 / 설정 객체 찾기
+// ─────────────────────────────────────────────────────────────────────────────
+function parse(text: string, file: string): ts.SourceFile {
+  const kind = /\.(c|m)?tsx?$/.test(file) ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+  return ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true, kind);
+}
+
+/** 괄호 / as / satisfies / ! 벗기기 */
+function unwrap(expr: ts.Expression): ts.Expression {
+  for (;;) {
+    if (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isNonNullExpression(expr)) {
+      expr = expr.expression;
+    } else if (ts.isSatisfiesExpression(expr) || ts.isTypeAssertionExpression(expr)) {
+      expr = expr.expression;
+    } else {
+      return expr;
+    }
+  }
+}
+
+/** 최상위 식별자 선언 (const x = ... / function x() {}) */
+function findDeclaration(sf: ts.SourceFile, name: string): ts.Expression | ts.FunctionDeclaration | undefined {
+  for (const st of sf.statements) {
+    if (ts.isVariableStatement(st)) {
+      for (const d of st.declarationList.declarations) {
+        if (ts.isIdentifier(d.name) && d.name.text === name && d.initializer) return d.initializer;
+      }
+    } else if (ts.isFunctionDeclaration(st) && st.name?.text === name) {
+      return st;
+    }
+  }
+  return undefined;
+}
+
+/** 함수 본문에서 (중첩 함수 제외) 마지막 return 식 */
+function lastReturn(body: ts.Block): ts.Expression | undefined {
+  let found: ts.Expression | undefined;
+  const visit = (n: ts.Node) => {
+    if (ts.isFunctionLike(n)) return;
+    if (ts.isReturnStatement(n) && n.expression) found = n.expression;
+    ts.forEachChild(n, visit);
+  };
+  body.statements.forEach(visit);
+  return found;
+}
+
+function resolveObject(
+  sf: ts.SourceFile,
+  node: ts.Expression | ts.FunctionDeclaration,
+  depth = 0
+): ts.ObjectLiteralExpression | undefined {
+  if (depth > 8) return undefined;
+  if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node)) {
+    if (!node.body) return undefined;
+    const ret = ts.isBlock(node.body) ? lastReturn(node.body) : node.body;
+    return ret ? resolveObject(sf, ret, depth + 1) : undefined;
+  }
+  const expr = unwrap(node);
+  if (ts.isObjectLiteralExpression(expr)) return expr;
+  if (ts.isIdentifier(expr)) {
+    const decl = findDeclaration(sf, expr.text);
+    return decl ? resolveObject(sf, decl, depth + 1) : undefined;
+  }
+  if (ts.isCallExpression(expr)) {
+    // defineConfig(x) / withPlugins(x) / withA(withB(x)) / withA(opts)(x)
+    for (const arg of [...expr.arguments].reverse()) {
+      const r = resolveObject(sf, arg, depth + 1);
+      if (r) return r;
+    }
+    if (ts.isCallExpression(expr.expression)) return resolveObject(sf, expr.expression, depth + 1);
+    return undefined;
+  }
+  if (ts.isAwaitExpression(expr)) return resolveObject(sf, expr.expression, depth + 1);
+  return undefined;
+}
+
+function isModuleExports(e: ts.Expression): boolean {
+  return ts.isPropertyAccessExpression(e) && ts.isIdentifier(e.expression) && e.expression.text === "module" && e.name.text === "exports";
+}
+
+function findConfigObject(sf: ts.SourceFile): ts.ObjectLiteralExpression | undefined {
+  for (const st of sf.statements) {
+    if (ts.isExportAssignment(st)) return resolveObject(sf, st.expression);
+    if (
+      ts.isFunctionDeclaration(st) &&
+      st.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword) &&
+      st.modifiers?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword)
+    ) {
+      return resolveObject(sf, st);
+    }
+    if (
+      ts.isExpressionStatement(st) &&
+      ts.isBinaryExpression(st.expression) &&
+      st.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      isModuleExports(st.expression.left)
+    ) {
+      return resolveObject(sf, st.expression.right);
+    }
+  }
+  return undefined;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 값 ↔ 소스
+// ─────────────────────────────────────────────────────────────────────────────
+const isExpr = (v: unknown): v is { $expr: string } =>
+  Boolean(v) && typeof v === "object" && !Array.isArray(v) && typeof (v as any).$expr === "string";
+
+function propName(name: ts.PropertyName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  if (ts.isNoSubstitutionTemplateLiteral(name)) return name.text;
+  return undefined;
+}
+
+function keySource(key: string, quote: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quoteString(key, quote);
+}
+
+function quoteString(s: string, quote: string): string {
+  if (quote === '"') return JSON.stringify(s);
+  return `'${s.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\n/g, "\\n")}'`;
+}
+
+/** 파일에서 더 많이 쓰인 따옴표 */
+function detectQuote(sf: ts.SourceFile): string {
+  let single = 0;
+  let double = 0;
+  const visit = (n: ts.Node) => {
+    if (ts.isStringLiteral(n)) {
+      if (n.getText(sf).startsWith("'")) single++;
+      else double++;
+    }
+    ts.forEachChild(n, visit);
+  };
+  visit(sf);
+  return single > double ? "'" : '"';
+}
+
+export function toSource(value: ConfigValue, quote = '"'): string {
+  if (isExpr(value)) return value.$expr;
+  if (value === null) return "null";
+  if (typeof value === "string") return quoteString(value, quote);
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return `[${value.map((v) => toSource(v, quote)).join(", ")}]`;
+  const entries = Object.entries(value).map(([k, v]) => `${keySource(k, quote)}: ${toSource(v, quote)}`);
+  return entries.length ? `{ ${entries.join(", ")} }` : "{}";
+}
+
+/** 리터럴이면 JS 값, 아니면 { $expr: 소스 } */
+function fromNode(node: ts.Expression, sf: ts.SourceFile): ConfigValue {
+  const e = unwrap(node);
+  if (ts.isStringLiteral(e) || ts.isNoSubstitutionTemplateLiteral(e)) return e.text;
+  if (ts.isNumericLiteral(e)) return Number(e.text);
+  if (e.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (e.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (e.kind === ts.SyntaxKind.NullKeyword) return null;
+  if (ts.isPrefixUnaryExpression(e) && e.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(e.operand)) {
+    return -Number(e.operand.text);
+  }
+  if (ts.isArrayLiteralExpression(e) && !e.elements.some(ts.isSpreadElement)) {
+    return e.elements.map((el) => fromNode(el, sf));
+  }
+  if (ts.isObjectLiteralExpression(e) && e.properties.every(ts.isPropertyAssignment)) {
+    const out: Record<string, ConfigValue> = {};
+    for (const p of e.properties as ts.NodeArray<ts.PropertyAssignment>) {
+      const k = propName(p.name);
+      if (k === undefined) return { $expr: e.getText(sf) };
+      out[k] = fromNode(p.initializer, sf);
+    }
+    return out;
+  }
+  return { $expr: e.getText(sf) };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 편집
+// ─────────────────────────────────────────────────────────────────────────────
+type Edit = { start: number; end: number; text: string };
+
+const applyEdit = (text: string, e: Edit) => text.slice(0, e.start) + e.text + text.slice(e.end);
+
+function findProp(obj: ts.ObjectLiteralExpression, key: string) {
+  let found: ts.PropertyAssignment | ts.ShorthandPropertyAssignment | undefined;
+  for (const p of obj.properties) {
+    // 같은 키가 여러 번이면 마지막이 이김 (JS 의미론)
+    if ((ts.isPropertyAssignment(p) || ts.isShorthandPropertyAssignment(p)) && propName(p.name) === key) found = p;
+  }
+  return found;
+}
+
+function lineIndent(text: string, pos: number): string {
+  const lineStart = text.lastIndexOf("\n", pos - 1) + 1;
+  return text.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+/** 객체/배열 리터럴 끝에 항목 추가 (여러 줄이면 들여쓰기/후행 쉼표 스타일 유지) */
+function insertItem(
+  text: string,
+  sf: ts.SourceFile,
+  container: ts.ObjectLiteralExpression | ts.ArrayLiteralExpression,
+  item: string
+): Edit {
+  const items = ts.isObjectLiteralExpression(container) ? container.properties : container.elements;
+  const open = container.getStart(sf);
+  const close = container.getEnd() - 1; // } 또는 ]
+
+  if (items.length === 0) {
+    const inner = text.slice(open + 1, close);
+    if (inner.includes("\n")) {
+      const indent = lineIndent(text, open);
+      return { start: open + 1, end: close, text: `\n${indent}  ${item},\n${indent}` };
+    }
+    return ts.isObjectLiteralExpression(container)
+      ? { start: open + 1, end: close, text: ` ${item} ` }
+      : { start: open + 1, end: close, text: item };
+  }
+
+  const last = items[items.length - 1];
+  const trailing = items.hasTrailingComma;
+  const afterLast = trailing ? text.indexOf(",", last.getEnd()) + 1 : last.getEnd();
+  const multiline = text.slice(open, items[0].getStart(sf)).includes("\n");
+
+  if (multiline) {
+    const indent = lineIndent(text, last.getStart(sf));
+    return { start: afterLast, end: afterLast, text: `${trailing ? "" : ","}\n${indent}${item}${trailing ? "," : ""}` };
+  }
+  return { start: afterLast, end: afterLast, text: trailing ? ` ${item},` : `, ${item}` };
+}
+
+/** 배열 원소 동일성: 같은 소스, 또는 같은 호출 대상 (react() ≈ react({ ... }), require("x")) */
+function elementKey(src: string): string {
+  const s = src.replace(/\s+/g, "");
+  const req = s.match(/^require\((['"`])(.+?)\1\)/);
+  if (req) return `require:${req[2]}`;
+  const call = s.match(/^([\w$.]+)\(/);
+  return call ? `call:${call[1]}` : s.replace(/'/g, '"');
+}
+
+function nestedLiteral(rest: string[], value: ConfigValue, quote: string, mode: ConfigSetMode): string {
+  const leaf = mode === "append" && !Array.isArray(value) ? [value] : value;
+  return rest.reduceRight((acc, key) => `{ ${keySource(key, quote)}: ${acc} }`, toSource(leaf, quote));
+}
+
+function setValueEdit(
+  text: string,
+  sf: ts.SourceFile,
+  root: ts.ObjectLiteralExpression,
+  keys: string[],
+  value: ConfigValue,
+  mode: ConfigSetMode,
+  file: string
+): Edit | null {
+  const quote = detectQuote(sf);
+  let obj = root;
+
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys[i];
+    const isLast = i === keys.length - 1;
+    const prop = findProp(obj, key);
+
+    if (!prop) {
+      const rest = keys.slice(i + 1);
+      return insertItem(text, sf, obj, `${keySource(key, quote)}: ${nestedLiteral(rest, value, quote, mode)}`);
+    }
+
+    const init = ts.isPropertyAssignment(prop) ? unwrap(prop.initializer) : undefined;
+
+    if (!isLast) {
+      const next = init && ts.isObjectLiteralExpression(init)
+        ? init
+        : init && ts.isIdentifier(init)
+          ? resolveObject(sf, init)
+          : ts.isShorthandPropertyAssignment(prop)
+            ? resolveObject(sf, prop.name)
+            : undefined;
+      if (!next) {
+        throw new ConfigPatchError(`${keys.slice(0, i + 1).join(".")} is not an object literal`, file);
+      }
+      obj = next;
+      continue;
+    }
+
+    if (mode === "ifMissing") return null;
+
+    if (mode === "append") {
+      const target = init && ts.isIdentifier(init) ? findDeclaration(sf, init.text) : init;
+      const container = target && !ts.isFunctionDeclaration(target) ? unwrap(target) : undefined;
+      if (container && ts.isArrayLiteralExpression(container)) {
+        const have = new Set(container.elements.map((el) => elementKey(el.getText(sf))));
+        const add = (Array.isArray(value) ? value : [value]).filter((v) => !have.has(elementKey(toSource(v, quote))));
+        if (add.length === 0) return null;
+        // 여러 원소는 호출마다 하나씩: 첫 원소만 넣고 나머지는 재파싱 후 처리
+        return insertItem(text, sf, container, toSource(add[0], quote));
+      }
+      if (container && ts.isObjectLiteralExpression(container) && value && typeof value === "object" && !Array.isArray(value) && !isExpr(value)) {
+        // postcss plugins: { tailwindcss: {}, autoprefixer: {} } 형태 → 없는 키만 추가
+        for (const [k, v] of Object.entries(value)) {
+          const edit = setValueEdit(text, sf, container, [k], v, "ifMissing", file);
+          if (edit) return edit;
+        }
+        return null;
+      }
+      throw new ConfigPatchError(`${keys.join(".")} is not an array or object literal`, file);
+    }
+
+    // set: 값 교체 (같으면 변경 없음)
+    const next = toSource(value, quote);
+    if (ts.isShorthandPropertyAssignment(prop)) {
+      return { start: prop.getStart(sf), end: prop.getEnd(), text: `${keySource(key, quote)}: ${next}` };
+    }
+    const current = prop.initializer;
+    if (JSON.stringify(fromNode(current, sf)) === JSON.stringify(value)) return null;
+    return { start: current.getStart(sf), end: current.getEnd(), text: next };
+  }
+  return null;
+}
+
+function importEdit(text: string, sf: ts.SourceFile, imp: ConfigImport): Edit | null {
+  const quote = detectQuote(sf);
+  const esm = sf.statements.some((s) => ts.isImportDeclaration(s) || ts.isExportAssignment(s) || ts.isExportDeclaration(s));
+  const wanted = [imp.default, ...(imp.named ?? [])].filter(Boolean) as string[];
+
+  // 이미 같은 이름이 (어디서든) 바인딩돼 있으면 건너뜀
+  const bound = new Set<string>();
+  let lastImport: ts.Statement | undefined;
+  for (const st of sf.statements) {
+    if (ts.isImportDeclaration(st)) {
+      lastImport = st;
+      const clause = st.importClause;
+      if (clause?.name) bound.add(clause.name.text);
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        clause.namedBindings.elements.forEach((el) => bound.add(el.name.text));
+      }
+      if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings)) bound.add(clause.namedBindings.name.text);
+    } else if (ts.isVariableStatement(st)) {
+      for (const d of st.declarationList.declarations) {
+        const init = d.initializer && unwrap(d.initializer);
+        const isRequire = init && ts.isCallExpression(init) && ts.isIdentifier(init.expression) && init.expression.text === "require";
+        if (isRequire) lastImport = st;
+        if (ts.isIdentifier(d.name)) bound.add(d.name.text);
+        if (ts.isObjectBindingPattern(d.name)) d.name.elements.forEach((el) => ts.isIdentifier(el.name) && bound.add(el.name.text));
+      }
+    }
+  }
+  const missing = wanted.filter((n) => !bound.has(n));
+  if (missing.length === 0) return null;
+
+  const def = imp.default && missing.includes(imp.default) ? imp.default : undefined;
+  const named = (imp.named ?? []).filter((n) => missing.includes(n));
+  const from = quoteString(imp.from, quote);
+  const semi = /;\s*$/m.test(text.split("\n").find((l) => /^\s*(import|const)\b/.test(l)) ?? ";") ? ";" : "";
+  let line: string;
+  if (esm) {
+    const parts = [def, named.length ? `{ ${named.join(", ")} }` : undefined].filter(Boolean).join(", ");
+    line = `import ${parts} from ${from}${semi}`;
+  } else {
+    const lines = [];
+    if (def) lines.push(`const ${def} = require(${from})${semi}`);
+    if (named.length) lines.push(`const { ${named.join(", ")} } = require(${from})${semi}`);
+    line = lines.join("\n");
+  }
+
+  if (lastImport) {
+    const at = lastImport.getEnd();
+    return { start: at, end: at, text: `\n${line}` };
+  }
+  // 첫 문장의 앞 주석(/** @type ... */ 등)보다 위에 둬야 JSDoc 이 선언에서 떨어지지 않음
+  const first = sf.statements[0];
+  const at = first ? first.getFullStart() + (text.startsWith("#!") ? text.indexOf("\n") + 1 : 0) : 0;
+  return { start: at, end: at, text: `${line}\n${first ? "\n" : ""}` };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 공개 API
+// ─────────────────────────────────────────────────────────────────────────────
+export type ConfigEdit = {
+  path: string[];
+  value: ConfigValue;
+  /** set(기본): 교체 / ifMissing: 없을 때만 / append: 배열에 없으면 추가 (객체면 없는 키만) */
+  mode?: ConfigSetMode;
+  /** 값에서 참조하는 식별자용 import (이미 바인딩돼 있으면 생략) */
+  imports?: ConfigImport[];
+};
+
+function rootObject(sf: ts.SourceFile, file: string): ts.ObjectLiteralExpression {
+  const obj = findConfigObject(sf);
+  if (!obj) throw new ConfigPatchError("config object not found (export default / module.exports)", file);
+  return obj;
+}
+
+/** 설정 값 읽기: 리터럴은 JS 값, 그 외는 { $expr }. 없으면 undefined */
+export function readConfigValue(text: string, file: string, keys: string[]): ConfigValue | undefined {
+  const sf = parse(text, file);
+  let obj: ts.ObjectLiteralExpression | undefined = rootObject(sf, file);
+  for (let i = 0; i < keys.length; i++) {
+    const prop: ts.PropertyAssignment | ts.ShorthandPropertyAssignment | undefined = obj && findProp(obj, keys[i]);
+    if (!prop) return undefined;
+    const node = ts.isPropertyAssignment(prop) ? prop.initializer : prop.name;
+    if (i === keys.length - 1) {
+      const resolved = ts.isIdentifier(unwrap(node)) ? resolveObject(sf, node) : undefined;
+      return fromNode(resolved ?? node, sf);
+    }
+    const init = unwrap(node);
+    obj = ts.isObjectLiteralExpression(init) ? init : resolveObject(sf, init);
+  }
+  return undefined;
+}
+
+/** 설정 소스에 edit 적용 (멱등). 바뀐 게 없으면 changed=false */
+export function patchConfigSource(text: string, file: string, edit: ConfigEdit): { text: string; changed: boolean } {
+  if (edit.path.length === 0) throw new ConfigPatchError("path must not be empty", file);
+  const mode = edit.mode ?? "set";
+  let out = text;
+
+  // append 는 원소마다 한 번씩 편집 → 재파싱 (위치가 바뀌므로)
+  for (let guard = 0; guard < 64; guard++) {
+    const sf = parse(out, file);
+    const e = setValueEdit(out, sf, rootObject(sf, file), edit.path, edit.value, mode, file);
+    if (!e) break;
+    out = applyEdit(out, e);
+    if (mode !== "append") break;
+  }
+
+  if (out !== text) {
+    for (const imp of edit.imports ?? []) {
+      const sf = parse(out, file);
+      const e = importEdit(out, sf, imp);
+      if (e) out = applyEdit(out, e);
+    }
+  }
+  return { text: out, changed: out !== text };
+}
@@ -0,0 +1,337 @@
+// packages/engine/src/utils/cra-to-vite.ts
+// -----------------------------------------------------------------------------
+// Create React App → Vite 코드모드 (플랜 스텝만 만들고 디스크는 건드리지 않음)
+// - public/index.html → 루트 index.html (%PUBLIC_URL% 제거, <script type="module"> 엔트리)
+// - process.env.REACT_APP_* → import.meta.env.VITE_* (소스 + .env* 키 이름)
+// - JSX 가 든 .js → .jsx (명시적 "./App.js" import 도 함께)
+// - react-scripts scripts/deps → vite / vitest, setupTests·package.json jest → vite.config test
+// - src/setupProxy.js · package.json proxy → server.proxy
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import type { PlanStep, TextPatch } from "../core/plan-schema.js";
+import { VersionResolver } from "./version-resolver.js";
+
+export type CraProxyRule = {
+  target: string;
+  changeOrigin?: boolean;
+  ws?: boolean;
+  /** pathRewrite { "^/api": "" } → ["/api", ""] */
+  rewrite?: [string, string];
+};
+
+const SOURCE_EXT = /\.(c|m)?(j|t)sx?$/;
+const TEST_FILE = /(^|\/)(__tests__\/|setupTests\.)|\.(test|spec)\.[jt]sx?$/;
+/** 닫는 태그 · self-closing 태그 · 프래그먼트 */
+const JSX_RE = /<\/[A-Za-z][\w.:-]*\s*>|<[A-Za-z][\w.:-]*(?:\s[^<>]*)?\/>|<>|<\/>/;
+const JEST_API = "fn|mock|unmock|doMock|spyOn|requireActual|clearAllMocks|resetAllMocks|restoreAllMocks|useFakeTimers|useRealTimers|advanceTimersByTime|runAllTimers|runOnlyPendingTimers";
+const ENV_FILES = [
+  ".env", ".env.local", ".env.development", ".env.development.local",
+  ".env.production", ".env.production.local", ".env.test", ".env.test.local", ".env.example",
+];
+
+const ENV_PATCHES: TextPatch[] = [
+  { search: "process.env.REACT_APP_", replace: "import.meta.env.VITE_" },
+  { search: "process.env.NODE_ENV", replace: "import.meta.env.MODE" },
+  // PUBLIC_URL 은 "" (끝 슬래시 없음), BASE_URL 은 "/" → `${PUBLIC_URL}/logo.png` 이 // 가 되지 않게
+  { search: "process.env.PUBLIC_URL", replace: 'import.meta.env.BASE_URL.replace(/\\/$/, "")' },
+];
+
+async function listSrcFiles(root: string): Promise<string[]> {
+  const out: string[] = [];
+  async function walk(rel: string): Promise<void> {
+    const entries = await fs.readdir(path.join(root, rel), { withFileTypes: true }).catch(() => []);
+    for (const e of entries as any[]) {
+      const childRel = `${rel}/${e.name}`;
+      if (e.isDirectory() && e.name !== "node_modules") await walk(childRel);
+      else if (e.isFile() && SOURCE_EXT.test(e.name) && !/\.d\.ts$/.test(e.name)) out.push(childRel);
+    }
+  }
+  await walk("src");
+  return out.sort();
+}
+
+const read = (root: string, rel: string) => fs.readFile(path.join(root, rel), "utf8").catch(() => null);
+
+/** react-scripts 명령을 vite/vitest 로 (eject 는 undefined → 삭제) */
+export function migrateCraScript(cmd: string): string | undefined {
+  if (/\breact-scripts\s+eject\b/.test(cmd)) return undefined;
+  return cmd
+    .replace(/\breact-scripts\s+start\b/g, "vite")
+    .replace(/\breact-scripts\s+build\b/g, "vite build")
+    .replace(/\breact-scripts\s+test\s+--watchAll=false\b/g, "vitest run")
+    .replace(/\breact-scripts\s+test\b/g, "vitest");
+}
+
+/** CRA index.html → Vite index.html (루트, 모듈 엔트리) */
+export function migrateIndexHtml(html: string, entry: string): string {
+  let out = html.replace(/%PUBLIC_URL%\/?/g, "/").replace(/%REACT_APP_(\w+)%/g, "%VITE_$1%");
+  if (!/<script[^>]*type=["']module["']/.test(out)) {
+    const tag = `    <script type="module" src="/${entry}"></script>\n`;
+    out = /<\/body>/i.test(out) ? out.replace(/([ \t]*)<\/body>/i, `${tag}$1</body>`) : out + tag;
+  }
+  return out;
+}
+
+const PATHS = `\\[[^\\]]*\\]|["'\`][^"'\`]+["'\`]`;
+const PROXY_CALL = new RegExp(
+  `(?:\\.use\\(\\s*(${PATHS})\\s*,\\s*)?(?:createProxyMiddleware|proxy)\\(\\s*(?:(${PATHS})\\s*,\\s*)?\\{([^}]*)\\}`,
+  "g"
+);
+
+const quoted = (s: string) => [...s.matchAll(/["'`]([^"'`]+)["'`]/g)].map((m) => m[1]);
+
+/** setupProxy.js 의 http-proxy-middleware 호출 (v1: proxy(path, opts) / v2: use(path, createProxyMiddleware(opts)) / v3: pathFilter) */
+export function parseSetupProxy(source: string): Record<string, CraProxyRule> {
+  const rules: Record<string, CraProxyRule> = {};
+  for (const m of source.matchAll(PROXY_CALL)) {
+    const opts = m[3];
+    const target = opts.match(/\btarget\s*:\s*["'`]([^"'`]+)["'`]/)?.[1];
+    if (!target) continue;
+    const filter = opts.match(new RegExp(`\\bpathFilter\\s*:\\s*(${PATHS})`))?.[1];
+    const paths = quoted(m[1] ?? m[2] ?? filter ?? "");
+    const rw = opts.match(/\bpathRewrite\s*:\s*\{\s*["'`]\^([^"'`]+)["'`]\s*:\s*["'`]([^"'`]*)["'`]/);
+    for (const p of paths) {
+      rules[p] = {
+        target,
+        ...(/\bchangeOrigin\s*:\s*true/.test(opts) ? { changeOrigin: true } : {}),
+        ...(/\bws\s*:\s*true/.test(opts) ? { ws: true } : {}),
+        ...(rw ? { rewrite: [rw[1], rw[2]] as [string, string] } : {}),
+      };
+    }
+  }
+  return rules;
+}
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+function proxySource(rules: Record<string, CraProxyRule>): string[] {
+  return Object.entries(rules).map(([p, r]) => {
+    const parts = [`target: ${JSON.stringify(r.target)}`];
+    if (r.changeOrigin) parts.push("changeOrigin: true");
+    if (r.ws) parts.push("ws: true");
+    if (r.rewrite) parts.push(`rewrite: (p) => p.replace(/^${escapeRe(r.rewrite[0])}/, ${JSON.stringify(r.rewrite[1])})`);
+    return `      ${JSON.stringify(p)}: { ${parts.join(", ")} },`;
+  });
+}
+
+type ViteConfigInput = {
+  typescript: boolean;
+  proxy: Record<string, CraProxyRule>;
+  proxyNotes: string[];
+  test?: { environment: string; setupFiles: string[]; extra: Record<string, unknown> };
+};
+
+function viteConfigSource(c: ViteConfigInput): string {
+  const lines: string[] = [];
+  if (c.test && c.typescript) lines.push('/// <reference types="vitest/config" />');
+  lines.push('import { defineConfig } from "vite";', 'import react from "@vitejs/plugin-react";', "");
+  lines.push("// Migrated from Create React App: dev port 3000 and build/ output are kept");
+  lines.push("export default defineConfig({", "  plugins: [react()],", "  server: {", "    host: true,", "    port: 3000,");
+  const proxy = proxySource(c.proxy);
+  if (proxy.length || c.proxyNotes.length) {
+    lines.push("    proxy: {", ...c.proxyNotes.map((n) => `      // ${n}`), ...proxy, "    },");
+  }
+  lines.push("  },", '  build: { outDir: "build" },');
+  if (c.test) {
+    const t = [
+      `environment: ${JSON.stringify(c.test.environment)}`,
+      "globals: true",
+      ...(c.test.setupFiles.length ? [`setupFiles: ${JSON.stringify(c.test.setupFiles)}`] : []),
+      ...Object.entries(c.test.extra).map(([k, v]) => `${k}: ${JSON.stringify(v)}`),
+    ];
+    lines.push(`  test: { ${t.join(", ")} },`);
+  }
+  lines.push("});", "");
+  return lines.join("\n");
+}
+
+/** package.json jest → vitest test 옵션 (이름이 같은 것만, 나머지는 버림) */
+function jestToVitest(jest: any): { environment?: string; setupFiles: string[]; extra: Record<string, unknown> } {
+  const env = typeof jest?.testEnvironment === "string" ? jest.testEnvironment.replace(/^jest-environment-/, "") : undefined;
+  const setupFiles = [...(jest?.setupFiles ?? []), ...(jest?.setupFilesAfterEnv ?? [])]
+    .filter((f: unknown): f is string => typeof f === "string")
+    .map((f) => f.replace(/^<rootDir>\//, "./"));
+  const extra: Record<string, unknown> = {};
+  for (const k of ["clearMocks", "restoreMocks", "mockReset", "testTimeout"]) if (jest?.[k] !== undefined) extra[k] = jest[k];
+  return { environment: env === "node" || env === "jsdom" ? env : undefined, setupFiles, extra };
+}
+
+/**
+ * CRA 프로젝트를 Vite 로 옮기는 플랜.
+ * 순서: 소스/.env 텍스트 패치 → .js→.jsx 이동 → index.html → setupProxy 제거 → vite.config → package.json → 설치
+ * 자동으로 옮기지 못한 것(해석 못 한 setupProxy 등)은 생성 파일에 남기지 않고 warnings 로 알립니다.
+ */
+export async function planCraToVite(root: string, warnings: string[] = []): Promise<PlanStep[]> {
+  const pkg = await fs.readJson(path.join(root, "package.json")).catch(() => ({} as any));
+  const files = await listSrcFiles(root);
+  const typescript = files.some((f) => /\.tsx?$/.test(f)) || (await fs.pathExists(path.join(root, "tsconfig.json")));
+  const texts = new Map<string, string>();
+  for (const f of files) texts.set(f, (await read(root, f)) ?? "");
+
+  // 1) JSX 가 든 .js → .jsx
+  const renames = files.filter((f) => /\.js$/.test(f) && !/setupProxy\.js$/.test(f) && JSX_RE.test(texts.get(f)!));
+  const renamed = (f: string) => (renames.includes(f) ? `${f}x` : f);
+
+  const setupTests = files.find((f) => /^src\/setupTests\.[jt]sx?$/.test(f));
+  const hasTests = Boolean(setupTests) || files.some((f) => TEST_FILE.test(f)) || Boolean(pkg.jest);
+
+  // 2) 파일별 텍스트 패치
+  const steps: PlanStep[] = [];
+  for (const f of files) {
+    if (/setupProxy\.js$/.test(f)) continue;
+    const text = texts.get(f)!;
+    const patches: TextPatch[] = ENV_PATCHES.filter((p) => text.includes(p.search));
+    if (TEST_FILE.test(f) && new RegExp(`\\bjest\\.(${JEST_API})\\b`).test(text)) {
+      patches.push({ search: `\\bjest\\.(${JEST_API})\\b`, replace: "vi.$1", regex: true });
+    }
+    // import "./App.js" 처럼 확장자를 쓴 경우 이름 변경을 따라감
+    for (const r of renames) {
+      let spec = path.posix.relative(path.posix.dirname(f), r);
+      if (!spec.startsWith(".")) spec = `./${spec}`;
+      for (const q of ['"', "'"]) {
+        if (text.includes(`${q}${spec}${q}`)) patches.push({ search: `${q}${spec}${q}`, replace: `${q}${spec}x${q}` });
+      }
+    }
+    if (patches.length) {
+      steps.push({ type: "text.patch", file: f, patches, description: `Vite: env/test/import rewrites in ${f}`, required: false });
+    }
+  }
+
+  // .env.example 은 플랜 앞쪽(planEnvExample)이 REACT_APP_ 이름으로 새로 만들 수 있으므로 소스가 쓰면 항상 패치
+  const usesCraEnv = [...texts.values()].some((t) => t.includes("process.env.REACT_APP_"));
+  for (const f of ENV_FILES) {
+    const willExist = f === ".env.example" && usesCraEnv;
+    if (willExist || /^(export\s+)?REACT_APP_/m.test((await read(root, f)) ?? "")) {
+      steps.push({
+        type: "text.patch",
+        file: f,
+        patches: [{ search: "(^|\\n)(export\\s+)?REACT_APP_", replace: "$1$2VITE_", regex: true }],
+        description: `Rename REACT_APP_* to VITE_* in ${f}`,
+        required: false,
+      });
+    }
+  }
+
+  const refs = ['/// <reference types="vite/client" />', ...(hasTests ? ['/// <reference types="vitest/globals" />'] : [])].join("\n");
+  const craEnvDts = await read(root, "src/react-app-env.d.ts");
+  if (craEnvDts !== null) {
+    steps.push({
+      type: "text.patch",
+      file: "src/react-app-env.d.ts",
+      patches: [{ search: '/// <reference types="react-scripts" />', replace: refs }],
+      description: "Reference Vite client types instead of react-scripts",
+      required: false,
+    });
+  } else if (typescript) {
+    steps.push({ type: "create", file: "src/vite-env.d.ts", content: `${refs}\n`, description: "Add Vite client types", required: false });
+  }
+
+  for (const f of renames) {
+    steps.push(
+      { type: "copy", source: f, file: `${f}x`, description: `Rename ${f} → ${f}x (contains JSX)`, required: true },
+      { type: "delete", file: f, description: `Remove ${f} (renamed to .jsx)`, required: true }
+    );
+  }
+
+  // 3) index.html → 루트
+  const entry = renamed(files.find((f) => /^src\/index\.[jt]sx?$/.test(f)) ?? "src/index.jsx");
+  const publicHtml = await read(root, "public/index.html");
+  if (!(await fs.pathExists(path.join(root, "index.html")))) {
+    const html =
+      publicHtml ??
+      `<!DOCTYPE html>\n<html lang="en">\n  <head>\n    <meta charset="UTF-8" />\n    <meta name="viewport" content="width=device-width, initial-scale=1.0" />\n    <title>React App</title>\n  </head>\n  <body>\n    <div id="root"></div>\n  </body>\n</html>\n`;
+    steps.push({
+      type: "create",
+      file: "index.html",
+      content: migrateIndexHtml(html, entry),
+      description: `Move index.html to the project root with a module entry (/${entry})`,
+      required: true,
+    });
+    if (publicHtml !== null) {
+      steps.push({ type: "delete", file: "public/index.html", description: "Remove public/index.html (moved to root)", required: false });
+    }
+  }
+
+  // 4) 프록시: setupProxy.js 와 package.json proxy
+  const proxy: Record<string, CraProxyRule> = {};
+  const proxyNotes: string[] = [];
+  const setupProxyFile = files.find((f) => /^src\/setupProxy\.[jt]s$/.test(f));
+  if (setupProxyFile) {
+    const parsed = parseSetupProxy(texts.get(setupProxyFile)!);
+    if (Object.keys(parsed).length) {
+      Object.assign(proxy, parsed);
+      steps.push({ type: "delete", file: setupProxyFile, description: `Remove ${setupProxyFile} (ported to server.proxy)`, required: false });
+    } else {
+      warnings.push(`${setupProxyFile} could not be converted automatically — port its middleware to server.proxy in the Vite config`);
+    }
+  }
+  if (typeof pkg.proxy === "string") {
+    // CRA 는 text/html 이 아닌 모든 요청을 넘기지만 Vite 는 경로 접두어가 필요
+    proxyNotes.push(`package.json "proxy" forwarded every non-HTML request; adjust the path prefix if needed`);
+    proxy["/api"] ??= { target: pkg.proxy, changeOrigin: true };
+  }
+
+  // 5) vite.config (CJS 패키지는 .mjs/.mts 로 ESM 설정)
+  const jest = jestToVitest(pkg.jest);
+  const configFile = `vite.config.${pkg.type === "module" ? "" : "m"}${typescript ? "ts" : "js"}`;
+  const hasViteConfig = (await fs.readdir(root).catch(() => [] as string[])).some((n: string) => /^vite\.config\.(c|m)?(j|t)s$/.test(n));
+  if (!hasViteConfig) {
+    steps.push({
+      type: "create",
+      file: configFile,
+      content: viteConfigSource({
+        typescript,
+        proxy,
+        proxyNotes,
+        test: hasTests
+          ? {
+              environment: jest.environment ?? "jsdom",
+              setupFiles: [...new Set([...(setupTests ? [`./${renamed(setupTests)}`] : []), ...jest.setupFiles])],
+              extra: jest.extra,
+            }
+          : undefined,
+      }),
+      description: "Create Vite configuration (React plugin, port 3000, build/ output)",
+      required: true,
+    });
+  }
+
+  // 6) package.json: react-scripts 제거, 스크립트 교체, CRA 전용 필드 정리
+  const next = JSON.parse(JSON.stringify(pkg));
+  next.scripts ??= {};
+  for (const [k, v] of Object.entries<string>(next.scripts)) {
+    const migrated = migrateCraScript(String(v));
+    if (migrated === undefined) delete next.scripts[k];
+    else next.scripts[k] = migrated;
+  }
+  next.scripts.dev ??= "vite";
+  next.scripts.build ??= "vite build";
+  next.scripts.preview ??= "vite preview";
+  if (hasTests) next.scripts.test ??= "vitest";
+  for (const field of ["dependencies", "devDependencies"]) if (next[field]) delete next[field]["react-scripts"];
+  const eslintExtends = [next.eslintConfig?.extends ?? []].flat();
+  if (eslintExtends.some((e: string) => /^react-app/.test(e))) delete next.eslintConfig;
+  delete next.jest;
+  delete next.proxy;
+  steps.push({
+    type: "write",
+    file: "package.json",
+    content: JSON.stringify(next, null, 2) + "\n",
+    description: "Replace react-scripts scripts and dependency with Vite",
+    required: true,
+  });
+
+  const have = { ...next.dependencies, ...next.devDependencies };
+  const tools = ["vite", "@vitejs/plugin-react", ...(hasTests ? ["vitest", "jsdom"] : [])].filter((d) => !have[d]);
+  if (tools.length) {
+    const versions = await VersionResolver.load(root);
+    steps.push({
+      type: "install",
+      deps: tools.map((d) => `${d}@${versions.range(d)}`),
+      dev: true,
+      description: `Install ${tools.join(", ")}`,
+    });
+  }
+  return steps;
+}
@@ -1,15 +1,133 @@
+// packages/engine/src/utils/depsRegistry.ts
+// -----------------------------------------------------------------------------
+// 엔진에 내장된 레지스트리 스냅샷 (오프라인 버전 추천용)
+// - PINNED_VERSIONS: 생성하는 설정/템플릿과 호환되도록 일부러 고정한 메이저
+//   (예: tailwind.config.js 템플릿 → tailwindcss 3, Express 4 API)
+// - REGISTRY_SNAPSHOT: 자주 자동 추가되는 패키지의 안정 범위 (SNAPSHOT_DATE 기준)
+// 프로젝트 lockfile / 워크스페이스 / npm 캐시까지 보는 전체 해석은 utils/version-resolver.ts
+// -----------------------------------------------------------------------------
+
+export const SNAPSHOT_DATE = "2025-06";
+
 export const PINNED_VERSIONS: Record<string, string> = {
   react: "^18.3.1",
   "react-dom": "^18.3.1",
   next: "^14.2.5",
   vite: "^5.2.0",
   express: "^4.19.2",
+  "@types/react": "^18.3.12",
+  "@types/react-dom": "^18.3.1",
+  "@types/express": "^4.17.23",
+  "body-parser": "^1.20.3",
+  tailwindcss: "^3.4.17",
+  "@vitejs/plugin-react": "^4.3.4",
+  "react-router-dom": "^6.30.1",
+};
+
+export const REGISTRY_SNAPSHOT: Record<string, string> = {
+  ...PINNED_VERSIONS,
+  // 언어/타입
+  typescript: "^5.8.3",
+  "@types/node": "^20.19.1",
+  tsx: "^4.20.3",
+  "ts-node": "^10.9.2",
+  // CSS
+  postcss: "^8.5.6",
+  autoprefixer: "^10.4.21",
+  sass: "^1.89.2",
+  clsx: "^2.1.1",
+  // 빌드/개발 도구
+  "vite-tsconfig-paths": "^5.1.4",
+  nodemon: "^3.1.10",
+  concurrently: "^9.2.0",
+  "cross-env": "^7.0.3",
+  rimraf: "^6.0.1",
+  prettier: "^3.6.0",
+  // 테스트
+  vitest: "^3.2.4",
+  jsdom: "^26.1.0",
+  jest: "^29.7.0",
+  "@types/jest": "^29.5.14",
+  // 서버
+  cors: "^2.8.5",
+  "@types/cors": "^2.8.19",
+  dotenv: "^16.5.0",
+  morgan: "^1.10.0",
+  "@types/morgan": "^1.9.10",
+  helmet: "^8.1.0",
+  compression: "^1.8.0",
+  "@types/compression": "^1.8.1",
+  "cookie-parser": "^1.4.7",
+  "@types/cookie-parser": "^1.4.9",
+  multer: "^2.0.1",
+  "@types/multer": "^1.4.13",
+  "serverless-http": "^3.2.0",
+  jsonwebtoken: "^9.0.2",
+  "@types/jsonwebtoken": "^9.0.10",
+  bcryptjs: "^3.0.2",
+  ws: "^8.18.2",
+  "@types/ws": "^8.18.1",
+  "socket.io": "^4.8.1",
+  "socket.io-client": "^4.8.1",
+  // 데이터
+  "@prisma/client": "^6.10.1",
+  prisma: "^6.10.1",
+  mongoose: "^8.16.0",
+  pg: "^8.16.2",
+  "@types/pg": "^8.15.4",
+  mysql2: "^3.14.1",
+  ioredis: "^5.6.1",
+  // 클라이언트 라이브러리
+  axios: "^1.10.0",
+  swr: "^2.3.3",
+  zustand: "^5.0.5",
+  "@tanstack/react-query": "^5.81.2",
+  "react-hook-form": "^7.58.1",
+  zod: "^3.25.67",
+  // 유틸
+  lodash: "^4.17.21",
+  "@types/lodash": "^4.17.20",
+  uuid: "^11.1.0",
+  nanoid: "^5.1.5",
+  "date-fns": "^4.1.0",
+  dayjs: "^1.11.13",
+  "fs-extra": "^11.3.0",
+  "@types/fs-extra": "^11.0.4",
+  commander: "^14.0.0",
+  chalk: "^5.4.1",
+  "node-fetch": "^3.3.2",
+};
+
+/** Node 메이저별 최신 릴리스 (SNAPSHOT_DATE 기준) — volta / .tool-versions 처럼 전체 버전이 필요한 곳용 */
+export const NODE_RELEASES: Record<string, string> = {
+  "16": "16.20.2",
+  "18": "18.20.8",
+  "20": "20.19.2",
+  "22": "22.16.0",
+  "24": "24.2.0",
+};
+
+/**
+ * 의존성 메이저별 최소 Node 버전 (각 패키지 package.json engines.node 기준)
+ * 예: next 14 → >=18.17.0
+ */
+export const NODE_REQUIREMENTS: Record<string, Record<string, string>> = {
+  next: { "13": "16.14.0", "14": "18.17.0", "15": "18.18.0" },
+  vite: { "4": "14.18.0", "5": "18.0.0", "6": "18.0.0", "7": "20.19.0" },
+  astro: { "3": "18.14.1", "4": "18.14.1", "5": "18.17.1" },
+  "@sveltejs/kit": { "2": "18.13.0" },
+  "@angular/core": { "17": "18.13.0", "18": "18.19.1", "19": "18.19.1" },
+  "@nestjs/core": { "10": "16.0.0", "11": "20.0.0" },
+  express: { "5": "18.0.0" },
+  eslint: { "9": "18.18.0" },
+  vitest: { "2": "18.0.0", "3": "18.0.0" },
+  "@prisma/client": { "5": "16.13.0", "6": "18.18.0" },
+  prisma: { "5": "16.13.0", "6": "18.18.0" },
 };
 
+/** 스냅샷에서 찾은 범위, 없으면 "latest" (설치 시점의 최신 안정판) */
 export function suggestVersion(name: string): string {
-  if (PINNED_VERSIONS[name]) return PINNED_VERSIONS[name];
-  if (name.startsWith("@types/")) return "^1.0.0";
-  return "^1.0.0";
+  return REGISTRY_SNAPSHOT[name] ?? "latest";
 }
 
 export function getPinnedDeps(): Record<string, string> {
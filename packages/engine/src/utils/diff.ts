@@ -0,0 +1,132 @@
+// packages/engine/src/utils/diff.ts
+// 줄 단위 unified diff (외부 의존성 없이 LCS 기반). dry-run 미리보기에 사용.
+
+const CONTEXT = 3;
+/** 이보다 큰 (줄 수 곱) 입력은 LCS 대신 전체 교체 hunk로 표시 */
+const MAX_LCS_CELLS = 4_000_000;
+
+type Op = { kind: " " | "-" | "+"; line: string };
+
+const NO_NEWLINE = "\\ No newline at end of file";
+
+/** 줄바꿈까지 포함한 줄 목록 → 끝 줄바꿈 유무도 비교 대상 ("a" 와 "a\n" 은 다른 줄) */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function diffOps(a: string[], b: string[]): Op[] {
+  // 공통 prefix/suffix는 LCS 테이블에서 제외
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: Op[] = a.slice(0, start).map((line) => ({ kind: " ", line }));
+  const tail: Op[] = a.slice(endA).map((line) => ({ kind: " ", line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  const mid: Op[] = [];
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    midA.forEach((line) => mid.push({ kind: "-", line }));
+    midB.forEach((line) => mid.push({ kind: "+", line }));
+    return [...head, ...mid, ...tail];
+  }
+
+  const n = midA.length;
+  const m = midB.length;
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      mid.push({ kind: " ", line: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      mid.push({ kind: "-", line: midA[i++] });
+    } else {
+      mid.push({ kind: "+", line: midB[j++] });
+    }
+  }
+  while (i < n) mid.push({ kind: "-", line: midA[i++] });
+  while (j < m) mid.push({ kind: "+", line: midB[j++] });
+
+  return [...head, ...mid, ...tail];
+}
+
+function range(start: number, count: number): string {
+  // unified 규약: 빈 범위는 "이전 줄,0"
+  if (count === 0) return `${start},0`;
+  return count === 1 ? `${start + 1}` : `${start + 1},${count}`;
+}
+
+/**
+ * before/after 텍스트의 unified diff. null은 "파일 없음"(/dev/null)을 뜻합니다.
+ * 변경이 없으면 빈 문자열.
+ */
+export function unifiedDiff(file: string, before: string | null, after: string | null): string {
+  if (before === after) return "";
+  if (before?.includes("\0") || after?.includes("\0")) {
+    return `Binary files ${before === null ? "/dev/null" : `a/${file}`} and ${after === null ? "/dev/null" : `b/${file}`} differ\n`;
+  }
+  const a = splitLines(before ?? "");
+  const b = splitLines(after ?? "");
+  const ops = diffOps(a, b);
+
+  const out: string[] = [
+    `--- ${before === null ? "/dev/null" : `a/${file}`}`,
+    `+++ ${after === null ? "/dev/null" : `b/${file}`}`,
+  ];
+
+  // 변경 지점 주변 CONTEXT 줄을 묶어 hunk 생성
+  let idx = 0;
+  let aLine = 0;
+  let bLine = 0;
+  while (idx < ops.length) {
+    if (ops[idx].kind === " ") {
+      idx++;
+      aLine++;
+      bLine++;
+      continue;
+    }
+
+    const lead = Math.min(CONTEXT, idx, aLine);
+    const hunkStart = idx - lead;
+    const aStart = aLine - lead;
+    const bStart = bLine - lead;
+    let end = idx;
+    let lastChange = idx;
+    while (end < ops.length) {
+      if (ops[end].kind !== " ") lastChange = end;
+      else if (end - lastChange > CONTEXT * 2) break;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + CONTEXT + 1);
+
+    const body = ops.slice(hunkStart, end);
+    const aCount = body.filter((o) => o.kind !== "+").length;
+    const bCount = body.filter((o) => o.kind !== "-").length;
+    out.push(`@@ -${range(aStart, aCount)} +${range(bStart, bCount)} @@`);
+    for (const o of body) {
+      // 줄바꿈 없는 마지막 줄은 해당 줄 바로 뒤에 표시 (-/+/문맥 어느 쪽이든)
+      if (o.line.endsWith("\n")) out.push(`${o.kind}${o.line.slice(0, -1)}`);
+      else out.push(`${o.kind}${o.line}`, NO_NEWLINE);
+    }
+
+    aLine = aStart + aCount;
+    bLine = bStart + bCount;
+    idx = end;
+  }
+
+  return out.join("\n") + "\n";
+}
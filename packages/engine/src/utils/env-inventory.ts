@@ -0,0 +1,225 @@
+// packages/engine/src/utils/env-inventory.ts
+// -----------------------------------------------------------------------------
+// 환경변수 인벤토리
+// - 소스에서 process.env.X / process.env["X"] / const { X } = process.env /
+//   import.meta.env.X / Deno.env.get("X") / Bun.env.X 참조를 수집
+// - 기존 .env* 파일의 키(값은 버림)와 합침
+// - 프레임워크 접두어 규칙으로 client 노출 / server 전용 분류
+// - 문서화된 .env.example 렌더링 + "참조되지만 어디에도 정의되지 않은" 변수 목록
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import type { PlanStep } from "../core/plan-schema.js";
+
+export type EnvExposure = "client" | "server";
+
+export type EnvVar = {
+  name: string;
+  exposure: EnvExposure;
+  /** 참조한 소스 파일 (루트 기준 상대 경로) */
+  referencedIn: string[];
+  /** 키가 정의된 .env* 파일 */
+  definedIn: string[];
+};
+
+export type EnvInventory = {
+  vars: EnvVar[];
+  /** 소스에서 참조하지만 어떤 .env* 파일에도 없는 변수 (플랫폼 제공 변수 제외) */
+  undefinedRefs: string[];
+  /** 읽은 .env* 파일 */
+  envFiles: string[];
+  /** client 분류에 쓴 접두어 */
+  clientPrefixes: string[];
+};
+
+/** 프레임워크별 브라우저 노출 접두어 */
+export const CLIENT_PREFIXES: Record<string, string[]> = {
+  nextjs: ["NEXT_PUBLIC_"],
+  vite: ["VITE_"],
+  cra: ["REACT_APP_"],
+  nuxt: ["NUXT_PUBLIC_"],
+  sveltekit: ["PUBLIC_"],
+  astro: ["PUBLIC_"],
+  remix: [],
+  expo: ["EXPO_PUBLIC_"],
+  gatsby: ["GATSBY_"],
+};
+
+/** 예시 파일 후보 (앞에 있을수록 우선) */
+export const ENV_EXAMPLE_FILES = [".env.example", ".env.sample", ".env.template"];
+
+/** 런타임/플랫폼이 채워 주는 값 → undefined 목록에서 제외 */
+const PLATFORM_PROVIDED = new Set(["NODE_ENV", "PORT", "HOST", "HOSTNAME", "CI", "TZ", "PWD", "HOME"]);
+/** import.meta.env 내장 값 → 인벤토리에서 제외 */
+const BUILTINS = new Set(["NODE_ENV", "MODE", "DEV", "PROD", "SSR", "BASE_URL"]);
+
+const SOURCE_EXT = /\.(c|m)?(j|t)sx?$|\.(vue|svelte|astro)$/;
+const SKIP_DIRS = new Set([
+  "node_modules", ".git", "dist", "build", "out", ".next", ".nuxt", ".svelte-kit", ".astro",
+  ".output", ".vercel", ".netlify", ".turbo", "coverage", ".mofix",
+]);
+const MAX_FILES = 5000;
+const MAX_FILE_BYTES = 1024 * 1024;
+
+const NAME = "[A-Za-z_][A-Za-z0-9_]*";
+const REFERENCE_PATTERNS = [
+  new RegExp(`\\bprocess\\.env\\.(${NAME})`, "g"),
+  new RegExp(`\\bprocess\\.env\\[\\s*["'\`](${NAME})["'\`]\\s*\\]`, "g"),
+  new RegExp(`\\bimport\\.meta\\.env\\.(${NAME})`, "g"),
+  new RegExp(`\\bimport\\.meta\\.env\\[\\s*["'\`](${NAME})["'\`]\\s*\\]`, "g"),
+  new RegExp(`\\bDeno\\.env\\.get\\(\\s*["'\`](${NAME})["'\`]\\s*\\)`, "g"),
+  new RegExp(`\\bBun\\.env\\.(${NAME})`, "g"),
+];
+/** const { A, B: b, C = "x" } = process.env */
+const DESTRUCTURE = /\{([^{}]*)\}\s*=\s*(?:process\.env|import\.meta\.env|Bun\.env)\b/g;
+
+const toPosix = (p: string) => p.split(path.sep).join("/");
+
+/** 소스 텍스트 한 개에서 변수 이름 추출 */
+export function extractEnvRefs(source: string): string[] {
+  const out = new Set<string>();
+  for (const re of REFERENCE_PATTERNS) {
+    for (const m of source.matchAll(re)) out.add(m[1]);
+  }
+  for (const m of source.matchAll(DESTRUCTURE)) {
+    for (const part of m[1].split(",")) {
+      const key = part.trim().match(new RegExp(`^(${NAME})`))?.[1];
+      if (key) out.add(key);
+    }
+  }
+  return [...out].filter((k) => !BUILTINS.has(k));
+}
+
+/** .env 형식 텍스트의 키 목록 (주석/빈 줄/export 접두어 처리, 값은 버림) */
+export function parseEnvKeys(text: string): string[] {
+  const keys: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const m = raw.match(new RegExp(`^\\s*(?:export\\s+)?(${NAME})\\s*=`));
+    if (m && !keys.includes(m[1])) keys.push(m[1]);
+  }
+  return keys;
+}
+
+export function classifyEnv(name: string, prefixes: string[]): EnvExposure {
+  return prefixes.some((p) => name.startsWith(p)) ? "client" : "server";
+}
+
+async function listSourceFiles(root: string): Promise<string[]> {
+  const out: string[] = [];
+  async function walk(rel: string): Promise<void> {
+    if (out.length >= MAX_FILES) return;
+    const entries = await fs.readdir(path.join(root, rel), { withFileTypes: true }).catch(() => []);
+    for (const e of entries as any[]) {
+      const name = e.name as string;
+      const childRel = rel ? `${rel}/${name}` : name;
+      if (e.isDirectory()) {
+        if (!SKIP_DIRS.has(name)) await walk(childRel);
+      } else if (e.isFile() && SOURCE_EXT.test(name) && !/\.d\.ts$/.test(name)) {
+        out.push(childRel);
+        if (out.length >= MAX_FILES) return;
+      }
+    }
+  }
+  await walk("");
+  return out;
+}
+
+async function listEnvFiles(root: string): Promise<string[]> {
+  const entries = await fs.readdir(root).catch(() => [] as string[]);
+  return entries.filter((f: string) => f === ".env" || f.startsWith(".env.")).sort();
+}
+
+export async function scanEnvInventory(root: string, framework?: string): Promise<EnvInventory> {
+  const clientPrefixes = framework && CLIENT_PREFIXES[framework]
+    ? CLIENT_PREFIXES[framework]
+    : [...new Set(Object.values(CLIENT_PREFIXES).flat())];
+
+  const refs = new Map<string, Set<string>>();
+  for (const file of await listSourceFiles(root)) {
+    const abs = path.join(root, file);
+    const stat = await fs.stat(abs).catch(() => null);
+    if (!stat || stat.size > MAX_FILE_BYTES) continue;
+    const text = await fs.readFile(abs, "utf8").catch(() => "");
+    if (!/env/.test(text)) continue;
+    for (const name of extractEnvRefs(text)) {
+      if (!refs.has(name)) refs.set(name, new Set());
+      refs.get(name)!.add(toPosix(file));
+    }
+  }
+
+  const envFiles = await listEnvFiles(root);
+  const defs = new Map<string, string[]>();
+  for (const f of envFiles) {
+    const text = await fs.readFile(path.join(root, f), "utf8").catch(() => "");
+    for (const key of parseEnvKeys(text)) defs.set(key, [...(defs.get(key) ?? []), f]);
+  }
+
+  const names = [...new Set([...refs.keys(), ...defs.keys()])].sort();
+  const vars: EnvVar[] = names.map((name) => ({
+    name,
+    exposure: classifyEnv(name, clientPrefixes),
+    referencedIn: [...(refs.get(name) ?? [])].sort(),
+    definedIn: defs.get(name) ?? [],
+  }));
+  const undefinedRefs = vars
+    .filter((v) => v.referencedIn.length > 0 && v.definedIn.length === 0 && !PLATFORM_PROVIDED.has(v.name))
+    .map((v) => v.name);
+
+  return { vars, undefinedRefs, envFiles, clientPrefixes };
+}
+
+function usedIn(v: EnvVar): string {
+  if (v.referencedIn.length === 0) return `# defined in ${v.definedIn.join(", ")} (not referenced in source)`;
+  const shown = v.referencedIn.slice(0, 3).join(", ");
+  const more = v.referencedIn.length > 3 ? ` (+${v.referencedIn.length - 3} more)` : "";
+  return `# used in: ${shown}${more}`;
+}
+
+/** 문서화된 .env.example (값은 비움) */
+export function renderEnvExample(inv: EnvInventory): string {
+  const out = [
+    "# Environment variables (generated by MoFix from source references and existing .env files)",
+    "# Copy to .env / .env.local and fill in real values. Never commit real secrets.",
+    "",
+  ];
+  const section = (title: string, list: EnvVar[]) => {
+    if (list.length === 0) return;
+    out.push(`# ── ${title} ──`, "");
+    for (const v of list) out.push(usedIn(v), `${v.name}=`, "");
+  };
+  const prefixes = inv.clientPrefixes.length ? inv.clientPrefixes.map((p) => `${p}*`).join(", ") : "none";
+  section(`Client-exposed: bundled into browser code (${prefixes}) — no secrets`, inv.vars.filter((v) => v.exposure === "client"));
+  section("Server-only", inv.vars.filter((v) => v.exposure === "server"));
+  return out.join("\n");
+}
+
+/**
+ * .env.example 계획: 예시 파일(.env.example/.sample/.template)이 있으면 빠진 키만 추가,
+ * 없으면 문서화된 .env.example 생성. 변수가 하나도 없으면 빈 배열.
+ */
+export async function planEnvExample(root: string, framework?: string): Promise<PlanStep[]> {
+  const inv = await scanEnvInventory(root, framework);
+  if (inv.vars.length === 0) return [];
+
+  const existing = ENV_EXAMPLE_FILES.find((f) => inv.envFiles.includes(f));
+  if (existing) {
+    const missing = inv.vars.filter((v) => !v.definedIn.includes(existing)).map((v) => `${v.name}=`);
+    if (missing.length === 0) return [];
+    return [
+      {
+        type: "lines.ensure",
+        file: existing,
+        lines: missing,
+        description: `Add ${missing.length} missing variable(s) to ${existing}`,
+      },
+    ];
+  }
+  return [
+    {
+      type: "create",
+      file: ".env.example",
+      content: renderEnvExample(inv),
+      description: `Create .env.example (${inv.vars.length} variable(s) from source)`,
+    },
+  ];
+}
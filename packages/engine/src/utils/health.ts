@@ -11,9 +11,10 @@ function ping(url: string): Promise<boolean> {
   });
 }
 
-export async function waitForHealth(url: string, timeoutMs = 20000, intervalMs = 1000) {
+/** signal이 abort되면 (예: 서버 프로세스가 먼저 종료) 즉시 { ok: false } */
+export async function waitForHealth(url: string, timeoutMs = 20000, intervalMs = 1000, signal?: AbortSignal) {
   const start = Date.now();
-  while (Date.now() - start < timeoutMs) {
+  while (Date.now() - start < timeoutMs && !signal?.aborted) {
     if (await ping(url)) return { ok: true };
     await new Promise(r => setTimeout(r, intervalMs));
   }
@@ -0,0 +1,336 @@
+// packages/engine/src/utils/import-graph.ts
+// -----------------------------------------------------------------------------
+// 정적 import 그래프 기반 의존성 분석
+// - 모든 JS/TS 소스(.vue/.svelte/.astro 의 <script>·frontmatter 포함)에서
+//   import / export from / import() / require() / import x = require() 지정자를 AST 로 수집
+// - tsconfig·jsconfig paths(+baseUrl, extends), Vite·webpack alias(utils/path-aliases.ts), package.json 자기 이름은 로컬로 취급
+// - 결과: 선언 안 된 패키지(missing), 안 쓰는 dependencies(unused),
+//   테스트/설정/타입에서만 쓰는 dependencies(devOnly), 엣지 런타임 파일의 node: 없는 내장 모듈
+// - 크래시 로그(MODULE_NOT_FOUND) 이전에 잡기 위한 것 — 로그 기반 Fix 는 fixes/log-signatures.ts
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import ts from "typescript";
+import { builtinModules } from "module";
+import { packageFromSpecifier, isLikelyDevDependency, typesPackageFor } from "../fixes/log-signatures.js";
+import { readAliasConfig, aliasMatcher } from "./path-aliases.js";
+
+export type ImportKind = "import" | "export" | "dynamic" | "require" | "type";
+
+export type ImportRef = {
+  specifier: string;
+  kind: ImportKind;
+  /** 1부터 */
+  line: number;
+};
+
+export type PackageUsage = {
+  name: string;
+  /** 사용한 파일 (루트 기준 상대 경로) */
+  files: string[];
+  /** 테스트/설정/타입 import 에서만 쓰임 */
+  devOnly: boolean;
+};
+
+export type BuiltinUsage = {
+  file: string;
+  /** node: 없이 쓴 내장 모듈 ("fs", "fs/promises" …) */
+  modules: string[];
+};
+
+export type DependencyReport = {
+  /** 분석한 소스 파일 수 */
+  scanned: number;
+  /** 로컬로 취급한 별칭 접두어 (tsconfig paths / Vite alias) */
+  aliases: string[];
+  /** package.json 에 없는 패키지 */
+  missing: PackageUsage[];
+  /** import 도 스크립트/설정 참조도 없는 dependencies */
+  unused: string[];
+  /** dependencies 에 있지만 개발용 파일에서만 쓰는 패키지 */
+  devOnly: PackageUsage[];
+  /** 엣지 런타임(미들웨어, runtime: "edge", Netlify Edge, Workers) 파일의 node: 없는 내장 모듈 */
+  edgeBuiltins: BuiltinUsage[];
+};
+
+const SOURCE_EXT = /\.(c|m)?(j|t)sx?$|\.(vue|svelte|astro)$/;
+const SKIP_DIRS = new Set([
+  "node_modules", ".git", "dist", "build", "out", ".next", ".nuxt", ".svelte-kit", ".astro",
+  ".output", ".vercel", ".netlify", ".turbo", "coverage", ".mofix", "public",
+]);
+const MAX_FILES = 5000;
+const MAX_FILE_BYTES = 1024 * 1024;
+
+const BUILTINS = new Set(builtinModules);
+
+/** 테스트 / 스토리 / 빌드 설정 — 프로덕션 런타임에는 로드되지 않는 파일 */
+const DEV_FILE_RE =
+  /(^|\/)(__tests__|__mocks__|tests?|e2e|cypress|playwright|\.storybook|stories)\/|\.(test|spec|stories|story|bench|e2e)\.[^/]+$|(^|\/)[\w-]+\.config\.[^/]+$|^\.\w+rc\.[^/]+$/;
+/** 설정 파일이지만 프로덕션 서버가 읽는 것 (next start 는 next.config 를 로드) */
+const RUNTIME_CONFIG_RE = /^next\.config\.[^/]+$/;
+
+/** import 없이도 쓰이는 패키지 (JSX 런타임, 컴파일러 헬퍼, 프레임워크 피어) */
+const IMPLICIT_DEPS = ["typescript", "tslib", "@swc/helpers", "@babel/runtime", "core-js", "regenerator-runtime"];
+const FRAMEWORK_IMPLICIT: Record<string, string[]> = {
+  next: ["react", "react-dom", "sharp"],
+  nuxt: ["vue", "vue-router"],
+  "@sveltejs/kit": ["svelte"],
+  "@remix-run/dev": ["@remix-run/node", "@remix-run/serve", "isbot"],
+  astro: ["sharp"],
+};
+
+/** 프레임워크가 내장 별칭으로 제공 — 설치 안 해도 import 가능 */
+const FRAMEWORK_PROVIDED: Record<string, string[]> = {
+  next: ["server-only", "client-only", "styled-jsx"],
+};
+
+/** 시작 시 실행되는 스크립트 — 여기서 쓰는 패키지는 개발용이 아님 */
+const RUNTIME_SCRIPTS = ["start", "prestart", "poststart", "serve", "postinstall"];
+
+const toPosix = (p: string) => p.split(path.sep).join("/");
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 수집
+// ─────────────────────────────────────────────────────────────────────────────
+/** .vue / .svelte 의 <script>, .astro 의 frontmatter 만 남기고 나머지 줄은 비움 (줄 번호 유지) */
+function scriptText(text: string, file: string): string {
+  if (!/\.(vue|svelte|astro)$/.test(file)) return text;
+  const keep: Array<[number, number]> = [];
+  for (const m of text.matchAll(/<script\b[^>]*>([\s\S]*?)<\/script>/g)) {
+    const start = m.index! + m[0].indexOf(">") + 1;
+    keep.push([start, start + m[1].length]);
+  }
+  const front = file.endsWith(".astro") ? text.match(/^---\r?\n([\s\S]*?)\r?\n---/) : null;
+  if (front) {
+    const start = front[0].indexOf("\n") + 1;
+    keep.push([start, start + front[1].length]);
+  }
+  let out = "";
+  let at = 0;
+  for (const [s, e] of keep.sort((a, b) => a[0] - b[0])) {
+    out += text.slice(at, s).replace(/[^\n]/g, " ") + text.slice(s, e);
+    at = e;
+  }
+  return out + text.slice(at).replace(/[^\n]/g, " ");
+}
+
+/** 소스 한 개의 모듈 지정자 목록 */
+export function collectImports(text: string, file: string): ImportRef[] {
+  const source = scriptText(text, file);
+  const kind = /\.(c|m)?tsx?$|\.(vue|svelte|astro)$/.test(file)
+    ? (/x$/.test(file) ? ts.ScriptKind.TSX : ts.ScriptKind.TS)
+    : ts.ScriptKind.JSX;
+  const sf = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true, kind);
+  const out: ImportRef[] = [];
+  const add = (node: ts.StringLiteralLike, k: ImportKind) =>
+    out.push({ specifier: node.text, kind: k, line: sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1 });
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteralLike(node.moduleSpecifier)) {
+      const clause = node.importClause;
+      const typeOnly = Boolean(
+        clause?.isTypeOnly ||
+          (clause && !clause.name && clause.namedBindings && ts.isNamedImports(clause.namedBindings) &&
+            clause.namedBindings.elements.length > 0 && clause.namedBindings.elements.every((e) => e.isTypeOnly))
+      );
+      add(node.moduleSpecifier, typeOnly ? "type" : "import");
+      return;
+    }
+    if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteralLike(node.moduleSpecifier)) {
+      add(node.moduleSpecifier, node.isTypeOnly ? "type" : "export");
+      return;
+    }
+    if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      const ref = node.moduleReference.expression;
+      if (ts.isStringLiteralLike(ref)) add(ref, node.isTypeOnly ? "type" : "require");
+      return;
+    }
+    if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument) && ts.isStringLiteralLike(node.argument.literal)) {
+      add(node.argument.literal, "type");
+      return;
+    }
+    if (ts.isCallExpression(node) && node.arguments.length >= 1 && ts.isStringLiteralLike(node.arguments[0])) {
+      const callee = node.expression;
+      if (callee.kind === ts.SyntaxKind.ImportKeyword) add(node.arguments[0], "dynamic");
+      // require("x") / require.resolve("x")
+      else if (ts.isIdentifier(callee) && callee.text === "require") add(node.arguments[0], "require");
+      else if (
+        ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) &&
+        callee.expression.text === "require" && callee.name.text === "resolve"
+      ) add(node.arguments[0], "require");
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sf);
+  return out;
+}
+
+/** 소스 파일 목록. 하위 package.json 디렉터리(다른 워크스페이스 패키지)는 건너뜀 */
+async function listSourceFiles(root: string): Promise<string[]> {
+  const out: string[] = [];
+  async function walk(rel: string): Promise<void> {
+    if (out.length >= MAX_FILES) return;
+    const entries = await fs.readdir(path.join(root, rel), { withFileTypes: true }).catch(() => []);
+    if (rel && (entries as any[]).some((e) => e.name === "package.json")) return;
+    for (const e of entries as any[]) {
+      const name = e.name as string;
+      const childRel = rel ? `${rel}/${name}` : name;
+      if (e.isDirectory()) {
+        if (!SKIP_DIRS.has(name) && (!name.startsWith(".") || name === ".storybook")) await walk(childRel);
+      } else if (e.isFile() && SOURCE_EXT.test(name) && !/\.d\.(c|m)?ts$/.test(name)) {
+        out.push(childRel);
+        if (out.length >= MAX_FILES) return;
+      }
+    }
+  }
+  await walk("");
+  return out;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 엣지 런타임 파일
+// ─────────────────────────────────────────────────────────────────────────────
+const EDGE_RUNTIME_RE = /\bruntime\s*[:=]\s*["'](?:edge|experimental-edge)["']/;
+
+async function edgeScope(root: string): Promise<(file: string, text: string) => boolean> {
+  const workers = (await Promise.all(["wrangler.toml", "wrangler.json", "wrangler.jsonc"].map((f) => fs.pathExists(path.join(root, f))))).some(Boolean);
+  return (file, text) =>
+    workers ||
+    /^(src\/)?middleware\.[cm]?[jt]s$/.test(file) ||
+    /^netlify\/edge-functions\//.test(file) ||
+    EDGE_RUNTIME_RE.test(text);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 분석
+// ─────────────────────────────────────────────────────────────────────────────
+/** 설치된 패키지의 peerDependencies / bin 이름 (node_modules 가 없으면 빈 값) */
+async function installedMeta(root: string, name: string): Promise<{ peers: string[]; bins: string[] }> {
+  const meta = await fs.readJson(path.join(root, "node_modules", name, "package.json")).catch(() => null);
+  if (!meta) return { peers: [], bins: [] };
+  const bins = typeof meta.bin === "string" ? [name.split("/").pop()!] : Object.keys(meta.bin ?? {});
+  return { peers: Object.keys(meta.peerDependencies ?? {}), bins };
+}
+
+function mentions(corpus: string, word: string): boolean {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\w@/.-])${escaped}($|[^\\w.-])`).test(corpus);
+}
+
+export async function analyzeDependencies(root: string): Promise<DependencyReport> {
+  const pkg = await fs.readJson(path.join(root, "package.json")).catch(() => ({} as any));
+  const deps: Record<string, string> = pkg?.dependencies ?? {};
+  const declared = new Set([
+    ...Object.keys(deps),
+    ...Object.keys(pkg?.devDependencies ?? {}),
+    ...Object.keys(pkg?.peerDependencies ?? {}),
+    ...Object.keys(pkg?.optionalDependencies ?? {}),
+  ]);
+  const aliasConfig = await readAliasConfig(root);
+  const isAlias = aliasMatcher(root, aliasConfig);
+  const isEdge = await edgeScope(root);
+
+  // 패키지 → 사용 파일 / 프로덕션 사용 여부
+  const usage = new Map<string, { files: Set<string>; prod: boolean }>();
+  const edgeBuiltins: BuiltinUsage[] = [];
+  const corpus: string[] = [];
+  /** 설정 파일 → 텍스트 (import 없이 문자열로 참조하는 플러그인 찾기) */
+  const configTexts = new Map<string, string>();
+  let hasJsx = false;
+
+  const files = await listSourceFiles(root);
+  for (const file of files) {
+    const abs = path.join(root, file);
+    const stat = await fs.stat(abs).catch(() => null);
+    if (!stat || stat.size > MAX_FILE_BYTES) continue;
+    const text = await fs.readFile(abs, "utf8").catch(() => "");
+    const rel = toPosix(file);
+    const devFile = DEV_FILE_RE.test(rel) && !RUNTIME_CONFIG_RE.test(rel);
+    if (/\.[jt]sx$/.test(rel)) hasJsx = true;
+    // 설정 파일은 플러그인을 문자열/키로 참조 (postcss: { tailwindcss: {} }, babel presets …)
+    if (/\.config\.|^\.\w+rc\./.test(rel)) configTexts.set(rel, text);
+
+    let refs: ImportRef[];
+    try {
+      refs = collectImports(text, rel);
+    } catch {
+      continue;
+    }
+    const bareBuiltins = new Set<string>();
+    for (const ref of refs) {
+      const spec = ref.specifier;
+      if (BUILTINS.has(spec) && !spec.startsWith("node:") && !declared.has(spec.split("/")[0])) {
+        if (ref.kind !== "type") bareBuiltins.add(spec);
+        continue;
+      }
+      if (isAlias(spec)) continue;
+      const name = packageFromSpecifier(spec);
+      if (!name || name === pkg?.name) continue;
+      const u = usage.get(name) ?? { files: new Set<string>(), prod: false };
+      u.files.add(rel);
+      if (!devFile && ref.kind !== "type") u.prod = true;
+      usage.set(name, u);
+    }
+    if (bareBuiltins.size > 0 && !devFile && isEdge(rel, text)) {
+      edgeBuiltins.push({ file: rel, modules: [...bareBuiltins].sort() });
+    }
+  }
+
+  // package.json 안의 스크립트 / 설정(eslintConfig, jest, babel, prettier …)
+  const scripts: Record<string, string> = pkg?.scripts ?? {};
+  const runtimeScripts = RUNTIME_SCRIPTS.map((k) => scripts[k] ?? "").join("\n");
+  corpus.push(Object.values(scripts).join("\n"), JSON.stringify({ ...pkg, scripts: undefined, dependencies: undefined, devDependencies: undefined }));
+  for (const f of [".babelrc", ".eslintrc", ".eslintrc.json", ".postcssrc", ".postcssrc.json", ".prettierrc", "babel.config.json"]) {
+    const raw = await fs.readFile(path.join(root, f), "utf8").catch(() => "");
+    if (raw) configTexts.set(f, raw);
+  }
+  const text = corpus.join("\n");
+
+  // 암묵 사용: 컴파일러 헬퍼, 프레임워크 피어, 설치된 패키지의 peerDependencies
+  const implicit = new Set(IMPLICIT_DEPS);
+  const provided = new Set(Object.entries(FRAMEWORK_PROVIDED).flatMap(([fw, names]) => (declared.has(fw) ? names : [])));
+  if (hasJsx) implicit.add("react");
+  for (const [fw, extra] of Object.entries(FRAMEWORK_IMPLICIT)) {
+    if (declared.has(fw)) extra.forEach((d) => implicit.add(d));
+  }
+  for (const name of usage.keys()) {
+    for (const peer of (await installedMeta(root, name)).peers) implicit.add(peer);
+  }
+
+  const missing: PackageUsage[] = [];
+  for (const [name, u] of [...usage].sort(([a], [b]) => a.localeCompare(b))) {
+    if (declared.has(name) || provided.has(name)) continue;
+    // 타입만 쓰는데 @types 가 선언돼 있으면 충족
+    if (!u.prod && declared.has(typesPackageFor(name))) continue;
+    missing.push({ name, files: [...u.files].sort(), devOnly: !u.prod || isLikelyDevDependency(name) });
+  }
+
+  const unused: string[] = [];
+  const devOnly: PackageUsage[] = [];
+  for (const name of Object.keys(deps).sort()) {
+    if (name.startsWith("@types/")) continue;
+    const u = usage.get(name);
+    const { bins } = await installedMeta(root, name);
+    const inScripts = (cmds: string) => [name, ...bins].some((w) => mentions(cmds, w));
+    if (!u) {
+      if (implicit.has(name)) continue;
+      // import 없이 설정 파일에서만 이름으로 참조 (postcss 플러그인 등) → 빌드 전용
+      const configs = [...configTexts].filter(([, t]) => mentions(t, name)).map(([f]) => f).sort();
+      if (configs.length > 0) {
+        if (!configs.some((f) => RUNTIME_CONFIG_RE.test(f)) && !inScripts(runtimeScripts)) devOnly.push({ name, files: configs, devOnly: true });
+      } else if (!mentions(text, name) && !inScripts(text)) {
+        unused.push(name);
+      }
+      continue;
+    }
+    if (!u.prod && !implicit.has(name) && !inScripts(runtimeScripts)) {
+      devOnly.push({ name, files: [...u.files].sort(), devOnly: true });
+    }
+  }
+
+  const aliases = [
+    ...new Set([...Object.keys(aliasConfig.tsconfig), ...Object.keys(aliasConfig.vite), ...Object.keys(aliasConfig.webpack)].map((k) => `${k}/`)),
+    ...aliasConfig.exact,
+  ].sort();
+  return { scanned: files.length, aliases, missing, unused, devOnly, edgeBuiltins };
+}
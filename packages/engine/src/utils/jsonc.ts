@@ -0,0 +1,243 @@
+// packages/engine/src/utils/jsonc.ts
+// -----------------------------------------------------------------------------
+// JSON / JSONC (주석, trailing comma 허용) 읽기·편집 — package.json, tsconfig, .vscode/* 등 json.merge 대상 전부
+// - 파싱은 TypeScript 의 JSON 파서(ts.parseJsonText)로
+// - 편집은 바뀌는 속성 노드 범위만 텍스트로 교체/삽입 → 주석, 들여쓰기(탭 포함), 키 순서, trailing comma, 끝 줄바꿈 유지
+// - 배열은 replace(기본) / append / unique 병합 지원
+// -----------------------------------------------------------------------------
+import ts from "typescript";
+import type { ArrayMergeStrategy, JsonMergeStep } from "../core/plan-schema.js";
+
+export class JsoncParseError extends Error {
+  constructor(message: string, public readonly file: string) {
+    super(`${file}: ${message}`);
+  }
+}
+
+type JsonPath = string[];
+
+function parseSource(text: string, file: string): ts.JsonSourceFile {
+  // 문법 오류는 공개 API 로 확인 (첫 번째 파싱 진단을 error 로 돌려줌)
+  const { error } = ts.parseConfigFileTextToJson(file, text);
+  if (error) throw new JsoncParseError(ts.flattenDiagnosticMessageText(error.messageText, "\n"), file);
+  return ts.parseJsonText(file, text);
+}
+
+/** 주석 / trailing comma 가 있어도 읽음. 문법 오류면 JsoncParseError */
+export function parseJsonc<T = any>(text: string, file = "file.json"): T {
+  const sf = parseSource(text, file);
+  const errors: ts.Diagnostic[] = [];
+  const value = ts.convertToObject(sf, errors);
+  if (errors.length > 0) throw new JsoncParseError(ts.flattenDiagnosticMessageText(errors[0].messageText, "\n"), file);
+  return value as T;
+}
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> => Boolean(v) && typeof v === "object" && !Array.isArray(v);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 렌더링 (새로 넣는 값만 — 기존 값은 원문 그대로)
+// ─────────────────────────────────────────────────────────────────────────────
+/** 파일에서 쓰는 들여쓰기 단위 (첫 들여쓴 줄 기준, 기본 2칸) */
+export function detectIndent(text: string): string {
+  const m = text.match(/\n([ \t]+)\S/);
+  return m ? m[1] : "  ";
+}
+
+/** 원시값 배열은 한 줄(["./src/*"]), 객체는 여러 줄 */
+export function renderJsonValue(value: unknown, indent: string, unit: string): string {
+  if (Array.isArray(value)) {
+    if (value.every((v) => !v || typeof v !== "object")) return `[${value.map((v) => JSON.stringify(v)).join(", ")}]`;
+    const inner = indent + unit;
+    return `[\n${value.map((v) => inner + renderJsonValue(v, inner, unit)).join(",\n")}\n${indent}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return "{}";
+    const inner = indent + unit;
+    return `{\n${entries.map(([k, v]) => `${inner}${JSON.stringify(k)}: ${renderJsonValue(v, inner, unit)}`).join(",\n")}\n${indent}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 편집
+// ─────────────────────────────────────────────────────────────────────────────
+function propName(name: ts.PropertyName): string | undefined {
+  return ts.isStringLiteral(name) || ts.isIdentifier(name) || ts.isNumericLiteral(name) ? name.text : undefined;
+}
+
+/** 키가 중복되면 마지막 것이 값이 되므로(JSON.parse 와 동일) 마지막 속성을 편집 */
+function findProp(obj: ts.ObjectLiteralExpression, key: string): ts.PropertyAssignment | undefined {
+  return obj.properties.filter((p): p is ts.PropertyAssignment => ts.isPropertyAssignment(p) && propName(p.name) === key).pop();
+}
+
+/** pos 가 있는 줄의 들여쓰기 */
+function lineIndent(text: string, pos: number): string {
+  const start = text.lastIndexOf("\n", pos - 1) + 1;
+  return text.slice(start).match(/^[ \t]*/)![0];
+}
+
+function splice(text: string, start: number, end: number, insert: string): string {
+  return text.slice(0, start) + insert + text.slice(end);
+}
+
+/**
+ * 객체/배열 리터럴 끝에 멤버 추가 (여러 줄/한 줄, trailing comma, 줄 끝 주석 유지).
+ * 비어 있으면 empty 로 통째 교체.
+ */
+function appendMembers(
+  text: string,
+  node: ts.ObjectLiteralExpression | ts.ArrayLiteralExpression,
+  sf: ts.SourceFile,
+  empty: string,
+  render: (indent: string) => string[]
+): string {
+  const open = node.getStart(sf);
+  const close = node.getEnd() - 1;
+  const parentIndent = lineIndent(text, open);
+  const members: ts.NodeArray<ts.Node> = ts.isObjectLiteralExpression(node) ? node.properties : node.elements;
+
+  if (members.length === 0) return splice(text, open, close + 1, empty);
+
+  const last = members[members.length - 1];
+  const multiline = text.slice(open, close).includes("\n");
+  const indent = multiline ? lineIndent(text, members[0].getStart(sf)) : parentIndent;
+  const rendered = render(indent);
+  const after = text.slice(last.getEnd(), close);
+  const trailingComma = /^\s*(?:\/\/[^\n]*\n\s*|\/\*[\s\S]*?\*\/\s*)*,/.test(after);
+
+  if (!multiline) {
+    if (trailingComma) {
+      const comma = last.getEnd() + after.indexOf(",") + 1;
+      return splice(text, comma, comma, ` ${rendered.join(", ")},`);
+    }
+    return splice(text, last.getEnd(), last.getEnd(), `, ${rendered.join(", ")}`);
+  }
+
+  // 마지막 멤버 줄의 끝 (같은 줄 주석 뒤)
+  const nl = text.indexOf("\n", last.getEnd());
+  const lineEnd = nl >= 0 && nl < close ? nl : close;
+  let out = text;
+  let insertAt = lineEnd;
+  if (!trailingComma) {
+    out = splice(out, last.getEnd(), last.getEnd(), ",");
+    insertAt += 1;
+  }
+  // 닫는 괄호가 마지막 멤버와 같은 줄이면 줄을 바꿔 둠
+  const tail = lineEnd === close ? `\n${parentIndent}` : "";
+  const lines = rendered.map((r) => `\n${indent}${r}`).join(",");
+  return splice(out, insertAt, insertAt, `${lines}${trailingComma ? "," : ""}${tail}`);
+}
+
+function insertProp(text: string, obj: ts.ObjectLiteralExpression, sf: ts.SourceFile, key: string, value: unknown, unit: string): string {
+  const parentIndent = lineIndent(text, obj.getStart(sf));
+  return appendMembers(text, obj, sf, renderJsonValue({ [key]: value }, parentIndent, unit), (indent) => [
+    `${JSON.stringify(key)}: ${renderJsonValue(value, indent, unit)}`,
+  ]);
+}
+
+/** 루트 객체부터 keys 경로를 따라간 노드 (없으면 undefined) */
+function findNode(sf: ts.JsonSourceFile, keys: JsonPath, file: string): ts.Expression | undefined {
+  const rootExpr = sf.statements[0]?.expression;
+  if (!rootExpr || !ts.isObjectLiteralExpression(rootExpr)) throw new JsoncParseError("top-level value is not an object", file);
+  let node: ts.Expression = rootExpr;
+  for (const key of keys) {
+    if (!ts.isObjectLiteralExpression(node)) return undefined;
+    const prop = findProp(node, key);
+    if (!prop) return undefined;
+    node = prop.initializer;
+  }
+  return node;
+}
+
+/** keys 경로의 배열 끝에 items 추가. 배열이 아니거나 없으면 setJsoncValue 와 같음 */
+export function appendJsoncArray(text: string, keys: JsonPath, items: unknown[], file = "file.json"): string {
+  if (items.length === 0) return text;
+  if (!text.trim()) return setJsoncValue(text, keys, items, file);
+  const sf = parseSource(text, file);
+  const node = findNode(sf, keys, file);
+  if (!node || !ts.isArrayLiteralExpression(node)) return setJsoncValue(text, keys, items, file);
+  const unit = detectIndent(text);
+  const parentIndent = lineIndent(text, node.getStart(sf));
+  return appendMembers(text, node, sf, renderJsonValue(items, parentIndent, unit), (indent) =>
+    items.map((item) => renderJsonValue(item, indent, unit))
+  );
+}
+
+/** keys 경로에 value 설정. 중간 객체가 없으면 만들고, 있으면 그 안에 추가 */
+export function setJsoncValue(text: string, keys: JsonPath, value: unknown, file = "file.json"): string {
+  const unit = detectIndent(text);
+  if (!text.trim()) {
+    let nested: unknown = value;
+    for (const k of [...keys].reverse()) nested = { [k]: nested };
+    return renderJsonValue(nested, "", unit) + "\n";
+  }
+  const sf = parseSource(text, file);
+  const rootExpr = sf.statements[0]?.expression;
+  if (!rootExpr || !ts.isObjectLiteralExpression(rootExpr)) throw new JsoncParseError("top-level value is not an object", file);
+
+  let obj: ts.ObjectLiteralExpression = rootExpr;
+  for (let i = 0; i < keys.length; i++) {
+    const prop = findProp(obj, keys[i]);
+    const rest = keys.slice(i + 1);
+    if (!prop) {
+      let nested: unknown = value;
+      for (const k of [...rest].reverse()) nested = { [k]: nested };
+      return insertProp(text, obj, sf, keys[i], nested, unit);
+    }
+    const init = prop.initializer;
+    if (rest.length === 0 || !ts.isObjectLiteralExpression(init)) {
+      let nested: unknown = value;
+      for (const k of [...rest].reverse()) nested = { [k]: nested };
+      const indent = lineIndent(text, prop.getStart(sf));
+      return splice(text, init.getStart(sf), init.getEnd(), renderJsonValue(nested, indent, unit));
+    }
+    obj = init;
+  }
+  return text;
+}
+
+export type JsoncMergeOptions = {
+  /** 전체 기본값 또는 "compilerOptions.types" 같은 점 경로별 지정 ("*" 는 기본값). 항목 비교는 JSON 값 기준 */
+  arrays?: JsonMergeStep["arrays"];
+};
+
+function strategyFor(arrays: JsoncMergeOptions["arrays"], keys: JsonPath): ArrayMergeStrategy {
+  if (!arrays) return "replace";
+  if (typeof arrays === "string") return arrays;
+  return arrays[keys.join(".")] ?? arrays["*"] ?? "replace";
+}
+
+/**
+ * json.merge 의미의 병합을 원문 위에 적용.
+ * 객체는 재귀, 원시값은 교체, 배열은 opts.arrays 방식. 값이 이미 같으면 원문 그대로.
+ */
+export function mergeJsonc(text: string, patch: Record<string, unknown>, file = "file.json", opts: JsoncMergeOptions = {}): string {
+  let out = text;
+  const walk = (current: unknown, p: Record<string, unknown>, keys: JsonPath) => {
+    for (const [k, v] of Object.entries(p)) {
+      const path = [...keys, k];
+      const existing = isPlainObject(current) ? current[k] : undefined;
+      if (isPlainObject(v) && isPlainObject(existing)) {
+        walk(existing, v, path);
+        continue;
+      }
+      const strategy = Array.isArray(v) && Array.isArray(existing) ? strategyFor(opts.arrays, path) : "replace";
+      if (strategy === "replace") {
+        if (JSON.stringify(existing) !== JSON.stringify(v)) out = setJsoncValue(out, path, v, file);
+        continue;
+      }
+      const seen = new Set((existing as unknown[]).map((e) => JSON.stringify(e)));
+      const items: unknown[] = [];
+      for (const item of v as unknown[]) {
+        const key = JSON.stringify(item);
+        if (strategy === "unique" && seen.has(key)) continue;
+        seen.add(key);
+        items.push(item);
+      }
+      out = appendJsoncArray(out, path, items, file);
+    }
+  };
+  walk(out.trim() ? parseJsonc(out, file) : {}, patch, []);
+  return out;
+}
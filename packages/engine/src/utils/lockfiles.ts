@@ -0,0 +1,207 @@
+// packages/engine/src/utils/lockfiles.ts
+// -----------------------------------------------------------------------------
+// 패키지 매니저 / lockfile 판별
+// - 우선순위: package.json "packageManager"(Corepack) → lockfile → .yarnrc.yml → npm
+// - lockfile 이 여러 매니저 것으로 섞여 있으면 가장 최근에 수정된 것을 고르고 conflicts 에 기록
+// - Yarn Berry(.yarnrc.yml / yarn@2+ / yarn.lock 의 __metadata) 구분
+// - 다른 매니저로 통일할 때의 스크립트 치환(npm run → pnpm run 등)
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import type { PackageManager } from "../core/plan-schema.js";
+
+export const PACKAGE_MANAGERS: PackageManager[] = ["npm", "pnpm", "yarn", "bun"];
+
+/** 매니저별 lockfile (앞쪽이 대표 파일) */
+export const LOCKFILES: Record<PackageManager, string[]> = {
+  npm: ["package-lock.json", "npm-shrinkwrap.json"],
+  pnpm: ["pnpm-lock.yaml"],
+  yarn: ["yarn.lock"],
+  bun: ["bun.lock", "bun.lockb"],
+};
+
+/** Yarn PnP 산출물 (Berry 에서 다른 매니저로 옮길 때 제거) */
+export const YARN_PNP_FILES = [".pnp.cjs", ".pnp.loader.mjs", ".pnp.js"];
+
+export type PackageManagerSource = "packageManager" | "lockfile" | "yarnrc" | "default";
+
+export type LockfileEntry = { file: string; pm: PackageManager };
+
+export type LockfileReport = {
+  packageManager: PackageManager;
+  source: PackageManagerSource;
+  /** package.json "packageManager" 값 (Corepack) */
+  corepack?: { name: PackageManager; version?: string; raw: string };
+  /** 루트에 있는 lockfile 들 (수정 시각 최신순) */
+  lockfiles: LockfileEntry[];
+  /** Yarn 2+ (Berry) 여부 — packageManager 가 yarn 일 때만 의미 있음 */
+  yarnBerry: boolean;
+  /** 사람이 읽을 충돌 설명. 비어 있으면 문제 없음 */
+  conflicts: string[];
+};
+
+/** "pnpm@8.15.4+sha256.abc" → { name: "pnpm", version: "8.15.4" } */
+export function parsePackageManagerField(raw: unknown): LockfileReport["corepack"] | undefined {
+  if (typeof raw !== "string") return undefined;
+  const m = raw.trim().match(/^(npm|pnpm|yarn|bun)(?:@([^+\s]+))?/);
+  if (!m) return undefined;
+  return { name: m[1] as PackageManager, version: m[2], raw };
+}
+
+const major = (v?: string) => Number(String(v ?? "").match(/^(\d+)/)?.[1] ?? NaN);
+
+function readPackageJsonSync(root: string): any {
+  try {
+    return fs.readJsonSync(path.join(root, "package.json"));
+  } catch {
+    return null;
+  }
+}
+
+function listLockfilesSync(root: string): LockfileEntry[] {
+  const found: Array<LockfileEntry & { mtime: number }> = [];
+  for (const pm of PACKAGE_MANAGERS) {
+    for (const file of LOCKFILES[pm]) {
+      try {
+        const st = fs.statSync(path.join(root, file));
+        if (st.isFile()) found.push({ file, pm, mtime: st.mtimeMs });
+      } catch {
+        // 없음
+      }
+    }
+  }
+  return found.sort((a, b) => b.mtime - a.mtime).map(({ file, pm }) => ({ file, pm }));
+}
+
+function isYarnBerry(root: string, corepack: LockfileReport["corepack"]): boolean {
+  if (corepack?.name === "yarn" && major(corepack.version) >= 2) return true;
+  if (fs.existsSync(path.join(root, ".yarnrc.yml"))) return true;
+  try {
+    return /^__metadata:/m.test(fs.readFileSync(path.join(root, "yarn.lock"), "utf8").slice(0, 4096));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 루트의 패키지 매니저/lockfile 상태. 동기 버전 — 실행기(runner 등)의 동기 경로에서도 씁니다.
+ */
+export function inspectLockfilesSync(root: string): LockfileReport {
+  const pkg = readPackageJsonSync(root);
+  const corepack = parsePackageManagerField(pkg?.packageManager);
+  const lockfiles = listLockfilesSync(root);
+  const managers = [...new Set(lockfiles.map((l) => l.pm))];
+  const conflicts: string[] = [];
+
+  let packageManager: PackageManager;
+  let source: PackageManagerSource;
+  if (corepack) {
+    packageManager = corepack.name;
+    source = "packageManager";
+  } else if (managers.length > 0) {
+    packageManager = managers[0];
+    source = "lockfile";
+  } else if (fs.existsSync(path.join(root, ".yarnrc.yml"))) {
+    packageManager = "yarn";
+    source = "yarnrc";
+  } else {
+    packageManager = "npm";
+    source = "default";
+  }
+
+  if (managers.length > 1) {
+    conflicts.push(
+      `Lockfiles from ${managers.length} package managers: ${lockfiles.map((l) => l.file).join(", ")}`
+    );
+  }
+  if (corepack && managers.length > 0 && !managers.includes(corepack.name)) {
+    conflicts.push(
+      `package.json "packageManager" is ${corepack.raw} but the lockfile is ${lockfiles.map((l) => l.file).join(", ")}`
+    );
+  }
+  const yarnBerry = packageManager === "yarn" && isYarnBerry(root, corepack);
+  if (packageManager === "yarn" && corepack && major(corepack.version) === 1 && fs.existsSync(path.join(root, ".yarnrc.yml"))) {
+    conflicts.push(`.yarnrc.yml (Yarn Berry) present but "packageManager" pins ${corepack.raw}`);
+  }
+
+  return { packageManager, source, ...(corepack ? { corepack } : {}), lockfiles, yarnBerry, conflicts };
+}
+
+export async function inspectLockfiles(root: string): Promise<LockfileReport> {
+  return inspectLockfilesSync(root);
+}
+
+/** 실행기용 축약형 */
+export function detectPackageManager(root: string): PackageManager {
+  return inspectLockfilesSync(root).packageManager;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 매니저 통일: 스크립트 치환
+// ─────────────────────────────────────────────────────────────────────────────
+function runCommand(pm: PackageManager, script: string): string {
+  return pm === "yarn" ? `yarn ${script}` : `${pm} run ${script}`;
+}
+
+function installCommand(pm: PackageManager, frozen: boolean, yarnBerry = false): string {
+  if (!frozen) return `${pm} install`;
+  if (pm === "npm") return "npm ci";
+  if (pm === "yarn") return yarnBerry ? "yarn install --immutable" : "yarn install --frozen-lockfile";
+  return `${pm} install --frozen-lockfile`;
+}
+
+/**
+ * 스크립트 한 줄에서 다른 매니저 호출을 target 으로 바꿉니다.
+ * npm run X / npm run-script X / pnpm run X / bun run X / yarn run X / yarn X(스크립트 이름일 때)
+ * npm ci / npm install / npm i (인자 없는 전체 설치) / yarn [install] / pnpm install / bun install
+ */
+export function rewriteScript(
+  cmd: string,
+  target: PackageManager,
+  scriptNames: string[],
+  options: { yarnBerry?: boolean } = {}
+): string {
+  const others = PACKAGE_MANAGERS.filter((p) => p !== target).join("|");
+  const names = new Set(scriptNames);
+  const end = "(?=\\s*(?:$|&&|\\|\\||;|\\||\\)))";
+
+  let out = cmd
+    // run <script> [-- args]
+    .replace(new RegExp(`\\b(${others}) run(?:-script)? ([\\w:.@/-]+)`, "g"), (_m, _pm, s) => runCommand(target, s))
+    // npm start / npm test (run 없이 쓰는 내장 스크립트)
+    .replace(new RegExp(`\\bnpm (start|test)\\b`, "g"), (m, s) => (target === "npm" ? m : runCommand(target, s)))
+    // 전체 설치
+    .replace(new RegExp(`\\bnpm ci${end}`, "g"), () => installCommand(target, true, options.yarnBerry))
+    .replace(new RegExp(`\\b(${others}) (?:install|i)${end}`, "g"), () => installCommand(target, false))
+    .replace(/\b(pnpm|bun) install --frozen-lockfile\b|\byarn install --(?:frozen-lockfile|immutable)\b/g, (m, pm) =>
+      (pm ?? "yarn") === target ? m : installCommand(target, true, options.yarnBerry)
+    );
+
+  if (target !== "yarn") {
+    // yarn <script> / 인자 없는 yarn
+    out = out
+      .replace(/\byarn ([\w:.@/-]+)/g, (m, s) => (names.has(s) ? runCommand(target, s) : m))
+      .replace(new RegExp(`(^|&&\\s*|;\\s*)yarn${end}`, "g"), (_m, pre) => `${pre}${installCommand(target, false)}`);
+  }
+  if (target !== "pnpm") {
+    // pnpm <script> (run 생략형)
+    out = out.replace(/\bpnpm ([\w:.@/-]+)/g, (m, s) => (names.has(s) ? runCommand(target, s) : m));
+  }
+  return out;
+}
+
+/** package.json scripts 중 바뀌는 것만 */
+export function rewriteScripts(
+  scripts: Record<string, string>,
+  target: PackageManager,
+  options: { yarnBerry?: boolean } = {}
+): Record<string, string> {
+  const names = Object.keys(scripts);
+  const changed: Record<string, string> = {};
+  for (const [name, cmd] of Object.entries(scripts)) {
+    if (typeof cmd !== "string") continue;
+    const next = rewriteScript(cmd, target, names, options);
+    if (next !== cmd) changed[name] = next;
+  }
+  return changed;
+}
@@ -0,0 +1,369 @@
+// packages/engine/src/utils/module-format.ts
+// -----------------------------------------------------------------------------
+// CommonJS → ESM 소스 코드모드 ("type": "module" / NodeNext 전환의 짝)
+// - require / module.exports / exports.x → import / export
+// - __dirname / __filename → import.meta.dirname·filename (Node 22+) 또는 fileURLToPath 헤더
+// - 상대 경로 import 에 NodeNext 가 요구하는 확장자(.js) 추가 ("./a" → "./a.js", "./lib" → "./lib/index.js")
+// - 변환이 깔끔하지 않은 루트 설정 파일(*.config.js, .eslintrc.js …)은 .cjs 로 이름만 바꿈
+// - 편집은 AST 노드 범위 텍스트 교체 → 나머지 포맷/주석은 그대로
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import ts from "typescript";
+import type { PlanStep } from "../core/plan-schema.js";
+import { listServerFiles } from "./server-entry.js";
+import { inspectNodeVersion } from "./node-version.js";
+
+export type EsmTransformOptions = {
+  /** 프로젝트 루트 기준 파일 목록 — 확장자 없는 상대 경로 해석에 사용 */
+  files?: ReadonlySet<string>;
+  /** module.exports 없이 exports.x 만 쓰는 모듈 (default import 대신 import * as) */
+  namedOnly?: ReadonlySet<string>;
+  /** true면 __dirname → import.meta.dirname (Node 20.11+) */
+  importMetaDirname?: boolean;
+};
+
+export type EsmTransformResult = {
+  text: string;
+  changed: boolean;
+  /** 정적으로 옮기지 못해 createRequire 로 남긴 require 가 있는지 */
+  keptRequire: boolean;
+  usesDirname: boolean;
+};
+
+type Edit = { start: number; end: number; text: string };
+
+const RESOLVE_EXTS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+/** 소스 확장자 → 실행 시 확장자 */
+const RUNTIME_EXT: Record<string, string> = {
+  ".ts": ".js",
+  ".tsx": ".js",
+  ".mts": ".mjs",
+  ".cts": ".cjs",
+  ".js": ".js",
+  ".jsx": ".jsx",
+  ".mjs": ".mjs",
+  ".cjs": ".cjs",
+};
+const HAS_EXT = /\.(?:[cm]?[jt]sx?|json|node|css|wasm)$/;
+
+/** 루트에 흔히 있는 CJS 설정 파일 */
+const ROOT_CONFIG_RE = /^(?:[\w-]+\.config|\.(?:eslintrc|prettierrc|babelrc|stylelintrc|lintstagedrc|mocharc))\.js$/;
+
+/** require() 로만 읽는 도구(ESLint legacy, Babel 동기 API) → 변환 대신 항상 .cjs */
+const REQUIRE_ONLY_CONFIG_RE = /^(?:\.\w+rc|babel\.config)\.js$/;
+
+const CJS_HINT = /\brequire\s*\(|\bmodule\.exports\b|\bexports\.\w+\s*=|__dirname|__filename/;
+
+function parse(text: string, file: string): ts.SourceFile {
+  const kind = /\.(c|m)?tsx?$/.test(file) ? (/x$/.test(file) ? ts.ScriptKind.TSX : ts.ScriptKind.TS) : ts.ScriptKind.JSX;
+  return ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true, kind);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 노드 판별
+// ─────────────────────────────────────────────────────────────────────────────
+/** require("m") → "m" */
+function requiredModule(node: ts.Node): string | undefined {
+  if (
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "require" &&
+    node.arguments.length === 1 &&
+    ts.isStringLiteralLike(node.arguments[0])
+  ) {
+    return node.arguments[0].text;
+  }
+  return undefined;
+}
+
+/** module.exports / exports / module.exports.x / exports.x */
+function exportsTarget(node: ts.Expression): { prop?: string } | undefined {
+  const isModuleExports = (e: ts.Expression) =>
+    ts.isPropertyAccessExpression(e) && ts.isIdentifier(e.expression) && e.expression.text === "module" && e.name.text === "exports";
+  if (isModuleExports(node)) return {};
+  if (ts.isPropertyAccessExpression(node)) {
+    const base = node.expression;
+    if ((ts.isIdentifier(base) && base.text === "exports") || isModuleExports(base)) return { prop: node.name.text };
+  }
+  return undefined;
+}
+
+/** { a, b: c } 처럼 식별자만 담은 객체 → [exported, local] 목록 */
+function identifierObject(node: ts.Expression): Array<[string, string]> | undefined {
+  if (!ts.isObjectLiteralExpression(node)) return undefined;
+  const out: Array<[string, string]> = [];
+  for (const p of node.properties) {
+    if (ts.isShorthandPropertyAssignment(p)) out.push([p.name.text, p.name.text]);
+    else if (ts.isPropertyAssignment(p) && ts.isIdentifier(p.name) && ts.isIdentifier(p.initializer)) out.push([p.name.text, p.initializer.text]);
+    else return undefined;
+  }
+  return out;
+}
+
+/** const { a, b: c } = … → "a, b as c" (중첩/기본값/rest 면 undefined) */
+function namedBindings(pattern: ts.ObjectBindingPattern): string | undefined {
+  const names: string[] = [];
+  for (const el of pattern.elements) {
+    if (el.dotDotDotToken || el.initializer || !ts.isIdentifier(el.name)) return undefined;
+    const local = el.name.text;
+    const imported = el.propertyName && ts.isIdentifier(el.propertyName) ? el.propertyName.text : local;
+    names.push(imported === local ? local : `${imported} as ${local}`);
+  }
+  return names.join(", ");
+}
+
+function isReferenceTo(node: ts.Identifier, name: string): boolean {
+  if (node.text !== name) return false;
+  const p = node.parent;
+  if (ts.isPropertyAccessExpression(p) && p.name === node) return false;
+  if ((ts.isPropertyAssignment(p) || ts.isPropertyDeclaration(p) || ts.isMethodDeclaration(p)) && p.name === node) return false;
+  if (ts.isVariableDeclaration(p) && p.name === node) return false;
+  if (ts.isParameter(p) && p.name === node) return false;
+  return true;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 확장자 보정
+// ─────────────────────────────────────────────────────────────────────────────
+/** "./a" → "./a.js" / "./lib" → "./lib/index.js" (프로젝트에 실제 파일이 있을 때만) */
+export function withRuntimeExtension(spec: string, fromFile: string, files: ReadonlySet<string>): string {
+  if (!/^\.{1,2}\//.test(spec) || HAS_EXT.test(spec)) {
+    // TS 소스가 .ts 로 직접 가리키면 런타임 확장자로
+    const m = spec.match(/^(\.{1,2}\/.*)(\.[cm]?tsx?)$/);
+    return m && !m[2].endsWith("x") ? m[1] + RUNTIME_EXT[m[2]] : spec;
+  }
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), spec));
+  for (const ext of RESOLVE_EXTS) {
+    if (files.has(base + ext)) return spec + RUNTIME_EXT[ext];
+  }
+  for (const ext of RESOLVE_EXTS) {
+    if (files.has(`${base}/index${ext}`)) return `${spec.replace(/\/$/, "")}/index${RUNTIME_EXT[ext]}`;
+  }
+  return spec;
+}
+
+function resolveLocal(spec: string, fromFile: string, files: ReadonlySet<string>): string | undefined {
+  if (!/^\.{1,2}\//.test(spec)) return undefined;
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), spec));
+  if (files.has(base)) return base;
+  for (const ext of RESOLVE_EXTS) if (files.has(base + ext)) return base + ext;
+  for (const ext of RESOLVE_EXTS) if (files.has(`${base}/index${ext}`)) return `${base}/index${ext}`;
+  return undefined;
+}
+
+/** module.exports = … 없이 exports.x 만 쓰는 파일인지 (default import 불가) */
+export function exportsNamedOnly(text: string): boolean {
+  return /\bexports\.\w+\s*=/.test(text) && !/\bmodule\.exports\s*=[^=]/.test(text);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 변환
+// ─────────────────────────────────────────────────────────────────────────────
+/**
+ * CommonJS 소스를 ESM 으로. 이미 ESM 이면 상대 경로 확장자만 보정합니다.
+ * 최상위의 정적 require / module.exports 만 import / export 로 옮기고,
+ * 함수 안의 require 나 require.resolve 는 createRequire 로 살려 둡니다.
+ */
+export function toEsmSource(text: string, file: string, options: EsmTransformOptions = {}): EsmTransformResult {
+  const sf = parse(text, file);
+  const files = options.files ?? new Set<string>();
+  const edits: Edit[] = [];
+  const handled = new Set<ts.Node>();
+  const spec = (m: string) => JSON.stringify(withRuntimeExtension(m, file, files));
+  const isNamedOnly = (m: string) => {
+    const target = resolveLocal(m, file, files);
+    return Boolean(target && options.namedOnly?.has(target));
+  };
+  const replace = (node: ts.Node, next: string) => {
+    edits.push({ start: node.getStart(sf), end: node.getEnd(), text: next });
+    handled.add(node);
+  };
+
+  // 1) 최상위 문장
+  for (const stmt of sf.statements) {
+    // "use strict" — ESM 은 항상 strict
+    if (ts.isExpressionStatement(stmt) && ts.isStringLiteral(stmt.expression) && stmt.expression.text === "use strict") {
+      const end = text[stmt.getEnd()] === "\n" ? stmt.getEnd() + 1 : stmt.getEnd();
+      edits.push({ start: stmt.getStart(sf), end, text: "" });
+      continue;
+    }
+
+    // import x = require("m") (TS)
+    if (ts.isImportEqualsDeclaration(stmt) && ts.isExternalModuleReference(stmt.moduleReference)) {
+      const ref = stmt.moduleReference.expression;
+      if (ts.isStringLiteralLike(ref)) {
+        const name = stmt.name.text;
+        replace(stmt, isNamedOnly(ref.text) ? `import * as ${name} from ${spec(ref.text)};` : `import ${name} from ${spec(ref.text)};`);
+      }
+      continue;
+    }
+
+    // export = X (TS)
+    if (ts.isExportAssignment(stmt) && stmt.isExportEquals) {
+      replace(stmt, `export default ${stmt.expression.getText(sf)};`);
+      continue;
+    }
+
+    // const x = require("m") / const { a } = require("m") / const y = require("m").y
+    if (ts.isVariableStatement(stmt) && stmt.declarationList.declarations.length === 1) {
+      const decl = stmt.declarationList.declarations[0];
+      const init = decl.initializer;
+      if (!init) continue;
+      let mod = requiredModule(init);
+      let prop: string | undefined;
+      if (!mod && ts.isPropertyAccessExpression(init)) {
+        mod = requiredModule(init.expression);
+        prop = init.name.text;
+      }
+      if (mod === undefined) continue;
+
+      if (ts.isIdentifier(decl.name)) {
+        const name = decl.name.text;
+        if (!prop || prop === "default") {
+          replace(stmt, isNamedOnly(mod) && !prop ? `import * as ${name} from ${spec(mod)};` : `import ${name} from ${spec(mod)};`);
+        } else {
+          replace(stmt, `import { ${prop === name ? name : `${prop} as ${name}`} } from ${spec(mod)};`);
+        }
+      } else if (ts.isObjectBindingPattern(decl.name) && !prop) {
+        const names = namedBindings(decl.name);
+        if (names !== undefined) replace(stmt, `import { ${names} } from ${spec(mod)};`);
+      }
+      continue;
+    }
+
+    if (!ts.isExpressionStatement(stmt)) continue;
+    const expr = stmt.expression;
+
+    // require("m"); → 부수효과 import
+    const side = requiredModule(expr);
+    if (side !== undefined) {
+      replace(stmt, `import ${spec(side)};`);
+      continue;
+    }
+
+    // module.exports = X / exports.x = X
+    if (ts.isBinaryExpression(expr) && expr.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      const target = exportsTarget(expr.left);
+      if (!target) continue;
+      const right = expr.right;
+      const rightText = right.getText(sf);
+      if (target.prop === undefined) {
+        const ids = identifierObject(right);
+        const named = ids?.length
+          ? `export { ${ids.map(([exported, local]) => (exported === local ? local : `${local} as ${exported}`)).join(", ")} };\n`
+          : "";
+        replace(stmt, `${named}export default ${rightText};`);
+      } else if (ts.isIdentifier(right)) {
+        replace(stmt, right.text === target.prop ? `export { ${right.text} };` : `export { ${right.text} as ${target.prop} };`);
+      } else {
+        replace(stmt, `export const ${target.prop} = ${rightText};`);
+      }
+    }
+  }
+
+  // 2) 나머지: ESM import/export 확장자, import("./x"), 남은 require, __dirname
+  let keptRequire = false;
+  let usesDirname = false;
+  let usesFilename = false;
+  const visit = (node: ts.Node): void => {
+    if (handled.has(node)) return;
+    if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier && ts.isStringLiteralLike(node.moduleSpecifier)) {
+      const current = node.moduleSpecifier.text;
+      const next = withRuntimeExtension(current, file, files);
+      if (next !== current) edits.push({ start: node.moduleSpecifier.getStart(sf), end: node.moduleSpecifier.getEnd(), text: JSON.stringify(next) });
+      return;
+    }
+    if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      const arg = node.arguments[0];
+      if (arg && ts.isStringLiteralLike(arg)) {
+        const next = withRuntimeExtension(arg.text, file, files);
+        if (next !== arg.text) edits.push({ start: arg.getStart(sf), end: arg.getEnd(), text: JSON.stringify(next) });
+      }
+    }
+    if (ts.isIdentifier(node)) {
+      if (isReferenceTo(node, "require")) keptRequire = true;
+      if (isReferenceTo(node, "__dirname") || isReferenceTo(node, "__filename")) {
+        const isDir = node.text === "__dirname";
+        if (options.importMetaDirname) {
+          edits.push({ start: node.getStart(sf), end: node.getEnd(), text: isDir ? "import.meta.dirname" : "import.meta.filename" });
+        } else if (isDir) {
+          usesDirname = true;
+        } else {
+          usesFilename = true;
+        }
+      }
+      return;
+    }
+    // module.exports 가 식 안에 남아 있으면 (조건부 export 등) 건드리지 않음
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sf, visit);
+
+  // 3) 헤더 (createRequire / __dirname)
+  const header: string[] = [];
+  if (keptRequire) header.push(`import { createRequire } from "node:module";`);
+  if (usesDirname || usesFilename) header.push(`import { fileURLToPath } from "node:url";`);
+  if (usesDirname) header.push(`import { dirname } from "node:path";`);
+  if (keptRequire) header.push("const require = createRequire(import.meta.url);");
+  if (usesDirname || usesFilename) header.push("const __filename = fileURLToPath(import.meta.url);");
+  if (usesDirname) header.push("const __dirname = dirname(__filename);");
+  if (header.length > 0) {
+    const shebang = text.match(/^#![^\n]*\n/);
+    const at = shebang ? shebang[0].length : 0;
+    edits.push({ start: at, end: at, text: header.join("\n") + "\n" });
+  }
+
+  if (edits.length === 0) return { text, changed: false, keptRequire, usesDirname: usesDirname || usesFilename };
+
+  // 뒤에서부터 적용해 앞쪽 오프셋 유지
+  let out = text;
+  for (const e of edits.sort((a, b) => b.start - a.start || b.end - a.end)) {
+    out = out.slice(0, e.start) + e.text + out.slice(e.end);
+  }
+  return { text: out, changed: out !== text, keptRequire, usesDirname: usesDirname || usesFilename };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 플랜
+// ─────────────────────────────────────────────────────────────────────────────
+/**
+ * "type": "module" 로 바꿀 때 함께 필요한 소스 변환 스텝.
+ * - 루트 CJS 설정 파일: 깔끔히 변환되면 제자리 ESM, 아니면 .cjs 로 이름 변경
+ * - bundled(Next/Vite 등)가 아니면 서버 소스 전체: CJS → ESM + 상대 경로 확장자
+ */
+export async function planEsmSource(projectRoot: string, options: { sources?: boolean } = {}): Promise<PlanStep[]> {
+  const steps: PlanStep[] = [];
+  const major = Number((await inspectNodeVersion(projectRoot)).major);
+  const importMetaDirname = major >= 22;
+
+  // 1) 루트 설정 파일
+  const rootFiles = await fs.readdir(projectRoot).catch(() => [] as string[]);
+  for (const name of rootFiles.filter((f: string) => ROOT_CONFIG_RE.test(f)).sort()) {
+    const text = await fs.readFile(path.join(projectRoot, name), "utf8").catch(() => "");
+    if (!CJS_HINT.test(text)) continue;
+    const r = toEsmSource(text, name, { importMetaDirname });
+    if (!REQUIRE_ONLY_CONFIG_RE.test(name) && r.changed && !r.keptRequire && !r.usesDirname && !CJS_HINT.test(r.text.replace(/import\.meta\.\w+/g, ""))) {
+      steps.push({ type: "text.patch", file: name, before: text, after: r.text, description: `Convert ${name} to ESM` });
+    } else {
+      const renamed = name.replace(/\.js$/, ".cjs");
+      steps.push({ type: "copy", source: name, file: renamed, description: `Keep ${name} as CommonJS (${renamed})` });
+      steps.push({ type: "delete", file: name });
+    }
+  }
+  if (options.sources === false) return steps;
+
+  // 2) 서버 소스
+  const files = (await listServerFiles(projectRoot)).filter((f) => !/\.c[jt]s$/.test(f));
+  const known = new Set(files);
+  const texts = new Map<string, string>();
+  for (const f of files) texts.set(f, await fs.readFile(path.join(projectRoot, f), "utf8").catch(() => ""));
+  const namedOnly = new Set(files.filter((f) => exportsNamedOnly(texts.get(f) ?? "")));
+
+  for (const f of files) {
+    const text = texts.get(f) ?? "";
+    const r = toEsmSource(text, f, { files: known, namedOnly, importMetaDirname });
+    if (r.changed) steps.push({ type: "text.patch", file: f, before: text, after: r.text, description: `Convert ${f} to ESM` });
+  }
+  return steps;
+}
@@ -0,0 +1,267 @@
+// packages/engine/src/utils/node-version.ts
+// -----------------------------------------------------------------------------
+// 프로젝트가 요구하는 Node 버전 판별
+// - 출처: .nvmrc / .node-version / .tool-versions / package.json volta / replit.nix / .replit (고정값)
+//         package.json engines.node (범위)
+// - 의존성 최소 요구(next 14 → >=18.17.0 등, depsRegistry.NODE_REQUIREMENTS)와 비교해 충돌 보고
+// - report.major 가 배포 타깃(Dockerfile / netlify / vercel)이 쓰는 단일 기준
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import { NODE_RELEASES, NODE_REQUIREMENTS } from "./depsRegistry.js";
+
+export const DEFAULT_NODE_VERSION = "20";
+
+export type NodeVersionSource = "nvmrc" | "node-version" | "tool-versions" | "volta" | "replit.nix" | "replit" | "engines";
+
+export type NodeVersionHint = {
+  source: NodeVersionSource;
+  file: string;
+  /** 파일에 적힌 값 그대로 */
+  raw: string;
+  /** 고정 버전 ("18", "18.17.0") — engines 처럼 범위면 없음 */
+  version?: string;
+  /** engines.node 범위 */
+  range?: string;
+};
+
+/** 의존성이 요구하는 최소 Node (package@range → min) */
+export type NodeRequirement = { package: string; range: string; min: string };
+
+export type NodeVersionReport = {
+  /** 권장 Node 메이저 — 타깃들이 쓰는 값 */
+  major: string;
+  source: NodeVersionSource | "requirement" | "default";
+  hints: NodeVersionHint[];
+  requirements: NodeRequirement[];
+  /** requirements 중 가장 높은 것 */
+  required?: NodeRequirement;
+  /** 선언된 버전이 required 를 못 맞추는지 */
+  unmet: boolean;
+  /** 사람이 읽을 충돌 설명. 비어 있으면 문제 없음 */
+  conflicts: string[];
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 버전/범위 (engines.node 에 나오는 정도만 다루는 작은 semver)
+// ─────────────────────────────────────────────────────────────────────────────
+type Version = [number, number, number];
+type Interval = { min: Version; max?: Version };
+
+const LTS_CODENAMES: Record<string, string> = {
+  argon: "4", boron: "6", carbon: "8", dubnium: "10", erbium: "12",
+  fermium: "14", gallium: "16", hydrogen: "18", iron: "20", jod: "22",
+};
+
+/** ">=18.17", "18.x", "v20.11.0", "lts/iron" 등에서 메이저 버전만 추출 */
+export function nodeMajor(spec: string | undefined): string | undefined {
+  const s = String(spec ?? "").trim().toLowerCase();
+  const lts = s.match(/^lts\/([a-z]+)$/)?.[1];
+  if (lts) return LTS_CODENAMES[lts];
+  return s.match(/(\d+)/)?.[1];
+}
+
+/** .nvmrc 류의 고정값 → "18" / "18.17" / "18.17.0" (lts/* · node 처럼 특정할 수 없으면 undefined) */
+export function normalizeNodeVersion(raw: string): string | undefined {
+  const s = raw.trim().toLowerCase();
+  const lts = s.match(/^lts\/([a-z]+)$/)?.[1];
+  if (lts) return LTS_CODENAMES[lts];
+  return s.match(/^v?(\d+(?:\.\d+){0,2})$/)?.[1];
+}
+
+/** 메이저의 스냅샷 최신 릴리스 (volta / .tool-versions 처럼 전체 버전이 필요한 곳용) */
+export function nodeReleaseFor(major: string): string {
+  return NODE_RELEASES[major] ?? `${major}.0.0`;
+}
+
+function parseVersion(v: string): Version {
+  const [a = 0, b = 0, c = 0] = v.split(".").map((n) => Number(n) || 0);
+  return [a, b, c];
+}
+
+const compare = (a: Version, b: Version) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+const format = (v: Version) => v.join(".");
+
+function nextAt(v: Version, precision: number): Version {
+  if (precision === 1) return [v[0] + 1, 0, 0];
+  if (precision === 2) return [v[0], v[1] + 1, 0];
+  return [v[0], v[1], v[2] + 1];
+}
+
+function parseComparator(token: string): Interval | undefined {
+  if (/^[x*]$/i.test(token)) return { min: [0, 0, 0] };
+  const m = token.match(/^(>=|<=|>|<|=|\^|~)?v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?/i);
+  if (!m) return undefined;
+  const num = (p?: string) => (p !== undefined && /^\d+$/.test(p) ? Number(p) : undefined);
+  const b = num(m[3]);
+  const c = b === undefined ? undefined : num(m[4]);
+  const precision = b === undefined ? 1 : c === undefined ? 2 : 3;
+  const v: Version = [Number(m[2]), b ?? 0, c ?? 0];
+
+  switch (m[1] ?? "") {
+    case ">=": return { min: v };
+    case ">": return { min: nextAt(v, precision) };
+    case "<": return { min: [0, 0, 0], max: v };
+    case "<=": return { min: [0, 0, 0], max: nextAt(v, precision) };
+    case "^": return { min: v, max: v[0] > 0 ? [v[0] + 1, 0, 0] : nextAt(v, Math.min(precision, 2)) };
+    case "~": return { min: v, max: nextAt(v, Math.min(precision, 2)) };
+    default: return { min: v, max: nextAt(v, precision) };
+  }
+}
+
+/** "^18.17.0 || >=20" → 허용 구간 목록 */
+function parseRange(range: string): Interval[] {
+  return range
+    .split("||")
+    .map((part) => {
+      const hyphen = part.trim().match(/^(\S+)\s+-\s+(\S+)$/);
+      const tokens = hyphen
+        ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`]
+        : part.trim().replace(/(>=|<=|>|<|=|\^|~)\s+/g, "$1").split(/\s+/).filter(Boolean);
+      const iv: Interval = { min: [0, 0, 0] };
+      for (const t of tokens) {
+        const c = parseComparator(t);
+        if (!c) continue;
+        if (compare(c.min, iv.min) > 0) iv.min = c.min;
+        if (c.max && (!iv.max || compare(c.max, iv.max) < 0)) iv.max = c.max;
+      }
+      return iv;
+    })
+    .filter((iv) => !iv.max || compare(iv.min, iv.max) < 0);
+}
+
+export function satisfiesNode(version: string, range: string): boolean {
+  const v = parseVersion(version);
+  return parseRange(range).some((iv) => compare(v, iv.min) >= 0 && (!iv.max || compare(v, iv.max) < 0));
+}
+
+/** 범위가 허용하는 가장 낮은 버전 ("^18.17.0 || >=20" → "18.17.0") */
+export function minNodeVersion(range: string): string | undefined {
+  const ivs = parseRange(range);
+  if (ivs.length === 0) return undefined;
+  return format(ivs.map((iv) => iv.min).sort(compare)[0]);
+}
+
+/** "18" 처럼 일부만 고정된 값은 그 메이저/마이너의 최신으로 간주 (nvm install 18 과 같은 동작) */
+function resolvePin(version: string): string {
+  const parts = version.split(".");
+  if (parts.length === 3) return version;
+  const release = NODE_RELEASES[parts[0]];
+  if (release && release.startsWith(`${version}.`)) return release;
+  return [...parts, "999", "999"].slice(0, 3).join(".");
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 수집 / 판별
+// ─────────────────────────────────────────────────────────────────────────────
+async function readText(file: string): Promise<string | null> {
+  return fs.readFile(file, "utf8").catch(() => null);
+}
+
+/** 파일/설정 별 선언 (있는 것만, 아래 순서) */
+export async function collectNodeVersionHints(root: string, pkg?: any): Promise<NodeVersionHint[]> {
+  const hints: NodeVersionHint[] = [];
+  const pin = (source: NodeVersionSource, file: string, raw: string, version: string | undefined) => {
+    if (version) hints.push({ source, file, raw, version });
+  };
+
+  for (const [source, file] of [["nvmrc", ".nvmrc"], ["node-version", ".node-version"]] as const) {
+    const raw = (await readText(path.join(root, file)))?.split(/\r?\n/)[0]?.trim();
+    if (raw) pin(source, file, raw, normalizeNodeVersion(raw));
+  }
+
+  const tool = (await readText(path.join(root, ".tool-versions")))?.match(/^[ \t]*(?:nodejs|node)[ \t]+(\S+)/m);
+  if (tool) pin("tool-versions", ".tool-versions", tool[1], normalizeNodeVersion(tool[1]));
+
+  if (typeof pkg?.volta?.node === "string") pin("volta", "package.json", pkg.volta.node, normalizeNodeVersion(pkg.volta.node));
+
+  // replit.nix: pkgs.nodejs-18_x / pkgs.nodejs_20, .replit: modules = ["nodejs-20"]
+  const nix = (await readText(path.join(root, "replit.nix")))?.replace(/#.*$/gm, "").match(/\bnodejs[-_](\d+)\w*/);
+  if (nix) pin("replit.nix", "replit.nix", nix[0], nix[1]);
+  const replit = (await readText(path.join(root, ".replit")))?.match(/["']nodejs-(\d+)["']/);
+  if (replit) pin("replit", ".replit", replit[0].slice(1, -1), replit[1]);
+
+  const engines = pkg?.engines?.node;
+  if (typeof engines === "string" && engines.trim()) {
+    hints.push({ source: "engines", file: "package.json", raw: engines, range: engines.trim() });
+  }
+  return hints;
+}
+
+/** 설치된 의존성 메이저로 본 최소 Node 요구 */
+export function nodeRequirements(pkg: any): NodeRequirement[] {
+  const deps: Record<string, unknown> = { ...pkg?.devDependencies, ...pkg?.dependencies };
+  const out: NodeRequirement[] = [];
+  for (const [name, byMajor] of Object.entries(NODE_REQUIREMENTS)) {
+    const range = deps[name];
+    if (typeof range !== "string") continue;
+    const min = byMajor[range.match(/(\d+)/)?.[1] ?? ""];
+    if (min) out.push({ package: name, range, min });
+  }
+  return out;
+}
+
+export function describeNodeHint(h: NodeVersionHint): string {
+  if (h.source === "engines") return `engines.node "${h.raw}"`;
+  if (h.source === "volta") return `volta.node ${h.raw}`;
+  return `${h.file} (${h.raw})`;
+}
+
+export async function inspectNodeVersion(root: string): Promise<NodeVersionReport> {
+  const pkg = await fs.readJson(path.join(root, "package.json")).catch(() => ({} as any));
+  const hints = await collectNodeVersionHints(root, pkg);
+  const requirements = nodeRequirements(pkg);
+  const required = requirements.reduce<NodeRequirement | undefined>(
+    (top, r) => (!top || compare(parseVersion(r.min), parseVersion(top.min)) > 0 ? r : top),
+    undefined
+  );
+  const pins = hints.filter((h) => h.version);
+  const engines = hints.find((h) => h.range);
+  const conflicts: string[] = [];
+  let unmet = false;
+
+  if (new Set(pins.map((h) => nodeMajor(h.version))).size > 1) {
+    conflicts.push(`Node versions disagree: ${pins.map(describeNodeHint).join(", ")}`);
+  }
+  if (engines) {
+    for (const h of pins) {
+      if (!satisfiesNode(resolvePin(h.version!), engines.range!)) {
+        conflicts.push(`${describeNodeHint(h)} does not satisfy ${describeNodeHint(engines)}`);
+      }
+    }
+  }
+  if (required) {
+    const need = `${required.package}@${required.range} needs Node >=${required.min}`;
+    for (const h of pins) {
+      if (compare(parseVersion(resolvePin(h.version!)), parseVersion(required.min)) < 0) {
+        conflicts.push(`${describeNodeHint(h)} is too old (${need})`);
+        unmet = true;
+      }
+    }
+    const low = engines && minNodeVersion(engines.range!);
+    if (low && compare(parseVersion(low), parseVersion(required.min)) < 0) {
+      conflicts.push(`${describeNodeHint(engines)} allows Node ${low} (${need})`);
+      unmet = true;
+    }
+  }
+
+  // 고정값이 있으면 그중 가장 높은 메이저, 없으면 engines 가 허용하는 기본(20) 또는 하한
+  let major = DEFAULT_NODE_VERSION;
+  let source: NodeVersionReport["source"] = "default";
+  if (pins.length > 0) {
+    const top = pins.reduce((a, h) => (Number(nodeMajor(h.version)) > Number(nodeMajor(a.version)) ? h : a));
+    major = nodeMajor(top.version)!;
+    source = top.source;
+  } else if (engines) {
+    if (!satisfiesNode(resolvePin(DEFAULT_NODE_VERSION), engines.range!)) {
+      major = nodeMajor(minNodeVersion(engines.range!)) ?? DEFAULT_NODE_VERSION;
+    }
+    source = "engines";
+  }
+  if (required && !satisfiesNode(resolvePin(major), `>=${required.min}`)) {
+    major = nodeMajor(required.min)!;
+    source = "requirement";
+  }
+
+  return { major, source, hints, requirements, ...(required ? { required } : {}), unmet, conflicts };
+}
@@ -2,8 +2,9 @@
 import * as path from "path";
 import fs from "fs-extra";
 import type { MigrationStep } from "../core/types.js";
+import { mergeJsonc, parseJsonc } from "./jsonc.js";
 
-type Framework = "nextjs" | "vite";
+export type Framework = "nextjs" | "vite" | "remix" | "nuxt" | "sveltekit" | "astro" | "angular";
 
 type MergeOptions = {
   /** true면 기존 값을 덮어씁니다. 기본값 false(추가만). */
@@ -30,8 +31,88 @@ const DESIRED_SCRIPTS: Record<Framework, Record<string, string>> = {
     build: "vite build",
     preview: "vite preview",
   },
+  // Remix (Vite 플러그인). 구 컴파일러(remix.config.js)는 REMIX_CLASSIC_SCRIPTS
+  remix: {
+    dev: "remix vite:dev",
+    build: "remix vite:build",
+    start: "remix-serve ./build/server/index.js",
+  },
+  nuxt: {
+    dev: "nuxt dev",
+    build: "nuxt build",
+    generate: "nuxt generate",
+    preview: "nuxt preview",
+    start: "node .output/server/index.mjs",
+    postinstall: "nuxt prepare",
+  },
+  sveltekit: {
+    dev: "vite dev",
+    build: "vite build",
+    preview: "vite preview",
+    start: "vite preview",
+  },
+  astro: {
+    dev: "astro dev",
+    build: "astro build",
+    preview: "astro preview",
+    start: "astro preview",
+  },
+  // start 는 빌드 산출물 기준으로 desiredScripts() 에서 (ng serve 는 개발 서버)
+  angular: {
+    dev: "ng serve",
+    build: "ng build",
+    test: "ng test",
+  },
 };
 
+const REMIX_CLASSIC_SCRIPTS: Record<string, string> = {
+  dev: "remix dev",
+  build: "remix build",
+  start: "remix-serve ./build/index.js",
+};
+
+/** @angular/core 메이저 (범위에서 첫 숫자, 모르면 17) */
+export function angularMajor(pkg: any): number {
+  const range = String(pkg?.dependencies?.["@angular/core"] ?? pkg?.devDependencies?.["@angular/core"] ?? "");
+  return Number(range.match(/(\d+)/)?.[1] ?? 17);
+}
+
+/** angular.json 프로젝트 이름 (패키지 이름에서 scope 제거) — 산출물 경로 dist/<name> */
+export function angularProjectName(pkg: any): string {
+  return String(pkg?.name ?? "app").replace(/^@[^/]+\//, "").replace(/[^a-zA-Z0-9-]/g, "-") || "app";
+}
+
+/** SSR(@angular/ssr, 구 @nguniversal) 이면 Node 서버 산출물이 생김 */
+export function angularUsesSsr(pkg: any): boolean {
+  const deps = { ...pkg?.dependencies, ...pkg?.devDependencies };
+  return Boolean(deps["@angular/ssr"] || deps["@nguniversal/express-engine"]);
+}
+
+/**
+ * Angular 프로덕션 start: 빌드 산출물 실행
+ * - SSR: node dist/<app>/server/server.mjs
+ * - 그 외: serve 로 정적 파일 (17+ application 빌더는 dist/<app>/browser, 이전 browser 빌더는 dist/<app>)
+ */
+function angularStartScript(pkg: any): string {
+  const out = `dist/${angularProjectName(pkg)}`;
+  if (angularUsesSsr(pkg)) return `node ${out}/server/server.mjs`;
+  return `serve -s ${angularMajor(pkg) >= 17 ? `${out}/browser` : out}`;
+}
+
+/** 스크립트 보정 대상 프레임워크인지 */
+export function hasDesiredScripts(framework: string | undefined): framework is Framework {
+  return !!framework && Object.prototype.hasOwnProperty.call(DESIRED_SCRIPTS, framework);
+}
+
+/** 프레임워크 표준 스크립트 (Remix 는 vite 의존성 여부로 컴파일러 구분) */
+export function desiredScripts(framework: Framework, pkg?: any): Record<string, string> {
+  if (framework === "remix" && !(pkg?.dependencies?.vite || pkg?.devDependencies?.vite)) {
+    return REMIX_CLASSIC_SCRIPTS;
+  }
+  if (framework === "angular") return { ...DESIRED_SCRIPTS.angular, start: angularStartScript(pkg) };
+  return DESIRED_SCRIPTS[framework];
+}
+
 /** pkg.scripts에 desired를 병합. override=false면 '없는 키만' 추가 */
 function mergeScripts(
   pkgScripts: Record<string, string> | undefined,
@@ -53,7 +134,7 @@ function mergeScripts(
 
 /** framework 표준 스크립트를 pkg에 적용한 다음 결과/변경여부 반환 */
 function produceNextPkgWithScripts(pkg: any, framework: Framework, opts?: MergeOptions) {
-  const desired = DESIRED_SCRIPTS[framework];
+  const desired = desiredScripts(framework, pkg);
   const nextPkg = { ...pkg, scripts: { ...(pkg.scripts ?? {}) } };
 
   const { scripts, changed } = mergeScripts(nextPkg.scripts, desired, opts);
@@ -63,8 +144,8 @@ function produceNextPkgWithScripts(pkg: any, framework: Framework, opts?: MergeO
 }
 
 /**
- * ✅ Plan 단계: package.json 스크립트 수정이 필요하면 "modify" Step 생성
- *  - 디스크에 바로 쓰지 않음 (엔진 Apply에서 content로 대체)
+ * ✅ Plan 단계: package.json 스크립트 수정이 필요하면 "json.merge" Step 생성
+ *  - 디스크에 바로 쓰지 않음 (엔진 Apply에서 병합)
  *  - 기본은 사용자 커스텀 보존(override=false). 강제 교체하려면 opts.override=true 사용.
  */
 export async function planUpdatePackageJsonScripts(
@@ -81,14 +162,18 @@ export async function planUpdatePackageJsonScripts(
   const { nextPkg, changed } = produceNextPkgWithScripts(pkg, framework, opts);
   if (!changed) return [];
 
-  const pretty = JSON.stringify(nextPkg, null, 2) + "\n";
+  // 바뀐 스크립트 키만 json.merge 로 넘김 (나머지 package.json 내용은 건드리지 않음)
+  const scripts: Record<string, string> = {};
+  for (const [k, v] of Object.entries(nextPkg.scripts as Record<string, string>)) {
+    if (pkg.scripts?.[k] !== v) scripts[k] = v;
+  }
 
   return [
     {
-      type: "modify",
-      target: "package.json",
+      type: "json.merge",
+      file: "package.json",
       description: `Update package.json scripts for ${framework}${opts.override ? " (override)" : ""}`,
-      content: pretty, // Apply 단계에서 파일 전체를 이 내용으로 대체
+      merge: { scripts },
       required: true,
     },
   ];
@@ -111,7 +196,8 @@ export async function fixPackageJsonImmediate(
     throw new Error("package.json not found in project");
   }
 
-  const pkg = await fs.readJson(pkgPath);
+  const text = await fs.readFile(pkgPath, "utf8");
+  const pkg = parseJsonc(text, "package.json");
   const { nextPkg, changed } = produceNextPkgWithScripts(pkg, framework, { override });
 
   if (!changed) return { changed: false };
@@ -119,9 +205,10 @@ export async function fixPackageJsonImmediate(
   if (backup) {
     const bakPath = path.join(projectPath, "package.json.mofix.bak");
     // 기존 백업이 있으면 덮어쓰기(최근 상태만 유지)
-    await fs.writeFile(bakPath, JSON.stringify(pkg, null, 2) + "\n");
+    await fs.writeFile(bakPath, text);
   }
 
-  await fs.writeJson(pkgPath, nextPkg, { spaces: 2 });
+  // scripts 만 원문 위에서 편집 (나머지 포맷 유지)
+  await fs.writeFile(pkgPath, mergeJsonc(text, { scripts: nextPkg.scripts }, "package.json"));
   return { changed: true };
 }
@@ -0,0 +1,326 @@
+// packages/engine/src/utils/path-aliases.ts
+// -----------------------------------------------------------------------------
+// 경로 별칭(@/*, ~/*, @components/* …) 정합화
+// - 읽기: tsconfig.json(extends 체인 포함) / jsconfig.json paths, Vite·webpack resolve.alias
+// - 추론: 소스가 실제로 import 하는 별칭 (@/x → src/x 처럼 실제 파일이 있는 디렉터리)
+// - 동기화: 한쪽에만 있는 별칭을 다른 쪽에 추가 (양방향). 이미 있는 값은 덮어쓰지 않고 충돌로 보고
+// - 별칭 키는 "/*" 를 뗀 접두어 ("@/*" → "@"), 대상은 루트 기준 posix 디렉터리 ("src", ".")
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import type { PlanStep } from "../core/plan-schema.js";
+import { findConfigFile, readConfigValue } from "./config-ast.js";
+import { loadTsConfigLayers } from "./tsconfig.js";
+
+export type AliasSource = "tsconfig" | "jsconfig" | "vite" | "webpack" | "inferred";
+
+export type AliasEntry = {
+  /** 접두어 ("@", "~", "@components") */
+  key: string;
+  /** 루트 기준 디렉터리 ("src", "src/components", ".") */
+  target: string;
+  sources: AliasSource[];
+};
+
+export type AliasConfig = {
+  /** paths 를 적을 파일 (tsconfig.json 우선, 없으면 jsconfig.json) */
+  pathsFile?: "tsconfig.json" | "jsconfig.json";
+  /** pathsFile 이 paths 를 직접 갖는지 (false 면 extends 에서 상속) */
+  ownPaths: boolean;
+  /** paths 기준 디렉터리 (루트 기준, baseUrl 또는 paths 를 정의한 설정 파일 위치) */
+  pathsBase: string;
+  /** baseUrl (루트 기준). 비상대 import 해석에 쓰임 */
+  baseUrl?: string;
+  /** tsconfig/jsconfig 의 정확히 일치하는 키 (와일드카드 없음) */
+  exact: string[];
+  tsconfig: Record<string, string>;
+  viteConfig?: string;
+  /** Vite alias 가 배열형({ find, replacement }[])이면 키 편집 불가 */
+  viteArray: boolean;
+  vite: Record<string, string>;
+  webpack: Record<string, string>;
+};
+
+export type AliasReport = AliasConfig & {
+  aliases: AliasEntry[];
+  /** 소스가 실제로 쓰는 별칭 키 */
+  used: string[];
+  /** 같은 키가 서로 다른 디렉터리를 가리킴 */
+  conflicts: string[];
+};
+
+const MAX_FILES = 3000;
+const SOURCE_EXT = /\.(c|m)?(j|t)sx?$|\.(vue|svelte|astro)$/;
+const SKIP_DIRS = new Set([
+  "node_modules", ".git", "dist", "build", "out", ".next", ".nuxt", ".svelte-kit", ".astro",
+  ".output", ".vercel", ".netlify", ".turbo", "coverage", ".mofix", "public",
+]);
+const RESOLVE_EXTS = ["", ".ts", ".tsx", ".js", ".jsx", ".mjs", ".vue", ".svelte", "/index.ts", "/index.tsx", "/index.js", "/index.jsx"];
+const SPECIFIER = /(?:\bfrom\s*|\bimport\s*\(\s*|\brequire\s*\(\s*|^\s*import\s+)["']([^"'\n]+)["']/gm;
+
+const toPosix = (p: string) => p.split(path.sep).join("/");
+const rel = (root: string, abs: string) => toPosix(path.relative(root, abs)) || ".";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// tsconfig / jsconfig (extends 체인)
+// ─────────────────────────────────────────────────────────────────────────────
+type TsLayer = { file: string; compilerOptions: Record<string, any> };
+
+/** 설정 파일과 extends 조상들 (가까운 것부터, JSONC 허용) */
+async function loadTsLayers(file: string): Promise<TsLayer[]> {
+  const layers = await loadTsConfigLayers(file);
+  return layers.map((l) => ({ file: l.file, compilerOptions: l.config.compilerOptions ?? {} }));
+}
+
+/** "@/*": ["./src/*"] → { "@": "src" } (기준 디렉터리 적용) */
+function pathsToAliases(root: string, paths: Record<string, unknown>, baseAbs: string): { wildcard: Record<string, string>; exact: string[] } {
+  const wildcard: Record<string, string> = {};
+  const exact: string[] = [];
+  for (const [key, value] of Object.entries(paths)) {
+    const first = Array.isArray(value) ? value[0] : undefined;
+    if (typeof first !== "string" || key === "*") continue;
+    if (!key.endsWith("/*")) {
+      exact.push(key);
+      continue;
+    }
+    wildcard[key.slice(0, -2)] = rel(root, path.resolve(baseAbs, first.replace(/\/?\*$/, "") || "."));
+  }
+  return { wildcard, exact };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 번들러 alias
+// ─────────────────────────────────────────────────────────────────────────────
+/** alias 값(문자열 / path.resolve(__dirname, "src") / new URL("./src", import.meta.url)) → 루트 기준 디렉터리 */
+function aliasTarget(value: unknown): string | undefined {
+  let raw: string | undefined;
+  if (typeof value === "string") raw = value;
+  else if (value && typeof value === "object" && "$expr" in value) {
+    const strings = [...String((value as { $expr: string }).$expr).matchAll(/["'`]([^"'`]*)["'`]/g)].map((m) => m[1]);
+    raw = strings.filter((s) => s !== "path" && s !== "url").pop();
+  }
+  if (raw === undefined) return undefined;
+  const cleaned = raw.replace(/\\/g, "/").replace(/^\.?\/+/, "").replace(/\/+$/, "");
+  return cleaned === "" || cleaned === "." ? "." : cleaned;
+}
+
+async function readBundlerAliases(root: string, file: string): Promise<{ map: Record<string, string>; array: boolean }> {
+  const text = await fs.readFile(path.join(root, file), "utf8").catch(() => "");
+  let alias: unknown;
+  try {
+    alias = readConfigValue(text, file, ["resolve", "alias"]);
+  } catch {
+    return { map: {}, array: false };
+  }
+  const map: Record<string, string> = {};
+  if (Array.isArray(alias)) {
+    for (const a of alias as any[]) {
+      const target = aliasTarget(a?.replacement);
+      if (typeof a?.find === "string" && target) map[a.find.replace(/\/$/, "")] = target;
+    }
+    return { map, array: true };
+  }
+  if (alias && typeof alias === "object" && !("$expr" in alias)) {
+    for (const [key, value] of Object.entries(alias)) {
+      const target = aliasTarget(value);
+      if (target) map[key.replace(/\/$/, "").replace(/\$$/, "")] = target;
+    }
+  }
+  return { map, array: false };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 읽기
+// ─────────────────────────────────────────────────────────────────────────────
+/** 설정 파일에 적힌 별칭만 (소스 스캔 없음) */
+export async function readAliasConfig(root: string): Promise<AliasConfig> {
+  const pathsFile = (["tsconfig.json", "jsconfig.json"] as const).find((f) => fs.pathExistsSync(path.join(root, f)));
+  const config: AliasConfig = { pathsFile, ownPaths: false, pathsBase: ".", exact: [], tsconfig: {}, viteArray: false, vite: {}, webpack: {} };
+
+  if (pathsFile) {
+    const layers = await loadTsLayers(path.join(root, pathsFile));
+    const baseLayer = layers.find((l) => typeof l.compilerOptions.baseUrl === "string");
+    const pathsLayer = layers.find((l) => l.compilerOptions.paths && typeof l.compilerOptions.paths === "object");
+    if (baseLayer) config.baseUrl = rel(root, path.resolve(path.dirname(baseLayer.file), baseLayer.compilerOptions.baseUrl));
+    if (pathsLayer) {
+      // baseUrl 이 없으면 paths 는 그것을 정의한 설정 파일 기준 (TS 4.1+)
+      const baseAbs = config.baseUrl !== undefined ? path.resolve(root, config.baseUrl) : path.dirname(pathsLayer.file);
+      config.pathsBase = rel(root, baseAbs);
+      config.ownPaths = pathsLayer === layers[0];
+      const { wildcard, exact } = pathsToAliases(root, pathsLayer.compilerOptions.paths, baseAbs);
+      config.tsconfig = wildcard;
+      config.exact = exact;
+    } else if (config.baseUrl !== undefined) {
+      config.pathsBase = config.baseUrl;
+    }
+  }
+
+  config.viteConfig = await findConfigFile(root, "vite");
+  if (config.viteConfig) {
+    const { map, array } = await readBundlerAliases(root, config.viteConfig);
+    config.vite = map;
+    config.viteArray = array;
+  }
+  for (const f of ["webpack.config.js", "webpack.config.cjs", "webpack.config.mjs", "webpack.config.ts"]) {
+    if (await fs.pathExists(path.join(root, f))) {
+      config.webpack = (await readBundlerAliases(root, f)).map;
+      break;
+    }
+  }
+  return config;
+}
+
+/** 로컬 별칭 판별기: 정확한 키 / 접두어 / baseUrl 아래 실제 경로 */
+export function aliasMatcher(root: string, config: AliasConfig): (spec: string) => boolean {
+  const keys = [...new Set([...Object.keys(config.tsconfig), ...Object.keys(config.vite), ...Object.keys(config.webpack)])];
+  const exact = new Set([...config.exact, ...keys]);
+  const baseAbs = config.baseUrl !== undefined ? path.resolve(root, config.baseUrl) : undefined;
+  const baseHits = new Map<string, boolean>();
+  return (spec) => {
+    if (exact.has(spec) || keys.some((k) => spec.startsWith(`${k}/`))) return true;
+    if (!baseAbs) return false;
+    const first = spec.split("/")[0];
+    if (!baseHits.has(first)) baseHits.set(first, RESOLVE_EXTS.some((x) => fs.pathExistsSync(path.join(baseAbs, first + x))));
+    return baseHits.get(first)!;
+  };
+}
+
+/** 소스 파일의 비상대 import 지정자 (정규식 — 별칭 추론용이라 정밀 파싱은 불필요) */
+async function collectSpecifiers(root: string): Promise<string[]> {
+  const out = new Set<string>();
+  let count = 0;
+  async function walk(relDir: string): Promise<void> {
+    if (count >= MAX_FILES) return;
+    const entries = await fs.readdir(path.join(root, relDir), { withFileTypes: true }).catch(() => []);
+    if (relDir && (entries as any[]).some((e) => e.name === "package.json")) return;
+    for (const e of entries as any[]) {
+      const name = e.name as string;
+      const childRel = relDir ? `${relDir}/${name}` : name;
+      if (e.isDirectory()) {
+        if (!SKIP_DIRS.has(name) && !name.startsWith(".")) await walk(childRel);
+      } else if (e.isFile() && SOURCE_EXT.test(name) && !/\.d\.(c|m)?ts$/.test(name) && count++ < MAX_FILES) {
+        const text = await fs.readFile(path.join(root, childRel), "utf8").catch(() => "");
+        for (const m of text.matchAll(SPECIFIER)) if (!m[1].startsWith(".") && !m[1].startsWith("/")) out.add(m[1]);
+      }
+    }
+  }
+  await walk("");
+  return [...out].sort();
+}
+
+/** "@/lib/x" 같은 지정자가 가리킬 수 있는 디렉터리 (실제 파일이 있을 때만) */
+function inferTarget(root: string, rest: string, dirs: string[]): string | undefined {
+  return dirs.find((d) => RESOLVE_EXTS.some((x) => fs.pathExistsSync(path.join(root, d, rest + x))));
+}
+
+/** 설정 + 소스가 쓰는 별칭 */
+export async function inspectAliases(root: string): Promise<AliasReport> {
+  const config = await readAliasConfig(root);
+  const pkg = await fs.readJson(path.join(root, "package.json")).catch(() => ({} as any));
+  const declared = new Set(Object.keys({ ...pkg?.dependencies, ...pkg?.devDependencies, ...pkg?.peerDependencies }));
+
+  const entries = new Map<string, AliasEntry>();
+  const conflicts: string[] = [];
+  const add = (key: string, target: string, source: AliasSource) => {
+    const e = entries.get(key);
+    if (!e) entries.set(key, { key, target, sources: [source] });
+    else if (e.target === target) e.sources.push(source);
+    else conflicts.push(`${key}: ${e.sources.join("/")} → ${e.target}, ${source} → ${target}`);
+  };
+  for (const [k, t] of Object.entries(config.tsconfig)) add(k, t, config.pathsFile === "jsconfig.json" ? "jsconfig" : "tsconfig");
+  for (const [k, t] of Object.entries(config.vite)) add(k, t, "vite");
+  for (const [k, t] of Object.entries(config.webpack)) add(k, t, "webpack");
+
+  const used = new Set<string>();
+  for (const spec of await collectSpecifiers(root)) {
+    const known = [...entries.keys()].find((k) => spec.startsWith(`${k}/`));
+    if (known) {
+      used.add(known);
+      continue;
+    }
+    // "@/x", "~/x", "#/x" 또는 설치되지 않은 "@scope/x" 중 src/scope 가 실제로 있는 것
+    const m = spec.match(/^([@~#][\w-]*)\/(.+)$/);
+    if (!m || declared.has(`${m[1]}/${m[2].split("/")[0]}`)) continue;
+    const [, key, rest] = m;
+    const name = key.slice(1);
+    const dirs = name ? [`src/${name}`, name] : ["src", ".", "app"];
+    const target = inferTarget(root, rest, dirs);
+    if (target) {
+      add(key, target, "inferred");
+      used.add(key);
+    }
+  }
+
+  return {
+    ...config,
+    aliases: [...entries.values()].sort((a, b) => a.key.localeCompare(b.key)),
+    used: [...used].sort(),
+    conflicts,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 렌더링 / 플랜
+// ─────────────────────────────────────────────────────────────────────────────
+/** tsconfig paths 값 ("src" → "./src/*", 기준 디렉터리 반영) */
+export function tsPathFor(target: string, pathsBase: string): string {
+  const r = path.posix.relative(pathsBase === "." ? "" : pathsBase, target === "." ? "" : target);
+  return r ? `./${r}/*` : "./*";
+}
+
+/** Vite alias 값 — 루트 기준 절대 경로 ("/src") */
+export function viteAliasFor(target: string): string {
+  return target === "." ? "/" : `/${target}`;
+}
+
+/** 새로 만드는 tsconfig/jsconfig 의 paths */
+export function renderTsPaths(aliases: AliasEntry[], pathsBase = "."): Record<string, string[]> {
+  return Object.fromEntries(aliases.map((a) => [`${a.key}/*`, [tsPathFor(a.target, pathsBase)]]));
+}
+
+/** 새로 만드는 vite.config 의 resolve.alias 객체 소스 ("{ "@": "/src" }") */
+export function renderViteAliasObject(aliases: AliasEntry[]): string {
+  return `{ ${aliases.map((a) => `${JSON.stringify(a.key)}: ${JSON.stringify(viteAliasFor(a.target))}`).join(", ")} }`;
+}
+
+/**
+ * 별칭 양방향 동기화 스텝.
+ * - tsconfig/jsconfig 에 없는 별칭 → paths 추가 (extends 로 상속받은 paths 는 함께 옮겨 적어 가려지지 않게)
+ * - Vite config 에 없는 별칭 → resolve.alias 추가 (config.set ifMissing)
+ * - 충돌(같은 키, 다른 대상)은 건드리지 않음 → report.conflicts
+ */
+export async function planAliasSync(root: string, report?: AliasReport): Promise<PlanStep[]> {
+  const r = report ?? (await inspectAliases(root));
+  const steps: PlanStep[] = [];
+  if (r.aliases.length === 0) return steps;
+
+  // 1) tsconfig / jsconfig
+  const pkg = await fs.readJson(path.join(root, "package.json")).catch(() => ({} as any));
+  const usesTs = Boolean(pkg?.dependencies?.typescript || pkg?.devDependencies?.typescript);
+  const file = r.pathsFile ?? (usesTs ? "tsconfig.json" : "jsconfig.json");
+  const missingInTs = r.aliases.filter((a) => !(a.key in r.tsconfig) && !r.exact.includes(a.key));
+  if (missingInTs.length > 0) {
+    const inherited = r.ownPaths ? [] : r.aliases.filter((a) => a.key in r.tsconfig);
+    steps.push({
+      type: "json.merge",
+      file,
+      merge: { compilerOptions: { paths: renderTsPaths([...inherited, ...missingInTs].sort((a, b) => a.key.localeCompare(b.key)), r.pathsBase) } },
+      description: `Add path aliases to ${file}: ${missingInTs.map((a) => `${a.key}/*`).join(", ")}`,
+    });
+  }
+
+  // 2) Vite
+  if (r.viteConfig && !r.viteArray) {
+    for (const a of r.aliases.filter((x) => !(x.key in r.vite))) {
+      steps.push({
+        type: "config.set",
+        file: r.viteConfig,
+        path: ["resolve", "alias", a.key],
+        value: viteAliasFor(a.target),
+        mode: "ifMissing",
+        description: `Add "${a.key}" alias to ${r.viteConfig}`,
+      });
+    }
+  }
+  return steps;
+}
@@ -13,7 +13,7 @@ export async function planCreateIfMissing(
   return [
     {
       type: "create",
-      target: relativeFile,
+      file: relativeFile,
       description: `Create ${relativeFile}`,
       content,
       required: true
@@ -35,17 +35,12 @@ export async function planEnsureGitignoreLines(
   const missing = lines.filter((ln) => !have.has(ln.trim()));
   if (missing.length === 0) return [];
 
-  const appended =
-    current
-      ? (current.endsWith("\n") ? current : current + "\n") + missing.join("\n") + "\n"
-      : missing.join("\n") + "\n";
-
   return [
     {
-      type: exists ? "modify" : "create",
-      target: rel,
+      type: "lines.ensure",
+      file: rel,
+      lines: missing,
       description: `.gitignore ensure entries (${missing.length})`,
-      content: appended,
       required: true
     }
   ];
@@ -1,6 +1,7 @@
 // packages/engine/src/utils/proc.ts
 import { spawn } from "node:child_process";
-import type { ChildProcessWithoutNullStreams } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import * as net from "node:net";
 import path from "path";
 
 export type RunResult = {
@@ -8,13 +9,146 @@ export type RunResult = {
   code: number | null;
   logs: string;
   durationMs: number;
+  /** timeoutMs 초과로 강제 종료됐는지 */
+  timedOut?: boolean;
 };
 
-// TODO: runCmd, pickScript 함수 구현
-export async function runCmd(cmd: string, args: string[], cwd: string): Promise<RunResult> {
-  return { ok: true, code: 0, logs: "mock logs", durationMs: 100 };
+export type RunOptions = {
+  env?: Record<string, string>;
+  /** 0/미지정이면 제한 없음 */
+  timeoutMs?: number;
+};
+
+/** 한 단계 로그가 무한히 커지지 않도록 뒤쪽만 보관 */
+const MAX_LOG_CHARS = 256 * 1024;
+
+function appendLog(buf: string, chunk: string): string {
+  const next = buf + chunk;
+  return next.length > MAX_LOG_CHARS ? next.slice(next.length - MAX_LOG_CHARS) : next;
+}
+
+function isWin() {
+  return process.platform === "win32";
+}
+
+/**
+ * 프로세스 트리 종료.
+ * POSIX는 detached로 띄운 프로세스 그룹(-pid) 전체, Windows는 taskkill /T.
+ */
+export function killTree(pid: number | undefined, signal: NodeJS.Signals = "SIGTERM") {
+  if (!pid) return;
+  if (isWin()) {
+    try {
+      spawn("taskkill", ["/pid", String(pid), "/T", "/F"], { stdio: "ignore" });
+    } catch {}
+    return;
+  }
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    try { process.kill(pid, signal); } catch {}
+  }
+}
+
+export type Spawned = {
+  child: ChildProcess;
+  /** 지금까지 모인 stdout+stderr */
+  logs: () => string;
+  /** 종료 시 exit code (신호로 죽으면 null) */
+  exited: Promise<number | null>;
+  /** SIGTERM → graceMs 후에도 살아 있으면 SIGKILL */
+  stop: (graceMs?: number) => Promise<void>;
+};
+
+/** 장기 실행 프로세스(dev 서버 등)를 별도 프로세스 그룹으로 띄웁니다. */
+export function startProcess(cmd: string, args: string[], cwd: string, opts: RunOptions = {}): Spawned {
+  const child = spawn(cmd, args, {
+    cwd: path.resolve(cwd),
+    env: { ...process.env, ...(opts.env ?? {}) },
+    stdio: ["ignore", "pipe", "pipe"],
+    shell: isWin(),
+    detached: !isWin(),
+  });
+
+  let logs = "";
+  child.stdout?.on("data", (d) => (logs = appendLog(logs, String(d))));
+  child.stderr?.on("data", (d) => (logs = appendLog(logs, String(d))));
+
+  let exitCode: number | null | undefined;
+  const exited = new Promise<number | null>((resolve) => {
+    child.on("error", (e) => {
+      logs = appendLog(logs, `\n[spawn error] ${e.message}\n`);
+      exitCode = null;
+      resolve(null);
+    });
+    child.on("close", (code) => {
+      exitCode = code;
+      resolve(code);
+    });
+  });
+
+  const stop = async (graceMs = 5000) => {
+    if (exitCode !== undefined) return;
+    killTree(child.pid, "SIGTERM");
+    let to: NodeJS.Timeout | undefined;
+    const timer = new Promise<"timeout">((r) => (to = setTimeout(() => r("timeout"), graceMs)));
+    const first = await Promise.race([exited, timer]);
+    clearTimeout(to);
+    if (first === "timeout") {
+      killTree(child.pid, "SIGKILL");
+      await exited;
+    }
+  };
+
+  return { child, logs: () => logs, exited, stop };
 }
 
+/** 커맨드를 끝까지 실행하고 로그/시간을 돌려줍니다. 실패해도 throw하지 않습니다. */
+export async function runCmd(
+  cmd: string,
+  args: string[],
+  cwd: string,
+  opts: RunOptions = {}
+): Promise<RunResult> {
+  const t0 = Date.now();
+  const p = startProcess(cmd, args, cwd, opts);
+
+  let timedOut = false;
+  let timer: NodeJS.Timeout | undefined;
+  if (opts.timeoutMs && opts.timeoutMs > 0) {
+    timer = setTimeout(() => {
+      timedOut = true;
+      void p.stop(2000);
+    }, opts.timeoutMs);
+  }
+
+  const code = await p.exited;
+  if (timer) clearTimeout(timer);
+
+  let logs = p.logs();
+  if (timedOut) logs = appendLog(logs, `\n[timeout] killed after ${opts.timeoutMs}ms\n`);
+  return { ok: code === 0 && !timedOut, code, logs, durationMs: Date.now() - t0, ...(timedOut ? { timedOut } : {}) };
+}
+
+/** scripts에서 names 순서대로 처음 발견되는 (비어 있지 않은) 스크립트 이름 */
 export function pickScript(pkg: any, names: string[]): string | null {
+  const scripts = pkg?.scripts ?? {};
+  for (const n of names) {
+    if (typeof scripts[n] === "string" && scripts[n].trim()) return n;
+  }
   return null;
 }
+
+/** OS가 배정한 빈 포트 */
+export function getFreePort(host = "127.0.0.1"): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const srv = net.createServer();
+    srv.unref();
+    srv.once("error", reject);
+    srv.listen(0, host, () => {
+      const addr = srv.address();
+      const port = typeof addr === "object" && addr ? addr.port : 0;
+      srv.close(() => resolve(port));
+    });
+  });
+}
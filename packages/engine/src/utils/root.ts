@@ -1,6 +1,7 @@
 // packages/engine/src/utils/root.ts
 import fs from "fs-extra";
 import path from "path";
+import { isWorkspaceRoot } from "./workspaces.js";
 
 /**
  * ZIP을 풀었더니 최상단에 폴더가 한 겹 더 있는 흔한 케이스를 자동 보정한다.
@@ -10,11 +11,17 @@ import path from "path";
  *    - 단 하나의 디렉터리만 있고 그 안에 package.json 있으면 그 디렉터리로 승격
  *    - __MACOSX / .DS_Store 같은 보조 폴더는 무시
  *    - 여러 디렉터리 중 package.json 가진 디렉터리가 정확히 하나면 그 디렉터리로
+ *    - package.json 가진 디렉터리가 여럿이면, 그중 워크스페이스 루트(모노레포)가 하나일 때 그곳으로
  * 3) 그래도 못 찾으면 원래 경로 반환
+ *
+ * package.json 대신 워크스페이스 마커(pnpm-workspace.yaml, nx.json, turbo.json, lerna.json)만 있어도 루트로 인정
  */
+async function isProjectRoot(dir: string): Promise<boolean> {
+  return (await fs.pathExists(path.join(dir, "package.json"))) || (await isWorkspaceRoot(dir));
+}
+
 export async function resolveRealProjectRoot(originalRoot: string): Promise<string> {
-  const hasPkgHere = await fs.pathExists(path.join(originalRoot, "package.json"));
-  if (hasPkgHere) return originalRoot;
+  if (await isProjectRoot(originalRoot)) return originalRoot;
 
   const entries = await fs.readdir(originalRoot).catch(() => []);
   if (entries.length === 0) return originalRoot;
@@ -32,7 +39,7 @@ export async function resolveRealProjectRoot(originalRoot: string): Promise<stri
   // 케이스 A: 디렉터리 하나만 → 그곳에 package.json 있으면 승격
   if (dirs.length === 1) {
     const only = path.join(originalRoot, dirs[0]);
-    if (await fs.pathExists(path.join(only, "package.json"))) {
+    if (await isProjectRoot(only)) {
       return only;
     }
   }
@@ -41,7 +48,7 @@ export async function resolveRealProjectRoot(originalRoot: string): Promise<stri
   const candidates: string[] = [];
   for (const d of dirs) {
     const p = path.join(originalRoot, d);
-    if (await fs.pathExists(path.join(p, "package.json"))) {
+    if (await isProjectRoot(p)) {
       candidates.push(p);
     }
   }
@@ -49,6 +56,15 @@ export async function resolveRealProjectRoot(originalRoot: string): Promise<stri
     return candidates[0];
   }
 
+  // 케이스 C: 여러 개 중 워크스페이스 루트가 "정확히 하나" (나머지는 그 하위가 아닌 보조 프로젝트)
+  const workspaceRoots: string[] = [];
+  for (const c of candidates) {
+    if (await isWorkspaceRoot(c)) workspaceRoots.push(c);
+  }
+  if (workspaceRoots.length === 1) {
+    return workspaceRoots[0];
+  }
+
   // 못 찾으면 그대로 반환
   return originalRoot;
 }
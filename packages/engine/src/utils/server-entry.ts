@@ -0,0 +1,428 @@
+// packages/engine/src/utils/server-entry.ts
+// -----------------------------------------------------------------------------
+// Node 백엔드(Express / NestJS / Fastify / Koa / Hono) 공용 분석
+// - 실제 엔트리: scripts(start/dev) → package.json main → nest-cli.json → listen 호출 파일 → 관례 파일명
+//   TS 는 tsconfig outDir/rootDir 로 소스(src/main.ts) ↔ 산출물(dist/main.js) 매핑
+// - dev(tsx watch / nodemon) · build · start 스크립트
+// - process.env.PORT / 0.0.0.0 바인딩 패치, 헬스 경로 탐지 (없으면 /health 라우트 추가)
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+import type { PlanStep, TextPatch } from "../core/plan-schema.js";
+import { loadTsConfig } from "./tsconfig.js";
+import { planEnsureGitignoreLines } from "./planHelpers.js";
+
+export type ServerFramework = "express" | "nestjs" | "fastify" | "koa" | "hono";
+
+export const SERVER_FRAMEWORKS: readonly ServerFramework[] = ["express", "nestjs", "fastify", "koa", "hono"];
+
+export function isServerFramework(framework: string | undefined): framework is ServerFramework {
+  return !!framework && (SERVER_FRAMEWORKS as readonly string[]).includes(framework);
+}
+
+export type ServerEntry = {
+  /** 개발 시 실행할 소스 (src/main.ts, server.js …) */
+  source: string;
+  /** 프로덕션에서 node 로 실행할 파일 (JS 는 source 와 같음) */
+  runtime: string;
+  typescript: boolean;
+  /** tsc 산출물 디렉터리 (TS 만) */
+  outDir?: string;
+  /** 엔트리를 찾은 근거 */
+  via: "main" | "script" | "nest-cli" | "listen" | "convention";
+  /** listen/serve 를 호출하는 파일 (app.ts 를 import 하는 server.ts 등 엔트리와 다를 수 있음) */
+  listenFile?: string;
+};
+
+/** 헬스 경로가 없을 때 추가하는 라우트 */
+export const DEFAULT_HEALTH_PATH = "/health";
+
+const TS_EXT = /\.(m|c)?ts$/;
+const CODE_EXT = /\.(m|c)?(j|t)s$/;
+const SKIP_DIRS = new Set(["node_modules", ".git", "dist", "build", "out", "coverage", ".mofix", "test", "tests", "__tests__"]);
+const MAX_FILES = 2000;
+const CONVENTION_NAMES = ["server", "index", "app", "main"];
+
+/** listen 을 호출(또는 Hono/Bun 처럼 fetch 핸들러를 내보내는) 파일 */
+const LISTEN_RE = /\.listen\s*\(|\bserve\s*\(\s*\{|\bBun\.serve\s*\(|\bfetch\s*:\s*\w+\.fetch\b/;
+const ENV_PORT_RE = /process\.env\.PORT\b|process\.env\[\s*["'`]PORT["'`]\s*\]|\benv\.PORT\b/;
+
+const HEALTH_NAME = "(?:api/)?(?:healthz?|livez|readyz|ping|status)";
+const HEALTH_ROUTE_PATTERNS = [
+  // app.get("/health") · router.all("/api/ping") · fastify.route 는 url 키
+  new RegExp(`\\.(?:get|all|head|route)\\(\\s*["'\`](/${HEALTH_NAME})["'\`]`),
+  new RegExp(`\\burl\\s*:\\s*["'\`](/${HEALTH_NAME})["'\`]`),
+  // Koa 수동 라우팅: ctx.path === "/health"
+  new RegExp(`\\.(?:path|url)\\s*===?\\s*["'\`](/${HEALTH_NAME})["'\`]`),
+  // NestJS: @Controller("health") + @Get()
+  new RegExp(`@Controller\\(\\s*["'\`]/?(${HEALTH_NAME})["'\`]\\s*\\)`),
+];
+
+const toPosix = (p: string) => p.split(path.sep).join("/");
+const clean = (p: string) => toPosix(String(p)).replace(/^\.\//, "").replace(/\/+$/, "") || ".";
+
+type TsLayout = { outDir: string; rootDir?: string };
+
+async function tsLayout(root: string): Promise<TsLayout> {
+  const co = (await loadTsConfig(root))?.compilerOptions ?? {};
+  return { outDir: clean(co.outDir ?? "dist"), rootDir: co.rootDir ? clean(co.rootDir) : undefined };
+}
+
+/** src/main.ts → dist/main.js (rootDir 미지정이면 src/ 아래는 src 기준, 아니면 프로젝트 루트 기준) */
+function toRuntime(source: string, layout: TsLayout): string {
+  const rootDir = layout.rootDir ?? (source.startsWith("src/") ? "src" : ".");
+  const rel = path.posix.relative(rootDir === "." ? "" : rootDir, source);
+  return path.posix.join(layout.outDir, rel.replace(/\.(m|c)?ts$/, (_m, k) => `.${k ?? ""}js`));
+}
+
+/** dist/main.js → [src/main.ts, main.ts] (있는지는 호출 측에서 확인) */
+function toSourceCandidates(runtime: string, layout: TsLayout): string[] {
+  if (!runtime.startsWith(`${layout.outDir}/`)) return [];
+  const rel = runtime.slice(layout.outDir.length + 1).replace(/\.(m|c)?js$/, (_m, k) => `.${k ?? ""}ts`);
+  const roots = [layout.rootDir, "src", "."].filter((r, i, a): r is string => !!r && a.indexOf(r) === i);
+  return roots.map((r) => (r === "." ? rel : `${r}/${rel}`));
+}
+
+async function exists(root: string, rel: string): Promise<boolean> {
+  return fs.pathExists(path.join(root, rel));
+}
+
+/** 경로 하나를 소스/실행 파일 쌍으로 (확장자 없는 "dist/main" 도 허용) */
+async function resolveEntry(
+  root: string,
+  raw: string,
+  layout: TsLayout,
+  via: ServerEntry["via"]
+): Promise<ServerEntry | undefined> {
+  const rel = clean(raw);
+  const candidates = CODE_EXT.test(rel) ? [rel] : [`${rel}.js`, `${rel}.ts`, `${rel}/index.js`, `${rel}/index.ts`];
+  for (const c of candidates) {
+    if (TS_EXT.test(c)) {
+      if (await exists(root, c)) return { source: c, runtime: toRuntime(c, layout), typescript: true, outDir: layout.outDir, via };
+      continue;
+    }
+    // 빌드 산출물을 가리키면 소스를 먼저 (빌드 전 업로드에는 dist 가 없음)
+    for (const src of toSourceCandidates(c, layout)) {
+      if (await exists(root, src)) return { source: src, runtime: c, typescript: true, outDir: layout.outDir, via };
+    }
+    if (await exists(root, c)) return { source: c, runtime: c, typescript: false, via };
+  }
+  return undefined;
+}
+
+/** scripts 의 node / tsx / ts-node / nodemon 인자 */
+function entriesFromScripts(pkg: any): string[] {
+  const out: string[] = [];
+  for (const key of ["start", "start:prod", "dev", "serve"]) {
+    const cmd = String(pkg?.scripts?.[key] ?? "");
+    const m = cmd.match(/\b(?:node|tsx|ts-node|ts-node-dev|nodemon)\s+(?:watch\s+)?(?:-{1,2}\S+\s+)*([^\s&|;'"]+)/);
+    if (m && !m[1].startsWith("-")) out.push(m[1]);
+  }
+  return out;
+}
+
+/** 서버 소스 파일 목록 (테스트/산출물 제외) */
+export async function listServerFiles(root: string): Promise<string[]> {
+  const out: string[] = [];
+  async function walk(rel: string): Promise<void> {
+    if (out.length >= MAX_FILES) return;
+    const entries = await fs.readdir(path.join(root, rel), { withFileTypes: true }).catch(() => []);
+    for (const e of entries as any[]) {
+      const name = e.name as string;
+      const childRel = rel ? `${rel}/${name}` : name;
+      if (e.isDirectory()) {
+        if (!SKIP_DIRS.has(name) && !name.startsWith(".")) await walk(childRel);
+      } else if (e.isFile() && CODE_EXT.test(name) && !/\.d\.(m|c)?ts$|\.(test|spec)\.|\.config\./.test(name)) {
+        out.push(childRel);
+        if (out.length >= MAX_FILES) return;
+      }
+    }
+  }
+  await walk("");
+  return out;
+}
+
+/** 관례 이름(server > index > app > main), 얕은 경로 우선 */
+function rankFile(rel: string): number {
+  const base = path.posix.basename(rel).replace(CODE_EXT, "");
+  const idx = CONVENTION_NAMES.indexOf(base);
+  return (idx < 0 ? CONVENTION_NAMES.length : idx) + rel.split("/").length * 10;
+}
+
+async function findListenFiles(root: string, files: string[]): Promise<string[]> {
+  const hits: string[] = [];
+  for (const f of files) {
+    const text = await fs.readFile(path.join(root, f), "utf8").catch(() => "");
+    if (LISTEN_RE.test(text)) hits.push(f);
+  }
+  return hits.sort((a, b) => rankFile(a) - rankFile(b));
+}
+
+/**
+ * 서버 엔트리 찾기.
+ * scripts(start/dev 의 node·tsx 인자) → package.json main → nest-cli.json(NestJS) → listen 호출 파일 → 관례 파일명
+ * (npm init 기본값 main: "index.js" 보다 실제로 실행하는 스크립트를 우선)
+ */
+export async function locateServerEntry(root: string, framework?: string, pkg?: any): Promise<ServerEntry | undefined> {
+  pkg ??= await fs.readJson(path.join(root, "package.json")).catch(() => ({}));
+  const layout = await tsLayout(root);
+  const files = await listServerFiles(root);
+  const listenFiles = await findListenFiles(root, files);
+
+  const withListen = (e: ServerEntry): ServerEntry => ({
+    ...e,
+    listenFile: listenFiles.includes(e.source) ? e.source : listenFiles[0],
+  });
+
+  for (const s of entriesFromScripts(pkg)) {
+    const e = await resolveEntry(root, s, layout, "script");
+    if (e) return withListen(e);
+  }
+  if (typeof pkg?.main === "string") {
+    const e = await resolveEntry(root, pkg.main, layout, "main");
+    if (e) return withListen(e);
+  }
+  if (framework === "nestjs") {
+    const cli = await fs.readJson(path.join(root, "nest-cli.json")).catch(() => ({} as any));
+    const e = await resolveEntry(root, `${cli.sourceRoot ?? "src"}/${cli.entryFile ?? "main"}.ts`, layout, "nest-cli");
+    if (e) return withListen(e);
+  }
+  if (listenFiles[0]) {
+    const e = await resolveEntry(root, listenFiles[0], layout, "listen");
+    if (e) return withListen(e);
+  }
+  const conventional = files.filter((f) => f.split("/").length <= 2 && CONVENTION_NAMES.includes(path.posix.basename(f).replace(CODE_EXT, "")));
+  const best = conventional.sort((a, b) => rankFile(a) - rankFile(b))[0];
+  if (best) return withListen((await resolveEntry(root, best, layout, "convention"))!);
+  // 파일이 아직 없어도 (업로드 누락 등) 스크립트/main 에 적힌 경로는 그대로 사용
+  return entryFromPackageJson(pkg);
+}
+
+/** package.json 만으로 추정 (동기 — FrameworkAdapter.fixPackageJsonScripts 용) */
+export function entryFromPackageJson(pkg: any): ServerEntry | undefined {
+  const fromScript = entriesFromScripts(pkg)[0];
+  const raw = fromScript ?? (typeof pkg?.main === "string" ? pkg.main : undefined);
+  if (!raw || !CODE_EXT.test(raw)) return undefined;
+  const rel = clean(raw);
+  const typescript = TS_EXT.test(rel);
+  const via = fromScript ? "script" : "main";
+  return { source: rel, runtime: typescript ? toRuntime(rel, { outDir: "dist" }) : rel, typescript, via };
+}
+
+// ── scripts ────────────────────────────────────────────────
+
+/** dev(tsx watch / nodemon) · build(tsc) · start(node <산출물>) */
+export function serverScripts(framework: ServerFramework, entry: ServerEntry | undefined): Record<string, string> {
+  if (framework === "nestjs") {
+    return { dev: "nest start --watch", build: "nest build", start: `node ${entry?.runtime ?? "dist/main.js"}` };
+  }
+  if (!entry) return {};
+  if (entry.typescript) {
+    return { dev: `tsx watch ${entry.source}`, build: "tsc -p tsconfig.json", start: `node ${entry.runtime}` };
+  }
+  return { dev: `nodemon ${entry.source}`, start: `node ${entry.source}` };
+}
+
+/** 스크립트 첫 단어 → 필요한 devDependency */
+const SCRIPT_TOOLS: Record<string, string> = { tsx: "tsx", nodemon: "nodemon", tsc: "typescript", nest: "@nestjs/cli" };
+
+/** 없는 스크립트만 json.merge + 그 스크립트가 쓰는 도구가 없으면 devDependency 설치 */
+export async function planServerScripts(projectPath: string, framework: ServerFramework): Promise<PlanStep[]> {
+  const pkg = await fs.readJson(path.join(projectPath, "package.json")).catch(() => null);
+  if (!pkg || typeof pkg !== "object") return [];
+
+  const entry = await locateServerEntry(projectPath, framework, pkg);
+  const scripts: Record<string, string> = {};
+  for (const [k, v] of Object.entries(serverScripts(framework, entry))) {
+    if (pkg.scripts?.[k] == null) scripts[k] = v;
+  }
+  if (Object.keys(scripts).length === 0) return [];
+
+  const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+  const tools = [...new Set(Object.values(scripts).map((s) => SCRIPT_TOOLS[s.split(" ")[0]]))].filter(
+    (t): t is string => !!t && !deps[t]
+  );
+
+  const steps: PlanStep[] = [
+    {
+      type: "json.merge",
+      file: "package.json",
+      merge: { scripts },
+      description: `Add ${framework} server scripts (${Object.keys(scripts).join(", ")})${entry ? ` for ${entry.source}` : ""}`,
+      required: false,
+    },
+  ];
+  if (tools.length) {
+    steps.push({ type: "install", deps: tools, dev: true, description: `Install ${tools.join(", ")} for server scripts` });
+  }
+  return steps;
+}
+
+// ── PORT / 0.0.0.0 바인딩 ──────────────────────────────────
+
+const ENV_PORT = "Number(process.env.PORT)";
+
+/**
+ * listen 호출을 process.env.PORT / 0.0.0.0 로 바꾸는 줄 단위 리터럴 패치.
+ * - 숫자 포트(3000, const PORT = 3000) → Number(process.env.PORT) || 3000 (이미 env.PORT 를 읽으면 그대로)
+ * - listen/host 의 "localhost" · "127.0.0.1" → "0.0.0.0"
+ * - Fastify 는 host 기본값이 localhost → listen({ ... }) 에 host 추가, listen(3000) 은 객체 형식으로
+ */
+export function listenBindingPatches(source: string, framework: ServerFramework): TextPatch[] {
+  const usesEnvPort = ENV_PORT_RE.test(source);
+  const fastifyNeedsHost = framework === "fastify" && !/\bhost\s*:/.test(source);
+  const patches: TextPatch[] = [];
+
+  for (const line of source.split(/\r?\n/)) {
+    let next = line;
+    if (fastifyNeedsHost) next = next.replace(/\.listen\(\s*\{/, '.listen({ host: "0.0.0.0",');
+    if (!usesEnvPort) {
+      next = next.replace(
+        /\b(const|let|var)\s+(port|PORT)(\s*:\s*number)?\s*=\s*(\d{2,5})\b/,
+        (_m, kw, name, type, n) => `${kw} ${name}${type ?? ""} = ${ENV_PORT} || ${n}`
+      );
+      if (framework === "fastify") {
+        next = next.replace(
+          /\.listen\(\s*(\d{2,5})\s*(?=[,)])(?!\s*,\s*["'`])/,
+          (_m, n) => `.listen({ port: ${ENV_PORT} || ${n}, host: "0.0.0.0" }`
+        );
+      } else {
+        next = next.replace(/\.listen\(\s*(\d{2,5})\b/, (_m, n) => `.listen(${ENV_PORT} || ${n}`);
+      }
+      if (framework === "fastify" || framework === "hono") {
+        next = next.replace(/\bport\s*:\s*(\d{2,5})\b/, (_m, n) => `port: ${ENV_PORT} || ${n}`);
+      }
+    }
+    if (/\.listen\(|\bhost(name)?\s*:/.test(next)) {
+      next = next.replace(/(["'`])(?:localhost|127\.0\.0\.1)\1/g, (_m, q) => `${q}0.0.0.0${q}`);
+    }
+    if (next !== line && !patches.some((p) => p.search === line)) patches.push({ search: line, replace: next });
+  }
+  return patches;
+}
+
+// ── 헬스 경로 ───────────────────────────────────────────────
+
+/** 헬스 체크로 쓸 만한 기존 라우트 (/health, /healthz, /api/ping …) */
+export async function findHealthPath(root: string, files?: string[]): Promise<string | undefined> {
+  for (const f of files ?? (await listServerFiles(root))) {
+    const text = await fs.readFile(path.join(root, f), "utf8").catch(() => "");
+    for (const re of HEALTH_ROUTE_PATTERNS) {
+      const m = text.match(re);
+      if (m) return m[1].startsWith("/") ? m[1] : `/${m[1]}`;
+    }
+  }
+  return undefined;
+}
+
+const DECL = "^([ \\t]*)(?:export\\s+)?(?:const|let|var)\\s+(\\w+)(?:\\s*:\\s*[\\w.<>]+)?\\s*=\\s*";
+
+/** 앱 생성 줄 바로 아래에 넣을 /health 라우트 (NestJS 는 컨트롤러가 필요해 제외) */
+const HEALTH_ROUTES: Partial<Record<ServerFramework, { create: RegExp; route: (app: string) => string }>> = {
+  express: {
+    create: new RegExp(`${DECL}express\\(\\s*\\)\\s*;?[ \\t]*\\r?$`, "m"),
+    route: (app) => `${app}.get("${DEFAULT_HEALTH_PATH}", (_req, res) => { res.json({ status: "ok" }); });`,
+  },
+  fastify: {
+    create: new RegExp(`${DECL}(?:await\\s+)?(?:fastify|Fastify|require\\(\\s*["']fastify["']\\s*\\))\\s*\\(.*\\)\\s*;?[ \\t]*\\r?$`, "m"),
+    route: (app) => `${app}.get("${DEFAULT_HEALTH_PATH}", async () => ({ status: "ok" }));`,
+  },
+  koa: {
+    create: new RegExp(`${DECL}new\\s+Koa\\s*\\(.*\\)\\s*;?[ \\t]*\\r?$`, "m"),
+    route: (app) =>
+      `${app}.use(async (ctx, next) => { if (ctx.path === "${DEFAULT_HEALTH_PATH}") { ctx.body = { status: "ok" }; return; } await next(); });`,
+  },
+  hono: {
+    create: new RegExp(`${DECL}new\\s+Hono(?:<.*>)?\\s*\\(.*\\)\\s*;?[ \\t]*\\r?$`, "m"),
+    route: (app) => `${app}.get("${DEFAULT_HEALTH_PATH}", (c) => c.json({ status: "ok" }));`,
+  },
+};
+
+/** 앱 생성 줄을 찾으면 그 줄 + 헬스 라우트로 치환하는 패치 */
+export function healthRoutePatch(source: string, framework: ServerFramework): TextPatch | undefined {
+  const spec = HEALTH_ROUTES[framework];
+  const m = spec && source.match(spec.create);
+  if (!spec || !m) return undefined;
+  return { search: m[0], replace: `${m[0]}\n${m[1]}${spec.route(m[2])}` };
+}
+
+/** TS 엔트리인데 tsconfig.json 이 없을 때 (NestJS 는 데코레이터 메타데이터 필요) */
+export function serverTsconfig(entry: ServerEntry, framework: ServerFramework): string {
+  const rootDir = path.posix.dirname(entry.source).split("/")[0];
+  return (
+    JSON.stringify(
+      {
+        compilerOptions: {
+          target: "ES2022",
+          module: "NodeNext",
+          moduleResolution: "NodeNext",
+          outDir: entry.outDir ?? "dist",
+          ...(rootDir !== "." ? { rootDir } : {}),
+          strict: true,
+          esModuleInterop: true,
+          skipLibCheck: true,
+          ...(framework === "nestjs" ? { experimentalDecorators: true, emitDecoratorMetadata: true } : {}),
+        },
+        include: [rootDir === "." ? "**/*.ts" : `${rootDir}/**/*`],
+        exclude: ["node_modules", entry.outDir ?? "dist"],
+      },
+      null,
+      2
+    ) + "\n"
+  );
+}
+
+/**
+ * 서버 어댑터 공통 스텝
+ * - listen 파일: process.env.PORT / 0.0.0.0 바인딩 패치
+ * - 헬스 라우트가 없으면 앱 생성 줄 아래에 /health 추가 (verify/Docker HEALTHCHECK 가 findHealthPath 로 다시 찾음)
+ * - TS 엔트리: tsconfig.json(없을 때), 산출물 디렉터리 .gitignore
+ */
+export async function planServerSetup(projectPath: string, framework: ServerFramework): Promise<PlanStep[]> {
+  const files = await listServerFiles(projectPath);
+  const entry = await locateServerEntry(projectPath, framework);
+  const byFile = new Map<string, { patches: TextPatch[]; what: string[] }>();
+  const add = (file: string, patches: TextPatch[], what: string) => {
+    if (patches.length === 0) return;
+    const cur = byFile.get(file) ?? { patches: [], what: [] };
+    byFile.set(file, { patches: [...cur.patches, ...patches], what: [...cur.what, what] });
+  };
+  const read = (f: string) => fs.readFile(path.join(projectPath, f), "utf8").catch(() => "");
+
+  const listenFile = entry?.listenFile;
+  if (listenFile) add(listenFile, listenBindingPatches(await read(listenFile), framework), "bind to process.env.PORT / 0.0.0.0");
+
+  if (!(await findHealthPath(projectPath, files))) {
+    // listen 파일 → 엔트리 → 나머지 순으로 앱 생성 줄 탐색
+    const order = [listenFile, entry?.source, ...files].filter((f, i, a): f is string => !!f && a.indexOf(f) === i);
+    for (const f of order) {
+      const p = healthRoutePatch(await read(f), framework);
+      if (p) {
+        add(f, [p], `add ${DEFAULT_HEALTH_PATH} route`);
+        break;
+      }
+    }
+  }
+
+  const steps: PlanStep[] = [...byFile].map(([file, { patches, what }]) => ({
+    type: "text.patch",
+    file,
+    patches,
+    description: `${framework} server: ${what.join(", ")} (${file})`,
+    required: false,
+  }));
+
+  if (entry?.typescript) {
+    if (!(await exists(projectPath, "tsconfig.json"))) {
+      steps.push({
+        type: "create",
+        file: "tsconfig.json",
+        content: serverTsconfig(entry, framework),
+        description: `Create tsconfig.json compiling ${entry.source} to ${entry.runtime}`,
+        required: false,
+      });
+    }
+    steps.push(...(await planEnsureGitignoreLines(projectPath, [`/${entry.outDir ?? "dist"}`])));
+  }
+  return steps;
+}
@@ -0,0 +1,273 @@
+// packages/engine/src/utils/toml.ts
+// -----------------------------------------------------------------------------
+// 설정 파일(.replit 등)용 최소 TOML 파서 (외부 의존성 없음)
+// 지원: key = value, [table], [[array.of.tables]], dotted key, 문자열(basic/literal/멀티라인),
+//       정수/실수/불리언, 배열(여러 줄 포함), 인라인 테이블
+// 날짜/시간 타입은 문자열로 남깁니다.
+// -----------------------------------------------------------------------------
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+export type TomlTable = { [key: string]: TomlValue };
+
+export class TomlParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`TOML line ${line}: ${message}`);
+  }
+}
+
+class Cursor {
+  pos = 0;
+  constructor(private readonly src: string) {}
+
+  get line(): number {
+    return this.src.slice(0, this.pos).split("\n").length;
+  }
+  slice(from: number, to: number): string {
+    return this.src.slice(from, to);
+  }
+  peek(n = 0): string {
+    return this.src[this.pos + n] ?? "";
+  }
+  startsWith(s: string): boolean {
+    return this.src.startsWith(s, this.pos);
+  }
+  eof(): boolean {
+    return this.pos >= this.src.length;
+  }
+  fail(msg: string): never {
+    throw new TomlParseError(msg, this.line);
+  }
+  /** 공백(줄바꿈 제외) */
+  skipWs() {
+    while (this.peek() === " " || this.peek() === "\t") this.pos++;
+  }
+  /** 공백 + 줄바꿈 + 주석 (배열 내부용) */
+  skipWsNl() {
+    for (;;) {
+      const c = this.peek();
+      if (c === " " || c === "\t" || c === "\r" || c === "\n") this.pos++;
+      else if (c === "#") this.skipComment();
+      else return;
+    }
+  }
+  skipComment() {
+    while (!this.eof() && this.peek() !== "\n") this.pos++;
+  }
+  /** 값 뒤: 공백/주석 후 줄 끝이어야 함 */
+  endOfLine() {
+    this.skipWs();
+    if (this.peek() === "#") this.skipComment();
+    if (this.peek() === "\r") this.pos++;
+    if (!this.eof() && this.peek() !== "\n") this.fail(`unexpected "${this.peek()}"`);
+    this.pos++;
+  }
+  take(re: RegExp): string {
+    const m = re.exec(this.src.slice(this.pos));
+    if (!m || m.index !== 0) this.fail("unexpected token");
+    this.pos += m[0].length;
+    return m[0];
+  }
+}
+
+const ESCAPES: Record<string, string> = { b: "\b", t: "\t", n: "\n", f: "\f", r: "\r", '"': '"', "\\": "\\" };
+
+function parseBasicString(c: Cursor, multiline: boolean): string {
+  const quote = multiline ? '"""' : '"';
+  c.pos += quote.length;
+  if (multiline && c.peek() === "\n") c.pos++;
+  else if (multiline && c.startsWith("\r\n")) c.pos += 2;
+  let out = "";
+  for (;;) {
+    if (c.eof()) c.fail("unterminated string");
+    if (c.startsWith(quote)) {
+      c.pos += quote.length;
+      return out;
+    }
+    const ch = c.peek();
+    if (ch === "\n" && !multiline) c.fail("newline in string");
+    if (ch === "\\") {
+      const next = c.peek(1);
+      if (multiline && (next === "\n" || next === "\r" || next === " ")) {
+        // 줄 끝 백슬래시: 다음 비공백 문자까지 건너뜀
+        c.pos++;
+        c.skipWsNl();
+        continue;
+      }
+      if (next === "u" || next === "U") {
+        const len = next === "u" ? 4 : 8;
+        const hex = c.slice(c.pos + 2, c.pos + 2 + len);
+        out += String.fromCodePoint(parseInt(hex, 16));
+        c.pos += 2 + len;
+        continue;
+      }
+      if (!(next in ESCAPES)) c.fail(`invalid escape \\${next}`);
+      out += ESCAPES[next];
+      c.pos += 2;
+      continue;
+    }
+    out += ch;
+    c.pos++;
+  }
+}
+
+function parseLiteralString(c: Cursor, multiline: boolean): string {
+  const quote = multiline ? "'''" : "'";
+  c.pos += quote.length;
+  if (multiline && c.peek() === "\n") c.pos++;
+  let out = "";
+  for (;;) {
+    if (c.eof()) c.fail("unterminated string");
+    if (c.startsWith(quote)) {
+      c.pos += quote.length;
+      return out;
+    }
+    if (c.peek() === "\n" && !multiline) c.fail("newline in string");
+    out += c.peek();
+    c.pos++;
+  }
+}
+
+function parseKeyPart(c: Cursor): string {
+  c.skipWs();
+  if (c.peek() === '"') return parseBasicString(c, false);
+  if (c.peek() === "'") return parseLiteralString(c, false);
+  return c.take(/[A-Za-z0-9_-]+/);
+}
+
+function parseKey(c: Cursor): string[] {
+  const parts = [parseKeyPart(c)];
+  c.skipWs();
+  while (c.peek() === ".") {
+    c.pos++;
+    parts.push(parseKeyPart(c));
+    c.skipWs();
+  }
+  return parts;
+}
+
+function parseValue(c: Cursor): TomlValue {
+  c.skipWs();
+  const ch = c.peek();
+  if (c.startsWith('"""')) return parseBasicString(c, true);
+  if (ch === '"') return parseBasicString(c, false);
+  if (c.startsWith("'''")) return parseLiteralString(c, true);
+  if (ch === "'") return parseLiteralString(c, false);
+  if (ch === "[") return parseArray(c);
+  if (ch === "{") return parseInlineTable(c);
+  if (c.startsWith("true")) return (c.pos += 4), true;
+  if (c.startsWith("false")) return (c.pos += 5), false;
+
+  const raw = c.take(/[^\s,\]}#]+/);
+  const num = raw.replace(/_/g, "");
+  if (/^[+-]?(0x[0-9a-f]+|0o[0-7]+|0b[01]+)$/i.test(num)) {
+    const sign = num.startsWith("-") ? -1 : 1;
+    return sign * Number(num.replace(/^[+-]/, ""));
+  }
+  if (/^[+-]?(\d+(\.\d+)?([eE][+-]?\d+)?|inf|nan)$/.test(num)) {
+    if (/inf$/.test(num)) return num.startsWith("-") ? -Infinity : Infinity;
+    if (/nan$/.test(num)) return NaN;
+    return Number(num);
+  }
+  // 날짜/시간 등은 문자열 그대로
+  return raw;
+}
+
+function parseArray(c: Cursor): TomlValue[] {
+  c.pos++; // [
+  const out: TomlValue[] = [];
+  for (;;) {
+    c.skipWsNl();
+    if (c.peek() === "]") {
+      c.pos++;
+      return out;
+    }
+    out.push(parseValue(c));
+    c.skipWsNl();
+    if (c.peek() === ",") c.pos++;
+    else if (c.peek() !== "]") c.fail("expected , or ] in array");
+  }
+}
+
+function parseInlineTable(c: Cursor): TomlTable {
+  c.pos++; // {
+  const out: TomlTable = {};
+  c.skipWs();
+  if (c.peek() === "}") return (c.pos++, out);
+  for (;;) {
+    const key = parseKey(c);
+    if (c.peek() !== "=") c.fail("expected =");
+    c.pos++;
+    setPath(c, out, key, parseValue(c));
+    c.skipWs();
+    if (c.peek() === ",") c.pos++;
+    else if (c.peek() === "}") return (c.pos++, out);
+    else c.fail("expected , or } in inline table");
+  }
+}
+
+function isTable(v: TomlValue | undefined): v is TomlTable {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** path 의 중간 테이블을 만들며 내려감 ([[x]] 배열이면 마지막 원소) */
+function descend(c: Cursor, root: TomlTable, keys: string[]): TomlTable {
+  let cur = root;
+  for (const k of keys) {
+    let next = cur[k];
+    if (next === undefined) next = cur[k] = {};
+    if (Array.isArray(next)) next = next[next.length - 1];
+    if (!isTable(next)) c.fail(`key "${k}" is not a table`);
+    cur = next;
+  }
+  return cur;
+}
+
+function setPath(c: Cursor, root: TomlTable, keys: string[], value: TomlValue) {
+  const parent = descend(c, root, keys.slice(0, -1));
+  const last = keys[keys.length - 1];
+  if (last in parent) c.fail(`duplicate key "${keys.join(".")}"`);
+  parent[last] = value;
+}
+
+export function parseToml(text: string): TomlTable {
+  const c = new Cursor(text.replace(/^\uFEFF/, ""));
+  const root: TomlTable = {};
+  let current = root;
+
+  while (!c.eof()) {
+    c.skipWs();
+    const ch = c.peek();
+    if (ch === "\n" || ch === "\r" || ch === "#" || c.eof()) {
+      if (ch === "#") c.skipComment();
+      if (!c.eof()) c.endOfLine();
+      continue;
+    }
+
+    if (c.startsWith("[[")) {
+      c.pos += 2;
+      const keys = parseKey(c);
+      if (!c.startsWith("]]")) c.fail("expected ]]");
+      c.pos += 2;
+      const parent = descend(c, root, keys.slice(0, -1));
+      const last = keys[keys.length - 1];
+      const arr: TomlValue = (parent[last] ??= []);
+      if (!Array.isArray(arr)) return c.fail(`key "${keys.join(".")}" is not an array of tables`);
+      const table: TomlTable = {};
+      arr.push(table);
+      current = table;
+    } else if (ch === "[") {
+      c.pos++;
+      const keys = parseKey(c);
+      if (c.peek() !== "]") c.fail("expected ]");
+      c.pos++;
+      current = descend(c, root, keys);
+    } else {
+      const keys = parseKey(c);
+      if (c.peek() !== "=") c.fail("expected =");
+      c.pos++;
+      setPath(c, current, keys, parseValue(c));
+    }
+    c.endOfLine();
+  }
+  return root;
+}
@@ -1,6 +1,13 @@
 // packages/engine/src/utils/tsconfig.ts
+// -----------------------------------------------------------------------------
+// tsconfig 읽기/쓰기
+// - JSONC(주석, trailing comma) 허용 — tsc --init / create-next-app 기본 출력도 읽힘
+// - extends 체인(상대 경로, 배열, @tsconfig/node18 같은 패키지) 해석 → 실효 compilerOptions
+// - 쓰기는 원문 위에 필요한 속성만 편집 (주석/포맷 유지)
+// -----------------------------------------------------------------------------
 import fs from "fs-extra";
 import path from "path";
+import { mergeJsonc, parseJsonc } from "./jsonc.js";
 
 export type TsConfig = {
   compilerOptions?: {
@@ -19,28 +26,133 @@ export type TsConfig = {
   [k: string]: any;
 };
 
-/** tsconfig.json을 읽어서 객체 반환. 없거나 파싱 실패 시 null */
-export async function readTsConfig(projectRoot: string): Promise<TsConfig | null> {
-  const p = path.join(projectRoot, "tsconfig.json");
-  if (!(await fs.pathExists(p))) return null;
+/** extends 체인의 설정 파일 하나 */
+export type TsConfigLayer = {
+  /** 절대 경로 */
+  file: string;
+  config: TsConfig;
+};
+
+export type ResolvedTsConfig = {
+  /** 프로젝트 루트 기준 (예: "tsconfig.json") */
+  file: string;
+  /** 파일에 적힌 그대로 */
+  config: TsConfig;
+  /** 자기 자신부터 가장 먼 조상까지 */
+  layers: TsConfigLayer[];
+  /** extends 를 모두 반영한 실효 옵션. 경로 옵션은 이 파일 위치 기준으로 다시 계산 */
+  compilerOptions: NonNullable<TsConfig["compilerOptions"]>;
+  include?: string[];
+  exclude?: string[];
+  files?: string[];
+  /** 찾지 못한 extends 값 */
+  unresolved: string[];
+};
+
+/** 설정 파일 위치 기준으로 해석되는 compilerOptions */
+const PATH_OPTIONS = ["baseUrl", "outDir", "rootDir", "declarationDir", "tsBuildInfoFile"];
+
+/** tsconfig 계열 파일 텍스트 → 객체 (주석 / trailing comma 허용). 실패 시 null */
+export async function readTsConfigFile(file: string): Promise<TsConfig | null> {
+  const text = await fs.readFile(file, "utf8").catch(() => null);
+  if (text === null) return null;
   try {
-    return (await fs.readJson(p)) as TsConfig;
+    return parseJsonc<TsConfig>(text, path.basename(file));
   } catch {
     return null;
   }
 }
 
-/** 얕은 병합으로 tsconfig.json 저장(없으면 생성) */
+/** tsconfig.json을 읽어서 객체 반환(extends 미반영). 없거나 파싱 실패 시 null */
+export async function readTsConfig(projectRoot: string): Promise<TsConfig | null> {
+  return readTsConfigFile(path.join(projectRoot, "tsconfig.json"));
+}
+
+/**
+ * extends 값 → 설정 파일 절대 경로.
+ * "./base" / "../tsconfig.base.json" 은 파일 기준, "@tsconfig/node18" 같은 값은 상위 node_modules 를 거슬러 올라가며 찾음
+ * (패키지 package.json 의 "tsconfig" 필드, <pkg>/tsconfig.json, <spec>.json 순)
+ */
+export function resolveTsConfigExtends(fromFile: string, spec: string): string | undefined {
+  const isFile = (p: string) => fs.pathExistsSync(p) && fs.statSync(p).isFile();
+  const dir = path.dirname(fromFile);
+  if (spec.startsWith(".") || path.isAbsolute(spec)) {
+    return [path.resolve(dir, spec), path.resolve(dir, `${spec}.json`)].find(isFile);
+  }
+  for (let d = dir; ; d = path.dirname(d)) {
+    const base = path.join(d, "node_modules", spec);
+    const pkgField = (() => {
+      try {
+        const pkg = fs.readJsonSync(path.join(base, "package.json"));
+        return typeof pkg.tsconfig === "string" ? path.join(base, pkg.tsconfig) : undefined;
+      } catch {
+        return undefined;
+      }
+    })();
+    const hit = [base, `${base}.json`, pkgField, path.join(base, "tsconfig.json")].find((p): p is string => Boolean(p) && isFile(p!));
+    if (hit) return hit;
+    if (path.dirname(d) === d) return undefined;
+  }
+}
+
+/** 파일과 extends 조상들 (가까운 것부터). 배열 extends 는 뒤쪽이 우선 */
+export async function loadTsConfigLayers(file: string, unresolved: string[] = [], seen = new Set<string>()): Promise<TsConfigLayer[]> {
+  if (seen.has(file)) return [];
+  seen.add(file);
+  const config = await readTsConfigFile(file);
+  if (!config) return [];
+  const layers: TsConfigLayer[] = [{ file, config }];
+  const parents: unknown[] = Array.isArray(config.extends) ? config.extends : config.extends ? [config.extends] : [];
+  for (const ext of [...parents].reverse()) {
+    if (typeof ext !== "string") continue;
+    const resolved = resolveTsConfigExtends(file, ext);
+    if (resolved) layers.push(...(await loadTsConfigLayers(resolved, unresolved, seen)));
+    else unresolved.push(ext);
+  }
+  return layers;
+}
+
+/**
+ * tsconfig 와 extends 체인을 읽어 실효 설정 계산. 파일이 없거나 깨졌으면 null.
+ * compilerOptions 는 가까운 쪽이 우선(얕은 병합), include/exclude/files 는 가장 가까운 정의를 그대로 씀.
+ */
+export async function loadTsConfig(projectRoot: string, file = "tsconfig.json"): Promise<ResolvedTsConfig | null> {
+  const abs = path.join(projectRoot, file);
+  const unresolved: string[] = [];
+  const layers = await loadTsConfigLayers(abs, unresolved);
+  if (layers.length === 0) return null;
+
+  const ownDir = path.dirname(abs);
+  const compilerOptions: Record<string, any> = {};
+  for (const layer of [...layers].reverse()) {
+    const co = layer.config.compilerOptions ?? {};
+    for (const [key, value] of Object.entries(co)) {
+      compilerOptions[key] =
+        PATH_OPTIONS.includes(key) && typeof value === "string" && layer.file !== abs
+          ? path.relative(ownDir, path.resolve(path.dirname(layer.file), value)).split(path.sep).join("/") || "."
+          : value;
+    }
+  }
+  const nearest = (key: "include" | "exclude" | "files") => layers.find((l) => Array.isArray(l.config[key]))?.config[key];
+
+  return {
+    file,
+    config: layers[0].config,
+    layers,
+    compilerOptions,
+    include: nearest("include"),
+    exclude: nearest("exclude"),
+    files: nearest("files"),
+    unresolved,
+  };
+}
+
+/** 원문을 유지한 채 병합해 tsconfig.json 저장(없으면 생성) */
 export async function writeTsConfig(projectRoot: string, data: Partial<TsConfig>): Promise<void> {
   const p = path.join(projectRoot, "tsconfig.json");
-  const prev: TsConfig = (await fs.pathExists(p)) ? ((await fs.readJson(p)) as TsConfig) : {};
-  const next: TsConfig = {
-    ...prev,
-    ...data,
-    compilerOptions: { ...prev.compilerOptions, ...data.compilerOptions },
-  };
+  const prev = await fs.readFile(p, "utf8").catch(() => "");
   await fs.ensureDir(path.dirname(p));
-  await fs.writeJson(p, next, { spaces: 2 });
+  await fs.writeFile(p, mergeJsonc(prev, data, "tsconfig.json"), "utf8");
 }
 
 /** compilerOptions 특정 키를 보장하여 설정 */
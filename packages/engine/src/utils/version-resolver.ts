@@ -0,0 +1,336 @@
+// packages/engine/src/utils/version-resolver.ts
+// -----------------------------------------------------------------------------
+// 오프라인 의존성 버전 해석 (네트워크 없이)
+// 아래 순서로 찾아 처음 나온 값을 씁니다. 결과에는 출처(provenance)가 붙습니다.
+//   1) 프로젝트 lockfile (package-lock.json / yarn.lock / pnpm-lock.yaml / bun.lock)
+//   2) 같은 워크스페이스의 다른 lockfile (루트 lockfile, 형제 패키지 lockfile)
+//   3) 엔진 내장 스냅샷 (utils/depsRegistry.ts) → 로컬 npm 캐시(_cacache)의 메타데이터
+//   4) 이미 설치된 패키지들의 peerDependencies 범위
+//   5) 못 찾으면 "latest"
+// load() 에서 lockfile/peer 를 한 번 읽어 두고, resolve() 는 동기로 동작합니다.
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import { REGISTRY_SNAPSHOT } from "./depsRegistry.js";
+import { detectWorkspaces, isWorkspaceRoot } from "./workspaces.js";
+
+export type VersionSource = "lockfile" | "workspace-lockfile" | "snapshot" | "npm-cache" | "peer" | "unresolved";
+
+export type ResolvedVersion = {
+  name: string;
+  range: string;
+  source: VersionSource;
+  /** 출처 상세 (lockfile 경로, peer 를 요구한 패키지 등) */
+  detail?: string;
+};
+
+export const LOCKFILE_NAMES = ["package-lock.json", "npm-shrinkwrap.json", "yarn.lock", "pnpm-lock.yaml", "bun.lock"];
+
+type Locked = { version: string; lockfile: string };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// lockfile 파서: 이름 → 잠긴 버전 (최상위 설치본)
+// ─────────────────────────────────────────────────────────────────────────────
+const VERSION_RX = /^\d+\.\d+\.\d+(?:[-+][\w.+-]*)?$/;
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split(/[.+-]/).map((x) => Number(x));
+  const pb = b.split(/[.+-]/).map((x) => Number(x));
+  for (let i = 0; i < 3; i++) if ((pa[i] || 0) !== (pb[i] || 0)) return (pa[i] || 0) - (pb[i] || 0);
+  return 0;
+}
+
+function keepHighest(out: Map<string, string>, name: string, version: string) {
+  if (!VERSION_RX.test(version)) return;
+  const prev = out.get(name);
+  if (!prev || compareVersions(version, prev) > 0) out.set(name, version);
+}
+
+/** package-lock.json v1~v3 (npm-shrinkwrap.json 동일) */
+export function parseNpmLock(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return out;
+  }
+  for (const [key, entry] of Object.entries<any>(json?.packages ?? {})) {
+    // 최상위 node_modules/<name> 만 (중첩 설치본 제외)
+    const m = key.match(/^node_modules\/((?:@[^/]+\/)?[^/]+)$/);
+    if (m && typeof entry?.version === "string" && !entry.link) out.set(m[1], entry.version);
+  }
+  if (out.size === 0) {
+    for (const [name, entry] of Object.entries<any>(json?.dependencies ?? {})) {
+      if (typeof entry?.version === "string") out.set(name, entry.version);
+    }
+  }
+  return out;
+}
+
+/** yarn.lock (classic v1 / Berry) */
+export function parseYarnLock(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  let names: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line || line.startsWith("#")) continue;
+    if (!/^\s/.test(line) && line.endsWith(":")) {
+      names = line
+        .slice(0, -1)
+        .split(/,\s*/)
+        .map((s) => s.trim().replace(/^"|"$/g, ""))
+        .filter((s) => s.indexOf("@", 1) > 0) // __metadata 등 제외
+        .map((s) => s.slice(0, s.indexOf("@", 1)));
+      continue;
+    }
+    const v = line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+    if (v && names.length) {
+      for (const n of new Set(names)) keepHighest(out, n, v[1]);
+      names = [];
+    }
+  }
+  return out;
+}
+
+/** pnpm-lock.yaml (v5: /name/1.0.0, v6: /name@1.0.0, v9: name@1.0.0) */
+export function parsePnpmLock(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  let section = "";
+  for (const line of text.split(/\r?\n/)) {
+    const top = line.match(/^(\w+):/);
+    if (top) {
+      section = top[1];
+      continue;
+    }
+    if (section !== "packages" && section !== "snapshots") continue;
+    const key = line.match(/^ {2}['"]?\/?((?:@[^/@\s]+\/)?[^/@\s'"]+)[@/](\d[^:('"\s_]*)/);
+    if (key) keepHighest(out, key[1], key[2]);
+  }
+  return out;
+}
+
+/** bun.lock (텍스트 JSONC): "packages": { "name": ["name@1.2.3", ...] } */
+export function parseBunLock(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const m of text.matchAll(/\[\s*"((?:@[^"@/]+\/)?[^"@/]+)@(\d[^"]*)"/g)) keepHighest(out, m[1], m[2]);
+  return out;
+}
+
+export function parseLockfile(file: string, text: string): Map<string, string> {
+  const base = path.basename(file);
+  if (base === "yarn.lock") return parseYarnLock(text);
+  if (base === "pnpm-lock.yaml") return parsePnpmLock(text);
+  if (base === "bun.lock") return parseBunLock(text);
+  return parseNpmLock(text);
+}
+
+async function readLockfiles(dir: string): Promise<Array<{ file: string; versions: Map<string, string> }>> {
+  const out = [];
+  for (const name of LOCKFILE_NAMES) {
+    const file = path.join(dir, name);
+    if (!(await fs.pathExists(file))) continue;
+    const text = await fs.readFile(file, "utf8").catch(() => "");
+    out.push({ file, versions: parseLockfile(file, text) });
+  }
+  return out;
+}
+
+/** 잠긴 버전 → 추가할 범위 (프리릴리스는 정확히 고정) */
+export function rangeFromLocked(version: string): string {
+  return version.includes("-") ? version : `^${version}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 로컬 npm 캐시 (cacache): 레지스트리 packument 의 dist-tags.latest
+// ─────────────────────────────────────────────────────────────────────────────
+export function defaultNpmCacheDir(): string {
+  if (process.env.npm_config_cache) return process.env.npm_config_cache;
+  if (process.platform === "win32" && process.env.LOCALAPPDATA) return path.join(process.env.LOCALAPPDATA, "npm-cache");
+  return path.join(os.homedir(), ".npm");
+}
+
+/** cacache 인덱스 버킷 경로: index-v5/<sha256(key)[0:2]>/<[2:4]>/<나머지> */
+function indexBucket(cacheDir: string, key: string): string {
+  const h = crypto.createHash("sha256").update(key).digest("hex");
+  return path.join(cacheDir, "_cacache", "index-v5", h.slice(0, 2), h.slice(2, 4), h.slice(4));
+}
+
+function contentPath(cacheDir: string, integrity: string): string | null {
+  const m = integrity.match(/^(sha\d+)-(.+)$/);
+  if (!m) return null;
+  const hex = Buffer.from(m[2], "base64").toString("hex");
+  return path.join(cacheDir, "_cacache", "content-v2", m[1], hex.slice(0, 2), hex.slice(2, 4), hex.slice(4));
+}
+
+export function npmCacheLatest(cacheDir: string, name: string, registry = "https://registry.npmjs.org/"): string | null {
+  const escaped = name.startsWith("@") ? name.replace("/", "%2f") : name;
+  for (const key of new Set([escaped, name]).values()) {
+    const bucket = indexBucket(cacheDir, `make-fetch-happen:request-cache:${registry}${key}`);
+    let lines: string[];
+    try {
+      lines = fs.readFileSync(bucket, "utf8").split("\n").filter(Boolean);
+    } catch {
+      continue;
+    }
+    // 버킷 한 줄 = "<sha1>\t<json>", 마지막 항목이 최신
+    for (const line of lines.reverse()) {
+      try {
+        const entry = JSON.parse(line.slice(line.indexOf("\t") + 1));
+        const file = entry?.integrity ? contentPath(cacheDir, entry.integrity) : null;
+        if (!file) continue;
+        const latest = JSON.parse(fs.readFileSync(file, "utf8"))?.["dist-tags"]?.latest;
+        if (typeof latest === "string" && VERSION_RX.test(latest)) return latest;
+      } catch {
+        continue;
+      }
+    }
+  }
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 설치된 패키지의 peerDependencies
+// ─────────────────────────────────────────────────────────────────────────────
+type PeerRange = { range: string; by: string };
+
+async function installedPeers(root: string, lockfiles: string[]): Promise<Map<string, PeerRange>> {
+  const out = new Map<string, PeerRange>();
+  const add = (peers: Record<string, unknown> | undefined, by: string) => {
+    for (const [name, range] of Object.entries(peers ?? {})) {
+      if (typeof range === "string" && !out.has(name)) out.set(name, { range, by });
+    }
+  };
+
+  const pkg = await fs.readJson(path.join(root, "package.json")).catch(() => null);
+  const direct = Object.keys({ ...(pkg?.dependencies ?? {}), ...(pkg?.devDependencies ?? {}) }).sort();
+  for (const dep of direct) {
+    const manifest = await fs.readJson(path.join(root, "node_modules", dep, "package.json")).catch(() => null);
+    if (manifest) add(manifest.peerDependencies, dep);
+  }
+
+  // node_modules 가 없으면 package-lock 의 peerDependencies 기록으로 대신
+  for (const file of lockfiles.filter((f) => /package-lock\.json$|npm-shrinkwrap\.json$/.test(f))) {
+    const json = await fs.readJson(file).catch(() => null);
+    for (const dep of direct) add(json?.packages?.[`node_modules/${dep}`]?.peerDependencies, dep);
+  }
+  return out;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 해석기
+// ─────────────────────────────────────────────────────────────────────────────
+export type VersionResolverOptions = {
+  /** npm 캐시 디렉터리 (기본: npm_config_cache 또는 ~/.npm). false 면 사용 안 함 */
+  npmCacheDir?: string | false;
+};
+
+async function findWorkspaceRoot(dir: string): Promise<string | null> {
+  let cur = path.resolve(dir);
+  for (let i = 0; i < 6; i++) {
+    if (await isWorkspaceRoot(cur)) return cur;
+    const parent = path.dirname(cur);
+    if (parent === cur) break;
+    cur = parent;
+  }
+  return null;
+}
+
+const rel = (from: string, file: string) => path.relative(from, file).split(path.sep).join("/") || path.basename(file);
+
+export class VersionResolver {
+  private npmCache = new Map<string, string | null>();
+
+  private constructor(
+    private readonly own: Map<string, Locked>,
+    private readonly siblings: Map<string, Locked>,
+    private readonly peers: Map<string, PeerRange>,
+    private readonly cacheDir: string | null
+  ) {}
+
+  /** 프로젝트 없이 스냅샷(+npm 캐시)만 보는 해석기 */
+  static offline(options: VersionResolverOptions = {}): VersionResolver {
+    const cacheDir = options.npmCacheDir === false ? null : options.npmCacheDir ?? defaultNpmCacheDir();
+    return new VersionResolver(new Map(), new Map(), new Map(), cacheDir);
+  }
+
+  static async load(root: string, options: VersionResolverOptions = {}): Promise<VersionResolver> {
+    const abs = path.resolve(root);
+    const own = new Map<string, Locked>();
+    const ownFiles: string[] = [];
+    for (const { file, versions } of await readLockfiles(abs)) {
+      ownFiles.push(file);
+      for (const [n, v] of versions) if (!own.has(n)) own.set(n, { version: v, lockfile: rel(abs, file) });
+    }
+
+    // 워크스페이스 루트 + 형제 패키지 lockfile
+    const siblings = new Map<string, Locked>();
+    const wsRoot = await findWorkspaceRoot(abs);
+    if (wsRoot) {
+      const layout = await detectWorkspaces(wsRoot);
+      const dirs = [wsRoot, ...(layout?.packages ?? []).map((p) => path.join(wsRoot, p.dir))];
+      for (const dir of dirs) {
+        if (path.resolve(dir) === abs) continue;
+        for (const { file, versions } of await readLockfiles(dir)) {
+          for (const [n, v] of versions) {
+            const prev = siblings.get(n);
+            if (!prev || compareVersions(v, prev.version) > 0) siblings.set(n, { version: v, lockfile: rel(wsRoot, file) });
+          }
+        }
+      }
+    }
+
+    const peers = await installedPeers(abs, ownFiles);
+    const cacheDir = options.npmCacheDir === false ? null : options.npmCacheDir ?? defaultNpmCacheDir();
+    return new VersionResolver(own, siblings, peers, cacheDir);
+  }
+
+  resolve(name: string): ResolvedVersion {
+    const own = this.own.get(name);
+    if (own) return { name, range: rangeFromLocked(own.version), source: "lockfile", detail: own.lockfile };
+
+    const sib = this.siblings.get(name);
+    if (sib) return { name, range: rangeFromLocked(sib.version), source: "workspace-lockfile", detail: sib.lockfile };
+
+    const snap = REGISTRY_SNAPSHOT[name];
+    if (snap) return { name, range: snap, source: "snapshot" };
+
+    const cached = this.cachedLatest(name);
+    if (cached) return { name, range: `^${cached}`, source: "npm-cache" };
+
+    const peer = this.peers.get(name);
+    if (peer) return { name, range: peer.range, source: "peer", detail: peer.by };
+
+    return { name, range: "latest", source: "unresolved" };
+  }
+
+  /** pinDeps 등에서 쓰는 축약형 */
+  range(name: string): string {
+    return this.resolve(name).range;
+  }
+
+  private cachedLatest(name: string): string | null {
+    if (!this.cacheDir) return null;
+    if (!this.npmCache.has(name)) this.npmCache.set(name, npmCacheLatest(this.cacheDir, name));
+    return this.npmCache.get(name) ?? null;
+  }
+}
+
+/** Fix 제목에 붙이는 출처 설명 */
+export function describeProvenance(r: ResolvedVersion): string {
+  switch (r.source) {
+    case "lockfile":
+      return `locked in ${r.detail}`;
+    case "workspace-lockfile":
+      return `locked in workspace ${r.detail}`;
+    case "snapshot":
+      return "engine registry snapshot";
+    case "npm-cache":
+      return "local npm cache";
+    case "peer":
+      return `peer range of ${r.detail}`;
+    default:
+      return "unresolved, installs latest";
+  }
+}
@@ -0,0 +1,201 @@
+// packages/engine/src/utils/workspaces.ts
+// -----------------------------------------------------------------------------
+// 모노레포/워크스페이스 감지
+// - npm/yarn/bun: package.json "workspaces" (배열 또는 { packages: [] })
+// - pnpm: pnpm-workspace.yaml 의 packages 목록
+// - Turborepo(turbo.json) / Nx(nx.json) / Lerna(lerna.json)
+// - 도구 없이 루트 package.json 없이 하위 폴더 여러 곳에 package.json 이 있는 경우도 포함 (tools: [])
+// 패턴은 "apps/*", "packages/**", "!**/test/**" 수준만 지원합니다 (외부 glob 의존성 없음).
+// -----------------------------------------------------------------------------
+import fs from "fs-extra";
+import path from "path";
+
+export type WorkspaceTool = "npm" | "yarn" | "pnpm" | "bun" | "turbo" | "nx" | "lerna";
+
+export type WorkspacePackage = {
+  /** package.json name (없으면 디렉터리 이름) */
+  name: string;
+  /** 워크스페이스 루트 기준 상대 경로 (posix) */
+  dir: string;
+};
+
+export type WorkspaceLayout = {
+  tools: WorkspaceTool[];
+  patterns: string[];
+  packages: WorkspacePackage[];
+};
+
+/** 루트에 이 파일들 중 하나가 있으면 워크스페이스 루트로 봅니다 */
+export const WORKSPACE_MARKERS = ["pnpm-workspace.yaml", "turbo.json", "nx.json", "lerna.json"];
+
+const SKIP_DIRS = new Set(["node_modules", ".git", "dist", "build", ".next", ".turbo", ".nx", ".mofix"]);
+
+const toPosix = (p: string) => p.split(path.sep).join("/");
+
+/** pnpm-workspace.yaml 의 `packages:` 리스트만 읽는 최소 파서 */
+export function parsePnpmWorkspaceYaml(text: string): string[] {
+  const out: string[] = [];
+  let inPackages = false;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/\s+#.*$/, "");
+    if (!line.trim()) continue;
+    if (/^\S/.test(line)) {
+      inPackages = /^packages\s*:\s*$/.test(line);
+      // packages: ["a/*", "b"] 인라인 형식
+      const inline = line.match(/^packages\s*:\s*\[(.*)\]\s*$/);
+      if (inline) {
+        out.push(...inline[1].split(",").map((s) => s.trim().replace(/^['"]|['"]$/g, "")).filter(Boolean));
+      }
+      continue;
+    }
+    const item = inPackages ? line.match(/^\s*-\s*(.+?)\s*$/) : null;
+    if (item) out.push(item[1].replace(/^['"]|['"]$/g, ""));
+  }
+  return out;
+}
+
+function segmentRegex(seg: string): RegExp {
+  const esc = seg.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*").replace(/\?/g, "[^/]");
+  return new RegExp(`^${esc}$`);
+}
+
+/** 패턴 하나를 디렉터리 목록으로 전개 */
+async function expandPattern(root: string, pattern: string): Promise<string[]> {
+  const segs = toPosix(pattern).replace(/^\.\//, "").replace(/\/+$/, "").split("/").filter(Boolean);
+  const out: string[] = [];
+
+  async function walk(rel: string, i: number): Promise<void> {
+    if (i === segs.length) {
+      out.push(rel);
+      return;
+    }
+    const seg = segs[i];
+    const abs = path.join(root, rel);
+    const entries = await fs.readdir(abs, { withFileTypes: true }).catch(() => []);
+    const dirs = entries.filter((e: any) => e.isDirectory() && !SKIP_DIRS.has(e.name)).map((e: any) => e.name as string);
+
+    if (seg === "**") {
+      await walk(rel, i + 1); // 0 단계
+      for (const d of dirs) await walk(rel ? `${rel}/${d}` : d, i); // 1+ 단계
+      return;
+    }
+    if (!/[*?]/.test(seg)) {
+      if (dirs.includes(seg)) await walk(rel ? `${rel}/${seg}` : seg, i + 1);
+      return;
+    }
+    const re = segmentRegex(seg);
+    for (const d of dirs.filter((d: string) => re.test(d))) await walk(rel ? `${rel}/${d}` : d, i + 1);
+  }
+
+  await walk("", 0);
+  return out;
+}
+
+function matchesPattern(dir: string, pattern: string): boolean {
+  const segs = toPosix(pattern).replace(/^\.\//, "").replace(/\/+$/, "").split("/");
+  let re = "";
+  segs.forEach((seg, i) => {
+    const last = i === segs.length - 1;
+    if (seg === "**") re += last ? ".*" : "(?:[^/]+/)*";
+    else re += segmentRegex(seg).source.slice(1, -1) + (last ? "" : "/");
+  });
+  return new RegExp(`^${re}$`).test(dir);
+}
+
+async function readJsonSafe(file: string): Promise<any | null> {
+  return fs.readJson(file).catch(() => null);
+}
+
+/**
+ * 루트가 워크스페이스(모노레포)면 레이아웃을, 아니면 null 을 돌려줍니다.
+ * package.json(Nx는 project.json)이 있는 디렉터리만 패키지로 인정합니다.
+ */
+export async function detectWorkspaces(root: string): Promise<WorkspaceLayout | null> {
+  const tools: WorkspaceTool[] = [];
+  const patterns: string[] = [];
+  const rootPkg = await readJsonSafe(path.join(root, "package.json"));
+
+  // npm / yarn / bun workspaces
+  const ws = rootPkg?.workspaces;
+  const wsList: unknown = Array.isArray(ws) ? ws : ws?.packages;
+  if (Array.isArray(wsList) && wsList.length > 0) {
+    const has = (f: string) => fs.pathExists(path.join(root, f));
+    const pm = String(rootPkg?.packageManager ?? "").split("@")[0];
+    if (pm === "yarn" || (await has("yarn.lock"))) tools.push("yarn");
+    else if (pm === "bun" || (await has("bun.lockb")) || (await has("bun.lock"))) tools.push("bun");
+    else tools.push("npm");
+    patterns.push(...wsList.filter((p): p is string => typeof p === "string"));
+  }
+
+  // pnpm
+  const pnpmWs = path.join(root, "pnpm-workspace.yaml");
+  if (await fs.pathExists(pnpmWs)) {
+    tools.push("pnpm");
+    patterns.push(...parsePnpmWorkspaceYaml(await fs.readFile(pnpmWs, "utf8")));
+  }
+
+  // Lerna
+  const lerna = await readJsonSafe(path.join(root, "lerna.json"));
+  if (lerna) {
+    tools.push("lerna");
+    if (patterns.length === 0) patterns.push(...(Array.isArray(lerna.packages) ? lerna.packages : ["packages/*"]));
+  }
+
+  // Nx: workspaceLayout (기본 apps/ libs/)
+  const nx = await readJsonSafe(path.join(root, "nx.json"));
+  if (nx) {
+    tools.push("nx");
+    if (patterns.length === 0) {
+      const apps = nx.workspaceLayout?.appsDir ?? "apps";
+      const libs = nx.workspaceLayout?.libsDir ?? "libs";
+      patterns.push(`${apps}/*`, `${libs}/*`, "packages/*");
+    }
+  }
+
+  // Turborepo: 패키지 목록은 패키지 매니저 워크스페이스를 따름
+  if (await fs.pathExists(path.join(root, "turbo.json"))) {
+    tools.push("turbo");
+    if (patterns.length === 0) patterns.push("apps/*", "packages/*");
+  }
+
+  // 도구 없이 루트 package.json 도 없고 하위 폴더 여러 곳에 package.json (frontend/ + backend/ 등)
+  if (tools.length === 0) {
+    if (rootPkg) return null;
+    patterns.push("*");
+  }
+
+  const include = patterns.filter((p) => !p.startsWith("!"));
+  const exclude = patterns.filter((p) => p.startsWith("!")).map((p) => p.slice(1));
+
+  const dirs = new Set<string>();
+  for (const p of include) {
+    for (const d of await expandPattern(root, p)) {
+      if (!d || exclude.some((x) => matchesPattern(d, x))) continue;
+      // Nx integrated 레포는 package.json 없이 project.json 만 두기도 함
+      const manifest =
+        (await fs.pathExists(path.join(root, d, "package.json"))) ||
+        (tools.includes("nx") && (await fs.pathExists(path.join(root, d, "project.json"))));
+      if (manifest) dirs.add(d);
+    }
+  }
+
+  const packages: WorkspacePackage[] = [];
+  for (const dir of [...dirs].sort()) {
+    const pkg =
+      (await readJsonSafe(path.join(root, dir, "package.json"))) ??
+      (await readJsonSafe(path.join(root, dir, "project.json")));
+    packages.push({ name: typeof pkg?.name === "string" ? pkg.name : path.posix.basename(dir), dir });
+  }
+
+  if (tools.length === 0 && packages.length < 2) return null;
+  return { tools, patterns, packages };
+}
+
+/** 루트 파일만 보고 워크스페이스 루트인지 빠르게 판단 (resolveRealProjectRoot 용) */
+export async function isWorkspaceRoot(dir: string): Promise<boolean> {
+  for (const m of WORKSPACE_MARKERS) {
+    if (await fs.pathExists(path.join(dir, m))) return true;
+  }
+  const pkg = await readJsonSafe(path.join(dir, "package.json"));
+  return Boolean(pkg?.workspaces);
+}
@@ -0,0 +1,52 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { applyPlan } from "../packages/engine/src/index.js";
+import { ApplyJournal } from "../packages/engine/src/core/apply-journal.js";
+import { makePlan } from "../packages/engine/src/core/plan-schema.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-journal-"));
+  await fs.writeJson(path.join(dir, "package.json"), { name: "demo", scripts: { dev: "vite" } });
+  await fs.writeFile(path.join(dir, ".replit"), 'run = "npm run dev"\n');
+  await fs.chmod(path.join(dir, ".replit"), 0o600);
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("apply journal", () => {
+  test("required failure restores the exact pre-apply state", async () => {
+    const before = await fs.readFile(path.join(dir, "package.json"), "utf8");
+
+    const r = await applyPlan(
+      dir,
+      makePlan([
+        { type: "json.merge", file: "package.json", merge: { type: "module" } },
+        { type: "create", file: "src/new/file.ts", content: "export {};\n" },
+        { type: "delete", file: ".replit" },
+        { type: "run", cmd: process.execPath, args: ["-e", "process.exit(3)"], stdio: "pipe", required: true },
+      ])
+    );
+
+    expect(r.success).toBe(false);
+    expect(await fs.readFile(path.join(dir, "package.json"), "utf8")).toBe(before);
+    expect(await fs.pathExists(path.join(dir, "src"))).toBe(false);
+    expect((await fs.stat(path.join(dir, ".replit"))).mode & 0o777).toBe(0o600);
+    expect((await ApplyJournal.load(dir, r.journalId!)).status).toBe("rolled-back");
+  });
+
+  test("a committed journal can be replayed later", async () => {
+    const r = await applyPlan(dir, makePlan([{ type: "write", file: ".replit", content: "changed" }]));
+    expect(r.success).toBe(true);
+
+    const journal = await ApplyJournal.load(dir, r.journalId!);
+    expect(journal.status).toBe("committed");
+    await journal.rollback();
+    expect(await fs.readFile(path.join(dir, ".replit"), "utf8")).toBe('run = "npm run dev"\n');
+  });
+});
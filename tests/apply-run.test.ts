@@ -0,0 +1,87 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { PlanExecutor } from "../packages/engine/src/core/plan-executor.js";
+import { ApplyRun } from "../packages/engine/src/core/apply-run.js";
+import { makePlan } from "../packages/engine/src/core/plan-schema.js";
+
+let dir: string;
+
+const noop = () => {};
+const logger = { info: noop, step: noop, success: noop, warning: noop, error: noop };
+const options = () => ({ projectPath: dir, logger }) as any;
+
+const plan = () =>
+  makePlan([
+    { type: "write", file: "a.txt", content: "a\n" },
+    // 멱등이 아닌 커맨드: 실행될 때마다 count.txt 가 늘어남
+    { type: "run", cmd: process.execPath, args: ["-e", "require('fs').appendFileSync('count.txt','x'); console.log('hello')"], stdio: "pipe", id: "count" },
+    { type: "run", cmd: process.execPath, args: ["-e", "process.exit(require('fs').existsSync('ok.flag') ? 0 : 4)"], stdio: "pipe", id: "flaky" },
+    { type: "json.merge", file: "package.json", merge: { type: "module" } },
+  ]);
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-run-"));
+  await fs.writeJson(path.join(dir, "package.json"), { name: "demo" });
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("resumable apply", () => {
+  test("records per-step status and resumes without replaying completed steps", async () => {
+    const exec = new PlanExecutor(logger);
+    const first = await exec.execute(plan(), options());
+
+    const run = await ApplyRun.load(dir, first.runId!);
+    expect(run.status).toBe("failed");
+    expect(run.steps.map((s) => s.status)).toEqual(["done", "done", "failed", "done"]);
+    expect(run.steps[1].output).toContain("hello");
+    expect(run.steps[1].inputHash).toMatch(/^[0-9a-f]{40}$/);
+    expect(run.steps[2].error).toMatch(/Command failed/);
+    expect(await fs.pathExists(path.join(dir, ".mofix", "runs", `${first.runId}.json`))).toBe(true);
+
+    await fs.writeFile(path.join(dir, "ok.flag"), "");
+    const second = await exec.resume(first.runId!, options());
+    expect(second.runId).toBe(first.runId);
+    expect(await fs.readFile(path.join(dir, "count.txt"), "utf8")).toBe("x");
+
+    const done = await ApplyRun.load(dir, first.runId!);
+    expect(done.status).toBe("completed");
+    expect(done.steps.map((s) => s.attempts)).toEqual([1, 1, 2, 1]);
+    await expect(exec.resume(first.runId!, options())).rejects.toThrow(/already completed/);
+  });
+
+  test("refuses to resume when files the plan touches changed in between", async () => {
+    const exec = new PlanExecutor(logger);
+    const { runId } = await exec.execute(plan(), options());
+
+    await fs.writeFile(path.join(dir, "a.txt"), "edited by hand\n");
+    await expect(exec.resume(runId!, options())).rejects.toThrow(/Project changed since run .* \(a\.txt\)/);
+    expect(await fs.pathExists(path.join(dir, "count.txt"))).toBe(true);
+    expect((await ApplyRun.load(dir, runId!)).steps[2].attempts).toBe(1);
+  });
+
+  test("resumes a run killed during its first step", async () => {
+    // execute 가 ApplyRun.begin → stepStarted(0) 후 쓰기 도중 죽은 상태를 재현
+    const steps = plan().steps;
+    const run = await ApplyRun.begin(dir, "killed-run", steps);
+    await run.stepStarted(0);
+    await fs.writeFile(path.join(dir, "a.txt"), "a");
+    await fs.writeFile(path.join(dir, "ok.flag"), "");
+
+    await new PlanExecutor(logger).resume("killed-run", options());
+    const done = await ApplyRun.load(dir, "killed-run");
+    expect(done.status).toBe("completed");
+    expect(done.steps.map((s) => s.attempts)).toEqual([2, 1, 1, 1]);
+    expect(await fs.readFile(path.join(dir, "a.txt"), "utf8")).toBe("a\n");
+
+    // 그 사이 손으로 바뀐 파일은 첫 스텝 중이었어도 감지
+    const other = await ApplyRun.begin(dir, "edited-run", steps);
+    await other.stepStarted(0);
+    await fs.writeJson(path.join(dir, "package.json"), { name: "edited" });
+    await expect(new PlanExecutor(logger).resume("edited-run", options())).rejects.toThrow(/Project changed since run edited-run stopped \(package\.json\)/);
+  });
+});
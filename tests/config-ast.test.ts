@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { patchConfigSource, readConfigValue, ConfigPatchError } from "../packages/engine/src/utils/config-ast.js";
+import { applyPlan } from "../packages/engine/src/index.js";
+import { dryRunPlan } from "../packages/engine/src/apply/dry-run.js";
+import { makePlan, type PlanStep } from "../packages/engine/src/core/plan-schema.js";
+
+const VITE = `import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+const shared = { port: 5173 }
+
+// https://vitejs.dev/config/
+export default defineConfig(({ mode }) => ({
+  plugins: [react()],
+  server: { ...shared, open: true },
+  build: {
+    sourcemap: mode !== 'production',
+  },
+}))
+`;
+
+const NEXT = `/** @type {import('next').NextConfig} */
+const nextConfig = {
+  reactStrictMode: true
+}
+
+module.exports = withBundleAnalyzer(nextConfig)
+`;
+
+describe("config ast", () => {
+  test("sets nested values in defineConfig(() => ({...})) keeping style", () => {
+    const a = patchConfigSource(VITE, "vite.config.ts", { path: ["build", "outDir"], value: "dist", mode: "ifMissing" });
+    expect(a.text).toContain("    sourcemap: mode !== 'production',\n    outDir: 'dist',\n  },");
+
+    const b = patchConfigSource(a.text, "vite.config.ts", { path: ["resolve", "alias", "@"], value: "/src" });
+    expect(b.text).toContain("  resolve: { alias: { '@': '/src' } },\n}))");
+    expect(readConfigValue(b.text, "vite.config.ts", ["resolve", "alias"])).toEqual({ "@": "/src" });
+
+    // 이미 있으면 ifMissing 은 그대로, set 은 교체
+    expect(patchConfigSource(b.text, "vite.config.ts", { path: ["build", "outDir"], value: "out", mode: "ifMissing" }).changed).toBe(false);
+    const c = patchConfigSource(b.text, "vite.config.ts", { path: ["server", "port"], value: 3000 });
+    expect(c.text).toContain("server: { ...shared, open: true, port: 3000 }");
+    expect(readConfigValue(c.text, "vite.config.ts", ["build", "sourcemap"])).toEqual({ $expr: "mode !== 'production'" });
+  });
+
+  test("appends plugins idempotently and adds the import", () => {
+    const edit = {
+      path: ["plugins"],
+      value: [{ $expr: "react({ fastRefresh: false })" }, { $expr: "tsconfigPaths()" }],
+      mode: "append" as const,
+      imports: [{ from: "vite-tsconfig-paths", default: "tsconfigPaths" }],
+    };
+    const a = patchConfigSource(VITE, "vite.config.ts", edit);
+    expect(a.text).toContain("plugins: [react(), tsconfigPaths()],");
+    expect(a.text).toContain("import react from '@vitejs/plugin-react'\nimport tsconfigPaths from 'vite-tsconfig-paths'\n");
+    expect(patchConfigSource(a.text, "vite.config.ts", edit).changed).toBe(false);
+  });
+
+  test("follows module.exports through wrappers to the declared object (CJS require)", () => {
+    const r = patchConfigSource(NEXT, "next.config.js", {
+      path: ["output"],
+      value: "standalone",
+      imports: [{ from: "@next/bundle-analyzer", default: "bundleAnalyzer" }],
+    });
+    expect(r.text).toBe(
+      `const bundleAnalyzer = require("@next/bundle-analyzer")\n\n` +
+        `/** @type {import('next').NextConfig} */\n` +
+        `const nextConfig = {\n  reactStrictMode: true,\n  output: "standalone"\n}\n\n` +
+        `module.exports = withBundleAnalyzer(nextConfig)\n`
+    );
+  });
+
+  test("refuses to patch through non-literal values", () => {
+    expect(() => patchConfigSource(VITE, "vite.config.ts", { path: ["build", "sourcemap", "x"], value: 1 })).toThrow(
+      ConfigPatchError
+    );
+  });
+});
+
+describe("config.set step", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-config-"));
+    await fs.writeFile(path.join(dir, "vite.config.ts"), VITE);
+  });
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  const steps: PlanStep[] = [
+    { type: "config.set", file: "vite.config.ts", path: ["build", "outDir"], value: "dist", mode: "ifMissing" },
+    { type: "config.set", file: "vite.config.ts", path: ["preview", "port"], value: 4173 },
+  ];
+
+  test("dry-run and apply produce the same file", async () => {
+    const dry = await dryRunPlan(dir, steps);
+    expect(dry.files.map((f) => f.file)).toEqual(["vite.config.ts"]);
+    expect(dry.files[0].diff).toContain("+  preview: { port: 4173 },");
+
+    const r = await applyPlan(dir, makePlan(steps));
+    expect(r.success).toBe(true);
+    const text = await fs.readFile(path.join(dir, "vite.config.ts"), "utf8");
+    expect(readConfigValue(text, "vite.config.ts", ["build", "outDir"])).toBe("dist");
+    expect(readConfigValue(text, "vite.config.ts", ["preview"])).toEqual({ port: 4173 });
+  });
+});
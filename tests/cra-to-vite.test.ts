@@ -0,0 +1,126 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { ProjectDetector } from "../packages/engine/src/core/project-detector.js";
+import { PlanGenerator } from "../packages/engine/src/core/plan-generator.js";
+import { Logger } from "../packages/engine/src/core/logger.js";
+import { applyPatches } from "../packages/engine/src/apply/runner.js";
+import { parseSetupProxy } from "../packages/engine/src/utils/cra-to-vite.js";
+
+let dir: string;
+
+const write = async (rel: string, data: unknown) => {
+  const file = path.join(dir, rel);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof data === "string") await fs.writeFile(file, data);
+  else await fs.writeJson(file, data, { spaces: 2 });
+};
+
+const read = (rel: string) => fs.readFile(path.join(dir, rel), "utf8");
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-cra-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("CRA → Vite codemod", () => {
+  test("migrates html, env, JSX files, scripts, tests and proxy", async () => {
+    await write("package.json", {
+      name: "cra-app",
+      dependencies: { react: "^18.3.1", "react-dom": "^18.3.1", "react-scripts": "5.0.1" },
+      scripts: { start: "react-scripts start", build: "react-scripts build", test: "react-scripts test", eject: "react-scripts eject" },
+      eslintConfig: { extends: ["react-app", "react-app/jest"] },
+      jest: { clearMocks: true },
+    });
+    await write(
+      "public/index.html",
+      `<!DOCTYPE html>\n<html>\n  <head>\n    <link rel="icon" href="%PUBLIC_URL%/favicon.ico" />\n    <title>%REACT_APP_TITLE%</title>\n  </head>\n  <body>\n    <div id="root"></div>\n  </body>\n</html>\n`
+    );
+    await write("src/index.js", `import App from "./App.js";\nimport { createRoot } from "react-dom/client";\ncreateRoot(document.getElementById("root")).render(<App />);\n`);
+    await write("src/App.js", `export default function App() {\n  return <p>{process.env.REACT_APP_API_URL} {process.env.NODE_ENV}</p>;\n}\n`);
+    await write("src/utils.js", `export const add = (a, b) => a + b;\n`);
+    await write("src/App.test.js", `import { add } from "./utils";\ntest("add", () => {\n  const spy = jest.fn();\n  expect(add(1, 2)).toBe(3);\n});\n`);
+    await write("src/setupTests.js", `import "@testing-library/jest-dom";\n`);
+    await write(
+      "src/setupProxy.js",
+      `const { createProxyMiddleware } = require("http-proxy-middleware");\nmodule.exports = function (app) {\n  app.use("/api", createProxyMiddleware({ target: "http://localhost:5000", changeOrigin: true, pathRewrite: { "^/api": "" } }));\n};\n`
+    );
+    await write(".env", "REACT_APP_API_URL=http://localhost:5000\nPORT=3000\n");
+
+    const detection = await new ProjectDetector(new Logger()).detect(dir);
+    expect(detection.framework).toBe("cra");
+    const plan = await new PlanGenerator().generate(detection, { projectPath: dir });
+    expect(plan.steps.map((s) => s.type === "create" && s.file)).not.toContain("MIGRATION_TO_VITE.md");
+    expect(plan.warnings.join("\n")).not.toMatch(/not normalized/);
+    expect(plan.steps).toContainEqual(
+      expect.objectContaining({ type: "install", deps: ["vite@^5.2.0", "@vitejs/plugin-react@^4.3.4", "vitest@^3.2.4", "jsdom@^26.1.0"] })
+    );
+
+    await applyPatches(dir, plan.steps.filter((s) => s.type !== "install"));
+
+    const html = await read("index.html");
+    expect(html).toContain(`href="/favicon.ico"`);
+    expect(html).toContain("<title>%VITE_TITLE%</title>");
+    expect(html).toContain(`<script type="module" src="/src/index.jsx"></script>\n  </body>`);
+    expect(await fs.pathExists(path.join(dir, "public/index.html"))).toBe(false);
+
+    expect(await fs.pathExists(path.join(dir, "src/App.js"))).toBe(false);
+    expect(await read("src/App.jsx")).toContain("{import.meta.env.VITE_API_URL} {import.meta.env.MODE}");
+    expect(await read("src/index.jsx")).toContain(`import App from "./App.jsx";`);
+    expect(await fs.pathExists(path.join(dir, "src/utils.js"))).toBe(true);
+    expect(await read("src/App.test.js")).toContain("const spy = vi.fn();");
+    expect(await read(".env")).toBe("VITE_API_URL=http://localhost:5000\nPORT=3000\n");
+    expect(await read(".env.example")).toMatch(/^VITE_API_URL=/m);
+
+    const config = await read("vite.config.mjs");
+    expect(config).toContain(`"/api": { target: "http://localhost:5000", changeOrigin: true, rewrite: (p) => p.replace(/^\\/api/, "") },`);
+    expect(config).toContain(`test: { environment: "jsdom", globals: true, setupFiles: ["./src/setupTests.js"], clearMocks: true },`);
+    expect(await fs.pathExists(path.join(dir, "src/setupProxy.js"))).toBe(false);
+
+    const pkg = await fs.readJson(path.join(dir, "package.json"));
+    expect(pkg.scripts).toEqual({ start: "vite", build: "vite build", test: "vitest", dev: "vite", preview: "vite preview" });
+    expect(pkg.dependencies["react-scripts"]).toBeUndefined();
+    expect(pkg.eslintConfig).toBeUndefined();
+    expect(pkg.jest).toBeUndefined();
+  });
+
+  test("reports an unconvertible setupProxy as a plan warning and pins tools from the lockfile", async () => {
+    await write("package.json", {
+      name: "cra-app",
+      dependencies: { react: "^18.3.1", "react-dom": "^18.3.1", "react-scripts": "5.0.1" },
+      scripts: { start: "react-scripts start", build: "react-scripts build", test: "react-scripts test" },
+    });
+    await write("package-lock.json", {
+      name: "cra-app",
+      lockfileVersion: 3,
+      packages: { "": { name: "cra-app" }, "node_modules/jsdom": { version: "24.0.0" } },
+    });
+    await write("src/index.js", `import { createRoot } from "react-dom/client";\ncreateRoot(document.getElementById("root")).render(<p />);\n`);
+    await write("src/App.test.js", `test("ok", () => {});\n`);
+    await write("src/setupProxy.js", `module.exports = (app) => {\n  app.use(require("./auth-middleware"));\n};\n`);
+
+    const detection = await new ProjectDetector(new Logger()).detect(dir);
+    const plan = await new PlanGenerator().generate(detection, { projectPath: dir });
+    expect(plan.warnings).toContainEqual(expect.stringMatching(/^src\/setupProxy\.js could not be converted automatically/));
+    const install = plan.steps.find((s) => s.type === "install" && s.deps?.some((d) => d.startsWith("vite@")));
+    expect(install).toEqual(expect.objectContaining({ deps: expect.arrayContaining(["jsdom@^24.0.0"]) }));
+
+    await applyPatches(dir, plan.steps.filter((s) => s.type !== "install"));
+    expect(await read("vite.config.mjs")).not.toMatch(/TODO/);
+    expect(await fs.pathExists(path.join(dir, "src/setupProxy.js"))).toBe(true);
+  });
+
+  test("parses http-proxy-middleware v1 and v3 styles", () => {
+    expect(parseSetupProxy(`app.use(proxy(["/api", "/auth"], { target: "http://localhost:8080", ws: true }));`)).toEqual({
+      "/api": { target: "http://localhost:8080", ws: true },
+      "/auth": { target: "http://localhost:8080", ws: true },
+    });
+    expect(parseSetupProxy(`app.use(createProxyMiddleware({ pathFilter: "/graphql", target: "http://localhost:4000" }));`)).toEqual({
+      "/graphql": { target: "http://localhost:4000" },
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { dryRunPlan } from "../packages/engine/src/apply/dry-run.js";
+import { unifiedDiff } from "../packages/engine/src/utils/diff.js";
+import { applyPatches } from "../packages/engine/src/apply/runner.js";
+import { PlanExecutor } from "../packages/engine/src/core/plan-executor.js";
+import { makePlan } from "../packages/engine/src/core/plan-schema.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-dry-"));
+  await fs.writeJson(path.join(dir, "package.json"), { name: "demo", scripts: { dev: "vite" } }, { spaces: 2 });
+  await fs.writeFile(path.join(dir, ".gitignore"), "node_modules/\n");
+  await fs.writeFile(path.join(dir, ".replit"), 'run = "npm run dev"\n');
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("dry-run", () => {
+  test("materialises steps in memory and reports a unified diff per file", async () => {
+    const r = await dryRunPlan(dir, [
+      { type: "json.merge", file: "package.json", merge: { scripts: { build: "vite build" } } },
+      { type: "lines.ensure", file: ".gitignore", lines: ["node_modules/", "dist/"] },
+      { type: "create", file: "src/env.d.ts", content: "export {};\n" },
+      { type: "delete", file: ".replit" },
+      { type: "install", pm: "npm", deps: ["vite@^5.0.0"], dev: true },
+      { type: "run", cmd: "npx", args: ["tsc", "--noEmit"] },
+    ]);
+
+    expect(r.files.map((f) => [f.file, f.status])).toEqual([
+      [".gitignore", "modified"],
+      [".replit", "deleted"],
+      ["package.json", "modified"],
+      ["src/env.d.ts", "added"],
+    ]);
+    const pkg = r.files.find((f) => f.file === "package.json")!.diff;
+    expect(pkg).toContain('+    "build": "vite build"');
+    expect(pkg).toContain('+    "vite": "^5.0.0"');
+    expect(r.files.find((f) => f.file === ".gitignore")!.diff).toBe(
+      ["--- a/.gitignore", "+++ b/.gitignore", "@@ -1 +1,2 @@", " node_modules/", "+dist/", ""].join("\n")
+    );
+    expect(r.commands).toEqual([
+      { cmd: "npm", args: ["install", "vite@^5.0.0", "--save-dev"], cwd: ".", step: 4 },
+      { cmd: "npx", args: ["tsc", "--noEmit"], cwd: ".", step: 5 },
+    ]);
+
+    // 디스크는 그대로
+    expect(await fs.pathExists(path.join(dir, ".replit"))).toBe(true);
+    expect(await fs.pathExists(path.join(dir, "src"))).toBe(false);
+    expect((await fs.readJson(path.join(dir, "package.json"))).scripts).toEqual({ dev: "vite" });
+  });
+
+  test("unifiedDiff keeps distant changes in separate hunks", () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+    const after = before.replace("line 2\n", "line two\n").replace("line 19\n", "line nineteen\n");
+    const hunks = unifiedDiff("f.txt", before, after)
+      .split("\n")
+      .filter((l) => l.startsWith("@@"));
+    expect(hunks).toEqual(["@@ -1,5 +1,5 @@", "@@ -16,5 +16,5 @@"]);
+  });
+
+  test("unifiedDiff marks a missing final newline right after the line it applies to", () => {
+    // 끝 줄바꿈이 없는 줄이 바뀜 (양쪽 모두 없음)
+    expect(unifiedDiff("f.txt", "a", "b")).toBe(
+      "--- a/f.txt\n+++ b/f.txt\n@@ -1 +1 @@\n-a\n\\ No newline at end of file\n+b\n\\ No newline at end of file\n"
+    );
+    // 끝 줄바꿈만 추가
+    expect(unifiedDiff("f.txt", "a", "a\n")).toBe("--- a/f.txt\n+++ b/f.txt\n@@ -1 +1 @@\n-a\n\\ No newline at end of file\n+a\n");
+    // 마지막 줄 앞이 바뀌고, 줄바꿈 없는 마지막 줄은 문맥
+    expect(unifiedDiff("f.txt", "x\nend", "y\nend\n")).toBe(
+      "--- a/f.txt\n+++ b/f.txt\n@@ -1,2 +1,2 @@\n-x\n-end\n\\ No newline at end of file\n+y\n+end\n"
+    );
+    expect(unifiedDiff("f.txt", "x\nend", "y\nend")).toBe(
+      "--- a/f.txt\n+++ b/f.txt\n@@ -1,2 +1,2 @@\n-x\n+y\n end\n\\ No newline at end of file\n"
+    );
+  });
+
+  test("dry-run, runner and PlanExecutor agree on text.patch and file-step semantics", async () => {
+    await fs.writeFile(path.join(dir, "src.txt"), "price: $1\nrest\n");
+    const steps = [
+      // 부분 일치 before 는 치환하지 않음, createIfMissing 은 after 를 새로 쓰지 않음
+      { type: "text.patch", file: "src.txt", before: "price: $1", after: "cost: $&" },
+      { type: "text.patch", file: "new.txt", before: "old", after: "created", createIfMissing: true },
+      { type: "text.patch", file: ".replit", patches: [{ search: "npm run dev", replace: "npm start" }] },
+      { type: "lines.ensure", file: ".gitignore", lines: ["dist/"] },
+      { type: "create", file: "package.json", content: "{}\n" },
+    ];
+    const snapshot = async (root: string) => {
+      const out: Record<string, string | null> = {};
+      for (const f of ["src.txt", "new.txt", ".replit", ".gitignore", "package.json"]) {
+        out[f] = (await fs.pathExists(path.join(root, f))) ? await fs.readFile(path.join(root, f), "utf8") : null;
+      }
+      return out;
+    };
+    const before = await snapshot(dir);
+    const dry = await dryRunPlan(dir, steps);
+
+    const viaRunner = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-dry-runner-"));
+    const viaExecutor = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-dry-exec-"));
+    try {
+      await fs.copy(dir, viaRunner);
+      await fs.copy(dir, viaExecutor);
+      await applyPatches(viaRunner, steps);
+      const noop = () => {};
+      const logger = { info: noop, step: noop, success: noop, warning: noop, error: noop };
+      await new PlanExecutor(logger).execute(makePlan(steps), { projectPath: viaExecutor, logger } as any);
+
+      const runner = await snapshot(viaRunner);
+      expect(await snapshot(viaExecutor)).toEqual(runner);
+      expect(runner).toEqual({ ...before, ".replit": 'run = "npm start"\n', ".gitignore": "node_modules/\ndist/\n" });
+      // dry-run diff 는 실제 적용 결과와 같은 파일만, 같은 내용으로
+      expect(dry.files.map((f) => f.file)).toEqual([".gitignore", ".replit"]);
+      for (const f of dry.files) expect(f.diff).toBe(unifiedDiff(f.file, before[f.file], runner[f.file]));
+    } finally {
+      await fs.remove(viaRunner);
+      await fs.remove(viaExecutor);
+    }
+  });
+});
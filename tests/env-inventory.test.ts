@@ -0,0 +1,81 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { extractEnvRefs, planEnvExample, scanEnvInventory } from "../packages/engine/src/utils/env-inventory.js";
+import { diagnose } from "../packages/engine/src/diagnose/index.js";
+
+let dir: string;
+
+const write = async (rel: string, text: string) => {
+  await fs.ensureDir(path.dirname(path.join(dir, rel)));
+  await fs.writeFile(path.join(dir, rel), text);
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-env-"));
+  await fs.writeJson(path.join(dir, "package.json"), { dependencies: { next: "14.0.0" } });
+  await write("app/page.tsx", "export default () => fetch(process.env.NEXT_PUBLIC_API_URL + '/x');\n");
+  await write(
+    "lib/db.ts",
+    [
+      "const url = process.env['DATABASE_URL'];",
+      "const { STRIPE_KEY, REDIS_URL: redis = 'x' } = process.env;",
+      "if (process.env.NODE_ENV === 'production') console.log(process.env.PORT);",
+    ].join("\n")
+  );
+  await write("node_modules/pkg/index.js", "process.env.IGNORED_DEP_VAR");
+  await write(".env.local", "# secrets\nDATABASE_URL=postgres://user:pw@db/app\nexport SESSION_SECRET=\"s3cr3t\"\n");
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("env inventory", () => {
+  test("extracts every access style", () => {
+    expect(
+      extractEnvRefs(
+        'import.meta.env.VITE_A; import.meta.env["VITE_B"]; Deno.env.get("C"); Bun.env.D; import.meta.env.MODE;'
+      ).sort()
+    ).toEqual(["C", "D", "VITE_A", "VITE_B"]);
+  });
+
+  test("merges .env keys, classifies by framework prefix and lists undefined refs", async () => {
+    const inv = await scanEnvInventory(dir, "nextjs");
+    expect(inv.vars.map((v) => [v.name, v.exposure, v.definedIn.length > 0])).toEqual([
+      ["DATABASE_URL", "server", true],
+      ["NEXT_PUBLIC_API_URL", "client", false],
+      ["PORT", "server", false],
+      ["REDIS_URL", "server", false],
+      ["SESSION_SECRET", "server", true],
+      ["STRIPE_KEY", "server", false],
+    ]);
+    expect(inv.undefinedRefs).toEqual(["NEXT_PUBLIC_API_URL", "REDIS_URL", "STRIPE_KEY"]);
+  });
+
+  test("writes a documented .env.example without values, or only adds missing keys", async () => {
+    const [create] = (await planEnvExample(dir, "nextjs")) as any[];
+    expect(create.type).toBe("create");
+    expect(create.content).toContain("# ── Client-exposed: bundled into browser code (NEXT_PUBLIC_*) — no secrets ──\n\n# used in: app/page.tsx\nNEXT_PUBLIC_API_URL=\n");
+    expect(create.content).toContain("# used in: lib/db.ts\nDATABASE_URL=\n");
+    expect(create.content).toContain("# defined in .env.local (not referenced in source)\nSESSION_SECRET=\n");
+    expect(create.content).not.toContain("postgres://");
+    expect(create.content).not.toContain("s3cr3t");
+
+    await write(".env.example", "DATABASE_URL=\nNEXT_PUBLIC_API_URL=\n");
+    const [ensure] = (await planEnvExample(dir, "nextjs")) as any[];
+    expect(ensure).toMatchObject({
+      type: "lines.ensure",
+      file: ".env.example",
+      lines: ["PORT=", "REDIS_URL=", "SESSION_SECRET=", "STRIPE_KEY="],
+    });
+  });
+
+  test("diagnose reports undefined vars as evidence", async () => {
+    const r = await diagnose(dir);
+    const undef = r.evidences.find((e) => e.id === "env-vars-undefined");
+    expect(undef?.files.sort()).toEqual(["app/page.tsx", "lib/db.ts"]);
+    expect(r.fixes.find((f) => f.id === "env-example-missing")?.plan[0]).toMatchObject({ file: ".env.example" });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { ProjectDetector } from "../packages/engine/src/core/project-detector.js";
+import { PlanGenerator } from "../packages/engine/src/core/plan-generator.js";
+import { Logger } from "../packages/engine/src/core/logger.js";
+import { FrameworkRegistry, knownFramework } from "../packages/engine/src/frameworks/framework-registry.js";
+import { buildAutoFixes } from "../packages/engine/src/fixes/rules.js";
+
+let dir: string;
+
+const write = async (rel: string, data: unknown) => {
+  const file = path.join(dir, rel);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof data === "string") await fs.writeFile(file, data);
+  else await fs.writeJson(file, data, { spaces: 2 });
+};
+
+const generate = async () => {
+  const detection = await new ProjectDetector(new Logger()).detect(dir);
+  const plan = await new PlanGenerator().generate(detection, { projectPath: dir });
+  const scripts = plan.steps.find((s) => s.type === "json.merge" && s.file === "package.json");
+  return {
+    framework: detection.framework,
+    files: plan.steps.filter((s) => s.type === "create").map((s) => (s as { file: string }).file),
+    scripts: scripts?.type === "json.merge" ? scripts.merge.scripts : undefined,
+    warnings: plan.warnings,
+    steps: plan.steps,
+  };
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-fw-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("framework adapters", () => {
+  test("registry includes the meta-framework adapters", () => {
+    const names = new FrameworkRegistry().getAll().map((a) => a.name);
+    expect(names).toEqual(expect.arrayContaining(["remix", "nuxt", "sveltekit", "astro", "angular"]));
+  });
+
+  test("SvelteKit (vite dependency) is not mistaken for plain Vite", async () => {
+    await write("package.json", { name: "kit", devDependencies: { "@sveltejs/kit": "^2.5.0", vite: "^5.2.0" } });
+    const r = await generate();
+    expect(r.framework).toBe("sveltekit");
+    expect(r.files).toEqual(expect.arrayContaining(["svelte.config.js", "vite.config.ts"]));
+    expect(r.scripts).toEqual({ dev: "vite dev", build: "vite build", preview: "vite preview", start: "vite preview" });
+    expect(r.warnings.join("\n")).not.toMatch(/No adapter found|not normalized/);
+  });
+
+  test("Remix picks the Vite plugin or the classic compiler", async () => {
+    await write("package.json", { name: "rmx", dependencies: { "@remix-run/react": "^2.16.0" }, devDependencies: { "@remix-run/dev": "^2.16.0" } });
+    let r = await generate();
+    expect(r.framework).toBe("remix");
+    expect(r.files).toContain("remix.config.js");
+    expect(r.scripts).toEqual({ dev: "remix dev", build: "remix build", start: "remix-serve ./build/index.js" });
+
+    await write("package.json", { name: "rmx", type: "module", devDependencies: { "@remix-run/dev": "^2.16.0", vite: "^5.2.0" }, scripts: { dev: "remix vite:dev" } });
+    r = await generate();
+    expect(r.files).toContain("vite.config.ts");
+    expect(r.scripts).toEqual({ build: "remix vite:build", start: "remix-serve ./build/server/index.js" });
+  });
+
+  test("Nuxt, Astro and Angular get config, gitignore and scripts", async () => {
+    await write("package.json", { name: "n", dependencies: { nuxt: "^3.12.0" } });
+    let r = await generate();
+    expect(r.framework).toBe("nuxt");
+    expect(r.files).toEqual(expect.arrayContaining(["nuxt.config.ts", "tsconfig.json"]));
+    expect(r.scripts).toMatchObject({ dev: "nuxt dev", postinstall: "nuxt prepare", start: "node .output/server/index.mjs" });
+    expect(r.steps).toContainEqual(expect.objectContaining({ type: "lines.ensure", file: ".gitignore", lines: [".nuxt", ".output", ".data"] }));
+
+    await fs.remove(path.join(dir, "package.json"));
+    await write("astro.config.mjs", "export default {};\n");
+    await write("package.json", { name: "a", dependencies: { astro: "^4.10.0" } });
+    r = await generate();
+    expect(r.framework).toBe("astro");
+    expect(r.files).not.toContain("astro.config.mjs");
+    expect(r.scripts).toEqual({ dev: "astro dev", build: "astro build", preview: "astro preview", start: "astro preview" });
+
+    await fs.emptyDir(dir);
+    await write("package.json", { name: "@acme/shop", dependencies: { "@angular/core": "^17.3.0" }, scripts: { start: "ng serve" } });
+    r = await generate();
+    expect(r.framework).toBe("angular");
+    const ng = r.steps.find((s) => s.type === "create" && s.file === "angular.json");
+    const workspace = JSON.parse((ng as { content: string }).content);
+    expect(workspace.projects.shop.architect.build.builder).toBe("@angular-devkit/build-angular:application");
+    expect(workspace.projects.shop.architect.serve.configurations.development).toEqual({ buildTarget: "shop:build:development" });
+    expect(r.scripts).toEqual({ dev: "ng serve", build: "ng build", test: "ng test" });
+  });
+
+  test("Angular start serves the build output, not the dev server", async () => {
+    await write("package.json", { name: "@acme/shop", dependencies: { "@angular/core": "^17.3.0" } });
+    let r = await generate();
+    expect(r.scripts).toEqual({ dev: "ng serve", build: "ng build", test: "ng test", start: "serve -s dist/shop/browser" });
+    expect(r.steps).toContainEqual(expect.objectContaining({ type: "install", deps: ["serve"] }));
+
+    await write("package.json", { name: "@acme/shop", dependencies: { "@angular/core": "^18.0.0", "@angular/ssr": "^18.0.0" } });
+    r = await generate();
+    expect(r.scripts?.start).toBe("node dist/shop/server/server.mjs");
+    expect(r.steps).not.toContainEqual(expect.objectContaining({ type: "install", deps: ["serve"] }));
+  });
+
+  test("auto-fixes use the detected framework (tailwind content globs, ESM handling)", async () => {
+    await write("package.json", { name: "kit", devDependencies: { "@sveltejs/kit": "^2.5.0", typescript: "^5.4.0" } });
+    const detection = await new ProjectDetector(new Logger()).detect(dir);
+    const framework = knownFramework(detection.framework);
+    expect(framework).toBe("sveltekit");
+
+    const fixes = await buildAutoFixes(dir, framework);
+    const tailwind = fixes.find((f) => f.id === "fix-tailwind-config-missing")!;
+    expect((tailwind.plan[0] as { content: string }).content).toContain(`content: ["./src/**/*.{html,js,svelte,ts}"]`);
+    expect(fixes.find((f) => f.id === "esm-cjs-consistency")?.plan).toContainEqual(
+      expect.objectContaining({ type: "json.merge", file: "package.json", merge: { type: "module" } })
+    );
+    expect(knownFramework("gatsby")).toBe("unknown");
+  });
+});
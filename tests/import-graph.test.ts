@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { analyzeDependencies, collectImports } from "../packages/engine/src/utils/import-graph.js";
+import { diagnose, applyPatches } from "../packages/engine/src/diagnose/index.js";
+
+let dir: string;
+
+const write = async (rel: string, data: unknown) => {
+  const file = path.join(dir, rel);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof data === "string") await fs.writeFile(file, data);
+  else await fs.writeJson(file, data, { spaces: 2 });
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-deps-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("import graph dependency analysis", () => {
+  test("collects static, dynamic, require and type-only specifiers", () => {
+    const refs = collectImports(
+      `import a from "a";\nimport type { B } from "b";\nexport * from "c";\nconst d = require("d");\nconst e = () => import("e");\ntype F = import("f").F;\n`,
+      "x.ts"
+    );
+    expect(refs.map((r) => [r.specifier, r.kind])).toEqual([
+      ["a", "import"],
+      ["b", "type"],
+      ["c", "export"],
+      ["d", "require"],
+      ["e", "dynamic"],
+      ["f", "type"],
+    ]);
+    const vue = collectImports(`<template><div/></template>\n<script setup lang="ts">\nimport { ref } from "vue";\n</script>\n`, "A.vue");
+    expect(vue).toEqual([{ specifier: "vue", kind: "import", line: 3 }]);
+  });
+
+  test("reports missing, unused and dev-only deps; ignores aliases", async () => {
+    await write("package.json", {
+      name: "app",
+      dependencies: { express: "^4.19.2", lodash: "^4.17.21", vitest: "^3.2.4", dotenv: "^16.4.5", tailwindcss: "^3.4.0" },
+      scripts: { start: "node -r dotenv/config src/server.js" },
+    });
+    await write("tsconfig.json", { compilerOptions: { baseUrl: ".", paths: { "@app/*": ["src/*"] } } });
+    await write("src/server.js", `const express = require("express");\nconst { db } = require("@app/db");\nconst zod = require("zod");\nimport("chalk").then(() => {});\n`);
+    await write("src/db.js", `export const db = {};\n`);
+    await write("src/server.test.js", `import { test } from "vitest";\nimport supertest from "supertest";\n`);
+    await write("postcss.config.js", `module.exports = { plugins: { tailwindcss: {} } };\n`);
+
+    const r = await analyzeDependencies(dir);
+    expect(r.missing).toEqual([
+      { name: "chalk", files: ["src/server.js"], devOnly: false },
+      { name: "supertest", files: ["src/server.test.js"], devOnly: true },
+      { name: "zod", files: ["src/server.js"], devOnly: false },
+    ]);
+    expect(r.unused).toEqual(["lodash"]);
+    expect(r.devOnly.map((p) => p.name)).toEqual(["tailwindcss", "vitest"]);
+    expect(r.aliases).toContain("@app/");
+  });
+
+  test("deps-missing fix installs the same pinned ranges it declares", async () => {
+    await write("package.json", { name: "app", dependencies: { express: "^4.19.2" } });
+    await write("package-lock.json", {
+      name: "app",
+      lockfileVersion: 3,
+      packages: { "": { name: "app" }, "node_modules/express": { version: "4.19.2" }, "node_modules/zod": { version: "3.22.4" } },
+    });
+    await write("src/server.js", `const express = require("express");\nconst zod = require("zod");\n`);
+
+    const d = await diagnose(dir);
+    const fix = d.fixes.find((f) => f.id === "deps-missing")!;
+    expect(fix.plan).toEqual([
+      expect.objectContaining({ type: "json.merge", merge: { dependencies: { zod: "^3.22.4" } } }),
+      expect.objectContaining({ type: "install", deps: ["zod@^3.22.4"], dev: false }),
+    ]);
+  });
+
+  test("diagnose adds node: prefixes in edge middleware", async () => {
+    await write("package.json", { name: "web", dependencies: { next: "^14.2.0", react: "^18.3.1", "react-dom": "^18.3.1" } });
+    await write("middleware.ts", `import { Buffer } from "buffer";\nimport type { Stats } from "fs";\nimport crypto from 'crypto';\nexport function middleware() {}\n`);
+    await write("app/api/route.ts", `import fs from "fs";\nexport const runtime = "nodejs";\n`);
+
+    const d = await diagnose(dir);
+    const ev = d.evidences.find((e) => e.id === "node-builtin-prefix");
+    expect(ev?.files).toEqual(["middleware.ts"]);
+    expect(d.evidences.find((e) => e.id === "deps-missing")).toBeUndefined();
+
+    const fix = d.fixes.find((f) => f.id === "node-builtin-prefix")!;
+    await applyPatches(dir, fix.plan);
+    expect(await fs.readFile(path.join(dir, "middleware.ts"), "utf8")).toBe(
+      `import { Buffer } from "node:buffer";\nimport type { Stats } from "fs";\nimport crypto from 'node:crypto';\nexport function middleware() {}\n`
+    );
+  });
+});
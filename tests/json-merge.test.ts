@@ -0,0 +1,87 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { applyPatches } from "../packages/engine/src/apply/runner.js";
+import { dryRunPlan } from "../packages/engine/src/apply/dry-run.js";
+import { validateStep } from "../packages/engine/src/core/plan-schema.js";
+import { JsoncParseError, mergeJsonc } from "../packages/engine/src/utils/jsonc.js";
+
+let dir: string;
+
+const PKG = `{
+\t"name": "web",
+\t"scripts": {
+\t\t"dev": "vite"
+\t},
+\t"workspaces": [
+\t\t"packages/*"
+\t],
+\t"browserslist": ["defaults"]
+}
+`;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-json-"));
+  await fs.writeFile(path.join(dir, "package.json"), PKG);
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("format-preserving json.merge", () => {
+  test("keeps tabs, key order and trailing newline; arrays follow the strategy", async () => {
+    const step = {
+      type: "json.merge",
+      file: "package.json",
+      merge: { scripts: { build: "vite build" }, workspaces: ["packages/*", "apps/*"], browserslist: ["not dead"], type: "module" },
+      arrays: { workspaces: "unique", browserslist: "append" },
+    };
+    await applyPatches(dir, [step]);
+    expect(await fs.readFile(path.join(dir, "package.json"), "utf8")).toBe(`{
+\t"name": "web",
+\t"scripts": {
+\t\t"dev": "vite",
+\t\t"build": "vite build"
+\t},
+\t"workspaces": [
+\t\t"packages/*",
+\t\t"apps/*"
+\t],
+\t"browserslist": ["defaults", "not dead"],
+\t"type": "module"
+}
+`);
+
+    // 두 번째 적용: unique 는 그대로, append 는 다시 추가
+    await applyPatches(dir, [{ ...step, arrays: { workspaces: "unique" } }]);
+    const again = JSON.parse(await fs.readFile(path.join(dir, "package.json"), "utf8"));
+    expect(again.workspaces).toEqual(["packages/*", "apps/*"]);
+    expect(again.browserslist).toEqual(["not dead"]);
+  });
+
+  test("dry-run diff touches only changed lines; schema rejects unknown strategies", async () => {
+    const r = await dryRunPlan(dir, [{ type: "json.merge", file: "package.json", merge: { scripts: { dev: "vite" }, private: true } }]);
+    const diff = r.files[0].diff.split("\n").filter((l) => /^[+-](?![+-])/.test(l));
+    expect(diff).toEqual([`-\t"browserslist": ["defaults"]`, `+\t"browserslist": ["defaults"],`, `+\t"private": true`]);
+
+    expect(validateStep({ type: "json.merge", file: "a.json", merge: {}, arrays: "merge" })).toEqual([expect.stringMatching(/arrays must be/)]);
+  });
+
+  test("merging into an empty inline array or object expands it in the file's style", () => {
+    expect(mergeJsonc(`{\n    "files": [],\n    "a": {}\n}`, { files: ["dist"], a: { b: 1 } }, "x.json", { arrays: "append" })).toBe(
+      `{\n    "files": ["dist"],\n    "a": {\n        "b": 1\n    }\n}`
+    );
+  });
+
+  test("edits the last of duplicate keys and rejects malformed JSON", () => {
+    const dup = `{\n  "type": "commonjs",\n  "type": "commonjs"\n}\n`;
+    const merged = mergeJsonc(dup, { type: "module" }, "package.json");
+    expect(merged).toBe(`{\n  "type": "commonjs",\n  "type": "module"\n}\n`);
+    expect(JSON.parse(merged).type).toBe("module");
+
+    expect(() => mergeJsonc(`{ "a": 1 "b": 2 }`, { c: 3 }, "bad.json")).toThrow(JsoncParseError);
+    expect(() => mergeJsonc(`{ "a": 1 "b": 2 }`, { c: 3 }, "bad.json")).toThrow(/^bad\.json: ',' expected/);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { inspectLockfiles, rewriteScripts } from "../packages/engine/src/utils/lockfiles.js";
+import { detectPackageManager } from "../packages/engine/src/apply/runner.js";
+import { diagnose } from "../packages/engine/src/diagnose/index.js";
+import { buildFixForLockfiles } from "../packages/engine/src/diagnose/rules/lockfiles.js";
+import { PlanExecutor } from "../packages/engine/src/core/plan-executor.js";
+import { ApplyRun } from "../packages/engine/src/core/apply-run.js";
+import { makePlan } from "../packages/engine/src/core/plan-schema.js";
+
+let dir: string;
+
+const write = async (rel: string, data: unknown, mtime?: number) => {
+  const file = path.join(dir, rel);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof data === "string") await fs.writeFile(file, data);
+  else await fs.writeJson(file, data, { spaces: 2 });
+  if (mtime) await fs.utimes(file, mtime, mtime);
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-lock-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("lockfiles", () => {
+  test("Corepack packageManager wins over lockfiles; bun.lock and Yarn Berry are recognised", async () => {
+    await write("package.json", { name: "a", packageManager: "pnpm@8.15.4+sha256.abc" });
+    await write("yarn.lock", "# yarn lockfile v1\n");
+    expect(detectPackageManager(dir)).toBe("pnpm");
+    const report = await inspectLockfiles(dir);
+    expect(report).toMatchObject({ packageManager: "pnpm", source: "packageManager", corepack: { name: "pnpm", version: "8.15.4" } });
+    expect(report.conflicts).toEqual(['package.json "packageManager" is pnpm@8.15.4+sha256.abc but the lockfile is yarn.lock']);
+
+    await write("package.json", { name: "a" });
+    await fs.remove(path.join(dir, "yarn.lock"));
+    await write("bun.lock", '{ "lockfileVersion": 1 }');
+    expect(detectPackageManager(dir)).toBe("bun");
+
+    await fs.remove(path.join(dir, "bun.lock"));
+    await write(".yarnrc.yml", "nodeLinker: node-modules\n");
+    expect(await inspectLockfiles(dir)).toMatchObject({ packageManager: "yarn", source: "yarnrc", yarnBerry: true, conflicts: [] });
+  });
+
+  test("rewrites hardcoded manager calls in scripts", () => {
+    const scripts = {
+      build: "npm run build:client && npm run build:server",
+      "build:client": "vite build",
+      "build:server": "tsc",
+      ci: "npm ci && npm test",
+      setup: "yarn && yarn build",
+      lint: "yarn eslint .",
+      deploy: "npm install -g vercel && vercel",
+    };
+    expect(rewriteScripts(scripts, "pnpm")).toEqual({
+      build: "pnpm run build:client && pnpm run build:server",
+      ci: "pnpm install --frozen-lockfile && pnpm run test",
+      setup: "pnpm install && pnpm run build",
+    });
+    expect(rewriteScripts(scripts, "yarn", { yarnBerry: true })).toEqual({
+      build: "yarn build:client && yarn build:server",
+      ci: "yarn install --immutable && yarn test",
+    });
+  });
+
+  test("diagnose reports mixed lockfiles and offers a consolidation fix", async () => {
+    const old = Date.now() / 1000 - 3600;
+    await write("package.json", { name: "a", scripts: { dev: "vite", build: "vite build", check: "npm run build" } });
+    await write("package-lock.json", { lockfileVersion: 3, packages: {} }, old);
+    await write("pnpm-lock.yaml", "lockfileVersion: '9.0'\n");
+    await write(".pnp.cjs", "// pnp");
+
+    const r = await diagnose(dir);
+    const ev = r.evidences.find((e) => e.id === "lockfile-conflict");
+    expect(ev?.data?.packageManager).toBe("pnpm");
+    expect(ev?.files).toEqual(["pnpm-lock.yaml", "package-lock.json", "package.json"]);
+
+    const fix = r.fixes.find((f) => f.id === "lockfile-conflict");
+    expect(fix?.requiresConfirm).toBe(true);
+    expect(fix?.plan).toEqual([
+      { type: "delete", file: "package-lock.json", description: "Remove npm lockfile" },
+      { type: "delete", file: ".pnp.cjs", description: "Remove Yarn PnP loader" },
+      {
+        type: "json.merge",
+        file: "package.json",
+        merge: { scripts: { check: "pnpm run build" } },
+        description: "Use pnpm in scripts (check)",
+      },
+    ]);
+  });
+
+  test("the lockfile conversion declares what it writes so a rollback removes it", async () => {
+    await write("package.json", { name: "a" });
+    await write("package-lock.json", { lockfileVersion: 3, packages: {} });
+
+    const fix = await buildFixForLockfiles(dir, "pnpm");
+    const [convert] = fix.plan as any[];
+    expect(convert).toMatchObject({ type: "run", cmd: "pnpm", args: ["import"], reads: ["package.json", "package-lock.json"], writes: ["pnpm-lock.yaml"] });
+
+    // pnpm 대신 lockfile 만 만드는 커맨드로 실행 → 뒤의 required 스텝 실패 시 저널 롤백
+    const steps = [
+      { ...convert, cmd: process.execPath, args: ["-e", "require('fs').writeFileSync('pnpm-lock.yaml', 'lockfileVersion: 9.0\\n')"], stdio: "pipe" },
+      { type: "run", cmd: process.execPath, args: ["-e", "process.exit(1)"], stdio: "pipe", required: true },
+    ];
+    const noop = () => {};
+    const logger = { info: noop, step: noop, success: noop, warning: noop, error: noop };
+    await expect(new PlanExecutor(logger as any).execute(makePlan(steps), { projectPath: dir, logger } as any)).rejects.toThrow();
+    expect(await fs.pathExists(path.join(dir, "pnpm-lock.yaml"))).toBe(false);
+    expect(await fs.pathExists(path.join(dir, "package-lock.json"))).toBe(true);
+
+    // 되돌려진 변환은 resume 때 다시 실행 대상
+    const [data] = await ApplyRun.list(dir);
+    expect(data.steps.map((s) => s.status)).toEqual(["rolled-back", "failed"]);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, test, expect } from "@jest/globals";
+import {
+  LogSignatureRegistry,
+  matchLogSignatures,
+  packageFromSpecifier,
+} from "../packages/engine/src/fixes/log-signatures.js";
+import { fixesFromDiagnoseMessages } from "../packages/engine/src/fixes/rules.js";
+import { VersionResolver } from "../packages/engine/src/utils/version-resolver.js";
+
+const versions = VersionResolver.offline({ npmCacheDir: false });
+
+const only = (id: string, text: string) => {
+  const registry = new LogSignatureRegistry();
+  const sig = registry.get(id);
+  registry.clear();
+  registry.register(sig);
+  return matchLogSignatures(text, { registry, versions });
+};
+
+describe("log signatures", () => {
+  test("MODULE_NOT_FOUND: bare packages get an install fix, local paths only evidence", () => {
+    const r = only(
+      "module-not-found",
+      [
+        "Error: Cannot find module 'express'",
+        "Require stack:",
+        "- /app/server.js",
+        "Error: Cannot find module './routes/users'",
+        "Error [ERR_MODULE_NOT_FOUND]: Cannot find package 'lodash' imported from /app/src/index.js",
+        "Error: Cannot find module 'fs'",
+      ].join("\n")
+    );
+    expect(r.evidences.map((e) => [e.data?.specifier, e.autoFixable])).toEqual([
+      ["express", true],
+      ["./routes/users", false],
+      ["lodash", true],
+      ["fs", false],
+    ]);
+    expect(r.fixes.map((f) => f.id)).toEqual(["deps-missing-express", "deps-missing-lodash"]);
+    expect(r.fixes[0].title).toBe("Add missing dependency: express@^4.19.2 (MODULE_NOT_FOUND; engine registry snapshot)");
+    expect(r.fixes[0].plan).toEqual([
+      { type: "json.merge", file: "package.json", merge: { dependencies: { express: "^4.19.2" } } },
+      { type: "install", deps: ["express"], dev: false },
+    ]);
+  });
+
+  test("ERR_REQUIRE_ESM: pins the last CommonJS major when known", () => {
+    const r = only(
+      "err-require-esm",
+      "Error [ERR_REQUIRE_ESM]: require() of ES Module /app/node_modules/node-fetch/src/index.js from /app/server.js not supported.\n" +
+        "Error [ERR_REQUIRE_ESM]: require() of ES Module /app/node_modules/@acme/esm-only/index.js from /app/lib/a.js not supported."
+    );
+    expect(r.evidences.map((e) => [e.data?.package, e.files, e.autoFixable])).toEqual([
+      ["node-fetch", ["/app/server.js"], true],
+      ["@acme/esm-only", ["/app/lib/a.js"], false],
+    ]);
+    expect(r.fixes).toEqual([
+      {
+        id: "esm-only-node-fetch",
+        title: "Pin node-fetch@^2.7.0 (last CommonJS version) to fix ERR_REQUIRE_ESM",
+        plan: [
+          { type: "json.merge", file: "package.json", merge: { dependencies: { "node-fetch": "^2.7.0" } } },
+          { type: "install", deps: ["node-fetch@^2.7.0"] },
+        ],
+      },
+    ]);
+  });
+
+  test("ERR_PACKAGE_PATH_NOT_EXPORTED: reports package and subpath", () => {
+    const r = only(
+      "err-package-path-not-exported",
+      `Error [ERR_PACKAGE_PATH_NOT_EXPORTED]: Package subpath './lib/tokenize' is not defined by "exports" in /app/node_modules/postcss/package.json`
+    );
+    expect(r.evidences).toHaveLength(1);
+    expect(r.evidences[0]).toMatchObject({
+      summary: 'ERR_PACKAGE_PATH_NOT_EXPORTED: "postcss/lib/tokenize" is not exported by postcss',
+      autoFixable: false,
+      data: { package: "postcss", subpath: "./lib/tokenize" },
+    });
+  });
+
+  test("EADDRINUSE: extracts the port", () => {
+    const r = only("eaddrinuse", "Error: listen EADDRINUSE: address already in use :::3000\n    at Server.setupListenHandle");
+    expect(r.evidences.map((e) => e.data)).toEqual([{ port: 3000 }]);
+    expect(r.fixes).toEqual([]);
+  });
+
+  test("TS2307: file from tsc output, install fix for packages", () => {
+    const r = only(
+      "ts2307",
+      "src/api.ts(3,20): error TS2307: Cannot find module 'axios' or its corresponding type declarations.\n" +
+        "src/app.tsx:4:22 - error TS2307: Cannot find module '@/components/Button' or its corresponding type declarations."
+    );
+    expect(r.evidences.map((e) => [e.files, e.autoFixable])).toEqual([
+      [["src/api.ts"], true],
+      [["src/app.tsx"], false],
+    ]);
+    expect(r.fixes.map((f) => f.id)).toEqual(["deps-missing-axios"]);
+  });
+
+  test("TS7016: adds the @types package as a devDependency", () => {
+    const r = only(
+      "ts7016",
+      "src/db.ts(1,19): error TS7016: Could not find a declaration file for module '@acme/legacy-db'. '/app/node_modules/@acme/legacy-db/index.js' implicitly has an 'any' type."
+    );
+    expect(r.fixes).toHaveLength(1);
+    expect(r.fixes[0].id).toBe("types-missing-@acme/legacy-db");
+    expect(r.fixes[0].plan[1]).toEqual({ type: "install", deps: ["@types/acme__legacy-db"], dev: true });
+  });
+
+  test("Vite: failed to resolve import", () => {
+    const r = only(
+      "vite-unresolved-import",
+      '[plugin:vite:import-analysis] Failed to resolve import "zustand/middleware" from "src/store.ts". Does the file exist?\n' +
+        '[vite]: Rollup failed to resolve import "zustand" from "/app/src/main.ts".'
+    );
+    expect(r.evidences.map((e) => [e.data?.package, e.files])).toEqual([
+      ["zustand", ["src/store.ts"]],
+      ["zustand", ["/app/src/main.ts"]],
+    ]);
+    expect(r.fixes.map((f) => f.id)).toEqual(["deps-missing-zustand"]);
+  });
+
+  test("Next/webpack: Module not found: Can't resolve", () => {
+    const r = only(
+      "next-module-not-found",
+      "./app/page.tsx:3:0\nModule not found: Can't resolve 'swr'\n" +
+        "Module not found: Error: Can't resolve '../styles/x.css' in '/app/src'"
+    );
+    expect(r.evidences.map((e) => [e.data?.specifier, e.files, e.autoFixable])).toEqual([
+      ["swr", ["app/page.tsx"], true],
+      ["../styles/x.css", [], false],
+    ]);
+  });
+
+  test("ERR_OSSL_EVP_UNSUPPORTED: legacy OpenSSL provider via .npmrc", () => {
+    const r = only(
+      "err-ossl-evp-unsupported",
+      "Error: error:0308010C:digital envelope routines::unsupported\n  opensslErrorStack: [...],\n  code: 'ERR_OSSL_EVP_UNSUPPORTED'"
+    );
+    expect(r.evidences).toHaveLength(1);
+    expect(r.fixes[0].plan).toEqual([
+      expect.objectContaining({ type: "lines.ensure", file: ".npmrc", lines: ["node-options=--openssl-legacy-provider"] }),
+    ]);
+  });
+
+  test("node-gyp: failing package, missing toolchain and alternative", () => {
+    const r = only(
+      "node-gyp-failed",
+      [
+        "gyp ERR! find Python",
+        "gyp ERR! find Python Python is not set from command line or npm configuration",
+        "gyp ERR! stack Error: not found: make",
+        "gyp ERR! cwd /app/node_modules/bcrypt",
+        "gyp ERR! not ok",
+      ].join("\n")
+    );
+    expect(r.evidences).toHaveLength(1);
+    expect(r.evidences[0].data).toEqual({ package: "bcrypt", missing: ["python3", "make"], alternative: "bcryptjs" });
+    expect(r.evidences[0].details).toContain("Or replace bcrypt with bcryptjs.");
+  });
+
+  test("registry is pluggable and fixesFromDiagnoseMessages dedupes across signatures", () => {
+    const registry = new LogSignatureRegistry();
+    registry.register({
+      id: "custom-heap",
+      severity: "high",
+      patterns: [/JavaScript heap out of memory/g],
+      parse: () => ({ key: "heap", summary: "Out of memory", files: [], data: {} }),
+    });
+    const logs = [
+      "FATAL ERROR: Reached heap limit Allocation failed - JavaScript heap out of memory",
+      "Error: Cannot find module 'axios'",
+      "src/a.ts(1,1): error TS2307: Cannot find module 'axios' or its corresponding type declarations.",
+    ];
+    expect(matchLogSignatures(logs.join("\n"), { registry, versions }).evidences.map((e) => e.id)).toEqual([
+      "module-not-found",
+      "ts2307",
+      "custom-heap",
+    ]);
+    expect(fixesFromDiagnoseMessages({ logs }).map((f) => f.id)).toEqual(["deps-missing-axios"]);
+    expect(packageFromSpecifier("@scope/pkg/sub/path")).toBe("@scope/pkg");
+  });
+});
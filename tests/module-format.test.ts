@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { buildAutoFixes } from "../packages/engine/src/fixes/rules.js";
+import { applyPatches } from "../packages/engine/src/apply/runner.js";
+import { toEsmSource } from "../packages/engine/src/utils/module-format.js";
+import { PlanExecutor } from "../packages/engine/src/core/plan-executor.js";
+import { makePlan } from "../packages/engine/src/core/plan-schema.js";
+
+let dir: string;
+
+const write = async (rel: string, data: unknown) => {
+  const file = path.join(dir, rel);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof data === "string") await fs.writeFile(file, data);
+  else await fs.writeJson(file, data, { spaces: 2 });
+};
+
+const read = (rel: string) => fs.readFile(path.join(dir, rel), "utf8");
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-esm-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("CommonJS → ESM codemod", () => {
+  test("rewrites require/exports, __dirname and relative specifiers", () => {
+    const files = new Set(["src/server.js", "src/routes/index.js", "src/db.js", "src/util.ts"]);
+    const src =
+      `"use strict";\n` +
+      `const express = require("express");\n` +
+      `const { join, resolve: r } = require("path");\n` +
+      `const routes = require("./routes");\n` +
+      `const db = require("./db");\n` +
+      `require("dotenv/config");\n` +
+      `const Router = require("express").Router;\n` +
+      `\n` +
+      `function load(name) {\n  return require(name);\n}\n` +
+      `const pub = join(__dirname, "public");\n` +
+      `module.exports = { express, load };\n`;
+    const out = toEsmSource(src, "src/server.js", { files, namedOnly: new Set(["src/db.js"]) });
+    expect(out.text).toBe(
+      `import { createRequire } from "node:module";\n` +
+        `import { fileURLToPath } from "node:url";\n` +
+        `import { dirname } from "node:path";\n` +
+        `const require = createRequire(import.meta.url);\n` +
+        `const __filename = fileURLToPath(import.meta.url);\n` +
+        `const __dirname = dirname(__filename);\n` +
+        `import express from "express";\n` +
+        `import { join, resolve as r } from "path";\n` +
+        `import routes from "./routes/index.js";\n` +
+        `import * as db from "./db.js";\n` +
+        `import "dotenv/config";\n` +
+        `import { Router } from "express";\n` +
+        `\n` +
+        `function load(name) {\n  return require(name);\n}\n` +
+        `const pub = join(__dirname, "public");\n` +
+        `export { express, load };\nexport default { express, load };\n`
+    );
+    expect(out.keptRequire).toBe(true);
+
+    const named = toEsmSource(`exports.add = (a, b) => a + b;\nexports.sub = sub;\nexport { x } from "./util";\n`, "src/db.js", {
+      files,
+      importMetaDirname: true,
+    });
+    expect(named.text).toBe(`export const add = (a, b) => a + b;\nexport { sub };\nexport { x } from "./util.js";\n`);
+    expect(toEsmSource(`const p = __dirname;\n`, "a.js", { importMetaDirname: true }).text).toBe(`const p = import.meta.dirname;\n`);
+  });
+
+  test("esm-cjs-consistency converts TS sources and keeps generated configs ESM", async () => {
+    await write("package.json", { name: "api", dependencies: { express: "^4.19.2" }, devDependencies: { typescript: "^5.4.0" } });
+    await write("tsconfig.json", { compilerOptions: { module: "CommonJS", outDir: "dist" } });
+    await write("src/index.ts", `import express from "express";\nimport { port } from "./config";\n\nexpress().listen(port);\n`);
+    await write("src/config.ts", `export const port = Number(process.env.PORT) || 3000;\n`);
+    await write("tailwind.config.js", `module.exports = { content: ["./src/**/*.ts"] };\n`);
+    await write(".eslintrc.js", `module.exports = { root: true };\n`);
+    await write("jest.config.js", `const path = require("path");\nmodule.exports = { rootDir: path.join(__dirname, "src") };\n`);
+
+    const fixes = await buildAutoFixes(dir, "express");
+    const postcss = fixes.find((f) => f.id === "fix-postcss-config-missing")!;
+    expect((postcss.plan[0] as { content: string }).content).toMatch(/^export default \{/);
+    const esm = fixes.find((f) => f.id === "esm-cjs-consistency")!;
+    await applyPatches(dir, esm.plan);
+
+    expect((await fs.readJson(path.join(dir, "package.json"))).type).toBe("module");
+    expect(await read("src/index.ts")).toContain(`import { port } from "./config.js";`);
+    expect(await read("tailwind.config.js")).toBe(`export default { content: ["./src/**/*.ts"] };\n`);
+    expect(await fs.pathExists(path.join(dir, ".eslintrc.js"))).toBe(false);
+    expect(await read(".eslintrc.cjs")).toBe(`module.exports = { root: true };\n`);
+    // __dirname 이 남으면(Node 20 기본) 제자리 변환 대신 .cjs
+    expect(await fs.pathExists(path.join(dir, "jest.config.cjs"))).toBe(true);
+  });
+
+  test("whole-file conversion survives $ replacement patterns under PlanExecutor", async () => {
+    await write("package.json", { name: "shop", dependencies: { express: "^4.19.2" }, devDependencies: { typescript: "^5.4.0" } });
+    await write("tsconfig.json", { compilerOptions: { module: "NodeNext", moduleResolution: "NodeNext", esModuleInterop: true } });
+    const src =
+      `const express = require("express");\n` +
+      "const label = (price) => '$' + price + `$$ ${\"$&\"} $' $\``;\n" +
+      `module.exports = { label };\n`;
+    await write("src/index.js", src);
+
+    const fixes = await buildAutoFixes(dir, "express");
+    const esm = fixes.find((f) => f.id === "esm-cjs-consistency")!;
+    const noop = () => {};
+    const logger = { info: noop, step: noop, success: noop, warning: noop, error: noop };
+    await new PlanExecutor(logger).execute(makePlan(esm.plan), { projectPath: dir, logger } as any);
+
+    const out = await read("src/index.js");
+    expect(out).toContain(`import express from "express";`);
+    expect(out).toContain("const label = (price) => '$' + price + `$$ ${\"$&\"} $' $\``;");
+    expect(out).not.toContain("require(");
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import {
+  inspectNodeVersion,
+  minNodeVersion,
+  satisfiesNode,
+} from "../packages/engine/src/utils/node-version.js";
+import { diagnose, applyPatches } from "../packages/engine/src/diagnose/index.js";
+import { analyzeDeploy } from "../packages/engine/src/targets/deploy-info.js";
+
+let dir: string;
+
+const write = async (rel: string, data: unknown) => {
+  const file = path.join(dir, rel);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof data === "string") await fs.writeFile(file, data);
+  else await fs.writeJson(file, data, { spaces: 2 });
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-node-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("node version", () => {
+  test("engines ranges", () => {
+    expect(minNodeVersion("^18.17.0 || >=20")).toBe("18.17.0");
+    expect(minNodeVersion(">= 16.14")).toBe("16.14.0");
+    expect(satisfiesNode("20.19.2", "18.x")).toBe(false);
+    expect(satisfiesNode("18.20.8", ">=18.17 <19")).toBe(true);
+    expect(satisfiesNode("22.0.0", "18 - 20")).toBe(false);
+  });
+
+  test("collects every source and prefers the highest pin", async () => {
+    await write("package.json", { engines: { node: ">=18" }, volta: { node: "18.19.0" } });
+    await write(".nvmrc", "lts/iron\n");
+    await write(".tool-versions", "python 3.12.0\nnodejs 18.19.0\n");
+    await write("replit.nix", "{ pkgs }: {\n  deps = [ pkgs.nodejs-18_x ];\n}\n");
+
+    const r = await inspectNodeVersion(dir);
+    expect(r.hints.map((h) => [h.source, h.version ?? h.range])).toEqual([
+      ["nvmrc", "20"],
+      ["tool-versions", "18.19.0"],
+      ["volta", "18.19.0"],
+      ["replit.nix", "18"],
+      ["engines", ">=18"],
+    ]);
+    expect(r).toMatchObject({ major: "20", source: "nvmrc", unmet: false });
+    expect(r.conflicts).toEqual([
+      "Node versions disagree: .nvmrc (lts/iron), .tool-versions (18.19.0), volta.node 18.19.0, replit.nix (nodejs-18_x)",
+    ]);
+  });
+
+  test("dependency requirements bump the version and targets follow", async () => {
+    await write("package.json", { engines: { node: "16.x" }, dependencies: { next: "^14.2.5" } });
+    await write(".node-version", "16.20.0\n");
+
+    const r = await inspectNodeVersion(dir);
+    expect(r).toMatchObject({ major: "18", source: "requirement", unmet: true });
+    expect(r.required).toEqual({ package: "next", range: "^14.2.5", min: "18.17.0" });
+    expect(r.conflicts).toEqual([
+      ".node-version (16.20.0) is too old (next@^14.2.5 needs Node >=18.17.0)",
+      'engines.node "16.x" allows Node 16.0.0 (next@^14.2.5 needs Node >=18.17.0)',
+    ]);
+    expect((await analyzeDeploy("nextjs", dir)).nodeVersion).toBe("18");
+  });
+
+  test("diagnose fix writes .nvmrc and aligns the other declarations", async () => {
+    await write("package.json", { engines: { node: "16.x" }, dependencies: { next: "^14.2.5" } });
+    await write(".node-version", "16\n");
+    await write(".replit", 'modules = ["nodejs-16", "web"]\n');
+
+    const d = await diagnose(dir);
+    const ev = d.evidences.find((e) => e.id === "node-version-mismatch");
+    expect(ev).toMatchObject({ severity: "high", files: [".node-version", ".replit", "package.json"] });
+    const fix = d.fixes.find((f) => f.id === "node-version-mismatch")!;
+    expect(fix.plan.map((s) => s.description)).toEqual([
+      "Pin Node 18 (.nvmrc)",
+      "Pin Node 18 (.node-version)",
+      "Set engines.node to ^18.17.0",
+      "Use nodejs-18 module in .replit",
+    ]);
+
+    await applyPatches(dir, fix.plan);
+    expect(await fs.readFile(path.join(dir, ".nvmrc"), "utf8")).toBe("18\n");
+    expect(await fs.readFile(path.join(dir, ".replit"), "utf8")).toBe('modules = ["nodejs-18", "web"]\n');
+    expect((await fs.readJson(path.join(dir, "package.json"))).engines).toEqual({ node: "^18.17.0" });
+    expect((await inspectNodeVersion(dir)).conflicts).toEqual([]);
+  });
+});
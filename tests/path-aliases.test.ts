@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { buildAutoFixes } from "../packages/engine/src/fixes/rules.js";
+import { applyPatches } from "../packages/engine/src/apply/runner.js";
+import { inspectAliases, planAliasSync } from "../packages/engine/src/utils/path-aliases.js";
+
+let dir: string;
+
+const write = async (rel: string, data: unknown) => {
+  const file = path.join(dir, rel);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof data === "string") await fs.writeFile(file, data);
+  else await fs.writeJson(file, data, { spaces: 2 });
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-alias-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("path alias reconciliation", () => {
+  test("Next pages router without src/: no default alias, inferred @ → project root", async () => {
+    await write("package.json", { name: "web", dependencies: { next: "^14.2.0", react: "^18.3.1" }, devDependencies: { typescript: "^5.4.0" } });
+    await write("tsconfig.json", { compilerOptions: { strict: true } });
+    await write("pages/index.tsx", `export default function Home() { return null; }\n`);
+
+    let fixes = await buildAutoFixes(dir, "nextjs");
+    expect(fixes.find((f) => f.id === "ts-alias-fix")).toBeUndefined();
+
+    await write("components/Nav.tsx", `export const Nav = () => null;\n`);
+    await write("pages/index.tsx", `import { Nav } from "@/components/Nav";\nexport default function Home() { return <Nav />; }\n`);
+    fixes = await buildAutoFixes(dir, "nextjs");
+    const fix = fixes.find((f) => f.id === "ts-alias-fix")!;
+    expect(fix.plan).toEqual([
+      expect.objectContaining({ type: "json.merge", file: "tsconfig.json", merge: { compilerOptions: { paths: { "@/*": ["./*"] } } } }),
+    ]);
+  });
+
+  test("syncs tsconfig extends-chain paths and Vite aliases in both directions", async () => {
+    await write("package.json", { name: "spa", devDependencies: { vite: "^5.2.0", typescript: "^5.4.0" } });
+    await write("tsconfig.base.json", { compilerOptions: { baseUrl: ".", paths: { "~/*": ["src/*"] } } });
+    await write("tsconfig.json", { extends: "./tsconfig.base.json", compilerOptions: { strict: true } });
+    await write(
+      "vite.config.ts",
+      `import path from "path";\nimport { defineConfig } from "vite";\n\nexport default defineConfig({\n  resolve: { alias: { "@": path.resolve(__dirname, "./src") } },\n});\n`
+    );
+    await write("src/lib/api.ts", `export const api = 1;\n`);
+    await write("src/main.ts", `import { api } from "@/lib/api";\nimport { api as b } from "~/lib/api";\n`);
+
+    const report = await inspectAliases(dir);
+    expect(report.aliases).toEqual([
+      { key: "@", target: "src", sources: ["vite"] },
+      { key: "~", target: "src", sources: ["tsconfig"] },
+    ]);
+    expect(report.used).toEqual(["@", "~"]);
+    expect(report.ownPaths).toBe(false);
+
+    const steps = await planAliasSync(dir, report);
+    await applyPatches(dir, steps);
+    // 상속받은 "~/*" 가 가려지지 않도록 함께 적음 (baseUrl "." 기준)
+    expect((await fs.readJson(path.join(dir, "tsconfig.json"))).compilerOptions.paths).toEqual({ "@/*": ["./src/*"], "~/*": ["./src/*"] });
+    const vite = await fs.readFile(path.join(dir, "vite.config.ts"), "utf8");
+    expect(vite).toContain(`"@": path.resolve(__dirname, "./src")`);
+    expect(vite).toMatch(/"~": "\/src"/);
+
+    expect(await planAliasSync(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { orderSteps, schedulePlan } from "../packages/engine/src/core/plan-graph.js";
+import { PlanSchemaError, normalizeSteps } from "../packages/engine/src/core/plan-schema.js";
+import { applyPatches } from "../packages/engine/src/apply/runner.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-graph-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("plan step graph", () => {
+  test("dependsOn reorders steps; unrelated and same-file steps keep their order", async () => {
+    const steps = normalizeSteps([
+      { type: "append", file: "log.txt", content: "a\n", id: "a", dependsOn: ["c"] },
+      { type: "append", file: "other.txt", content: "b\n", id: "b" },
+      { type: "write", file: "log.txt", content: "c\n", id: "c" },
+      { type: "append", file: "log.txt", content: "d\n", id: "d" },
+    ]);
+    expect(orderSteps(steps).map((s) => s.id)).toEqual(["b", "c", "a", "d"]);
+
+    await applyPatches(dir, steps);
+    expect(await fs.readFile(path.join(dir, "log.txt"), "utf8")).toBe("c\na\nd\n");
+  });
+
+  test("cycles, unknown and duplicate ids are plan validation errors", () => {
+    const cyclic = normalizeSteps([
+      { type: "write", file: "a.txt", content: "", id: "a", dependsOn: ["b"] },
+      { type: "write", file: "b.txt", content: "", id: "b", dependsOn: ["a"] },
+    ]);
+    expect(() => orderSteps(cyclic)).toThrow(PlanSchemaError);
+    expect(() => orderSteps(cyclic)).toThrow(/dependency cycle: a → b → a/);
+
+    try {
+      schedulePlan([
+        { type: "write", file: "a.txt", content: "", id: "x" },
+        { type: "write", file: "b.txt", content: "", id: "x", dependsOn: ["missing"] },
+      ]);
+      throw new Error("expected PlanSchemaError");
+    } catch (e: any) {
+      expect(e.issues).toEqual(["steps[1] duplicate id: x", "steps[1] dependsOn unknown id: missing"]);
+    }
+  });
+
+  test("merges compatible tsconfig edits from separate fixes and flags conflicting values", () => {
+    const esm = { type: "json.merge", file: "tsconfig.json", merge: { compilerOptions: { module: "NodeNext", moduleResolution: "NodeNext" } }, description: "ESM" };
+    const alias = { type: "json.merge", file: "./tsconfig.json", merge: { compilerOptions: { paths: { "@/*": ["./src/*"] } } }, description: "alias" };
+    const install = { type: "install", deps: ["zod"] };
+
+    const merged = schedulePlan([esm, install, alias]);
+    expect(merged.conflicts).toEqual([]);
+    expect(merged.steps).toEqual([
+      {
+        type: "json.merge",
+        file: "tsconfig.json",
+        merge: { compilerOptions: { module: "NodeNext", moduleResolution: "NodeNext", paths: { "@/*": ["./src/*"] } } },
+        description: "ESM + alias",
+      },
+      install,
+    ]);
+
+    const legacy = { type: "json.merge", file: "tsconfig.json", merge: { compilerOptions: { module: "commonjs" } }, id: "legacy" };
+    const flagged = schedulePlan([esm, legacy, { type: "run", cmd: "npx", args: ["tsc"] }, alias]);
+    expect(flagged.steps).toHaveLength(4);
+    expect(flagged.conflicts).toEqual([
+      expect.objectContaining({ file: "tsconfig.json", path: ["compilerOptions", "module"], steps: [0, 1], message: "tsconfig.json compilerOptions.module: #0 and legacy set different values (legacy wins)" }),
+    ]);
+  });
+});
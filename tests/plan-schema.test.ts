@@ -0,0 +1,52 @@
+import { describe, test, expect } from "@jest/globals";
+import {
+  PLAN_SCHEMA_VERSION,
+  PlanSchemaError,
+  parsePlan,
+} from "../packages/engine/src/core/plan-schema.js";
+
+describe("plan schema", () => {
+  test("upgrades legacy steps from every entry point", () => {
+    const plan = parsePlan({
+      steps: [
+        { type: "mergeJson", file: "package.json", merge: { type: "module" } },
+        { type: "modify", target: "a.txt", content: "x", required: true },
+        { type: "create", target: "b.txt", content: "y" },
+        { type: "install-old", pkg: "react", dev: false },
+        { type: "install", pkg: "vite", dev: true },
+        { type: "exec", cmd: "node", args: ["-v"] },
+        { type: "delete", target: ".replit" },
+        { type: "ensure-in-gitignore", lines: ["dist/"] },
+        { type: "write", file: ".env.sample", content: "", ifNotExists: true },
+      ],
+    });
+
+    expect(plan.schemaVersion).toBe(PLAN_SCHEMA_VERSION);
+    expect(plan.steps).toEqual([
+      { type: "json.merge", file: "package.json", merge: { type: "module" } },
+      { type: "write", file: "a.txt", content: "x", required: true },
+      { type: "create", file: "b.txt", content: "y" },
+      { type: "install", deps: ["react"], dev: false },
+      { type: "install", deps: ["vite"], dev: true },
+      { type: "run", cmd: "node", args: ["-v"] },
+      { type: "delete", file: ".replit" },
+      { type: "lines.ensure", file: ".gitignore", lines: ["dist/"] },
+      { type: "create", file: ".env.sample", content: "" },
+    ]);
+  });
+
+  test("rejects unknown or incomplete steps instead of dropping them", () => {
+    expect(() => parsePlan({ steps: [{ type: "teleport", file: "x" }] })).toThrow(PlanSchemaError);
+    try {
+      parsePlan({ steps: [{ type: "json.merge", file: "package.json" }] });
+    } catch (e: any) {
+      expect(e.issues).toEqual(["steps[0] json.merge: merge (object) required"]);
+    }
+  });
+
+  test("refuses plans from a newer schema version", () => {
+    expect(() => parsePlan({ schemaVersion: PLAN_SCHEMA_VERSION + 1, steps: [] })).toThrow(
+      /unsupported schemaVersion/
+    );
+  });
+});
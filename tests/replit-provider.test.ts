@@ -0,0 +1,98 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { parseReplitConfig, parseReplitNix, replitTransform } from "../packages/engine/src/providers/replit-provider.js";
+import { applyPlan } from "../packages/engine/src/index.js";
+import { makePlan } from "../packages/engine/src/core/plan-schema.js";
+
+const REPLIT = `# Replit config
+run = "node server.js"
+entrypoint = "server.js"
+modules = ["nodejs-20", "web"]
+
+[nix]
+channel = "stable-23_11"
+
+[deployment]
+build = ["sh", "-c", "npm run build"]
+run = ["node", "dist/server.js"]
+
+[[ports]]
+localPort = 3000
+externalPort = 80
+
+[[ports]]
+localPort = 5173
+
+[env]
+API_URL = "https://api.example.com"
+SESSION_SECRET = "s3cr3t-value"
+PATH = "/home/runner/$REPL_SLUG/.config/npm/node_global/bin:$PATH"
+`;
+
+const NIX = `{ pkgs }: {
+  deps = [
+    pkgs.nodejs-18_x
+    pkgs.nodePackages.typescript-language-server
+    pkgs.cairo
+    pkgs.pkg-config
+    # pkgs.ignored
+    pkgs.somethingExotic
+  ];
+}
+`;
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-replit-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("replit provider", () => {
+  test("parses .replit and replit.nix", () => {
+    expect(parseReplitConfig(REPLIT)).toEqual({
+      run: "node server.js",
+      entrypoint: "server.js",
+      deploymentRun: "node dist/server.js",
+      deploymentBuild: "npm run build",
+      ports: [{ localPort: 3000, externalPort: 80 }, { localPort: 5173 }],
+      env: { API_URL: "https://api.example.com", SESSION_SECRET: "s3cr3t-value", PATH: "/home/runner/$REPL_SLUG/.config/npm/node_global/bin:$PATH" },
+      nodeVersion: "20",
+    });
+    expect(parseReplitNix(NIX)).toEqual({
+      packages: ["nodejs-18_x", "nodePackages.typescript-language-server", "cairo", "pkg-config", "somethingExotic"],
+      nodeVersion: "18",
+    });
+  });
+
+  test("translates config and archives the originals under .mofix/", async () => {
+    await fs.writeJson(path.join(dir, "package.json"), { name: "repl", scripts: { build: "tsc" } });
+    await fs.writeFile(path.join(dir, ".replit"), REPLIT);
+    await fs.writeFile(path.join(dir, "replit.nix"), NIX);
+
+    const r = await applyPlan(dir, makePlan(await replitTransform(dir)));
+    expect(r.success).toBe(true);
+
+    expect((await fs.readJson(path.join(dir, "package.json"))).scripts).toEqual({
+      build: "tsc",
+      dev: "node server.js",
+      start: "node dist/server.js",
+    });
+    expect(await fs.readFile(path.join(dir, ".env.example"), "utf8")).toBe("API_URL=\nSESSION_SECRET=\nPORT=3000\n");
+    expect(await fs.readFile(path.join(dir, ".nvmrc"), "utf8")).toBe("20\n");
+
+    expect(await fs.pathExists(path.join(dir, ".replit"))).toBe(false);
+    expect(await fs.pathExists(path.join(dir, "replit.nix"))).toBe(false);
+    expect(await fs.readFile(path.join(dir, ".mofix/replit/.replit"), "utf8")).toBe(REPLIT);
+    expect(await fs.readFile(path.join(dir, ".mofix/replit/replit.nix"), "utf8")).toBe(NIX);
+
+    const readme = await fs.readFile(path.join(dir, ".mofix/replit/README.md"), "utf8");
+    expect(readme).toContain("RUN apt-get update && apt-get install -y --no-install-recommends libcairo2-dev pkg-config somethingExotic");
+    expect(readme).toContain("RUN apk add --no-cache cairo-dev pkgconf somethingExotic");
+  });
+});
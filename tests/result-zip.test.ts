@@ -0,0 +1,40 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import AdmZip from "adm-zip";
+import { writeProjectZip } from "../apps/web/src/lib/result-zip.js";
+
+let dir: string;
+
+const write = async (rel: string, data: string) => {
+  const file = path.join(dir, "project", rel);
+  await fs.ensureDir(path.dirname(file));
+  await fs.writeFile(file, data);
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-zip-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("web result zip", () => {
+  test("keeps the original Replit config backup but drops apply journals and runs", async () => {
+    await write("package.json", "{}\n");
+    await write(".env.example", "PORT=\n");
+    await write(".mofix/replit/.replit", 'run = "npm start"\n');
+    await write(".mofix/replit/replit.nix", "{ pkgs }: {}\n");
+    await write(".mofix/journal/abc/manifest.json", "{}\n");
+    await write(".mofix/runs/abc.json", "{}\n");
+    await write("node_modules/x/index.js", "\n");
+
+    const zipPath = path.join(dir, "out.zip");
+    await writeProjectZip(path.join(dir, "project"), zipPath);
+
+    const entries = new AdmZip(zipPath).getEntries().map((e) => e.entryName).filter((n) => !n.endsWith("/")).sort();
+    expect(entries).toEqual([".env.example", ".mofix/replit/.replit", ".mofix/replit/replit.nix", "package.json", "server/.keep"]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { ProjectDetector } from "../packages/engine/src/core/project-detector.js";
+import { PlanGenerator } from "../packages/engine/src/core/plan-generator.js";
+import { Logger } from "../packages/engine/src/core/logger.js";
+import { applyTextPatches } from "../packages/engine/src/apply/runner.js";
+import { analyzeDeploy } from "../packages/engine/src/targets/deploy-info.js";
+import { locateServerEntry } from "../packages/engine/src/utils/server-entry.js";
+
+let dir: string;
+
+const write = async (rel: string, data: unknown) => {
+  const file = path.join(dir, rel);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof data === "string") await fs.writeFile(file, data);
+  else await fs.writeJson(file, data, { spaces: 2 });
+};
+
+const generate = async () => {
+  const detection = await new ProjectDetector(new Logger()).detect(dir);
+  const plan = await new PlanGenerator().generate(detection, { projectPath: dir });
+  const scripts = plan.steps.find((s) => s.type === "json.merge" && s.file === "package.json");
+  return {
+    framework: detection.framework,
+    steps: plan.steps,
+    scripts: scripts?.type === "json.merge" ? scripts.merge.scripts : undefined,
+    warnings: plan.warnings,
+  };
+};
+
+/** 플랜의 text.patch 를 파일 내용에 적용한 결과 */
+const patched = async (steps: Awaited<ReturnType<typeof generate>>["steps"], file: string) => {
+  const step = steps.find((s) => s.type === "text.patch" && s.file === file);
+  const text = await fs.readFile(path.join(dir, file), "utf8");
+  return step?.type === "text.patch" ? applyTextPatches(text, step.patches ?? []) : text;
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-srv-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("server adapters", () => {
+  test("NestJS: nest-cli/tsconfig, env PORT binding, nest scripts", async () => {
+    await write("package.json", {
+      name: "api",
+      dependencies: { "@nestjs/core": "^10.3.0", "@nestjs/platform-express": "^10.3.0", express: "^4.19.2" },
+      scripts: { start: "nest start", "start:prod": "node dist/main" },
+    });
+    await write(
+      "src/main.ts",
+      `import { NestFactory } from "@nestjs/core";\nimport { AppModule } from "./app.module";\n\nasync function bootstrap() {\n  const app = await NestFactory.create(AppModule);\n  await app.listen(3000);\n}\nbootstrap();\n`
+    );
+    const r = await generate();
+    expect(r.framework).toBe("nestjs");
+    expect(r.steps).toContainEqual(expect.objectContaining({ type: "create", file: "nest-cli.json" }));
+    const tsconfig = r.steps.find((s) => s.type === "create" && s.file === "tsconfig.json") as { content: string };
+    expect(JSON.parse(tsconfig.content).compilerOptions).toMatchObject({ outDir: "dist", rootDir: "src", emitDecoratorMetadata: true });
+    expect(await patched(r.steps, "src/main.ts")).toContain("await app.listen(Number(process.env.PORT) || 3000);");
+    expect(r.scripts).toEqual({ dev: "nest start --watch", build: "nest build" });
+    expect(r.steps).toContainEqual(expect.objectContaining({ type: "install", deps: ["@nestjs/cli"], dev: true }));
+    expect(r.warnings.join("\n")).not.toMatch(/No adapter found|not normalized/);
+  });
+
+  test("Fastify: entry from the listen call, host 0.0.0.0 and a /health route", async () => {
+    await write("package.json", { name: "f", main: "index.js", type: "module", dependencies: { fastify: "^4.28.0" } });
+    await write(
+      "server.js",
+      `import Fastify from "fastify";\nconst app = Fastify({ logger: true });\n\napp.get("/", async () => ({ hello: "world" }));\napp.listen({ port: 3000 });\n`
+    );
+    const r = await generate();
+    expect(r.framework).toBe("fastify");
+    expect(r.scripts).toEqual({ dev: "nodemon server.js", start: "node server.js" });
+    expect(r.steps).toContainEqual(expect.objectContaining({ type: "install", deps: ["nodemon"], dev: true }));
+
+    const out = await patched(r.steps, "server.js");
+    expect(out).toContain(`app.listen({ host: "0.0.0.0", port: Number(process.env.PORT) || 3000 });`);
+    expect(out).toContain(`const app = Fastify({ logger: true });\napp.get("/health", async () => ({ status: "ok" }));`);
+  });
+
+  test("Koa (TypeScript): main in tsconfig outDir maps back to the source entry", async () => {
+    await write("package.json", { name: "k", main: "build/server.js", dependencies: { koa: "^2.15.0" } });
+    await write("tsconfig.json", { compilerOptions: { outDir: "build", rootDir: "src" } });
+    await write("src/app.ts", `import Koa from "koa";\n\nexport const app = new Koa();\napp.use((ctx) => { ctx.body = "hi"; });\n`);
+    await write("src/server.ts", `import { app } from "./app";\n\nconst PORT = 8080;\napp.listen(PORT, "localhost");\n`);
+
+    const entry = await locateServerEntry(dir, "koa");
+    expect(entry).toMatchObject({ source: "src/server.ts", runtime: "build/server.js", via: "main", listenFile: "src/server.ts" });
+
+    const r = await generate();
+    expect(r.framework).toBe("koa");
+    expect(r.scripts).toEqual({ dev: "tsx watch src/server.ts", build: "tsc -p tsconfig.json", start: "node build/server.js" });
+    expect(await patched(r.steps, "src/server.ts")).toContain(`const PORT = Number(process.env.PORT) || 8080;\napp.listen(PORT, "0.0.0.0");`);
+    expect(await patched(r.steps, "src/app.ts")).toContain(`if (ctx.path === "/health")`);
+    expect(r.steps).toContainEqual(expect.objectContaining({ type: "lines.ensure", file: ".gitignore", lines: ["/build"] }));
+  });
+
+  test("Hono: existing health route is reused by deploy analysis", async () => {
+    await write("package.json", {
+      name: "h",
+      dependencies: { hono: "^4.6.0", "@hono/node-server": "^1.13.0" },
+      scripts: { build: "tsc", start: "node dist/index.js" },
+    });
+    await write(
+      "src/index.ts",
+      `import { serve } from "@hono/node-server";\nimport { Hono } from "hono";\n\nconst app = new Hono();\napp.get("/healthz", (c) => c.text("ok"));\n\nserve({ fetch: app.fetch, port: Number(process.env.PORT) || 3000 });\n`
+    );
+    const r = await generate();
+    expect(r.framework).toBe("hono");
+    expect(r.steps.filter((s) => s.type === "text.patch" && s.file === "src/index.ts")).toEqual([]);
+    expect(r.scripts).toEqual({ dev: "tsx watch src/index.ts" });
+
+    const info = await analyzeDeploy("hono", dir);
+    expect(info).toMatchObject({ entry: "dist/index.js", buildDir: "dist", healthPath: "/healthz", startCommand: "npm run start" });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import net from "net";
+import { spawn, type ChildProcess } from "child_process";
+import { TargetRegistry } from "../packages/engine/src/targets/target-registry.js";
+import { STATIC_SERVER_SOURCE } from "../packages/engine/src/targets/dockerfile.js";
+
+let dir: string;
+const targets = new TargetRegistry();
+
+const generate = async (id: string, framework: string) =>
+  (await targets.get(id).generateConfig!(framework, dir)) as any[];
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-target-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("deployment targets", () => {
+  test("registers vercel, netlify and docker by default", () => {
+    expect(targets.list().map((t) => t.id)).toEqual(["vercel", "netlify", "docker"]);
+  });
+
+  test("vite: dist publish dir with SPA fallbacks and the project's Node version", async () => {
+    await fs.writeJson(path.join(dir, "package.json"), { scripts: { build: "vite build" }, devDependencies: { vite: "5" } });
+    await fs.writeFile(path.join(dir, ".nvmrc"), "v18.19.0\n");
+
+    const [vercel, engines] = await generate("vercel", "vite");
+    expect(vercel.merge).toMatchObject({
+      framework: "vite",
+      outputDirectory: "dist",
+      rewrites: [{ source: "/(.*)", destination: "/index.html" }],
+    });
+    expect(engines.merge).toEqual({ engines: { node: "18.x" } });
+
+    const [netlify] = await generate("netlify", "vite");
+    expect(netlify.content).toContain('publish = "dist"');
+    expect(netlify.content).toContain('NODE_VERSION = "18"');
+    expect(netlify.content).toContain('to = "/index.html"');
+
+    const docker = await generate("docker", "vite");
+    expect(docker.map((s) => s.file)).toEqual(["Dockerfile", ".dockerignore", "docker/serve-static.mjs"]);
+    expect(docker[0].content).toContain("COPY --from=builder --chown=node:node /app/dist ./static");
+    expect(docker[0].content).toContain('CMD ["node", "serve-static.mjs", "./static", "--spa"]');
+  });
+
+  test("next: honours output mode", async () => {
+    await fs.writeJson(path.join(dir, "package.json"), { scripts: { build: "next build", start: "next start" } });
+    await fs.writeFile(path.join(dir, "next.config.js"), "module.exports = { output: 'standalone' };\n");
+    await fs.writeFile(path.join(dir, "package-lock.json"), "{}");
+
+    const [docker, ignore] = await generate("docker", "nextjs");
+    expect(docker.content).toContain("FROM node:20-alpine AS deps");
+    expect(docker.content).toContain("COPY package.json package-lock.json* npm-shrinkwrap.json* ./\nRUN npm ci\n");
+    expect(docker.content).toContain("RUN npm run build");
+    expect(docker.content).toContain("COPY --from=builder --chown=node:node /app/.next/standalone ./");
+    expect(docker.content).not.toContain("AS prod-deps");
+    expect(docker.content).toMatch(/USER node\nEXPOSE 3000\nHEALTHCHECK .*\n.*wget .*\nCMD \["node", "server.js"\]/);
+    expect(ignore).toMatchObject({ type: "lines.ensure", file: ".dockerignore" });
+    expect(ignore.lines).toEqual(expect.arrayContaining(["node_modules", ".next", ".env.*", "!.env.example"]));
+
+    const [netlify] = await generate("netlify", "nextjs");
+    expect(netlify.content).toContain('package = "@netlify/plugin-nextjs"');
+
+    await fs.writeFile(path.join(dir, "next.config.js"), "module.exports = { output: 'export' };\n");
+    const [vercel] = await generate("vercel", "nextjs");
+    expect(vercel.merge).toMatchObject({ framework: "nextjs", outputDirectory: "out" });
+  });
+
+  test("express: start command from the server entry", async () => {
+    await fs.writeJson(path.join(dir, "package.json"), { engines: { node: ">=22" }, scripts: { start: "node src/server.js" } });
+
+    const [docker] = await generate("docker", "express");
+    expect(docker.content).toContain("FROM node:22-alpine AS runner");
+    expect(docker.content).toContain("RUN npm install --omit=dev");
+    expect(docker.content).toContain("COPY --from=prod-deps --chown=node:node /app/node_modules ./node_modules");
+    expect(docker.content).toContain('CMD ["node", "src/server.js"]');
+
+    const vercel = await generate("vercel", "express");
+    expect(vercel).toHaveLength(1);
+    expect(vercel[0].merge.builds).toEqual([{ src: "src/server.js", use: "@vercel/node" }]);
+  });
+
+  test("every Node server framework deploys as a function, not a static site", async () => {
+    await fs.writeJson(path.join(dir, "package.json"), { type: "module", scripts: { start: "node server.js" } });
+    for (const framework of ["fastify", "koa", "hono"]) {
+      const [vercel] = await generate("vercel", framework);
+      expect(vercel.merge.builds).toEqual([{ src: "server.js", use: "@vercel/node" }]);
+
+      const [toml, fn, install] = await generate("netlify", framework);
+      expect(toml.content).toContain('functions = "netlify/functions"');
+      expect(toml.content).toContain('to = "/.netlify/functions/server/:splat"');
+      expect(fn.file).toBe("netlify/functions/server.mjs");
+      expect(fn.content).toContain('import app from "../../server.js";');
+      if (framework === "hono") {
+        expect(fn.content).toContain('import { handle } from "hono/aws-lambda";\n');
+        expect(fn.content).toContain("export const handler = handle(app);");
+        expect(install).toBeUndefined();
+      } else {
+        expect(fn.content).toContain("export const handler = serverless(app);");
+        expect(install.deps).toEqual(["serverless-http"]);
+      }
+    }
+
+    await fs.writeJson(path.join(dir, "package.json"), { scripts: { build: "nest build", "start:prod": "node dist/main" } });
+    await fs.writeJson(path.join(dir, "nest-cli.json"), { sourceRoot: "src" });
+    await fs.writeJson(path.join(dir, "tsconfig.json"), { compilerOptions: { outDir: "./dist" } });
+    await fs.outputFile(path.join(dir, "src/main.ts"), "async function bootstrap() {}\nbootstrap();\n");
+    const [vercel] = await generate("vercel", "nestjs");
+    expect(vercel.merge.builds).toEqual([{ src: "dist/main.js", use: "@vercel/node" }]);
+    const [, nest] = await generate("netlify", "nestjs");
+    expect(nest.file).toBe("netlify/functions/server.js");
+    expect(nest.content).toContain('const { AppModule } = require("../../dist/app.module.js");');
+    expect(nest.content).toContain("server = serverless(app.getHttpAdapter().getInstance());");
+    expect(nest.content).toContain("module.exports.handler = async (event, context) => {");
+  });
+
+  test("docker: yarn classic vs berry install flags", async () => {
+    await fs.writeJson(path.join(dir, "package.json"), { scripts: { start: "node server.js" } });
+    await fs.writeFile(path.join(dir, "yarn.lock"), "# yarn lockfile v1\n");
+    const [classic] = await generate("docker", "express");
+    expect(classic.content).toContain("RUN yarn install --frozen-lockfile\n");
+    expect(classic.content).toContain("RUN yarn install --frozen-lockfile --production\n");
+
+    await fs.writeFile(path.join(dir, ".yarnrc.yml"), "nodeLinker: node-modules\n");
+    const [berry] = await generate("docker", "express");
+    expect(berry.content).toContain("RUN yarn install --immutable\n");
+    expect(berry.content).toContain("RUN yarn workspaces focus --production\n");
+    expect(berry.content).not.toContain("--frozen-lockfile");
+  });
+
+  test("static server: a malformed escape is a 400 and does not bring the server down", async () => {
+    await fs.outputFile(path.join(dir, "static/index.html"), "<p>home</p>");
+    await fs.writeFile(path.join(dir, "serve-static.mjs"), STATIC_SERVER_SOURCE);
+    const port = await new Promise<number>((resolve) => {
+      const srv = net.createServer().listen(0, () => {
+        const { port } = srv.address() as net.AddressInfo;
+        srv.close(() => resolve(port));
+      });
+    });
+
+    const child: ChildProcess = spawn(process.execPath, ["serve-static.mjs", "./static"], { cwd: dir, env: { ...process.env, PORT: String(port) } });
+    try {
+      await new Promise((resolve, reject) => {
+        child.stdout!.once("data", resolve);
+        child.once("exit", reject);
+      });
+      const base = `http://127.0.0.1:${port}`;
+      expect((await fetch(`${base}/%E0%A4%A`)).status).toBe(400);
+      const home = await fetch(`${base}/`);
+      expect(home.status).toBe(200);
+      expect(await home.text()).toBe("<p>home</p>");
+      expect((await fetch(`${base}/missing.txt`)).status).toBe(404);
+    } finally {
+      child.kill();
+    }
+  });
+});
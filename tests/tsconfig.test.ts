@@ -0,0 +1,88 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { buildAutoFixes } from "../packages/engine/src/fixes/rules.js";
+import { applyPatches } from "../packages/engine/src/apply/runner.js";
+import { loadTsConfig } from "../packages/engine/src/utils/tsconfig.js";
+import { mergeJsonc, parseJsonc } from "../packages/engine/src/utils/jsonc.js";
+
+let dir: string;
+
+const write = async (rel: string, data: unknown) => {
+  const file = path.join(dir, rel);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof data === "string") await fs.writeFile(file, data);
+  else await fs.writeJson(file, data, { spaces: 2 });
+};
+
+const TSCONFIG = `{
+  // 팀 공통 설정
+  "extends": ["@tsconfig/node18/tsconfig.json", "./tsconfig.base"],
+  "compilerOptions": {
+    "outDir": "dist", /* 빌드 결과 */
+    "strict": true,
+  },
+  "include": ["src"],
+}
+`;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-tsconfig-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("tsconfig loader", () => {
+  test("reads JSONC and resolves relative + package extends into effective options", async () => {
+    await write("node_modules/@tsconfig/node18/tsconfig.json", `{\n  // node 18\n  "compilerOptions": { "module": "node16", "target": "es2022", "lib": ["es2023"] },\n}\n`);
+    await write("tsconfig.base.json", { compilerOptions: { target: "es2020", baseUrl: "./src" } });
+    await write("tsconfig.json", TSCONFIG);
+
+    const ts = (await loadTsConfig(dir))!;
+    expect(ts.layers.map((l) => path.relative(dir, l.file).split(path.sep).join("/"))).toEqual([
+      "tsconfig.json",
+      "tsconfig.base.json",
+      "node_modules/@tsconfig/node18/tsconfig.json",
+    ]);
+    expect(ts.compilerOptions).toEqual({ module: "node16", target: "es2020", lib: ["es2023"], baseUrl: "src", outDir: "dist", strict: true });
+    expect(ts.include).toEqual(["src"]);
+    expect(ts.unresolved).toEqual([]);
+  });
+
+  test("ESM fix edits a commented tsconfig in place instead of recreating it", async () => {
+    await write("package.json", { name: "api", dependencies: { express: "^4.19.2" }, devDependencies: { typescript: "^5.4.0" } });
+    await write("node_modules/@tsconfig/node18/tsconfig.json", { compilerOptions: { module: "node16", esModuleInterop: true } });
+    await write("tsconfig.base.json", {});
+    await write("tsconfig.json", TSCONFIG);
+    await write("src/index.ts", `export const ok = true;\n`);
+
+    const fix = (await buildAutoFixes(dir, "express")).find((f) => f.id === "esm-cjs-consistency")!;
+    const tsStep = fix.plan.find((s: any) => s.file === "tsconfig.json");
+    // esModuleInterop 은 상속받았으므로 다시 적지 않음
+    expect(tsStep).toEqual(expect.objectContaining({ merge: { compilerOptions: { module: "NodeNext", moduleResolution: "NodeNext" } } }));
+
+    await applyPatches(dir, [tsStep as any]);
+    const text = await fs.readFile(path.join(dir, "tsconfig.json"), "utf8");
+    expect(text).toBe(`{
+  // 팀 공통 설정
+  "extends": ["@tsconfig/node18/tsconfig.json", "./tsconfig.base"],
+  "compilerOptions": {
+    "outDir": "dist", /* 빌드 결과 */
+    "strict": true,
+    "module": "NodeNext",
+    "moduleResolution": "NodeNext",
+  },
+  "include": ["src"],
+}
+`);
+  });
+
+  test("mergeJsonc keeps formatting of untouched values", () => {
+    const src = `{ "a": 1, "b": { "c": [1, 2] } }`;
+    expect(mergeJsonc(src, { a: 1, b: { d: true } })).toBe(`{ "a": 1, "b": { "c": [1, 2], "d": true } }`);
+    expect(parseJsonc(mergeJsonc(src, { b: { c: [3] } }))).toEqual({ a: 1, b: { c: [3] } });
+  });
+});
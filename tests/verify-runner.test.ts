@@ -0,0 +1,51 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { verifyProject } from "../packages/engine/src/services/verify-runner.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-verify-"));
+  await fs.writeFile(
+    path.join(dir, "server.js"),
+    'require("http").createServer((q, r) => r.end("ok")).listen(process.env.PORT, "127.0.0.1");\n'
+  );
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("verifyProject", () => {
+  test("installs, builds, starts on a free port and passes the health check", async () => {
+    await fs.writeJson(path.join(dir, "package.json"), {
+      name: "verify-ok",
+      version: "1.0.0",
+      scripts: { build: "node -e \"require('fs').writeFileSync('built.txt', '1')\"", start: "node server.js" },
+    });
+
+    const r = await verifyProject({ projectDir: dir, timeoutInstallMs: 60_000, timeoutRunMs: 15_000 });
+
+    expect([r.install.ok, r.build.ok, r.run?.ok]).toEqual([true, true, true]);
+    expect(await fs.pathExists(path.join(dir, "built.txt"))).toBe(true);
+    expect(r.run?.healthUrl).toBe(`http://127.0.0.1:${r.run?.port}/`);
+    expect(r.logs).toContain("=== build: npm run build (ok");
+  }, 90_000);
+
+  test("a failing build skips the run phase and keeps the build log", async () => {
+    await fs.writeJson(path.join(dir, "package.json"), {
+      name: "verify-fail",
+      version: "1.0.0",
+      scripts: { build: "node -e \"console.error('boom'); process.exit(2)\"", start: "node server.js" },
+    });
+
+    const r = await verifyProject({ projectDir: dir, timeoutInstallMs: 60_000 });
+
+    expect(r.install.ok).toBe(true);
+    expect(r.build.ok).toBe(false);
+    expect(r.build.logs).toContain("boom");
+    expect(r.run).toMatchObject({ ok: false, skipped: true, reason: "build failed" });
+  }, 90_000);
+});
@@ -0,0 +1,122 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import crypto from "crypto";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import {
+  VersionResolver,
+  describeProvenance,
+  parseBunLock,
+  parsePnpmLock,
+  parseYarnLock,
+} from "../packages/engine/src/utils/version-resolver.js";
+import { PlanExecutor } from "../packages/engine/src/core/plan-executor.js";
+import { makePlan } from "../packages/engine/src/core/plan-schema.js";
+
+let dir: string;
+
+const write = async (rel: string, data: unknown) => {
+  const file = path.join(dir, rel);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof data === "string") await fs.writeFile(file, data);
+  else await fs.writeJson(file, data, { spaces: 2 });
+};
+
+/** cacache 형식으로 packument 하나를 심어 둔 가짜 npm 캐시 */
+async function fakeNpmCache(name: string, latest: string): Promise<string> {
+  const cacheDir = path.join(dir, ".npm-cache");
+  const body = JSON.stringify({ name, "dist-tags": { latest }, versions: {} });
+  const digest = crypto.createHash("sha512").update(body).digest();
+  const integrity = `sha512-${digest.toString("base64")}`;
+  const hex = digest.toString("hex");
+  await write(`.npm-cache/_cacache/content-v2/sha512/${hex.slice(0, 2)}/${hex.slice(2, 4)}/${hex.slice(4)}`, body);
+
+  const key = `make-fetch-happen:request-cache:https://registry.npmjs.org/${name.replace("/", "%2f")}`;
+  const h = crypto.createHash("sha256").update(key).digest("hex");
+  const entry = JSON.stringify({ key, integrity, time: 0, size: body.length });
+  await write(`.npm-cache/_cacache/index-v5/${h.slice(0, 2)}/${h.slice(2, 4)}/${h.slice(4)}`, `\n${"0".repeat(40)}\t${entry}`);
+  return cacheDir;
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-versions-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("version resolver", () => {
+  test("parses yarn classic/berry, pnpm and bun lockfiles", () => {
+    const yarn = parseYarnLock(
+      '"@babel/core@^7.0.0", "@babel/core@^7.22.0":\n  version "7.24.0"\n\nlodash@npm:^4.17.0:\n  version: 4.17.21\n'
+    );
+    expect(Object.fromEntries(yarn)).toEqual({ "@babel/core": "7.24.0", lodash: "4.17.21" });
+
+    const pnpm = parsePnpmLock(
+      "lockfileVersion: '9.0'\npackages:\n  '@types/node@20.11.5':\n    resolution: {}\n  zod@3.22.4:\n    resolution: {}\n  /axios/0.27.2:\n    resolution: {}\n"
+    );
+    expect(Object.fromEntries(pnpm)).toEqual({ "@types/node": "20.11.5", zod: "3.22.4", axios: "0.27.2" });
+
+    const bun = parseBunLock('{ "packages": { "react": ["react@18.2.0", "", {}, "sha512-x"], "@scope/a": ["@scope/a@1.0.0-beta.1"] } }');
+    expect(Object.fromEntries(bun)).toEqual({ react: "18.2.0", "@scope/a": "1.0.0-beta.1" });
+  });
+
+  test("consults lockfile → workspace lockfiles → snapshot → npm cache → peers, with provenance", async () => {
+    await write("package.json", { name: "mono", private: true, workspaces: ["apps/*"] });
+    await write("package-lock.json", {
+      lockfileVersion: 3,
+      packages: { "": {}, "node_modules/typescript": { version: "5.4.5" } },
+    });
+    await write("apps/web/package.json", { name: "web", dependencies: { "@vitejs/plugin-react": "^4.0.0" } });
+    await write("apps/web/yarn.lock", 'axios@^1.6.0:\n  version "1.6.8"\n');
+    await write("apps/api/package.json", { name: "api" });
+    await write("apps/api/pnpm-lock.yaml", "packages:\n  /zod@3.23.8:\n    resolution: {}\n  /axios@0.21.4:\n    resolution: {}\n");
+    await write("apps/web/node_modules/@vitejs/plugin-react/package.json", {
+      name: "@vitejs/plugin-react",
+      peerDependencies: { "vite-plugin-peer-only": "^2.1.0" },
+    });
+
+    const versions = await VersionResolver.load(path.join(dir, "apps/web"), {
+      npmCacheDir: await fakeNpmCache("left-pad-ng", "3.1.4"),
+    });
+    const show = (name: string) => {
+      const r = versions.resolve(name);
+      return `${r.range} (${describeProvenance(r)})`;
+    };
+
+    expect(show("axios")).toBe("^1.6.8 (locked in yarn.lock)");
+    expect(show("typescript")).toBe("^5.4.5 (locked in workspace package-lock.json)");
+    expect(show("zod")).toBe("^3.23.8 (locked in workspace apps/api/pnpm-lock.yaml)");
+    expect(show("@types/node")).toBe("^20.19.1 (engine registry snapshot)");
+    expect(show("left-pad-ng")).toBe("^3.1.4 (local npm cache)");
+    expect(show("vite-plugin-peer-only")).toBe("^2.1.0 (peer range of @vitejs/plugin-react)");
+    expect(show("totally-unknown-pkg")).toBe("latest (unresolved, installs latest)");
+  });
+
+  test("offline resolver never returns the old ^1.0.0 placeholder for known packages", () => {
+    const versions = VersionResolver.offline({ npmCacheDir: false });
+    expect(versions.range("tailwindcss")).toBe("^3.4.17");
+    expect(versions.range("@types/node")).toBe("^20.19.1");
+    expect(versions.range("no-such-package-xyz")).toBe("latest");
+  });
+
+  test("PlanExecutor installs the resolved range instead of latest", async () => {
+    await write("package.json", { name: "app", dependencies: { axios: "^1.6.0" } });
+    await write("package-lock.json", { lockfileVersion: 3, packages: { "": {}, "node_modules/axios": { version: "1.6.8" } } });
+    // 실제 npm 대신 인자만 기록하는 가짜 npm
+    await write("bin/npm", `#!/bin/sh\necho "$@" > "${path.join(dir, "npm-args.txt")}"\n`);
+    await fs.chmod(path.join(dir, "bin/npm"), 0o755);
+
+    const noop = () => {};
+    const logger = { info: noop, step: noop, success: noop, warning: noop, error: noop };
+    const PATH = process.env.PATH;
+    process.env.PATH = `${path.join(dir, "bin")}${path.delimiter}${PATH}`;
+    try {
+      await new PlanExecutor(logger).execute(makePlan([{ type: "install", deps: ["axios", "zod@3.22.4"] }]), { projectPath: dir, logger } as any);
+    } finally {
+      process.env.PATH = PATH;
+    }
+    expect((await fs.readFile(path.join(dir, "npm-args.txt"), "utf8")).trim()).toBe("install axios@^1.6.8 zod@3.22.4 --save");
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { detectWorkspaces, parsePnpmWorkspaceYaml } from "../packages/engine/src/utils/workspaces.js";
+import { detect, plan } from "../packages/engine/src/index.js";
+
+let dir: string;
+
+const write = async (rel: string, data: unknown) => {
+  const file = path.join(dir, rel);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof data === "string") await fs.writeFile(file, data);
+  else await fs.writeJson(file, data, { spaces: 2 });
+};
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "mofix-ws-"));
+});
+
+afterEach(async () => {
+  await fs.remove(dir);
+});
+
+describe("workspaces", () => {
+  test("parses pnpm-workspace.yaml and honours exclude patterns", async () => {
+    expect(parsePnpmWorkspaceYaml("packages:\n  - 'apps/*'\n  - \"packages/**\" # libs\n  - '!**/fixtures/**'\n")).toEqual([
+      "apps/*",
+      "packages/**",
+      "!**/fixtures/**",
+    ]);
+
+    await write("package.json", { name: "root", private: true });
+    await write("pnpm-workspace.yaml", "packages:\n  - 'apps/*'\n  - 'packages/**'\n  - '!**/fixtures/**'\n");
+    await write("apps/web/package.json", { name: "web" });
+    await write("packages/ui/package.json", { name: "@acme/ui" });
+    await write("packages/ui/fixtures/demo/package.json", { name: "demo" });
+    await write("apps/notes/README.md", "no manifest");
+
+    const ws = await detectWorkspaces(dir);
+    expect(ws?.tools).toEqual(["pnpm"]);
+    expect(ws?.packages).toEqual([
+      { name: "web", dir: "apps/web" },
+      { name: "@acme/ui", dir: "packages/ui" },
+    ]);
+  });
+
+  test("npm workspaces: detects a framework per package and groups plan steps", async () => {
+    await write("package.json", { name: "root", private: true, workspaces: ["apps/*"] });
+    await write("turbo.json", { pipeline: {} });
+    await write("apps/site/package.json", { name: "site", dependencies: { next: "14.0.0" } });
+    await write("apps/admin/package.json", { name: "admin", devDependencies: { vite: "5.0.0" } });
+
+    const d = await detect(dir);
+    expect(d.workspaces?.tools).toEqual(["npm", "turbo"]);
+    expect(d.workspaces?.packages.map((p) => [p.name, p.framework])).toEqual([
+      ["admin", "vite"],
+      ["site", "nextjs"],
+    ]);
+
+    const p = await plan(d);
+    expect(p.packages).toEqual([
+      { name: "admin", dir: "apps/admin", framework: "vite" },
+      { name: "site", dir: "apps/site", framework: "nextjs" },
+    ]);
+    // 루트 공통 스텝은 package 없이, 패키지 스텝은 경로가 패키지 기준으로 붙음
+    expect(p.steps.find((s) => s.type === "lines.ensure")?.package).toBeUndefined();
+    expect(
+      p.steps.filter((s) => s.package).map((s) => [s.package, s.type === "json.merge" ? s.file : s.type])
+    ).toEqual([
+      ["apps/admin", "apps/admin/package.json"],
+      ["apps/site", "apps/site/package.json"],
+    ]);
+  });
+});